@@ -0,0 +1,24 @@
+/**
+ * Runs the Tally fixture checks (src/server/tally/fixture-harness.ts) and exits
+ * non-zero if any fail. No Tally connection or database is needed.
+ *
+ *   npm run test:tally-fixtures
+ */
+
+import { runTallyFixtureChecks } from "../src/server/tally/fixture-harness";
+
+async function main() {
+  const checks = await runTallyFixtureChecks();
+  for (const check of checks) {
+    console.log(`${check.ok ? "✓" : "✗"} ${check.name}${check.error ? `\n    ${check.error}` : ""}`);
+  }
+
+  const failed = checks.filter((c) => !c.ok).length;
+  console.log(`\n${checks.length - failed} passed, ${failed} failed`);
+  process.exitCode = failed === 0 ? 0 : 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,11 +1,14 @@
 "use client"
 
-import { Button } from "@/components/ui/button"
+import Link from "next/link"
+import { Button, buttonVariants } from "@/components/ui/button"
 import { ImportControls } from "@/components/import-controls"
+import { CompanySwitcher } from "@/components/company-switcher"
 import { useAuthContext } from "@/components/auth-provider"
-import { Upload, User } from "lucide-react"
+import { Calculator, Database, Upload, User } from "lucide-react"
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card"
 import { useIsMobile } from "@/lib/use-is-mobile"
+import { cn } from "@/lib/utils"
 
 export default function AccountPage() {
   const { username, isOwner, token, logout } = useAuthContext()
@@ -24,6 +27,9 @@ export default function AccountPage() {
             Signed in as <span className="font-medium text-foreground">{username}</span>
           </CardDescription>
         </CardHeader>
+        <CardContent className="md:hidden empty:hidden">
+          <CompanySwitcher className="w-full" />
+        </CardContent>
         <CardFooter>
           <Button variant="destructive" onClick={logout} className="rounded-xl">Sign out</Button>
         </CardFooter>
@@ -46,6 +52,40 @@ export default function AccountPage() {
           )}
         </CardContent>
       </Card>
+
+      {isOwner && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="h-5 w-5 text-primary" />
+              Pricing rules
+            </CardTitle>
+            <CardDescription>Retail, Daraz, customer and institution formulas, with per-brand overrides.</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Link href="/settings/pricing" className={cn(buttonVariants({ variant: "outline" }), "rounded-xl")}>
+              Manage pricing rules
+            </Link>
+          </CardFooter>
+        </Card>
+      )}
+
+      {isOwner && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5 text-primary" />
+              Tally setup
+            </CardTitle>
+            <CardDescription>Pick the Tally companies and godowns to sync, and test them before saving.</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Link href="/settings/tally" className={cn(buttonVariants({ variant: "outline" }), "rounded-xl")}>
+              Open Tally setup
+            </Link>
+          </CardFooter>
+        </Card>
+      )}
     </div>
   )
 }
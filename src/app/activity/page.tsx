@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react"
 import { ActivityTable, type ActivityItem } from "@/components/activity-table"
+import { useCompany } from "@/components/company-provider"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
@@ -13,6 +14,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { withCompany } from "@/lib/companies"
 import { cn } from "@/lib/utils"
 import { CalendarClock, Filter, RefreshCcw, Search, X } from "lucide-react"
 
@@ -25,6 +27,7 @@ async function getJson<T>(url: string): Promise<T> {
 }
 
 export default function ActivityPage() {
+  const { companyId } = useCompany()
   const [items, setItems] = useState<ActivityItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -37,14 +40,14 @@ export default function ActivityPage() {
     setLoading(true)
     setError(null)
     try {
-      const body = await getJson<{ items: ActivityItem[] }>("/api/changes?limit=300")
+      const body = await getJson<{ items: ActivityItem[] }>(withCompany("/api/changes?limit=300", companyId))
       setItems(body.items ?? [])
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to load activity.")
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [companyId])
 
   useEffect(() => {
     refresh().catch(() => {})
@@ -160,8 +163,11 @@ export default function ActivityPage() {
                 <SelectItem value="all">All types</SelectItem>
                 <SelectItem value="NEW_PRODUCT">New product</SelectItem>
                 <SelectItem value="STOCK_DROP">Stock drop</SelectItem>
+                <SelectItem value="STOCK_INCREASE">Stock increase</SelectItem>
                 <SelectItem value="OUT_OF_STOCK">Out of stock</SelectItem>
+                <SelectItem value="BACK_IN_STOCK">Back in stock</SelectItem>
                 <SelectItem value="PRICE_CHANGE">Price change</SelectItem>
+                <SelectItem value="REMOVED_FROM_EXPORT">Removed from export</SelectItem>
               </SelectContent>
             </Select>
 
@@ -4,6 +4,7 @@ import Database from "better-sqlite3";
 import { assertOwner } from "@/server/auth";
 import { db } from "@/server/db";
 import { nameKeyFromName, normalizeWhitespace } from "@/server/parsers/common";
+import { DEFAULT_COMPANY_ID } from "@/lib/companies";
 import type { Availability } from "@/lib/domain";
 import type { UpsertStockItem } from "@/server/db/types";
 
@@ -53,6 +54,14 @@ export async function POST(request: Request) {
       return Response.json({ ok: false, error: "SQLite DB is missing required table: products" }, { status: 400 });
     }
 
+    // Files from before 0013_product_cost have no cost column.
+    const productColumns = sqlite.prepare(`PRAGMA table_info(products)`).all() as Array<{ name: string }>;
+    const costColumn = productColumns.some((c) => c.name === "cost_price") ? "p.cost_price" : "NULL";
+    // ...and files from before 0017_companies have every product in the default company.
+    const companyColumn = productColumns.some((c) => c.name === "company_id") ? "p.company_id" : "NULL";
+    // ...and files from before 0018_stock_groups have no categories.
+    const categoryColumn = productColumns.some((c) => c.name === "category") ? "p.category" : "NULL";
+
     const rows = sqlite
       .prepare(
         `
@@ -61,9 +70,12 @@ export async function POST(request: Request) {
           p.name,
           p.name_key AS nameKey,
           p.brand,
+          ${categoryColumn} AS category,
           p.stock_qty AS stockQty,
           p.unit,
           p.availability,
+          ${costColumn} AS costPrice,
+          ${companyColumn} AS companyId,
           p.last_seen_at AS lastSeenAt,
           p.created_at AS createdAt,
           p.updated_at AS updatedAt,
@@ -87,16 +99,28 @@ export async function POST(request: Request) {
         name,
         nameKey,
         brand: r.brand == null ? null : normalizeWhitespace(String(r.brand)),
+        category: r.category == null ? null : normalizeWhitespace(String(r.category)),
         stockQty: r.stockQty == null ? null : Number(r.stockQty),
         unit: r.unit == null ? null : normalizeWhitespace(String(r.unit)),
         availability: parseAvailability(r.availability),
+        costPrice: r.costPrice == null ? null : Number(r.costPrice),
         lastSeenAt: r.lastSeenAt == null ? now : Number(r.lastSeenAt),
         createdAt: r.createdAt == null ? now : Number(r.createdAt),
         updatedAt: r.updatedAt == null ? now : Number(r.updatedAt),
       };
     });
 
-    await db.upsertStock(items);
+    // Products are unique per company, so each company's rows go in as their own batch.
+    const byCompany = new Map<string, UpsertStockItem[]>();
+    rows.forEach((r, i) => {
+      const companyId = r.companyId == null ? DEFAULT_COMPANY_ID : String(r.companyId);
+      const list = byCompany.get(companyId) ?? [];
+      list.push(items[i]);
+      byCompany.set(companyId, list);
+    });
+    for (const [companyId, companyItems] of byCompany) {
+      await db.upsertStock(companyItems, { companyId });
+    }
 
     let pricesCopied = 0;
     for (const r of rows) {
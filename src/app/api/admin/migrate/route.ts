@@ -0,0 +1,39 @@
+import { assertOwner } from "@/server/auth";
+import { db } from "@/server/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET reports applied and pending schema migrations; POST applies the pending ones in order.
+ */
+export async function GET(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  try {
+    const status = await db.getMigrationStatus();
+    return Response.json({ ok: true, provider: db.kind, ...status });
+  } catch (e) {
+    console.error("[admin:migrate:status]", e);
+    return Response.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to read migration status." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  try {
+    const result = await db.migrate();
+    return Response.json({ ok: true, provider: db.kind, ...result });
+  } catch (e) {
+    console.error("[admin:migrate]", e);
+    const status = await db.getMigrationStatus().catch(() => null);
+    return Response.json(
+      { ok: false, provider: db.kind, error: e instanceof Error ? e.message : "Migration failed.", ...status },
+      { status: 500 },
+    );
+  }
+}
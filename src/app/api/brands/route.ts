@@ -1,9 +1,10 @@
 import { db } from "@/server/db";
+import { requestCompanyId } from "@/server/companies";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-  const brands = await db.listBrands();
+export async function GET(request: Request) {
+  const brands = await db.listBrands(requestCompanyId(request));
   return Response.json({ brands });
 }
@@ -0,0 +1,10 @@
+import { db } from "@/server/db";
+import { requestCompanyId } from "@/server/companies";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const categories = await db.listCategories(requestCompanyId(request));
+  return Response.json({ categories });
+}
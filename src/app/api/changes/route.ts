@@ -1,4 +1,5 @@
 import { db } from "@/server/db"
+import { requestCompanyId } from "@/server/companies"
 import type { ProductChangeType } from "@/server/db/types"
 
 export const runtime = "nodejs"
@@ -9,6 +10,7 @@ export async function GET(req: Request) {
   const limitParam = searchParams.get("limit")
   const sinceParam = searchParams.get("since")
   const typesParam = searchParams.get("types")
+  const batchId = searchParams.get("batchId")?.trim() || undefined
 
   const limit = limitParam ? Math.max(1, Math.min(300, Number.parseInt(limitParam, 10))) : 50
   const since = sinceParam ? Number.parseInt(sinceParam, 10) : undefined
@@ -19,6 +21,6 @@ export async function GET(req: Request) {
         .filter(Boolean) as ProductChangeType[]
     : undefined
 
-  const items = await db.listChanges({ limit, since, changeTypes })
+  const items = await db.listChanges({ limit, since, changeTypes, batchId, companyId: requestCompanyId(req) })
   return Response.json({ items })
 }
@@ -0,0 +1,66 @@
+import { COMPANY_ID } from "@/lib/companies";
+import { db } from "@/server/db";
+import { assertOwner } from "@/server/auth";
+import { listCompanies } from "@/server/companies";
+import type { CompanyInput } from "@/server/db/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_COMPANIES = 20;
+const MAX_GODOWNS = 50;
+
+function parseCompanies(body: unknown): CompanyInput[] {
+  if (!body || typeof body !== "object") throw new Error("Expected a JSON object.");
+  const input = (body as Record<string, unknown>).companies;
+  if (!Array.isArray(input)) throw new Error("companies must be an array.");
+  if (input.length === 0) throw new Error("At least one company is required.");
+  if (input.length > MAX_COMPANIES) throw new Error(`At most ${MAX_COMPANIES} companies are allowed.`);
+
+  const companies: CompanyInput[] = [];
+  for (const [i, raw] of input.entries()) {
+    if (!raw || typeof raw !== "object") throw new Error(`Company ${i + 1} must be an object.`);
+    const item = raw as Record<string, unknown>;
+    const id = typeof item.id === "string" ? item.id.trim().toLowerCase() : "";
+    if (!COMPANY_ID.test(id)) {
+      throw new Error(`Company ${i + 1}: id must be lowercase letters, digits and dashes (e.g. "trading").`);
+    }
+    if (companies.some((c) => c.id === id)) throw new Error(`${id} is listed twice.`);
+    const name = typeof item.name === "string" ? item.name.trim() : "";
+    if (!name) throw new Error(`${id}: name is required.`);
+    const tallyCompany = typeof item.tallyCompany === "string" ? item.tallyCompany.trim() : "";
+    if (!tallyCompany) throw new Error(`${id}: tallyCompany must be the company name as loaded in Tally.`);
+    const godownsInput = item.godowns ?? [];
+    if (!Array.isArray(godownsInput) || godownsInput.some((g) => typeof g !== "string")) {
+      throw new Error(`${id}: godowns must be an array of names.`);
+    }
+    const godowns = Array.from(new Set((godownsInput as string[]).map((g) => g.trim()).filter(Boolean)));
+    if (godowns.length > MAX_GODOWNS) throw new Error(`${id}: at most ${MAX_GODOWNS} godowns are allowed.`);
+    const active = item.active ?? true;
+    if (typeof active !== "boolean") throw new Error(`${id}: active must be true or false.`);
+    companies.push({ id, name, tallyCompany, godowns, active });
+  }
+  return companies;
+}
+
+export async function GET() {
+  const companies = await listCompanies();
+  return Response.json({ ok: true, companies });
+}
+
+export async function PUT(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const body = await request.json().catch(() => null);
+
+  let companies: CompanyInput[];
+  try {
+    companies = parseCompanies(body);
+  } catch (e) {
+    return Response.json({ ok: false, error: e instanceof Error ? e.message : "Invalid companies." }, { status: 400 });
+  }
+
+  const saved = await db.saveCompanies(companies);
+  if (!saved.ok) return Response.json({ ok: false, error: saved.error }, { status: 400 });
+  return Response.json({ ok: true, companies: saved.companies });
+}
@@ -0,0 +1,53 @@
+import { BASE_CURRENCY, CURRENCY_CODE } from "@/lib/currency";
+import { db } from "@/server/db";
+import { assertOwner, requestActor } from "@/server/auth";
+import type { ExchangeRateInput } from "@/server/db/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_RATES = 20;
+
+function parseRates(body: unknown): ExchangeRateInput[] {
+  if (!body || typeof body !== "object") throw new Error("Expected a JSON object.");
+  const input = (body as Record<string, unknown>).rates;
+  if (!Array.isArray(input)) throw new Error("rates must be an array.");
+  if (input.length > MAX_RATES) throw new Error(`At most ${MAX_RATES} currencies are allowed.`);
+
+  const rates: ExchangeRateInput[] = [];
+  for (const [i, raw] of input.entries()) {
+    if (!raw || typeof raw !== "object") throw new Error(`Rate ${i + 1} must be an object.`);
+    const item = raw as Record<string, unknown>;
+    const currency = typeof item.currency === "string" ? item.currency.trim().toUpperCase() : "";
+    if (!CURRENCY_CODE.test(currency)) throw new Error(`Rate ${i + 1}: currency must be a 3-letter code (e.g. USD).`);
+    if (currency === BASE_CURRENCY) throw new Error(`${BASE_CURRENCY} is the base currency and has no rate.`);
+    if (rates.some((r) => r.currency === currency)) throw new Error(`${currency} is listed twice.`);
+    const rate = typeof item.rate === "string" && item.rate.trim() ? Number(item.rate) : item.rate;
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`${currency}: rate must be a positive number of ${BASE_CURRENCY}.`);
+    }
+    rates.push({ currency, rate });
+  }
+  return rates;
+}
+
+export async function GET() {
+  const rates = await db.listExchangeRates();
+  return Response.json({ ok: true, base: BASE_CURRENCY, rates });
+}
+
+export async function PUT(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const body = await request.json().catch(() => null);
+
+  let rates: ExchangeRateInput[];
+  try {
+    rates = parseRates(body);
+  } catch (e) {
+    return Response.json({ ok: false, error: e instanceof Error ? e.message : "Invalid exchange rates." }, { status: 400 });
+  }
+
+  const saved = await db.saveExchangeRates(rates, requestActor(request));
+  return Response.json({ ok: true, base: BASE_CURRENCY, rates: saved });
+}
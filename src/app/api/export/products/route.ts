@@ -1,7 +1,8 @@
 import ExcelJS from "exceljs"
 import { NextRequest } from "next/server"
 import { db } from "@/server/db"
-import { computeDerivedPrices } from "@/lib/pricing"
+import { requestCompanyId } from "@/server/companies"
+import { computeDerivedPrices, grossMargin, LOW_MARGIN_PERCENT, marginLevel, resolvePricingRule, RETAIL_TIER_ID } from "@/lib/pricing"
 
 export const runtime = "nodejs"
 
@@ -33,20 +34,31 @@ function uniqueSheetName(base: string, used: Set<string>): string {
   return fallback
 }
 
-export async function GET(_req: NextRequest) {
+export async function GET(req: NextRequest) {
+  const companyId = requestCompanyId(req)
   const workbook = new ExcelJS.Workbook()
   workbook.creator = "Tally Stockviewer"
   workbook.created = new Date()
 
   // Build list of brand buckets, including unbranded if present
-  const brands = await db.listBrands()
+  const brands = await db.listBrands(companyId)
 
   // Determine if there are any unbranded products; if so, add a bucket
-  const unbranded = await db.listProducts({ brand: "__unknown__", limit: 1 })
+  const unbranded = await db.listProducts({ brand: "__unknown__", companyId, limit: 1 })
   const brandBuckets = [...brands]
   if (unbranded.length > 0) brandBuckets.unshift("(No Brand)")
 
   const usedNames = new Set<string>()
+  const pricingRules = await db.getPricingRules()
+
+  // One column per configured price tier, between Dealer and Net Value
+  const tiers = pricingRules.tiers
+  const netValueCol = 6 + tiers.length
+  // Cost and margin columns follow Net Value; retail margin only when a "retail" tier is configured
+  const hasRetail = tiers.some((t) => t.id === RETAIL_TIER_ID)
+  const costCol = netValueCol + 1
+  const marginCols = hasRetail ? [costCol + 1, costCol + 2] : [costCol + 1]
+  const flagCol = costCol + marginCols.length + 1
 
   // Helper to format columns
   const applyColumnStyles = (ws: ExcelJS.Worksheet) => {
@@ -55,27 +67,27 @@ export async function GET(_req: NextRequest) {
     ws.getColumn(2).width = 12 // Qty
     ws.getColumn(3).width = 10 // Unit
     ws.getColumn(4).width = 14 // Status
-    ws.getColumn(5).width = 14 // Dealer
-    ws.getColumn(6).width = 14 // Retail
-    ws.getColumn(7).width = 14 // Daraz
-    ws.getColumn(8).width = 16 // Net Value
+    for (let col = 5; col < netValueCol; col++) ws.getColumn(col).width = 14 // Dealer + tiers
+    ws.getColumn(netValueCol).width = 16 // Net Value
+    ws.getColumn(costCol).width = 14 // Cost
+    for (const col of marginCols) ws.getColumn(col).width = 14 // Margins
+    ws.getColumn(flagCol).width = 14 // Margin flag
 
     ws.getColumn(2).numFmt = "#,##0.###"
-    ws.getColumn(5).numFmt = '"LKR" #,##0'
-    ws.getColumn(6).numFmt = '"LKR" #,##0'
-    ws.getColumn(7).numFmt = '"LKR" #,##0'
-    ws.getColumn(8).numFmt = '"LKR" #,##0'
-
     ws.getColumn(2).alignment = { horizontal: "right" }
-    ws.getColumn(5).alignment = { horizontal: "right" }
-    ws.getColumn(6).alignment = { horizontal: "right" }
-    ws.getColumn(7).alignment = { horizontal: "right" }
-    ws.getColumn(8).alignment = { horizontal: "right" }
+    for (let col = 5; col <= costCol; col++) {
+      ws.getColumn(col).numFmt = '"LKR" #,##0'
+      ws.getColumn(col).alignment = { horizontal: "right" }
+    }
+    for (const col of marginCols) {
+      ws.getColumn(col).numFmt = "0.0%"
+      ws.getColumn(col).alignment = { horizontal: "right" }
+    }
   }
 
   for (const brand of brandBuckets) {
     const isUnbranded = brand === "(No Brand)"
-    const rows = await db.listProducts({ brand: isUnbranded ? "__unknown__" : brand, limit: 20000 })
+    const rows = await db.listProducts({ brand: isUnbranded ? "__unknown__" : brand, companyId, limit: 20000 })
     if (rows.length === 0) continue
 
     const sheetName = uniqueSheetName(isUnbranded ? "Unbranded" : brand, usedNames)
@@ -83,17 +95,24 @@ export async function GET(_req: NextRequest) {
 
     // Prepare table data
     const dataRows = rows.map((r) => {
-      const { retailPrice, darazPrice } = computeDerivedPrices(r.dealerPrice)
+      const derived = computeDerivedPrices(r.dealerPrice, resolvePricingRule(pricingRules, r.brand))
       const netValue = r.stockQty != null && r.dealerPrice != null ? r.stockQty * r.dealerPrice : null
+      const dealerMargin = grossMargin(r.dealerPrice, r.costPrice)
+      const retailMargin = grossMargin(derived.byId[RETAIL_TIER_ID] ?? null, r.costPrice)
+      const level = marginLevel(dealerMargin)
+      // Margins are written as fractions so Excel's percent format displays them
+      const margins = (hasRetail ? [dealerMargin, retailMargin] : [dealerMargin]).map((m) => (m == null ? null : m / 100))
       return [
         r.name,
         r.stockQty ?? null,
         r.unit ?? "",
         r.availability.replaceAll("_", " "),
         r.dealerPrice ?? null,
-        retailPrice ?? null,
-        darazPrice ?? null,
+        ...derived.tiers.map((t) => t.price),
         netValue,
+        r.costPrice ?? null,
+        ...margins,
+        level === "negative" ? "Below cost" : level === "low" ? `Under ${LOW_MARGIN_PERCENT}%` : "",
       ]
     })
 
@@ -108,9 +127,12 @@ export async function GET(_req: NextRequest) {
         { name: "Unit" },
         { name: "Status" },
         { name: "Dealer" },
-        { name: "Retail" },
-        { name: "Daraz" },
+        ...tiers.map((t) => ({ name: t.label })),
         { name: "Net Value" },
+        { name: "Cost" },
+        { name: "Dealer Margin" },
+        ...(hasRetail ? [{ name: "Retail Margin" }] : []),
+        { name: "Margin Flag" },
       ],
       rows: dataRows,
     })
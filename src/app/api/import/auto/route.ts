@@ -1,6 +1,7 @@
 import { applyEnvDefaults } from "@/lib/env";
-import { importFromPath } from "@/server/importer";
-import { assertOwner } from "@/server/auth";
+import { importFromPath, parseImportMode } from "@/server/importer";
+import { assertOwner, requestActor } from "@/server/auth";
+import { requestCompanyId } from "@/server/companies";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,7 +12,12 @@ export async function POST(request: Request) {
   applyEnvDefaults();
   const filePath = process.env.DEFAULT_EXPORT_PATH!;
   try {
-    const result = await importFromPath(filePath, "auto");
+    const mode = parseImportMode(new URL(request.url).searchParams.get("mode")) ?? undefined;
+    const result = await importFromPath(filePath, "auto", {
+      triggeredBy: requestActor(request),
+      mode,
+      companyId: requestCompanyId(request),
+    });
     return Response.json({ ok: true, ...result });
   } catch (e) {
     console.error("[import:auto]", e);
@@ -1,7 +1,8 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { importFromUpload } from "@/server/importer";
-import { assertOwner } from "@/server/auth";
+import { assertOwner, requestActor } from "@/server/auth";
+import { requestCompanyId } from "@/server/companies";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -12,8 +13,12 @@ export async function POST(request: Request) {
   try {
     const fixturePath = path.join(process.cwd(), "public", "samples", "GdwnSum.xlsx");
     const content = await fs.readFile(fixturePath);
-    const result = await importFromUpload("GdwnSum.xlsx", content);
-    return Response.json({ ok: true, ...result, source: "sample" });
+    const result = await importFromUpload("GdwnSum.xlsx", content, {
+      source: "sample",
+      triggeredBy: requestActor(request),
+      companyId: requestCompanyId(request),
+    });
+    return Response.json({ ok: true, ...result });
   } catch (e) {
     console.error("[import:fixture-xlsx]", e);
     return Response.json(
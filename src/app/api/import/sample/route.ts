@@ -1,6 +1,7 @@
 import path from "node:path";
 import { importSampleXml } from "@/server/importer";
-import { assertOwner } from "@/server/auth";
+import { assertOwner, requestActor } from "@/server/auth";
+import { requestCompanyId } from "@/server/companies";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -10,7 +11,10 @@ export async function POST(request: Request) {
   if (denied) return denied;
   try {
     const samplePath = path.join(process.cwd(), "public", "fixtures", "GdwnSum.xml");
-    const result = await importSampleXml(samplePath);
+    const result = await importSampleXml(samplePath, {
+      triggeredBy: requestActor(request),
+      companyId: requestCompanyId(request),
+    });
     return Response.json({ ok: true, ...result });
   } catch (e) {
     console.error("[import:sample]", e);
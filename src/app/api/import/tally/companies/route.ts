@@ -0,0 +1,25 @@
+/**
+ * Tally Company List
+ *
+ * GET /api/import/tally/companies
+ * - Lists the companies loaded in Tally, i.e. the valid "Tally company" names
+ *   for the company registry
+ * - Returns 502 when Tally is unreachable or answers with an error
+ *
+ * Requires owner authentication.
+ */
+
+import { assertOwner } from "@/server/auth";
+import { getDefaultTallyClient } from "@/server/tally";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  const result = await getDefaultTallyClient().listCompanies();
+  if (!result.success) return Response.json({ ok: false, error: result.error }, { status: 502 });
+  return Response.json({ ok: true, companies: result.names });
+}
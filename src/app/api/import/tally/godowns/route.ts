@@ -0,0 +1,27 @@
+/**
+ * Tally Godown List
+ *
+ * GET /api/import/tally/godowns?company=<Tally company name>
+ * - Lists the godowns of one Tally company (the names a registry company can sync)
+ * - Returns 502 when Tally is unreachable or does not know the company
+ *
+ * Requires owner authentication.
+ */
+
+import { assertOwner } from "@/server/auth";
+import { getDefaultTallyClient } from "@/server/tally";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  const company = (new URL(request.url).searchParams.get("company") ?? "").trim();
+  if (!company) return Response.json({ ok: false, error: "company is required." }, { status: 400 });
+
+  const result = await getDefaultTallyClient().listGodowns(company);
+  if (!result.success) return Response.json({ ok: false, error: result.error }, { status: 502 });
+  return Response.json({ ok: true, godowns: result.names });
+}
@@ -10,53 +10,68 @@
  * ## Usage
  *
  * POST /api/import/tally
- * - Triggers immediate refresh from Tally
- * - Returns refresh result with item counts
+ * - Triggers immediate refresh of every active company in the registry
+ * - Returns one result per company plus the totals
+ * - Optional `?company=<id>` refreshes just that company (single result, as before)
+ * - Optional `?mode=snapshot` flags products missing from Tally as removed
+ * - 409 if a refresh (scheduled or manual) is already running
  *
  * GET /api/import/tally
- * - Returns last refresh status (for monitoring)
+ * - Returns last refresh status per company (for monitoring)
  *
  * ## Authentication
  *
- * Requires owner authentication (same as other import endpoints).
- *
- * ## Example: Vercel Cron
- *
- * Add to vercel.json:
- * ```json
- * {
- *   "crons": [
- *     {
- *       "path": "/api/import/tally",
- *       "schedule": "0 * * * *"
- *     }
- *   ]
- * }
- * ```
+ * Both methods require owner authentication (the `x-owner-token` header, same as
+ * other import endpoints), so cron jobs must send the token.
  *
  * ## Example: Windows Task Scheduler
  *
  * Create a scheduled task that runs:
  * ```cmd
- * curl -X POST -H "Authorization: Bearer YOUR_TOKEN" https://your-app.vercel.app/api/import/tally
+ * curl -X POST -H "x-owner-token: YOUR_TOKEN" https://your-app.vercel.app/api/import/tally
  * ```
  */
 
 import {
-  refreshFromTally,
+  triggerManualRefresh,
   getLastRefreshStatus,
   testTallyConnection,
+  type TallyRefreshResult,
 } from "@/server/tally";
+import { assertOwner, requestActor } from "@/server/auth";
+import { requestCompanyId } from "@/server/companies";
+import { parseImportMode } from "@/server/importer";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+function summarizeResult(result: TallyRefreshResult) {
+  return {
+    ok: result.success,
+    error: result.error,
+    source: result.source,
+    companyId: result.companyId,
+    company: result.company,
+    godown: result.godown,
+    fetchedCount: result.fetchedCount,
+    parsedCount: result.parsedCount,
+    upsertedCount: result.upsertedCount,
+    removedCount: result.removedCount,
+    invalidCount: result.invalidCount,
+    durationMs: result.durationMs,
+    importRunId: result.importRunId,
+  };
+}
+
 /**
  * POST /api/import/tally
  *
  * Triggers a live data refresh from Tally.
  */
-export async function POST() {
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
   try {
     // First test connection
     const connectionTest = await testTallyConnection();
@@ -72,32 +87,34 @@ export async function POST() {
     }
 
     // Execute refresh
-    const result = await refreshFromTally();
+    const mode = parseImportMode(new URL(request.url).searchParams.get("mode")) ?? undefined;
+    const companyId = requestCompanyId(request);
+    const refresh = await triggerManualRefresh({ companyId, triggeredBy: requestActor(request), mode });
+    if (!refresh.ok) {
+      // 409: the scheduler (or another request) is already refreshing; 500: the run crashed.
+      return Response.json({ ok: false, error: refresh.error }, { status: refresh.status });
+    }
 
-    if (result.success) {
-      return Response.json({
-        ok: true,
-        source: result.source,
-        company: result.company,
-        godown: result.godown,
-        fetchedCount: result.fetchedCount,
-        parsedCount: result.parsedCount,
-        upsertedCount: result.upsertedCount,
-        invalidCount: result.invalidCount,
-        durationMs: result.durationMs,
-      });
-    } else {
-      return Response.json(
-        {
-          ok: false,
-          error: result.error,
-          source: result.source,
-          fetchedCount: result.fetchedCount,
-          durationMs: result.durationMs,
-        },
-        { status: 500 }
-      );
+    const { results } = refresh;
+    if (companyId) {
+      const [result] = results;
+      return Response.json(summarizeResult(result), { status: result.success ? 200 : 500 });
     }
+
+    const failed = results.filter((r) => !r.success);
+    return Response.json(
+      {
+        ok: results.length > 0 && failed.length === 0,
+        error: results.length === 0
+          ? "No active companies to refresh"
+          : failed.map((r) => `${r.company || r.companyId}: ${r.error}`).join("; ") || undefined,
+        results: results.map(summarizeResult),
+        parsedCount: results.reduce((sum, r) => sum + r.parsedCount, 0),
+        upsertedCount: results.reduce((sum, r) => sum + r.upsertedCount, 0),
+        removedCount: results.reduce((sum, r) => sum + (r.removedCount ?? 0), 0),
+      },
+      { status: results.length > 0 && failed.length === 0 ? 200 : 500 }
+    );
   } catch (error) {
     console.error("[import:tally]", error);
     return Response.json(
@@ -115,7 +132,10 @@ export async function POST() {
  *
  * Returns the last refresh status for monitoring.
  */
-export async function GET() {
+export async function GET(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
   try {
     const status = getLastRefreshStatus();
     const connectionTest = await testTallyConnection();
@@ -131,19 +151,19 @@ export async function GET() {
         running: status.schedulerRunning,
         isRefreshing: status.isRefreshing,
       },
-      lastRefresh: status.lastResult
-        ? {
-            success: status.lastResult.success,
-            error: status.lastResult.error,
-            company: status.lastResult.company,
-            godown: status.lastResult.godown,
-            fetchedCount: status.lastResult.fetchedCount,
-            parsedCount: status.lastResult.parsedCount,
-            upsertedCount: status.lastResult.upsertedCount,
-            completedAt: status.lastResult.completedAt,
-            durationMs: status.lastResult.durationMs,
-          }
-        : null,
+      lastRefresh: status.lastResults.map((result) => ({
+        success: result.success,
+        error: result.error,
+        companyId: result.companyId,
+        company: result.company,
+        godown: result.godown,
+        fetchedCount: result.fetchedCount,
+        parsedCount: result.parsedCount,
+        upsertedCount: result.upsertedCount,
+        completedAt: result.completedAt,
+        durationMs: result.durationMs,
+        importRunId: result.importRunId,
+      })),
     });
   } catch (error) {
     console.error("[import:tally:status]", error);
@@ -0,0 +1,51 @@
+/**
+ * Tally Setup Test
+ *
+ * POST /api/import/tally/test
+ * - Body: { company: string, godowns?: string[] } (no godowns = company-wide stock)
+ * - Fetches stock for each godown exactly as a sync would, without saving anything
+ * - Returns per-godown item counts and a few item names, or Tally's error
+ *
+ * Requires owner authentication.
+ */
+
+import { assertOwner } from "@/server/auth";
+import { previewTallyData } from "@/server/tally";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SAMPLE_SIZE = 5;
+const MAX_GODOWNS = 50;
+
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  const body = (await request.json().catch(() => null)) as { company?: unknown; godowns?: unknown } | null;
+  const company = typeof body?.company === "string" ? body.company.trim() : "";
+  if (!company) return Response.json({ ok: false, error: "company is required." }, { status: 400 });
+  const godownsInput = body?.godowns ?? [];
+  if (!Array.isArray(godownsInput) || godownsInput.some((g) => typeof g !== "string")) {
+    return Response.json({ ok: false, error: "godowns must be an array of names." }, { status: 400 });
+  }
+  const godowns = Array.from(new Set((godownsInput as string[]).map((g) => g.trim()).filter(Boolean)));
+  if (godowns.length > MAX_GODOWNS) {
+    return Response.json({ ok: false, error: `At most ${MAX_GODOWNS} godowns are allowed.` }, { status: 400 });
+  }
+
+  // One at a time, as the sync does: Tally handles a single request well and queues the rest.
+  const results = [];
+  for (const godown of godowns.length ? godowns : [""]) {
+    const preview = await previewTallyData({ company, godown });
+    results.push({
+      godown,
+      ok: preview.success,
+      error: preview.error,
+      itemCount: preview.summary.totalNormalized,
+      sample: preview.normalizedItems.slice(0, SAMPLE_SIZE).map((i) => i.name),
+    });
+  }
+
+  return Response.json({ ok: results.every((r) => r.ok), company, results });
+}
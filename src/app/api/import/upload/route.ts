@@ -1,5 +1,6 @@
-import { importFromUpload } from "@/server/importer";
-import { assertOwner } from "@/server/auth";
+import { importFromUpload, parseImportMode } from "@/server/importer";
+import { assertOwner, requestActor } from "@/server/auth";
+import { requestCompanyId } from "@/server/companies";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,7 +18,12 @@ export async function POST(request: Request) {
 
     const filename = file.name || "upload";
     const content = Buffer.from(await file.arrayBuffer());
-    const result = await importFromUpload(filename, content);
+    const mode = parseImportMode(form.get("mode") ?? new URL(request.url).searchParams.get("mode")) ?? undefined;
+    const result = await importFromUpload(filename, content, {
+      triggeredBy: requestActor(request),
+      mode,
+      companyId: requestCompanyId(request),
+    });
     return Response.json({ ok: true, ...result });
   } catch (e) {
     console.error("[import:upload]", e);
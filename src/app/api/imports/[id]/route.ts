@@ -0,0 +1,13 @@
+import { db } from "@/server/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const run = await db.getImportRun(id);
+  if (!run) return Response.json({ ok: false, error: "Import run not found" }, { status: 404 });
+
+  const changes = await db.listChanges({ importRunId: id, limit: 300 });
+  return Response.json({ ok: true, run, changes });
+}
@@ -0,0 +1,21 @@
+import { db } from "@/server/db";
+import { requestCompanyId } from "@/server/companies";
+import type { ImportRunSource } from "@/server/db/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const limitParam = url.searchParams.get("limit");
+  const sourceParam = (url.searchParams.get("source") ?? "").trim();
+
+  const limit = limitParam ? Math.max(1, Math.min(300, Number.parseInt(limitParam, 10) || 50)) : 50;
+  const source =
+    sourceParam === "auto" || sourceParam === "upload" || sourceParam === "sample" || sourceParam === "tally"
+      ? (sourceParam as ImportRunSource)
+      : undefined;
+
+  const items = await db.listImportRuns({ limit, source, companyId: requestCompanyId(request) });
+  return Response.json({ items });
+}
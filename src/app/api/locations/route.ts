@@ -0,0 +1,10 @@
+import { db } from "@/server/db";
+import { requestCompanyId } from "@/server/companies";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const locations = await db.listLocations(requestCompanyId(request));
+  return Response.json({ locations });
+}
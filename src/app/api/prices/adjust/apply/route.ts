@@ -0,0 +1,38 @@
+import { assertOwner, requestActor } from "@/server/auth";
+import { applyPriceAdjustment, parsePriceAdjustmentRequest } from "@/server/price-adjustments";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_ITEMS = 20000;
+
+/** Applies an adjustment to the previewed products as one undoable batch of PRICE_CHANGE events. */
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  const body = (await request.json().catch(() => null)) as { productIds?: unknown } | null;
+  const parsed = parsePriceAdjustmentRequest(body);
+  if ("error" in parsed) return Response.json({ ok: false, error: parsed.error }, { status: 400 });
+
+  const productIds = body?.productIds;
+  if (
+    !Array.isArray(productIds) ||
+    productIds.length === 0 ||
+    productIds.length > MAX_ITEMS ||
+    !productIds.every((id): id is string => typeof id === "string" && id !== "")
+  ) {
+    return Response.json({ ok: false, error: `Expected 1-${MAX_ITEMS} productIds.` }, { status: 400 });
+  }
+
+  try {
+    const result = await applyPriceAdjustment(parsed, productIds, requestActor(request));
+    return Response.json({ ok: true, ...result });
+  } catch (e) {
+    console.error("[prices:adjust:apply]", e);
+    return Response.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to apply adjustment." },
+      { status: 500 },
+    );
+  }
+}
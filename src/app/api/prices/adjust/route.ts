@@ -0,0 +1,17 @@
+import { assertOwner } from "@/server/auth";
+import { parsePriceAdjustmentRequest, previewPriceAdjustment } from "@/server/price-adjustments";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Lists the products an adjustment would change, with old and new dealer prices, without saving. */
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  const parsed = parsePriceAdjustmentRequest(await request.json().catch(() => null));
+  if ("error" in parsed) return Response.json({ ok: false, error: parsed.error }, { status: 400 });
+
+  const preview = await previewPriceAdjustment(parsed);
+  return Response.json({ ok: true, ...preview });
+}
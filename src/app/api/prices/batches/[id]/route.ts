@@ -0,0 +1,13 @@
+import { db } from "@/server/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const batch = await db.getPriceBatch(id);
+  if (!batch) return Response.json({ ok: false, error: "Price batch not found" }, { status: 404 });
+
+  const changes = await db.listPriceBatchChanges(id);
+  return Response.json({ ok: true, batch, changes });
+}
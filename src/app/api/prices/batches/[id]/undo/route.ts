@@ -0,0 +1,24 @@
+import { assertOwner, requestActor } from "@/server/auth";
+import { undoPriceBatch } from "@/server/price-batches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Reverts every price a batch changed (import or adjustment), recorded as a new "undo" batch. */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const { id } = await context.params;
+
+  try {
+    const result = await undoPriceBatch(id, requestActor(request));
+    if (!result.ok) return Response.json({ ok: false, error: result.error }, { status: result.status });
+    return Response.json(result);
+  } catch (e) {
+    console.error("[prices:batches:undo]", e);
+    return Response.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to undo price batch." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { assertOwner, requestActor } from "@/server/auth";
+import type { PriceBatchItem } from "@/server/price-batches";
+import { applyPriceImport } from "@/server/price-import";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_ITEMS = 5000;
+
+function parseItems(value: unknown): PriceBatchItem[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_ITEMS) return null;
+  const items: PriceBatchItem[] = [];
+  for (const raw of value) {
+    const item = raw as { productId?: unknown; dealerPrice?: unknown } | null;
+    if (typeof item?.productId !== "string" || !item.productId) return null;
+    if (typeof item.dealerPrice !== "number" || !Number.isFinite(item.dealerPrice) || item.dealerPrice < 0) return null;
+    items.push({ productId: item.productId, dealerPrice: item.dealerPrice });
+  }
+  return items;
+}
+
+/** Applies confirmed rows from a price list preview as one batch of PRICE_CHANGE events. */
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  const body = (await request.json().catch(() => null)) as { label?: unknown; items?: unknown } | null;
+  const items = parseItems(body?.items);
+  if (!items) {
+    return Response.json(
+      { ok: false, error: `Expected 1-${MAX_ITEMS} items with a productId and a non-negative dealerPrice.` },
+      { status: 400 },
+    );
+  }
+  const label = typeof body?.label === "string" && body.label.trim() ? body.label.trim().slice(0, 200) : null;
+
+  try {
+    const result = await applyPriceImport(items, { label, createdBy: requestActor(request) });
+    return Response.json({ ok: true, ...result });
+  } catch (e) {
+    console.error("[prices:import:apply]", e);
+    return Response.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to apply prices." },
+      { status: 500 },
+    );
+  }
+}
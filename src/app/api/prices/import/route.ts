@@ -0,0 +1,31 @@
+import { assertOwner } from "@/server/auth";
+import { requestCompanyId } from "@/server/companies";
+import { previewPriceImport } from "@/server/price-import";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Parses a supplier price list and matches it against products without changing anything. */
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return Response.json({ ok: false, error: "Missing file field 'file'." }, { status: 400 });
+    }
+
+    const filename = file.name || "upload";
+    const content = Buffer.from(await file.arrayBuffer());
+    const preview = await previewPriceImport(filename, content, requestCompanyId(request));
+    return Response.json({ ok: true, ...preview });
+  } catch (e) {
+    console.error("[prices:import]", e);
+    return Response.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to read price list." },
+      { status: 400 },
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { db } from "@/server/db";
+import { assertOwner } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Cancels a pending scheduled price. */
+export async function DELETE(request: Request, context: { params: Promise<{ id: string }> }) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const { id } = await context.params;
+
+  const cancelled = await db.cancelScheduledPrice(id, Date.now());
+  if (!cancelled) {
+    return Response.json({ ok: false, error: "No pending scheduled price with that id." }, { status: 404 });
+  }
+  return Response.json({ ok: true, id });
+}
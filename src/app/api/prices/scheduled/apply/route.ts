@@ -0,0 +1,25 @@
+import { assertOwner } from "@/server/auth";
+import { applyDueScheduledPrices } from "@/server/scheduled-prices";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Applies every scheduled price that is due. Long-running servers do this every minute on their own;
+ * serverless deployments can call this from an external cron.
+ */
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+
+  try {
+    const result = await applyDueScheduledPrices();
+    return Response.json({ ok: true, ...result });
+  } catch (e) {
+    console.error("[prices:scheduled:apply]", e);
+    return Response.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to apply scheduled prices." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from "@/server/db";
+import type { ScheduledPriceStatus } from "@/server/db/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const STATUSES: ScheduledPriceStatus[] = ["pending", "applying", "applied", "failed", "cancelled"];
+
+/** Scheduled dealer prices across all products (`?status=pending` by default, `&limit=`). */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const statusParam = url.searchParams.get("status") ?? "pending";
+  const status = STATUSES.find((s) => s === statusParam);
+  if (!status) {
+    return Response.json({ ok: false, error: `status must be one of ${STATUSES.join(", ")}.` }, { status: 400 });
+  }
+  const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam) ? Math.max(1, Math.min(1000, limitParam)) : 100;
+
+  const items = await db.listScheduledPrices({ status, limit });
+  return Response.json({ items });
+}
@@ -0,0 +1,141 @@
+import {
+  DEALER_BASE,
+  PRICE_TIER_OPS,
+  ROUNDING_ENDINGS,
+  type PriceTier,
+  type PriceTierOp,
+  type PricingRules,
+  type RoundingPolicy,
+} from "@/lib/pricing";
+import { db } from "@/server/db";
+import { assertOwner, requestActor } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_TIERS = 12;
+const TIER_ID = /^[a-z][a-z0-9-]{0,31}$/;
+// Tier ids double as product sort keys, so they can't shadow the built-in ones. Labels become export
+// column headers, so they can't repeat the fixed ones.
+const RESERVED_IDS = new Set([DEALER_BASE, "name", "qty", "availability", "dealerPrice", "relevance"]);
+const RESERVED_LABELS = new Set(["product", "qty", "unit", "status", "dealer", "net value"]);
+
+function parseNumber(value: unknown, where: string): number {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) throw new Error(`${where} must be a number.`);
+  return n;
+}
+
+function parseValue(op: PriceTierOp, value: unknown, where: string): number {
+  const n = parseNumber(value, where);
+  if ((op === "divide" || op === "multiply") && (n <= 0 || n > 100)) throw new Error(`${where} must be above 0 and at most 100.`);
+  if (op === "markup" && (n < 0 || n > 1000)) throw new Error(`${where} must be from 0 to 1000.`);
+  if (op === "discount" && (n < 0 || n >= 100)) throw new Error(`${where} must be from 0 to below 100.`);
+  return n;
+}
+
+function parseRounding(value: unknown, where: string): RoundingPolicy {
+  if (value == null) return { mode: "none" };
+  if (typeof value !== "object") throw new Error(`${where}: rounding must be an object.`);
+  const input = value as Record<string, unknown>;
+  if (input.mode === "none") return { mode: "none" };
+  if (input.mode === "nearest" || input.mode === "up") {
+    const step = parseNumber(input.step, `${where}: rounding step`);
+    if (step <= 0 || step > 10000) throw new Error(`${where}: rounding step must be above 0 and at most 10000.`);
+    return { mode: input.mode, step };
+  }
+  if (input.mode === "ending") {
+    const ending = ROUNDING_ENDINGS.find((e) => e === Number(input.ending));
+    if (ending == null) throw new Error(`${where}: rounding ending must be ${ROUNDING_ENDINGS.join(" or ")}.`);
+    return { mode: "ending", ending };
+  }
+  throw new Error(`${where}: unknown rounding mode.`);
+}
+
+function parseTier(value: unknown, index: number, earlier: Set<string>, labels: Set<string>): PriceTier {
+  if (!value || typeof value !== "object") throw new Error(`Tier ${index + 1} must be an object.`);
+  const input = value as Record<string, unknown>;
+  const id = typeof input.id === "string" ? input.id.trim() : "";
+  if (!TIER_ID.test(id)) throw new Error(`Tier ${index + 1}: id must be lowercase letters, digits or dashes.`);
+  if (RESERVED_IDS.has(id)) throw new Error(`Tier ${index + 1}: "${id}" is a reserved id.`);
+  if (earlier.has(id)) throw new Error(`Tier ${index + 1}: duplicate id "${id}".`);
+
+  const label = typeof input.label === "string" ? input.label.trim() : "";
+  if (!label || label.length > 40) throw new Error(`${id}: label is required (max 40 characters).`);
+  if (RESERVED_LABELS.has(label.toLowerCase()) || labels.has(label.toLowerCase())) {
+    throw new Error(`${id}: label "${label}" is already used.`);
+  }
+
+  const base = typeof input.base === "string" ? input.base : "";
+  if (base !== DEALER_BASE && !earlier.has(base)) throw new Error(`${id}: base must be dealer or an earlier tier.`);
+
+  const op = input.op;
+  if (typeof op !== "string" || !Object.hasOwn(PRICE_TIER_OPS, op)) throw new Error(`${id}: unknown formula.`);
+
+  return {
+    id,
+    label,
+    base,
+    op: op as PriceTierOp,
+    value: parseValue(op as PriceTierOp, input.value, `${id}: value`),
+    rounding: parseRounding(input.rounding, id),
+    showInList: input.showInList === true,
+  };
+}
+
+function parseRules(body: unknown): PricingRules {
+  if (!body || typeof body !== "object") throw new Error("Expected a JSON object.");
+  const input = body as Record<string, unknown>;
+  if (!Array.isArray(input.tiers) || input.tiers.length === 0) throw new Error("At least one tier is required.");
+  if (input.tiers.length > MAX_TIERS) throw new Error(`At most ${MAX_TIERS} tiers are allowed.`);
+
+  const tiers: PriceTier[] = [];
+  const ids = new Set<string>();
+  const labels = new Set<string>();
+  input.tiers.forEach((raw, i) => {
+    const tier = parseTier(raw, i, ids, labels);
+    tiers.push(tier);
+    ids.add(tier.id);
+    labels.add(tier.label.toLowerCase());
+  });
+
+  const brands: PricingRules["brands"] = {};
+  if (input.brands != null) {
+    if (typeof input.brands !== "object" || Array.isArray(input.brands)) throw new Error("brands must be an object.");
+    for (const [brandRaw, values] of Object.entries(input.brands as Record<string, unknown>)) {
+      const brand = brandRaw.trim();
+      if (!brand) throw new Error("Brand names can't be empty.");
+      if (!values || typeof values !== "object") throw new Error(`${brand} must be an object.`);
+      const parsed: Record<string, number> = {};
+      for (const [tierId, raw] of Object.entries(values as Record<string, unknown>)) {
+        if (raw === undefined || raw === null || raw === "") continue;
+        const tier = tiers.find((t) => t.id === tierId);
+        if (!tier) throw new Error(`${brand}: unknown tier "${tierId}".`);
+        parsed[tierId] = parseValue(tier.op, raw, `${brand}: ${tier.label}`);
+      }
+      if (Object.keys(parsed).length > 0) brands[brand] = parsed;
+    }
+  }
+  return { tiers, brands };
+}
+
+export async function GET() {
+  const rules = await db.getPricingRules();
+  return Response.json({ ok: true, rules });
+}
+
+export async function PUT(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const body = await request.json().catch(() => null);
+
+  let rules: PricingRules;
+  try {
+    rules = parseRules(body);
+  } catch (e) {
+    return Response.json({ ok: false, error: e instanceof Error ? e.message : "Invalid pricing rules." }, { status: 400 });
+  }
+
+  const saved = await db.savePricingRules(rules, requestActor(request));
+  return Response.json({ ok: true, rules: saved });
+}
@@ -0,0 +1,39 @@
+import { db } from "@/server/db"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const DEFAULT_RANGE_MS = 90 * 24 * 60 * 60 * 1000
+
+// Accepts epoch milliseconds or anything Date.parse understands (e.g. 2024-03-01).
+function parseTimestamp(value: string | null): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  const parsed = /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const { searchParams } = new URL(req.url)
+  const to = parseTimestamp(searchParams.get("to")) ?? Date.now()
+  const from = parseTimestamp(searchParams.get("from")) ?? to - DEFAULT_RANGE_MS
+  if (from > to) {
+    return Response.json({ ok: false, error: "`from` must be before `to`." }, { status: 400 })
+  }
+
+  const items = await db.listStockHistory(id, { from, to })
+  return Response.json({
+    ok: true,
+    productId: id,
+    from,
+    to,
+    points: items.map((s) => ({
+      day: s.day,
+      at: s.capturedAt,
+      qty: s.stockQty,
+      availability: s.availability,
+      importRunId: s.importRunId,
+    })),
+  })
+}
@@ -0,0 +1,79 @@
+import { CURRENCY_CODE, rateFor } from "@/lib/currency";
+import { db } from "@/server/db";
+import { assertOwner, requestActor } from "@/server/auth";
+import type { ProductMetaPatch } from "@/server/db/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_DISPLAY_NAME = 200;
+const MAX_NOTES = 2000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+function parseText(value: unknown, field: string, max: number): string | null {
+  if (value === null) return null;
+  if (typeof value !== "string") throw new Error(`${field} must be a string or null.`);
+  const trimmed = value.trim();
+  if (trimmed.length > max) throw new Error(`${field} must be at most ${max} characters.`);
+  return trimmed || null;
+}
+
+function parseTags(value: unknown): string[] {
+  if (!Array.isArray(value)) throw new Error("tags must be an array of strings.");
+  const tags = new Map<string, string>();
+  for (const raw of value) {
+    if (typeof raw !== "string") throw new Error("tags must be an array of strings.");
+    const tag = raw.trim().replace(/\s+/g, " ");
+    if (!tag) continue;
+    if (tag.length > MAX_TAG_LENGTH) throw new Error(`Tags must be at most ${MAX_TAG_LENGTH} characters.`);
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  if (tags.size > MAX_TAGS) throw new Error(`At most ${MAX_TAGS} tags are allowed.`);
+  return Array.from(tags.values());
+}
+
+/** The supplier quote is set or cleared as a pair; its currency needs a stored exchange rate. */
+async function parseSource(currencyRaw: unknown, amountRaw: unknown): Promise<{ currency: string | null; amount: number | null }> {
+  if (currencyRaw === null || amountRaw === null) return { currency: null, amount: null };
+  const currency = typeof currencyRaw === "string" ? currencyRaw.trim().toUpperCase() : "";
+  if (!CURRENCY_CODE.test(currency)) throw new Error("sourceCurrency must be a 3-letter currency code or null.");
+  const amount = typeof amountRaw === "number" ? amountRaw : Number.NaN;
+  if (!Number.isFinite(amount) || amount <= 0) throw new Error("sourceAmount must be a positive number.");
+  if (rateFor(await db.listExchangeRates(), currency) == null) {
+    throw new Error(`No exchange rate for ${currency}. Add it under Pricing settings first.`);
+  }
+  return { currency, amount };
+}
+
+export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const { id } = await context.params;
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!body || typeof body !== "object") {
+    return Response.json({ ok: false, error: "Expected a JSON object." }, { status: 400 });
+  }
+
+  const patch: ProductMetaPatch = {};
+  try {
+    if ("displayName" in body) patch.displayName = parseText(body.displayName, "displayName", MAX_DISPLAY_NAME);
+    if ("notes" in body) patch.notes = parseText(body.notes, "notes", MAX_NOTES);
+    if ("tags" in body) patch.tags = body.tags === null ? [] : parseTags(body.tags);
+    if ("sourceCurrency" in body || "sourceAmount" in body) {
+      const source = await parseSource(body.sourceCurrency, body.sourceAmount);
+      patch.sourceCurrency = source.currency;
+      patch.sourceAmount = source.amount;
+    }
+  } catch (e) {
+    return Response.json({ ok: false, error: e instanceof Error ? e.message : "Invalid request." }, { status: 400 });
+  }
+  if (Object.keys(patch).length === 0) {
+    return Response.json({ ok: false, error: "Nothing to update (expected displayName, notes, tags or sourceCurrency and sourceAmount)." }, { status: 400 });
+  }
+
+  const result = await db.setProductMeta(id, patch, requestActor(request));
+  if (!result.ok) return Response.json({ ok: false, error: result.error }, { status: 404 });
+
+  return Response.json({ ok: true, meta: result.meta });
+}
@@ -0,0 +1,26 @@
+import { getPriceHistory } from "@/server/price-history"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// Accepts epoch milliseconds or anything Date.parse understands (e.g. 2024-03-01).
+function parseTimestamp(value: string | null): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  const parsed = /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const { searchParams } = new URL(req.url)
+  const to = parseTimestamp(searchParams.get("to")) ?? Date.now()
+  const from = parseTimestamp(searchParams.get("from"))
+  if (from != null && from > to) {
+    return Response.json({ ok: false, error: "`from` must be before `to`." }, { status: 400 })
+  }
+
+  const history = await getPriceHistory(id, { from, to })
+  if (!history) return Response.json({ ok: false, error: "Product not found." }, { status: 404 })
+  return Response.json({ ok: true, ...history })
+}
@@ -0,0 +1,48 @@
+import { db } from "@/server/db";
+import { assertOwner, requestActor } from "@/server/auth";
+import { scheduleDealerPrice } from "@/server/scheduled-prices";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Upcoming (pending) dealer prices for the product, soonest first. */
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const items = await db.listScheduledPrices({ productId: id, status: "pending", limit: 20 });
+  return Response.json({ items });
+}
+
+function parseEffectiveAt(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return Math.floor(value);
+  if (typeof value === "string" && value.trim()) {
+    const ms = Date.parse(value);
+    return Number.isFinite(ms) ? ms : null;
+  }
+  return null;
+}
+
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const { id } = await context.params;
+
+  const body = (await request.json().catch(() => null)) as
+    | { dealerPrice?: unknown; effectiveAt?: unknown; note?: unknown }
+    | null;
+  const dealerPrice = body?.dealerPrice;
+  if (typeof dealerPrice !== "number" || !Number.isFinite(dealerPrice) || dealerPrice < 0) {
+    return Response.json({ ok: false, error: "dealerPrice must be a non-negative number." }, { status: 400 });
+  }
+  const effectiveAt = parseEffectiveAt(body?.effectiveAt);
+  if (effectiveAt == null || effectiveAt <= Date.now()) {
+    return Response.json(
+      { ok: false, error: "effectiveAt must be a future time (epoch ms or ISO date)." },
+      { status: 400 },
+    );
+  }
+  const note = typeof body?.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : null;
+
+  const result = await scheduleDealerPrice({ productId: id, dealerPrice, effectiveAt, note, createdBy: requestActor(request) });
+  if (!result.ok) return Response.json({ ok: false, error: result.error }, { status: 404 });
+  return Response.json({ ok: true, scheduled: result.scheduled });
+}
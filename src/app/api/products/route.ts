@@ -1,5 +1,13 @@
 import type { Availability } from "@/lib/domain";
 import { db } from "@/server/db";
+import { requestCompanyId } from "@/server/companies";
+import type { ProductSortKey } from "@/server/db/types";
+import { searchProducts, type ProductSearchSort } from "@/server/product-search";
+
+const DB_SORT_KEYS: ProductSortKey[] = ["name", "qty", "availability", "dealerPrice"];
+
+// Anything else that looks like a tier id is sorted in memory; unknown ids fall back to name order.
+const TIER_SORT = /^[a-z][a-z0-9-]{0,31}$/;
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -9,26 +17,46 @@ export async function GET(request: Request) {
   const search = (url.searchParams.get("search") ?? "").trim();
   const brand = (url.searchParams.get("brand") ?? "").trim();
   const availability = (url.searchParams.get("availability") ?? "").trim();
-  const sort = (url.searchParams.get("sort") ?? "name").trim();
+  const sort = (url.searchParams.get("sort") ?? "").trim();
+  const match = (url.searchParams.get("match") ?? "fuzzy").trim();
   const dir = (url.searchParams.get("dir") ?? "asc").trim();
+  const removed = (url.searchParams.get("removed") ?? "").trim();
+  const location = (url.searchParams.get("location") ?? "").trim();
+  const category = (url.searchParams.get("category") ?? "").trim();
   const limit = Math.min(Number(url.searchParams.get("limit") ?? 5000), 20000);
+  const offsetRaw = Number(url.searchParams.get("offset") ?? 0);
+  const offset = Number.isFinite(offsetRaw) && offsetRaw > 0 ? Math.floor(offsetRaw) : 0;
 
   const availabilityValue =
     availability === "IN_STOCK" || availability === "OUT_OF_STOCK" || availability === "NEGATIVE" || availability === "UNKNOWN"
       ? (availability as Availability)
       : undefined;
 
-  const sortValue = sort === "qty" || sort === "availability" ? (sort as "qty" | "availability") : "name";
+  // Ranked search is the default; `match=contains` keeps the plain substring filter.
+  const fuzzy = search !== "" && match !== "contains";
+  const dbSort = DB_SORT_KEYS.includes(sort as ProductSortKey) ? (sort as ProductSortKey) : null;
+  const sortValue: ProductSearchSort = dbSort ?? (sort === "relevance" || TIER_SORT.test(sort) ? sort : fuzzy ? "relevance" : "name");
   const dirValue = dir === "desc" ? "desc" : "asc";
+  const removedValue = removed === "1" || removed === "true" ? true : removed === "0" || removed === "false" ? false : undefined;
 
-  const items = await db.listProducts({
+  const filters = {
     search: search || undefined,
     brand: brand || undefined,
     availability: availabilityValue,
-    sort: sortValue,
-    dir: dirValue,
-    limit,
-  });
+    removed: removedValue,
+    location: location || undefined,
+    category: category || undefined,
+    companyId: requestCompanyId(request),
+  };
+  if (fuzzy || (dbSort == null && sortValue !== "relevance")) {
+    const result = await searchProducts({ ...filters, fuzzy, sort: sortValue, dir: dirValue, limit, offset });
+    return Response.json({ items: result.items, total: result.counts.total, offset, limit, counts: result.counts });
+  }
+
+  const [items, counts] = await Promise.all([
+    db.listProducts({ ...filters, sort: dbSort ?? "name", dir: dirValue, limit, offset }),
+    db.countProducts(filters),
+  ]);
 
-  return Response.json({ items });
+  return Response.json({ items, total: counts.total, offset, limit, counts });
 }
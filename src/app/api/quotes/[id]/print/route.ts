@@ -0,0 +1,16 @@
+import { db } from "@/server/db";
+import { quoteHtml } from "@/server/quote-export";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Printable HTML; open it in a tab and print or save as PDF. */
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const quote = await db.getQuote(id);
+  if (!quote) return new Response("Quote not found.", { status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+
+  return new Response(quoteHtml(quote), {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,11 @@
+import { db } from "@/server/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const quote = await db.getQuote(id);
+  if (!quote) return Response.json({ ok: false, error: "Quote not found." }, { status: 404 });
+  return Response.json({ ok: true, quote });
+}
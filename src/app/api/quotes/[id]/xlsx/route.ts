@@ -0,0 +1,20 @@
+import { db } from "@/server/db";
+import { quoteFileName, quoteWorkbook } from "@/server/quote-export";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const quote = await db.getQuote(id);
+  if (!quote) return Response.json({ ok: false, error: "Quote not found." }, { status: 404 });
+
+  const buffer = await quoteWorkbook(quote);
+  return new Response(buffer, {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename="${quoteFileName(quote)}.xlsx"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { DEFAULT_QUOTE_VALID_DAYS, MAX_QUOTE_LINES } from "@/lib/quotes";
+import { db } from "@/server/db";
+import { assertOwner, requestActor } from "@/server/auth";
+import { saveQuote, type QuoteInput, type QuoteLineInput } from "@/server/quotes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_CUSTOMER_NAME = 120;
+const MAX_NOTE = 1000;
+const MAX_VALID_DAYS = 365;
+
+function parseLines(value: unknown): QuoteLineInput[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error("lines must be a non-empty array.");
+  if (value.length > MAX_QUOTE_LINES) throw new Error(`A quote can have at most ${MAX_QUOTE_LINES} lines.`);
+  const seen = new Set<string>();
+  return value.map((raw, i) => {
+    const line = (raw ?? {}) as Record<string, unknown>;
+    const productId = typeof line.productId === "string" ? line.productId.trim() : "";
+    if (!productId) throw new Error(`Line ${i + 1}: productId is required.`);
+    if (seen.has(productId)) throw new Error(`Line ${i + 1}: the product is already on the quote.`);
+    seen.add(productId);
+    const qty = line.qty;
+    if (typeof qty !== "number" || !Number.isFinite(qty) || qty <= 0) throw new Error(`Line ${i + 1}: qty must be a positive number.`);
+    const discountPercent = line.discountPercent ?? 0;
+    if (typeof discountPercent !== "number" || !Number.isFinite(discountPercent) || discountPercent < 0 || discountPercent > 100) {
+      throw new Error(`Line ${i + 1}: discountPercent must be between 0 and 100.`);
+    }
+    return { productId, qty, discountPercent };
+  });
+}
+
+function parseQuote(body: unknown): QuoteInput {
+  if (!body || typeof body !== "object") throw new Error("Expected a JSON object.");
+  const input = body as Record<string, unknown>;
+  const customerName = typeof input.customerName === "string" ? input.customerName.trim() : "";
+  if (!customerName) throw new Error("customerName is required.");
+  if (customerName.length > MAX_CUSTOMER_NAME) throw new Error(`customerName must be at most ${MAX_CUSTOMER_NAME} characters.`);
+  if (input.note != null && typeof input.note !== "string") throw new Error("note must be a string or null.");
+  const note = typeof input.note === "string" ? input.note.trim() : "";
+  if (note.length > MAX_NOTE) throw new Error(`note must be at most ${MAX_NOTE} characters.`);
+  const tierId = typeof input.tierId === "string" ? input.tierId.trim() : "";
+  if (!tierId) throw new Error("tierId is required.");
+  const validDays = input.validDays ?? DEFAULT_QUOTE_VALID_DAYS;
+  if (typeof validDays !== "number" || !Number.isInteger(validDays) || validDays < 1 || validDays > MAX_VALID_DAYS) {
+    throw new Error(`validDays must be a whole number from 1 to ${MAX_VALID_DAYS}.`);
+  }
+  return { customerName, note: note || null, tierId, validDays, lines: parseLines(input.lines) };
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const limitRaw = Number(url.searchParams.get("limit") ?? 100);
+  const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? Math.floor(limitRaw) : 100;
+  const items = await db.listQuotes({ limit });
+  return Response.json({ ok: true, items });
+}
+
+export async function POST(request: Request) {
+  const denied = assertOwner(request);
+  if (denied) return denied;
+  const body = await request.json().catch(() => null);
+
+  let input: QuoteInput;
+  try {
+    input = parseQuote(body);
+  } catch (e) {
+    return Response.json({ ok: false, error: e instanceof Error ? e.message : "Invalid quote." }, { status: 400 });
+  }
+
+  const result = await saveQuote(input, requestActor(request));
+  if (!result.ok) return Response.json({ ok: false, error: result.error }, { status: 400 });
+  return Response.json({ ok: true, quote: result.quote });
+}
@@ -1,9 +1,10 @@
 import { db } from "@/server/db";
+import { requestCompanyId } from "@/server/companies";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-  const summary = await db.getSummary();
+export async function GET(request: Request) {
+  const summary = await db.getSummary(requestCompanyId(request));
   return Response.json(summary);
 }
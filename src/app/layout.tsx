@@ -3,6 +3,7 @@ import type { Metadata, Viewport } from "next"
 import "./globals.css"
 import { AuthProvider } from "@/components/auth-provider"
 import { AppShell } from "@/components/app-shell"
+import { CompanyProvider } from "@/components/company-provider"
 import { ServiceWorkerRegistration } from "@/components/service-worker-registration"
 import { cn } from "@/lib/utils";
 
@@ -53,7 +54,9 @@ export default function RootLayout({
       <body className={"font-sans antialiased"}>
         <ServiceWorkerRegistration />
         <AuthProvider>
-          <AppShell>{children}</AppShell>
+          <CompanyProvider>
+            <AppShell>{children}</AppShell>
+          </CompanyProvider>
         </AuthProvider>
       </body>
     </html>
@@ -1,40 +1,54 @@
 "use client"
 
 import { useCallback, useEffect, useMemo, useState } from "react"
-import { ProductTable } from "@/components/product-table"
+import { ProductTable, type ProductCounts, type ProductQuery, type ProductSortKey } from "@/components/product-table"
 import { ProductDetailSheet } from "@/components/product-detail-sheet"
+import { CategoryList } from "@/components/category-filter"
+import { PriceImportDialog } from "@/components/price-import-dialog"
+import { PriceAdjustDialog } from "@/components/price-adjust-dialog"
+import { QuoteBuilderDialog } from "@/components/quote-builder-dialog"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { computeDerivedPrices, formatMoney, formatQty } from "@/lib/pricing"
+import { formatMoney, formatQty } from "@/lib/pricing"
+import { BASE_CURRENCY, fromBaseCurrency, rateFor } from "@/lib/currency"
+import { usePricingRules } from "@/lib/use-pricing-rules"
+import { useExchangeRates } from "@/lib/use-exchange-rates"
 import type { Availability } from "@/lib/domain"
-import { Search, X, SlidersHorizontal, RefreshCcw, Download, Check } from "lucide-react"
+import { Search, X, SlidersHorizontal, RefreshCcw, Download, Upload, Percent, Check, FileText } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useAuthContext } from "@/components/auth-provider"
+import { useCompany } from "@/components/company-provider"
+import { withCompany } from "@/lib/companies"
+import type { Category } from "@/lib/categories"
 import { Drawer, DrawerClose, DrawerContent, DrawerFooter, DrawerHeader, DrawerTitle, DrawerTrigger } from "@/components/ui/drawer"
 
 type ProductRow = {
   id: string
   name: string
   brand: string | null
+  category: string | null
   stockQty: number | null
   unit: string | null
   availability: Availability
   lastSeenAt: number | null
   updatedAt: number
+  removedAt: number | null
   dealerPrice: number | null
+  costPrice: number | null
+  sourceCurrency: string | null
+  sourceAmount: number | null
+  displayName: string | null
+  notes: string | null
+  tags: string[]
+  locations: { godown: string; qty: number | null }[]
 }
 
-type SortKey = "name" | "qty" | "dealerPrice" | "retail" | "daraz"
+type StatusFilter = "all" | Availability | "REMOVED"
 
-function compareNullableNumber(a: number | null, b: number | null) {
-  if (a == null && b == null) return 0
-  if (a == null) return 1
-  if (b == null) return -1
-  return a - b
-}
+const DISPLAY_CURRENCY_KEY = "tally:displayCurrency"
 
 async function getJson<T>(url: string): Promise<T> {
   const res = await fetch(url, { cache: "no-store" })
@@ -43,90 +57,156 @@ async function getJson<T>(url: string): Promise<T> {
 
 export default function ProductsPage() {
   const auth = useAuthContext()
-  const [items, setItems] = useState<ProductRow[]>([])
+  const pricing = usePricingRules()
+  const exchange = useExchangeRates()
+  const { companyId } = useCompany()
+  const [counts, setCounts] = useState<ProductCounts | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
   const [brands, setBrands] = useState<string[]>([])
+  const [locations, setLocations] = useState<string[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   const [search, setSearch] = useState("")
   const [brand, setBrand] = useState<string>("all")
-  const [availability, setAvailability] = useState<"all" | Availability>("all")
-  const [sortKey, setSortKey] = useState<SortKey>("name")
+  const [category, setCategory] = useState<string>("all")
+  const [location, setLocation] = useState<string>("all")
+  const [availability, setAvailability] = useState<StatusFilter>("all")
+  const [sortKey, setSortKey] = useState<ProductSortKey>("relevance")
   const [sortDir, setSortDir] = useState<"asc" | "desc">("asc")
   const [filterOpen, setFilterOpen] = useState(false)
+  const [displayCurrency, setDisplayCurrency] = useState(BASE_CURRENCY)
 
   const [selected, setSelected] = useState<ProductRow | null>(null)
   const [sheetOpen, setSheetOpen] = useState(false)
   const [exporting, setExporting] = useState(false)
   const [focusPriceInput, setFocusPriceInput] = useState(false)
+  const [priceImportOpen, setPriceImportOpen] = useState(false)
+  const [priceAdjustOpen, setPriceAdjustOpen] = useState(false)
+  // Products picked for a quote, kept across pages and filter changes
+  const [quoteItems, setQuoteItems] = useState<Map<string, ProductRow>>(() => new Map())
+  const [quoteOpen, setQuoteOpen] = useState(false)
 
-  const refresh = useCallback(async () => {
-    setLoading(true)
-    setError(null)
+  const loadBrands = useCallback(async () => {
     try {
-      const [p, b] = await Promise.all([
-        getJson<{ items: ProductRow[] }>("/api/products?limit=20000"),
-        getJson<{ brands: string[] }>("/api/brands"),
-      ])
-      setItems(p.items)
+      const b = await getJson<{ brands: string[] }>(withCompany("/api/brands", companyId))
       setBrands(b.brands)
     } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to load products.")
-    } finally {
-      setLoading(false)
+      setError(e instanceof Error ? e.message : "Failed to load brands.")
     }
-  }, [])
+  }, [companyId])
+
+  // Godowns with per-location stock; empty unless Tally syncs several godowns.
+  const loadLocations = useCallback(async () => {
+    try {
+      const l = await getJson<{ locations: string[] }>(withCompany("/api/locations", companyId))
+      setLocations(l.locations)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load locations.")
+    }
+  }, [companyId])
+
+  // Tally stock groups; empty until a Tally sync has stored them.
+  const loadCategories = useCallback(async () => {
+    try {
+      const c = await getJson<{ categories: Category[] }>(withCompany("/api/categories", companyId))
+      setCategories(c.categories)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load categories.")
+    }
+  }, [companyId])
 
   useEffect(() => {
-    refresh().catch(() => {})
-  }, [refresh])
+    loadBrands().catch(() => {})
+    loadLocations().catch(() => {})
+    loadCategories().catch(() => {})
+  }, [loadBrands, loadLocations, loadCategories])
+
+  // Brands, categories and godowns differ between companies, so their filters start over on a switch.
+  const [filtersCompanyId, setFiltersCompanyId] = useState(companyId)
+  if (filtersCompanyId !== companyId) {
+    setFiltersCompanyId(companyId)
+    setBrand("all")
+    setCategory("all")
+    setLocation("all")
+  }
 
-  const filtered = useMemo(() => {
-    let result = items
+  useEffect(() => {
+    const saved = localStorage.getItem(DISPLAY_CURRENCY_KEY)
+    if (saved) setDisplayCurrency(saved)
+  }, [])
 
-    // Apply brand filter
-    if (brand !== "all") {
-      result = brand === "__unknown__"
-        ? result.filter((it) => !it.brand)
-        : result.filter((it) => it.brand === brand)
-    }
+  const chooseCurrency = (currency: string) => {
+    setDisplayCurrency(currency)
+    localStorage.setItem(DISPLAY_CURRENCY_KEY, currency)
+  }
 
-    // Apply availability filter
-    if (availability !== "all") {
-      result = result.filter((it) => it.availability === availability)
-    }
+  // Prices are stored in LKR; other currencies are converted for display only. A currency whose
+  // rate was removed falls back to LKR.
+  const activeCurrency = rateFor(exchange.rates, displayCurrency) == null ? BASE_CURRENCY : displayCurrency
+  const displayMoney = useCallback(
+    (value: number | null) => formatMoney(fromBaseCurrency(value, activeCurrency, exchange.rates), activeCurrency),
+    [activeCurrency, exchange.rates],
+  )
 
-    // Apply simple substring search if query exists
-    if (search.trim()) {
-      const query = search.trim().toLowerCase()
-      result = result.filter(
-        (item) =>
-          item.name.toLowerCase().includes(query) ||
-          (item.brand?.toLowerCase().includes(query) ?? false)
-      )
-    }
+  // Rows are paged by ProductTable; this only re-requests the current page and the filter lists.
+  const refresh = () => {
+    setLoading(true)
+    setError(null)
+    setReloadKey((k) => k + 1)
+    loadBrands().catch(() => {})
+    loadLocations().catch(() => {})
+    loadCategories().catch(() => {})
+  }
+
+  const query = useMemo<ProductQuery>(
+    () => ({
+      search: search.trim() || undefined,
+      brand: brand === "all" ? undefined : brand,
+      category: category === "all" ? undefined : category,
+      // "REMOVED" = dropped from the latest snapshot import
+      availability: availability === "all" || availability === "REMOVED" ? undefined : availability,
+      removed: availability === "REMOVED" ? true : undefined,
+      location: location === "all" ? undefined : location,
+      companyId,
+      sort: sortKey,
+      dir: sortDir,
+    }),
+    [availability, brand, category, companyId, location, search, sortDir, sortKey],
+  )
+
+  const quoteIds = useMemo(() => new Set(quoteItems.keys()), [quoteItems])
+
+  const toggleQuoteItem = useCallback((item: ProductRow) => {
+    setQuoteItems((prev) => {
+      const next = new Map(prev)
+      if (next.has(item.id)) next.delete(item.id)
+      else next.set(item.id, item)
+      return next
+    })
+  }, [])
 
-    // Apply sorting
-    const sorted = [...result].sort((a, b) => {
-      let cmp = 0
-      if (sortKey === "name") cmp = a.name.localeCompare(b.name)
-      else if (sortKey === "qty") cmp = compareNullableNumber(a.stockQty, b.stockQty)
-      else if (sortKey === "dealerPrice") cmp = compareNullableNumber(a.dealerPrice, b.dealerPrice)
-      else if (sortKey === "retail")
-        cmp = compareNullableNumber(
-          computeDerivedPrices(a.dealerPrice).retailPrice,
-          computeDerivedPrices(b.dealerPrice).retailPrice,
-        )
-      else
-        cmp = compareNullableNumber(
-          computeDerivedPrices(a.dealerPrice).darazPrice,
-          computeDerivedPrices(b.dealerPrice).darazPrice,
-        )
-      return sortDir === "asc" ? cmp : -cmp
+  const removeQuoteItem = (id: string) =>
+    setQuoteItems((prev) => {
+      const next = new Map(prev)
+      next.delete(id)
+      return next
     })
 
-    return sorted
-  }, [availability, brand, items, search, sortDir, sortKey])
+  const priceColumns = useMemo(() => pricing.tiers.filter((t) => t.showInList), [pricing.tiers])
+
+  const handleResult = useCallback((result: { counts: ProductCounts }) => {
+    setCounts(result.counts)
+    setLoading(false)
+  }, [])
+
+  const handleTableError = useCallback((message: string) => {
+    setError(message)
+    setLoading(false)
+  }, [])
+
+  const total = counts?.total ?? 0
 
   const openItem = (item: ProductRow) => {
     setSelected(item)
@@ -140,22 +220,32 @@ export default function ProductsPage() {
     setSheetOpen(true)
   }
 
+  const handleMetaSaved = (
+    id: string,
+    meta: Pick<ProductRow, "displayName" | "notes" | "tags" | "sourceCurrency" | "sourceAmount">,
+  ) => {
+    setReloadKey((k) => k + 1)
+    setSelected((prev) => (prev?.id === id ? { ...prev, ...meta } : prev))
+  }
+
   const handlePriceSaved = (id: string, newPrice: number | null) => {
-    setItems((prev) => prev.map((p) => (p.id === id ? { ...p, dealerPrice: newPrice } : p)))
+    setReloadKey((k) => k + 1)
     setSelected((prev) => (prev?.id === id ? { ...prev, dealerPrice: newPrice } : prev))
   }
 
-  const hasFilters = search || brand !== "all" || availability !== "all"
+  const hasFilters = search || brand !== "all" || category !== "all" || availability !== "all" || location !== "all"
   const clearFilters = () => {
     setSearch("")
     setBrand("all")
+    setCategory("all")
     setAvailability("all")
+    setLocation("all")
   }
 
   const exportXlsx = useCallback(async () => {
     setExporting(true)
     try {
-      const res = await fetch("/api/export/products", { method: "GET" })
+      const res = await fetch(withCompany("/api/export/products", companyId), { method: "GET" })
       if (!res.ok) throw new Error("Failed to export products.")
       const blob = await res.blob()
       const cd = res.headers.get("Content-Disposition") || ""
@@ -175,7 +265,7 @@ export default function ProductsPage() {
     } finally {
       setExporting(false)
     }
-  }, [])
+  }, [companyId])
 
   return (
     <div className="flex flex-col h-screen bg-background md:h-auto">
@@ -188,8 +278,13 @@ export default function ProductsPage() {
                 Products
               </h1>
               <p className="mt-1 text-muted-foreground">
-                <span className="font-medium text-foreground">{filtered.length.toLocaleString("en-IN")}</span>
-                {filtered.length !== items.length && ` of ${items.length.toLocaleString("en-IN")}`} products
+                <span className="font-medium text-foreground">{total.toLocaleString("en-IN")}</span>
+                {hasFilters ? " matching products" : " products"}
+                {activeCurrency !== BASE_CURRENCY && (
+                  <span>
+                    {" · "}prices shown in {activeCurrency} at {formatMoney(rateFor(exchange.rates, activeCurrency))} each
+                  </span>
+                )}
               </p>
             </div>
           </div>
@@ -204,18 +299,40 @@ export default function ProductsPage() {
             <h1 className="text-xl font-semibold text-foreground mb-2">Products</h1>
             <div className="flex flex-wrap items-center gap-2">
               <Badge variant="outline" className="gap-1.5">
-                <span className="font-semibold">{filtered.length.toLocaleString("en-IN")}</span>
+                <span className="font-semibold">{total.toLocaleString("en-IN")}</span>
                 Total
               </Badge>
               <Badge variant="outline" className="gap-1.5 border-green-200 bg-green-50 dark:bg-green-950/30 text-green-700 dark:text-green-300">
-                <span className="font-semibold">{filtered.filter(p => p.availability === "IN_STOCK").length.toLocaleString("en-IN")}</span>
+                <span className="font-semibold">{(counts?.inStock ?? 0).toLocaleString("en-IN")}</span>
                 Available
               </Badge>
               <Badge variant="outline" className="gap-1.5 border-red-200 bg-red-50 dark:bg-red-950/30 text-red-700 dark:text-red-300">
-                <span className="font-semibold">{filtered.filter(p => p.availability === "NEGATIVE").length.toLocaleString("en-IN")}</span>
+                <span className="font-semibold">{(counts?.negative ?? 0).toLocaleString("en-IN")}</span>
                 Out of Stock
               </Badge>
+              {activeCurrency !== BASE_CURRENCY && (
+                <Badge variant="outline" className="gap-1.5">
+                  Prices in <span className="font-semibold">{activeCurrency}</span>
+                </Badge>
+              )}
             </div>
+            {/* Owner price tools; on desktop they sit in the bottom bar */}
+            {auth.isOwner && (
+              <div className="mt-3 flex gap-2">
+                <Button size="sm" variant="outline" className="gap-1.5 rounded-lg" onClick={() => setPriceImportOpen(true)}>
+                  <Upload className="h-3.5 w-3.5" />
+                  Import prices
+                </Button>
+                <Button size="sm" variant="outline" className="gap-1.5 rounded-lg" onClick={() => setPriceAdjustOpen(true)}>
+                  <Percent className="h-3.5 w-3.5" />
+                  Adjust prices
+                </Button>
+                <Button size="sm" variant="outline" className="gap-1.5 rounded-lg" onClick={() => setQuoteOpen(true)}>
+                  <FileText className="h-3.5 w-3.5" />
+                  Quote{quoteItems.size > 0 ? ` (${quoteItems.size})` : ""}
+                </Button>
+              </div>
+            )}
           </div>
 
           {/* Error state */}
@@ -240,30 +357,47 @@ export default function ProductsPage() {
                   <button onClick={() => setBrand("all")}><X className="h-3 w-3" /></button>
                 </Badge>
               )}
+              {category !== "all" && (
+                <Badge variant="secondary" className="gap-1.5 rounded-full px-3">
+                  {category}
+                  <button onClick={() => setCategory("all")}><X className="h-3 w-3" /></button>
+                </Badge>
+              )}
               {availability !== "all" && (
                 <Badge variant="secondary" className="gap-1.5 rounded-full px-3">
                   {availability.replace("_", " ")}
                   <button onClick={() => setAvailability("all")}><X className="h-3 w-3" /></button>
                 </Badge>
               )}
+              {location !== "all" && (
+                <Badge variant="secondary" className="gap-1.5 rounded-full px-3">
+                  At {location}
+                  <button onClick={() => setLocation("all")}><X className="h-3 w-3" /></button>
+                </Badge>
+              )}
             </div>
           )}
 
           {/* Products table */}
           <div className="bg-card border border-border rounded-xl overflow-hidden">
             <ProductTable
-              items={filtered}
-              loading={loading}
+              query={query}
+              reloadKey={reloadKey}
+              onResult={handleResult}
               formatQty={formatQty}
-              formatMoney={formatMoney}
-              computeDerivedPrices={computeDerivedPrices}
+              formatMoney={displayMoney}
+              computeDerivedPrices={pricing.derive}
+              priceColumns={priceColumns}
               onRowClick={openItem}
               onEditPrice={openItemForEditPrice}
               canEditPrices={auth.isOwner}
               ownerToken={auth.token}
               onDealerPriceSaved={handlePriceSaved}
-              onError={(m) => setError(m)}
+              onError={handleTableError}
               searchActive={search.trim().length > 0}
+              selectedIds={auth.isOwner ? quoteIds : undefined}
+              onToggleSelect={auth.isOwner ? toggleQuoteItem : undefined}
+              showLocations={locations.length > 0}
             />
           </div>
         </div>
@@ -421,6 +555,37 @@ export default function ProductsPage() {
                   </ScrollArea>
                 </div>
 
+                {/* Category filter: a stock group and everything below it */}
+                {categories.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Category</Label>
+                    <CategoryList value={category} onValueChange={setCategory} categories={categories} />
+                  </div>
+                )}
+
+                {/* Location filter: stock held at one godown */}
+                {locations.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Location</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {["all", ...locations].map((l) => (
+                        <button
+                          key={l}
+                          type="button"
+                          onClick={() => setLocation(l)}
+                          className={cn(
+                            "inline-flex items-center gap-1.5 rounded-full px-3 py-2 text-sm font-medium transition-colors",
+                            location === l ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"
+                          )}
+                        >
+                          {location === l && <Check className="h-4 w-4" />}
+                          {l === "all" ? "All Locations" : l}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Availability filter */}
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">Status</Label>
@@ -430,11 +595,12 @@ export default function ProductsPage() {
                       { value: "IN_STOCK", label: "In Stock" },
                       { value: "OUT_OF_STOCK", label: "Out" },
                       { value: "NEGATIVE", label: "Negative" },
+                      { value: "REMOVED", label: "Removed" },
                     ].map((opt) => (
                       <Button
                         key={opt.value}
                         variant={availability === opt.value ? "default" : "outline"}
-                        onClick={() => setAvailability(opt.value as "all" | Availability)}
+                        onClick={() => setAvailability(opt.value as StatusFilter)}
                         className={cn("rounded-lg", availability !== opt.value && "bg-transparent")}
                       >
                         {opt.label}
@@ -448,15 +614,16 @@ export default function ProductsPage() {
                   <Label className="text-sm font-medium">Sort by</Label>
                   <div className="grid grid-cols-2 gap-2">
                     {[
+                      { value: "relevance", label: "Best match" },
                       { value: "name", label: "Name" },
                       { value: "qty", label: "Quantity" },
                       { value: "dealerPrice", label: "Dealer Price" },
-                      { value: "retail", label: "Retail Price" },
+                      ...pricing.tiers.map((t) => ({ value: t.id, label: `${t.label} Price` })),
                     ].map((opt) => (
                       <Button
                         key={opt.value}
                         variant={sortKey === opt.value ? "default" : "outline"}
-                        onClick={() => setSortKey(opt.value as SortKey)}
+                        onClick={() => setSortKey(opt.value)}
                         className={cn("rounded-lg", sortKey !== opt.value && "bg-transparent")}
                       >
                         {opt.label}
@@ -482,6 +649,25 @@ export default function ProductsPage() {
                     Z → A
                   </Button>
                 </div>
+
+                {/* Display currency (stored prices stay in LKR) */}
+                {exchange.rates.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Currency</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[BASE_CURRENCY, ...exchange.rates.map((r) => r.currency)].map((c) => (
+                        <Button
+                          key={c}
+                          variant={activeCurrency === c ? "default" : "outline"}
+                          onClick={() => chooseCurrency(c)}
+                          className={cn("rounded-lg", activeCurrency !== c && "bg-transparent")}
+                        >
+                          {c}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
               <DrawerFooter className="pt-2">
@@ -525,6 +711,45 @@ export default function ProductsPage() {
           >
             <Download className={cn("h-5 w-5", exporting && "animate-pulse")} />
           </Button>
+
+          {/* Price list import (owner only) */}
+          {auth.isOwner && (
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => setPriceImportOpen(true)}
+              className="h-11 w-11 rounded-lg shrink-0"
+              title="Import dealer prices from a price list"
+            >
+              <Upload className="h-5 w-5" />
+            </Button>
+          )}
+
+          {/* Bulk price adjustment over the current filters (owner only) */}
+          {auth.isOwner && (
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => setPriceAdjustOpen(true)}
+              className="h-11 w-11 rounded-lg shrink-0"
+              title="Adjust dealer prices of the filtered products"
+            >
+              <Percent className="h-5 w-5" />
+            </Button>
+          )}
+
+          {/* Quotation from the ticked products (owner only) */}
+          {auth.isOwner && (
+            <Button
+              variant="outline"
+              onClick={() => setQuoteOpen(true)}
+              className="h-11 gap-2 rounded-lg shrink-0"
+              title="Build a quotation from the selected products"
+            >
+              <FileText className="h-5 w-5" />
+              Quote{quoteItems.size > 0 ? ` (${quoteItems.size})` : ""}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -534,14 +759,42 @@ export default function ProductsPage() {
         open={sheetOpen}
         onOpenChange={setSheetOpen}
         formatQty={formatQty}
-        formatMoney={formatMoney}
-        computeDerivedPrices={computeDerivedPrices}
+        formatMoney={displayMoney}
+        priceTiers={pricing.tiersFor(selected?.brand)}
+        exchangeRates={exchange.rates}
         onPriceSaved={handlePriceSaved}
+        onMetaSaved={handleMetaSaved}
         canEditPrices={auth.isOwner}
         ownerToken={auth.token}
+        ownerName={auth.username}
         shouldFocusPrice={focusPriceInput}
       />
 
+      <PriceImportDialog open={priceImportOpen} onOpenChange={setPriceImportOpen} onApplied={refresh} />
+      <PriceAdjustDialog
+        open={priceAdjustOpen}
+        onOpenChange={setPriceAdjustOpen}
+        filters={{
+          search: query.search,
+          brand: query.brand,
+          category: query.category,
+          availability: query.availability,
+          removed: query.removed,
+          location: query.location,
+          companyId: query.companyId,
+        }}
+        onApplied={refresh}
+      />
+      <QuoteBuilderDialog
+        open={quoteOpen}
+        onOpenChange={setQuoteOpen}
+        products={[...quoteItems.values()]}
+        tiers={pricing.tiers}
+        derive={pricing.derive}
+        onRemove={removeQuoteItem}
+        onCreated={() => setQuoteItems(new Map())}
+      />
+
     </div>
   )
 }
@@ -0,0 +1,129 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { useAuthContext } from "@/components/auth-provider"
+import { formatMoney } from "@/lib/pricing"
+import { formatQuoteNumber } from "@/lib/quotes"
+import { cn } from "@/lib/utils"
+import { Download, Printer, RefreshCcw } from "lucide-react"
+
+type QuoteSummary = {
+  id: string
+  number: number
+  customerName: string
+  tierLabel: string
+  total: number
+  validUntil: number
+  createdBy: string | null
+  createdAt: number
+  lineCount: number
+}
+
+function formatDate(ms: number) {
+  return new Date(ms).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+}
+
+export default function QuotesPage() {
+  const { isOwner } = useAuthContext()
+  const [items, setItems] = useState<QuoteSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/quotes?limit=200", { cache: "no-store" })
+      const body = (await res.json()) as { ok: boolean; items?: QuoteSummary[]; error?: string }
+      if (!body.ok) throw new Error(body.error ?? "Failed to load quotes.")
+      setItems(body.items ?? [])
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load quotes.")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOwner) refresh().catch(() => {})
+  }, [isOwner, refresh])
+
+  if (!isOwner) {
+    return (
+      <div className="mx-auto max-w-6xl px-4 sm:px-6 py-8 md:py-12">
+        <h1 className="text-2xl md:text-3xl font-semibold tracking-tight text-foreground">Quotes</h1>
+        <p className="mt-2 text-muted-foreground">Only owners can create and view quotes.</p>
+      </div>
+    )
+  }
+
+  const now = Date.now()
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 sm:px-6 py-8 md:py-12 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-semibold tracking-tight text-foreground">Quotes</h1>
+          <p className="mt-1 text-muted-foreground">
+            Tick products in the product list and use Quote to create one. Prices are fixed when a quote is saved.
+          </p>
+        </div>
+        <Button variant="outline" size="icon" className="h-10 w-10 rounded-lg shrink-0" onClick={() => void refresh()} disabled={loading} title="Refresh">
+          <RefreshCcw className={cn("h-4 w-4", loading && "animate-spin")} />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-xl bg-destructive/10 border border-destructive/20 px-4 py-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <Card className="p-0 overflow-hidden divide-y">
+        {!loading && items.length === 0 && (
+          <p className="px-4 py-10 text-center text-sm text-muted-foreground">No quotes yet.</p>
+        )}
+        {items.map((q) => {
+          const expired = q.validUntil < now
+          return (
+            <div key={q.id} className="flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-3">
+              <div className="min-w-0 flex-1 basis-56">
+                <div className="flex items-baseline gap-2">
+                  <span className="font-mono text-sm font-semibold">{formatQuoteNumber(q.number)}</span>
+                  <span className="font-medium truncate">{q.customerName}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDate(q.createdAt)}
+                  {q.createdBy ? ` by ${q.createdBy}` : ""} · {q.lineCount} {q.lineCount === 1 ? "line" : "lines"} · {q.tierLabel} ·{" "}
+                  <span className={cn(expired && "text-destructive")}>
+                    {expired ? "expired" : "valid until"} {formatDate(q.validUntil)}
+                  </span>
+                </div>
+              </div>
+              <div className="text-right font-semibold tabular-nums">{formatMoney(q.total)}</div>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/quotes/${q.id}/xlsx`}
+                  download
+                  className={cn(buttonVariants({ variant: "outline", size: "sm" }), "gap-1.5 rounded-lg")}
+                >
+                  <Download className="h-3.5 w-3.5" />
+                  XLSX
+                </a>
+                <a
+                  href={`/api/quotes/${q.id}/print`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className={cn(buttonVariants({ variant: "outline", size: "sm" }), "gap-1.5 rounded-lg")}
+                >
+                  <Printer className="h-3.5 w-3.5" />
+                  Print
+                </a>
+              </div>
+            </div>
+          )
+        })}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,470 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuthContext } from "@/components/auth-provider"
+import { ExchangeRatesCard } from "@/components/exchange-rates-card"
+import { ownerHeaders } from "@/lib/owner"
+import {
+  DEALER_BASE,
+  PRICE_TIER_OPS,
+  ROUNDING_PRESETS,
+  computeDerivedPrices,
+  describeRounding,
+  formatMoney,
+  roundingKey,
+  type PriceTier,
+  type PriceTierOp,
+  type PricingRules,
+  type RoundingPolicy,
+} from "@/lib/pricing"
+import { ArrowDown, ArrowUp, Loader2, Plus, RotateCcw, Save, Trash2 } from "lucide-react"
+
+// Drafts are keyed by a local `key` so brand overrides follow a tier while its id is being edited.
+type TierDraft = {
+  key: number
+  id: string
+  /** Saved tiers keep their id: it is used as a sort key and by brand overrides. */
+  isNew: boolean
+  label: string
+  base: string
+  op: PriceTierOp
+  value: string
+  rounding: RoundingPolicy
+  showInList: boolean
+}
+type BrandDraft = { key: number; brand: string; values: Record<number, string> }
+
+const OP_HINTS: Record<PriceTierOp, string> = {
+  divide: "base ÷ value",
+  multiply: "base × value",
+  markup: "base + value %",
+  discount: "base − value %",
+}
+
+const SAMPLE_DEALER_PRICE = 10000
+
+function nextKey(items: { key: number }[]): number {
+  return Math.max(-1, ...items.map((i) => i.key)) + 1
+}
+
+// Presets, plus the tier's current policy if it was saved with a custom step.
+function roundingOptions(current: RoundingPolicy) {
+  const key = roundingKey(current)
+  if (ROUNDING_PRESETS.some((p) => roundingKey(p.policy) === key)) return ROUNDING_PRESETS
+  return [...ROUNDING_PRESETS, { label: describeRounding(current), policy: current }]
+}
+
+function toTierDrafts(tiers: PriceTier[]): TierDraft[] {
+  return tiers.map((t, key) => ({
+    key,
+    id: t.id,
+    isNew: false,
+    label: t.label,
+    base: t.base,
+    op: t.op,
+    value: String(t.value),
+    rounding: t.rounding,
+    showInList: t.showInList,
+  }))
+}
+
+// Invalid numbers are passed through as NaN so the server reports them.
+function fromTierDrafts(drafts: TierDraft[]): PriceTier[] {
+  const idByKey = new Map(drafts.map((d) => [d.key, d.id.trim()]))
+  return drafts.map((d) => ({
+    id: d.id.trim(),
+    label: d.label.trim(),
+    base: d.base === DEALER_BASE ? DEALER_BASE : (idByKey.get(Number(d.base)) ?? ""),
+    op: d.op,
+    value: Number(d.value),
+    rounding: d.rounding,
+    showInList: d.showInList,
+  }))
+}
+
+export default function PricingSettingsPage() {
+  const { isOwner, token, username } = useAuthContext()
+  const [tiers, setTiers] = useState<TierDraft[]>([])
+  const [overrides, setOverrides] = useState<BrandDraft[]>([])
+  const [brands, setBrands] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+
+  const applyRules = useCallback((rules: PricingRules) => {
+    const drafts = toTierDrafts(rules.tiers)
+    const keyById = new Map(drafts.map((d) => [d.id, d.key]))
+    // Bases are stored as tier keys while editing, so renaming an id keeps the chain intact.
+    setTiers(drafts.map((d) => ({ ...d, base: d.base === DEALER_BASE ? DEALER_BASE : String(keyById.get(d.base) ?? DEALER_BASE) })))
+    setOverrides(
+      Object.entries(rules.brands)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([brand, values], i) => ({
+          key: i,
+          brand,
+          values: Object.fromEntries(
+            Object.entries(values).flatMap(([id, v]) => (keyById.has(id) ? [[keyById.get(id), String(v)]] : [])),
+          ),
+        })),
+    )
+  }, [])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [r, b] = await Promise.all([
+        fetch("/api/pricing-rules", { cache: "no-store" }).then((res) => res.json() as Promise<{ ok: boolean; rules?: PricingRules; error?: string }>),
+        fetch("/api/brands", { cache: "no-store" }).then((res) => res.json() as Promise<{ brands: string[] }>),
+      ])
+      if (!r.ok || !r.rules) throw new Error(r.error ?? "Failed to load pricing rules.")
+      applyRules(r.rules)
+      setBrands(b.brands ?? [])
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load pricing rules.")
+    } finally {
+      setLoading(false)
+    }
+  }, [applyRules])
+
+  useEffect(() => {
+    load().catch(() => {})
+  }, [load])
+
+  const resolvedTiers = useMemo(() => fromTierDrafts(tiers), [tiers])
+
+  const updateTier = (key: number, patch: Partial<TierDraft>) =>
+    setTiers((prev) => prev.map((t) => (t.key === key ? { ...t, ...patch } : t)))
+
+  const moveTier = (index: number, delta: -1 | 1) =>
+    setTiers((prev) => {
+      const next = [...prev]
+      const [tier] = next.splice(index, 1)
+      next.splice(index + delta, 0, tier)
+      return next
+    })
+
+  const removeTier = (key: number) => {
+    // Tiers based on the removed one fall back to the dealer price.
+    setTiers((prev) =>
+      prev.filter((t) => t.key !== key).map((t) => (t.base === String(key) ? { ...t, base: DEALER_BASE } : t)),
+    )
+    setOverrides((prev) =>
+      prev.map((o) => ({ ...o, values: Object.fromEntries(Object.entries(o.values).filter(([k]) => Number(k) !== key)) })),
+    )
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const brandRules: PricingRules["brands"] = {}
+      for (const o of overrides) {
+        const brand = o.brand.trim()
+        if (!brand) continue
+        const values: Record<string, number> = {}
+        for (const t of tiers) {
+          const raw = o.values[t.key]?.trim()
+          if (raw) values[t.id.trim()] = Number(raw)
+        }
+        brandRules[brand] = values
+      }
+      const res = await fetch("/api/pricing-rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(token, username) },
+        body: JSON.stringify({ tiers: resolvedTiers, brands: brandRules }),
+      })
+      const body = (await res.json()) as { ok: boolean; rules?: PricingRules; error?: string }
+      if (!body.ok || !body.rules) throw new Error(body.error ?? "Failed to save pricing rules.")
+      applyRules(body.rules)
+      setSavedAt(Date.now())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save pricing rules.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="mx-auto max-w-6xl px-4 sm:px-6 py-8 md:py-12">
+        <h1 className="text-2xl md:text-3xl font-semibold tracking-tight text-foreground">Pricing rules</h1>
+        <p className="mt-2 text-muted-foreground">Only owners can manage pricing rules.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 sm:px-6 py-8 md:py-12 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-semibold tracking-tight text-foreground">Pricing rules</h1>
+          <p className="mt-1 text-muted-foreground">
+            Price tiers for each sales channel, derived from the dealer price or from an earlier tier.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => void load()} disabled={loading || saving} className="gap-2 h-10 rounded-xl">
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </Button>
+          <Button onClick={() => void save()} disabled={loading || saving} className="gap-2 h-10 rounded-xl">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl bg-destructive/10 border border-destructive/20 px-4 py-3 text-sm text-destructive">{error}</div>
+      )}
+      {savedAt && !error && (
+        <p className="text-sm text-muted-foreground">Saved at {new Date(savedAt).toLocaleTimeString()}.</p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Price tiers</CardTitle>
+          <CardDescription>Evaluated top to bottom, so a tier can only be based on one above it.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tiers.map((t, i) => (
+            <div key={t.key} className="rounded-xl border border-border p-4 space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium">Label</Label>
+                  <Input value={t.label} onChange={(e) => updateTier(t.key, { label: e.target.value })} className="rounded-lg" />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium">Id</Label>
+                  {t.isNew ? (
+                    <Input
+                      value={t.id}
+                      placeholder="e.g. wholesale"
+                      onChange={(e) => updateTier(t.key, { id: e.target.value.toLowerCase() })}
+                      className="rounded-lg font-mono text-xs"
+                    />
+                  ) : (
+                    <p className="h-9 flex items-center font-mono text-xs text-muted-foreground">{t.id}</p>
+                  )}
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium">Based on</Label>
+                  <Select value={t.base} onValueChange={(v) => updateTier(t.key, { base: v ?? DEALER_BASE })}>
+                    <SelectTrigger className="w-full rounded-lg">
+                      <SelectValue>
+                        {(v: string) => (v === DEALER_BASE ? "Dealer" : (tiers.find((b) => String(b.key) === v)?.label ?? "—"))}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEALER_BASE}>Dealer</SelectItem>
+                      {tiers.slice(0, i).map((b) => (
+                        <SelectItem key={b.key} value={String(b.key)}>
+                          {b.label || b.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium">Formula</Label>
+                  <Select value={t.op} onValueChange={(v) => updateTier(t.key, { op: (v ?? "divide") as PriceTierOp })}>
+                    <SelectTrigger className="w-full rounded-lg">
+                      <SelectValue>{(v: PriceTierOp) => OP_HINTS[v]}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PRICE_TIER_OPS) as PriceTierOp[]).map((op) => (
+                        <SelectItem key={op} value={op}>
+                          {OP_HINTS[op]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium">Value</Label>
+                  <Input
+                    inputMode="decimal"
+                    value={t.value}
+                    onChange={(e) => updateTier(t.key, { value: e.target.value })}
+                    className="rounded-lg tabular-nums"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium">Rounding</Label>
+                  <Select
+                    value={roundingKey(t.rounding)}
+                    onValueChange={(v) => {
+                      const preset = ROUNDING_PRESETS.find((p) => roundingKey(p.policy) === v)
+                      if (preset) updateTier(t.key, { rounding: preset.policy })
+                    }}
+                  >
+                    <SelectTrigger className="w-full rounded-lg">
+                      <SelectValue>{() => describeRounding(t.rounding)}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roundingOptions(t.rounding).map((p) => (
+                        <SelectItem key={roundingKey(p.policy)} value={roundingKey(p.policy)}>
+                          {p.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={t.showInList} onCheckedChange={(checked) => updateTier(t.key, { showInList: checked === true })} />
+                  Show in product list
+                </label>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => moveTier(i, -1)} disabled={i === 0} className="h-8 w-8 rounded-lg" title="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveTier(i, 1)}
+                    disabled={i === tiers.length - 1}
+                    className="h-8 w-8 rounded-lg"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeTier(t.key)}
+                    disabled={tiers.length === 1}
+                    className="h-8 w-8 rounded-lg"
+                    title="Remove tier"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+          <TierPreview tiers={resolvedTiers} />
+          <Button
+            variant="outline"
+            onClick={() =>
+              setTiers((prev) => [
+                ...prev,
+                {
+                  key: nextKey(prev),
+                  id: "",
+                  isNew: true,
+                  label: "",
+                  base: DEALER_BASE,
+                  op: "divide",
+                  value: "1",
+                  rounding: { mode: "none" },
+                  showInList: false,
+                },
+              ])
+            }
+            className="gap-2 rounded-xl"
+          >
+            <Plus className="h-4 w-4" />
+            Add tier
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Brand overrides</CardTitle>
+          <CardDescription>Replace a tier&apos;s value for one brand. Leave a field blank to inherit it.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {overrides.length === 0 && <p className="text-sm text-muted-foreground">No brand overrides.</p>}
+          {overrides.map((o) => (
+            <div key={o.key} className="rounded-xl border border-border p-4 space-y-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Brand</Label>
+                  <Input
+                    list="pricing-brands"
+                    value={o.brand}
+                    onChange={(e) =>
+                      setOverrides((prev) => prev.map((p) => (p.key === o.key ? { ...p, brand: e.target.value } : p)))
+                    }
+                    placeholder="Brand name"
+                    className="rounded-lg"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setOverrides((prev) => prev.filter((p) => p.key !== o.key))}
+                  className="h-9 w-9 rounded-lg"
+                  title="Remove override"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {tiers.map((t) => (
+                  <div key={t.key} className="space-y-1.5">
+                    <Label className="text-xs font-medium">{t.label || t.id}</Label>
+                    <Input
+                      inputMode="decimal"
+                      value={o.values[t.key] ?? ""}
+                      placeholder={t.value}
+                      onChange={(e) =>
+                        setOverrides((prev) =>
+                          prev.map((p) => (p.key === o.key ? { ...p, values: { ...p.values, [t.key]: e.target.value } } : p)),
+                        )
+                      }
+                      className="rounded-lg tabular-nums"
+                    />
+                    <p className="text-xs text-muted-foreground">{OP_HINTS[t.op]}</p>
+                  </div>
+                ))}
+              </div>
+              <TierPreview
+                tiers={resolvedTiers.map((tier, i) => {
+                  const raw = o.values[tiers[i].key]?.trim()
+                  return raw && Number.isFinite(Number(raw)) ? { ...tier, value: Number(raw) } : tier
+                })}
+              />
+            </div>
+          ))}
+          <datalist id="pricing-brands">
+            {brands.map((b) => (
+              <option key={b} value={b} />
+            ))}
+          </datalist>
+          <Button
+            variant="outline"
+            onClick={() => setOverrides((prev) => [...prev, { key: nextKey(prev), brand: "", values: {} }])}
+            className="gap-2 rounded-xl"
+          >
+            <Plus className="h-4 w-4" />
+            Add brand override
+          </Button>
+        </CardContent>
+      </Card>
+
+      <ExchangeRatesCard ownerToken={token} ownerName={username} />
+    </div>
+  )
+}
+
+function TierPreview({ tiers }: { tiers: PriceTier[] }) {
+  const prices = computeDerivedPrices(SAMPLE_DEALER_PRICE, tiers)
+  return (
+    <p className="text-xs text-muted-foreground">
+      Dealer {formatMoney(SAMPLE_DEALER_PRICE)} →{" "}
+      {prices.tiers.map((t) => `${t.label || t.id} ${formatMoney(t.price)}`).join(", ")}
+    </p>
+  )
+}
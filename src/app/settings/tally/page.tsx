@@ -0,0 +1,411 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuthContext } from "@/components/auth-provider"
+import { useCompany } from "@/components/company-provider"
+import type { Company } from "@/lib/companies"
+import { ownerHeaders } from "@/lib/owner"
+import { cn } from "@/lib/utils"
+import { AlertCircle, CheckCircle2, Loader2, Plug, Plus, RotateCcw, Save, Trash2 } from "lucide-react"
+
+type CompanyDraft = {
+  key: number
+  id: string
+  /** Saved companies keep their id: their products are stored under it. */
+  isNew: boolean
+  name: string
+  tallyCompany: string
+  godowns: string[]
+  active: boolean
+}
+
+type GodownList = { godowns: string[]; error?: undefined } | { godowns?: undefined; error: string }
+
+type TestResult =
+  | {
+      ok: boolean
+      results: { godown: string; ok: boolean; error?: string; itemCount: number; sample: string[] }[]
+      error?: undefined
+    }
+  | { ok: false; results?: undefined; error: string }
+
+function toDrafts(companies: Company[]): CompanyDraft[] {
+  return companies.map((c, key) => ({
+    key,
+    id: c.id,
+    isNew: false,
+    name: c.name,
+    tallyCompany: c.tallyCompany,
+    godowns: c.godowns,
+    active: c.active,
+  }))
+}
+
+export default function TallySetupPage() {
+  const { isOwner, token, username } = useAuthContext()
+  const { reload: reloadCompanies } = useCompany()
+  const [drafts, setDrafts] = useState<CompanyDraft[]>([])
+  const [tallyCompanies, setTallyCompanies] = useState<string[] | null>(null)
+  const [tallyError, setTallyError] = useState<string | null>(null)
+  // Godown lists per Tally company name; a name that is missing is still loading.
+  const [godownLists, setGodownLists] = useState<Record<string, GodownList>>({})
+  const requestedGodowns = useRef(new Set<string>())
+  const [tests, setTests] = useState<Record<number, TestResult | "busy">>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    setTests({})
+    try {
+      const [registry, tally] = await Promise.all([
+        fetch("/api/companies", { cache: "no-store" }).then(
+          (res) => res.json() as Promise<{ ok: boolean; companies?: Company[]; error?: string }>,
+        ),
+        fetch("/api/import/tally/companies", { cache: "no-store", headers: ownerHeaders(token, username) }).then(
+          (res) => res.json() as Promise<{ ok: boolean; companies?: string[]; error?: string }>,
+        ),
+      ])
+      if (!registry.ok || !registry.companies) throw new Error(registry.error ?? "Failed to load companies.")
+      setDrafts(toDrafts(registry.companies))
+      setTallyCompanies(tally.ok && tally.companies ? tally.companies : null)
+      setTallyError(tally.ok ? null : (tally.error ?? "Could not list companies from Tally."))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load companies.")
+    } finally {
+      setLoading(false)
+    }
+  }, [token, username])
+
+  useEffect(() => {
+    if (isOwner) load().catch(() => {})
+  }, [isOwner, load])
+
+  const loadGodowns = useCallback(
+    async (company: string) => {
+      requestedGodowns.current.add(company)
+      let list: GodownList
+      try {
+        const res = await fetch(`/api/import/tally/godowns?company=${encodeURIComponent(company)}`, {
+          cache: "no-store",
+          headers: ownerHeaders(token, username),
+        })
+        const body = (await res.json()) as { ok: boolean; godowns?: string[]; error?: string }
+        list = body.ok && body.godowns ? { godowns: body.godowns } : { error: body.error ?? "Could not list godowns." }
+      } catch (e) {
+        list = { error: e instanceof Error ? e.message : "Could not list godowns." }
+      }
+      setGodownLists((prev) => ({ ...prev, [company]: list }))
+    },
+    [token, username],
+  )
+
+  // Godowns are listed once per Tally company that a draft points at.
+  useEffect(() => {
+    for (const d of drafts) {
+      const company = d.tallyCompany.trim()
+      if (company && !requestedGodowns.current.has(company)) void loadGodowns(company)
+    }
+  }, [drafts, loadGodowns])
+
+  const reloadGodowns = (company: string) => {
+    requestedGodowns.current.delete(company)
+    setGodownLists((prev) => Object.fromEntries(Object.entries(prev).filter(([name]) => name !== company)))
+    void loadGodowns(company)
+  }
+
+  const updateDraft = (key: number, patch: Partial<CompanyDraft>) => {
+    setDrafts((prev) => prev.map((d) => (d.key === key ? { ...d, ...patch } : d)))
+    setTests((prev) => Object.fromEntries(Object.entries(prev).filter(([k]) => Number(k) !== key)))
+  }
+
+  const toggleGodown = (draft: CompanyDraft, godown: string, checked: boolean) =>
+    updateDraft(draft.key, {
+      godowns: checked ? [...draft.godowns, godown] : draft.godowns.filter((g) => g !== godown),
+    })
+
+  const addCompany = () =>
+    setDrafts((prev) => [
+      ...prev,
+      {
+        key: Math.max(-1, ...prev.map((d) => d.key)) + 1,
+        id: "",
+        isNew: true,
+        name: "",
+        tallyCompany: tallyCompanies?.find((c) => !prev.some((d) => d.tallyCompany === c)) ?? "",
+        godowns: [],
+        active: true,
+      },
+    ])
+
+  const test = async (draft: CompanyDraft) => {
+    setTests((prev) => ({ ...prev, [draft.key]: "busy" }))
+    let result: TestResult
+    try {
+      const res = await fetch("/api/import/tally/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(token, username) },
+        body: JSON.stringify({ company: draft.tallyCompany, godowns: draft.godowns }),
+      })
+      result = (await res.json()) as TestResult
+    } catch (e) {
+      result = { ok: false, error: e instanceof Error ? e.message : "Test failed." }
+    }
+    setTests((prev) => ({ ...prev, [draft.key]: result }))
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/companies", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(token, username) },
+        body: JSON.stringify({
+          companies: drafts.map((d) => ({
+            id: d.id.trim(),
+            name: d.name.trim(),
+            tallyCompany: d.tallyCompany.trim(),
+            godowns: d.godowns,
+            active: d.active,
+          })),
+        }),
+      })
+      const body = (await res.json()) as { ok: boolean; companies?: Company[]; error?: string }
+      if (!body.ok || !body.companies) throw new Error(body.error ?? "Failed to save companies.")
+      setDrafts(toDrafts(body.companies))
+      setSavedAt(Date.now())
+      await reloadCompanies()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save companies.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="mx-auto max-w-6xl px-4 sm:px-6 py-8 md:py-12">
+        <h1 className="text-2xl md:text-3xl font-semibold tracking-tight text-foreground">Tally setup</h1>
+        <p className="mt-2 text-muted-foreground">Only owners can change the Tally setup.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 sm:px-6 py-8 md:py-12 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-semibold tracking-tight text-foreground">Tally setup</h1>
+          <p className="mt-1 text-muted-foreground">
+            Which Tally companies and godowns are synced. Names are listed from Tally, so they always match.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => void load()} disabled={loading || saving} className="gap-2 h-10 rounded-xl">
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </Button>
+          <Button onClick={() => void save()} disabled={loading || saving} className="gap-2 h-10 rounded-xl">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl bg-destructive/10 border border-destructive/20 px-4 py-3 text-sm text-destructive">{error}</div>
+      )}
+      {tallyError && (
+        <div className="rounded-xl bg-amber-500/10 border border-amber-500/20 px-4 py-3 text-sm text-amber-700 dark:text-amber-400">
+          Could not list companies from Tally: {tallyError}. Saved names are shown as they are.
+        </div>
+      )}
+      {savedAt && !error && (
+        <p className="text-sm text-muted-foreground">Saved at {new Date(savedAt).toLocaleTimeString()}.</p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading companies…
+        </div>
+      ) : (
+        drafts.map((d) => {
+          const company = d.tallyCompany.trim()
+          const companyOptions = Array.from(new Set([...(tallyCompanies ?? []), ...(company ? [company] : [])]))
+          const missingCompany = tallyCompanies != null && company !== "" && !tallyCompanies.includes(company)
+          const godownList = company ? godownLists[company] : undefined
+          const godownOptions = Array.from(new Set([...(godownList?.godowns ?? []), ...d.godowns]))
+          const testResult = tests[d.key]
+          return (
+            <Card key={d.key}>
+              <CardHeader>
+                <CardTitle>{d.name || "New company"}</CardTitle>
+                <CardDescription>
+                  {d.godowns.length
+                    ? `Syncs ${d.godowns.length === 1 ? "godown" : "godowns"} ${d.godowns.join(", ")}.`
+                    : "Syncs company-wide stock (no godown ticked)."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_2fr] gap-3">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs font-medium">Name</Label>
+                    <Input
+                      value={d.name}
+                      placeholder="e.g. Trading"
+                      onChange={(e) => updateDraft(d.key, { name: e.target.value })}
+                      className="rounded-lg"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs font-medium">Id</Label>
+                    {d.isNew ? (
+                      <Input
+                        value={d.id}
+                        placeholder="e.g. trading"
+                        onChange={(e) => updateDraft(d.key, { id: e.target.value.toLowerCase() })}
+                        className="rounded-lg font-mono text-xs"
+                      />
+                    ) : (
+                      <p className="h-9 flex items-center font-mono text-xs text-muted-foreground">{d.id}</p>
+                    )}
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs font-medium">Tally company</Label>
+                    <Select
+                      value={company}
+                      onValueChange={(v) => updateDraft(d.key, { tallyCompany: v ?? "", godowns: [] })}
+                    >
+                      <SelectTrigger className="w-full rounded-lg">
+                        <SelectValue>{(v: string) => v || "Pick a company"}</SelectValue>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {companyOptions.map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {c}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {missingCompany && (
+                      <p className="text-xs text-destructive">Tally does not have this company open.</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-xs font-medium">Godowns</Label>
+                    {company && (
+                      <Button variant="ghost" size="sm" onClick={() => reloadGodowns(company)} className="h-7 rounded-lg text-xs">
+                        Reload
+                      </Button>
+                    )}
+                  </div>
+                  {!company ? (
+                    <p className="text-sm text-muted-foreground">Pick a Tally company to list its godowns.</p>
+                  ) : !godownList ? (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Listing godowns…
+                    </p>
+                  ) : (
+                    <>
+                      {godownList.error && <p className="text-sm text-destructive">{godownList.error}</p>}
+                      <div className="flex flex-wrap gap-x-5 gap-y-2">
+                        {godownOptions.map((g) => (
+                          <label key={g} className="flex items-center gap-2 text-sm">
+                            <Checkbox checked={d.godowns.includes(g)} onCheckedChange={(checked) => toggleGodown(d, g, checked === true)} />
+                            <span className={cn(godownList.godowns && !godownList.godowns.includes(g) && "text-destructive line-through")}>
+                              {g}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {testResult && testResult !== "busy" && (
+                  <div className="rounded-lg border divide-y text-sm">
+                    {testResult.error != null ? (
+                      <div className="flex items-center gap-2 px-3 py-2 text-destructive">
+                        <AlertCircle className="h-4 w-4 shrink-0" />
+                        {testResult.error}
+                      </div>
+                    ) : (
+                      testResult.results.map((r) => (
+                        <div key={r.godown} className="flex items-start gap-2 px-3 py-2">
+                          {r.ok ? (
+                            <CheckCircle2 className="h-4 w-4 shrink-0 mt-0.5 text-emerald-600 dark:text-emerald-400" />
+                          ) : (
+                            <AlertCircle className="h-4 w-4 shrink-0 mt-0.5 text-destructive" />
+                          )}
+                          <div className="min-w-0">
+                            <div className="font-medium">{r.godown || "Company-wide"}</div>
+                            <div className="text-muted-foreground truncate">
+                              {r.ok
+                                ? `${r.itemCount.toLocaleString("en-IN")} items, e.g. ${r.sample.join(", ")}`
+                                : r.error}
+                            </div>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={d.active} onCheckedChange={(checked) => updateDraft(d.key, { active: checked === true })} />
+                    Active (synced every hour)
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => void test(d)}
+                      disabled={!company || testResult === "busy"}
+                      className="gap-2 rounded-lg"
+                    >
+                      {testResult === "busy" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plug className="h-4 w-4" />}
+                      Test
+                    </Button>
+                    {d.isNew && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDrafts((prev) => prev.filter((x) => x.key !== d.key))}
+                        className="h-9 w-9 rounded-lg text-destructive"
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })
+      )}
+
+      {!loading && (
+        <Button variant="outline" onClick={addCompany} className="gap-2 rounded-xl">
+          <Plus className="h-4 w-4" />
+          Add company
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -15,7 +15,14 @@ export type ActivityItem = {
   productId: string
   name: string
   brand: string | null
-  changeType: "NEW_PRODUCT" | "STOCK_DROP" | "OUT_OF_STOCK" | "PRICE_CHANGE"
+  changeType: 
+    | "NEW_PRODUCT"
+    | "STOCK_DROP"
+    | "STOCK_INCREASE"
+    | "OUT_OF_STOCK"
+    | "BACK_IN_STOCK"
+    | "PRICE_CHANGE"
+    | "REMOVED_FROM_EXPORT"
   fromQty: number | null
   toQty: number | null
   fromAvailability: Availability | null
@@ -52,10 +59,16 @@ function changeLabel(changeType: ActivityItem["changeType"]) {
       return { label: "New product", color: "bg-primary/10 text-primary" }
     case "STOCK_DROP":
       return { label: "Stock drop", color: "bg-amber-100 text-amber-800" }
+    case "STOCK_INCREASE":
+      return { label: "Stock increase", color: "bg-emerald-100 text-emerald-800" }
     case "OUT_OF_STOCK":
       return { label: "Out of stock", color: "bg-destructive/10 text-destructive" }
+    case "BACK_IN_STOCK":
+      return { label: "Back in stock", color: "bg-emerald-100 text-emerald-800" }
     case "PRICE_CHANGE":
       return { label: "Price change", color: "bg-blue-100 text-blue-800" }
+    case "REMOVED_FROM_EXPORT":
+      return { label: "Removed", color: "bg-muted text-foreground" }
     default:
       return { label: "Change", color: "bg-muted text-muted-foreground" }
   }
@@ -64,7 +77,9 @@ function changeLabel(changeType: ActivityItem["changeType"]) {
 function describeChange(change: ActivityItem) {
   if (change.changeType === "NEW_PRODUCT") return "New product added"
   if (change.changeType === "OUT_OF_STOCK") return "Now out of stock"
-  if (change.changeType === "STOCK_DROP") {
+  if (change.changeType === "REMOVED_FROM_EXPORT") return `Missing from export (was ${formatQty(change.fromQty)})`
+  if (change.changeType === "BACK_IN_STOCK") return `Back in stock (${formatQty(change.toQty)})`
+  if (change.changeType === "STOCK_DROP" || change.changeType === "STOCK_INCREASE") {
     const from = formatQty(change.fromQty)
     const to = formatQty(change.toQty)
     return `Quantity ${from} → ${to}`
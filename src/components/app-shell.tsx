@@ -5,7 +5,7 @@ import { usePathname } from "next/navigation";
 import Link from "next/link";
 import { cn } from "@/lib/utils";
 import { useAuthContext } from "@/components/auth-provider";
-import { Package, LogOut, User, Activity, Upload } from "lucide-react";
+import { Package, LogOut, User, Activity, Upload, Calculator, FileText, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -17,6 +17,7 @@ import {
   DropdownMenuGroup,
 } from "@/components/ui/dropdown-menu";
 import { ImportControls } from "@/components/import-controls";
+import { CompanySwitcher } from "@/components/company-switcher";
 
 interface AppShellProps {
   children: ReactNode;
@@ -54,49 +55,71 @@ export function AppShell({ children }: AppShellProps) {
                 <Activity className="h-4 w-4" />
                 Activity
               </NavLink>
+              {isOwner && (
+                <NavLink href="/settings/pricing" active={pathname?.startsWith("/settings/pricing")}>
+                  <Calculator className="h-4 w-4" />
+                  Pricing
+                </NavLink>
+              )}
+              {isOwner && (
+                <NavLink href="/quotes" active={pathname?.startsWith("/quotes")}>
+                  <FileText className="h-4 w-4" />
+                  Quotes
+                </NavLink>
+              )}
             </nav>
 
-            {/* Account menu */}
-            <DropdownMenu>
-              <DropdownMenuTrigger
-                render={(triggerProps) => (
-                  <Button variant="ghost" className="h-10 gap-2 px-3 rounded-xl" {...triggerProps}>
-                    <div className="h-7 w-7 rounded-full bg-primary/10 flex items-center justify-center">
-                      <User className="h-4 w-4 text-primary" />
-                    </div>
-                    <span className="hidden sm:inline text-sm font-medium">Account</span>
-                  </Button>
-                )}
-              />
-              <DropdownMenuContent align="end" className="w-72 rounded-xl">
-                <div className="px-2 py-1.5 text-sm text-muted-foreground">
-                  Signed in as <span className="font-medium text-foreground">{username}</span>
-                </div>
-                <DropdownMenuSeparator />
-                {isOwner ? (
-                  <div className="p-2">
-                    <DropdownMenuGroup>
-                      <DropdownMenuLabel className="text-xs font-medium text-muted-foreground mb-2">
-                        Import Data
-                      </DropdownMenuLabel>
-                      <ImportControls ownerToken={token} compact />
-                    </DropdownMenuGroup>
+            <div className="flex items-center gap-2">
+              <CompanySwitcher className="w-48" />
+
+              {/* Account menu */}
+              <DropdownMenu>
+                <DropdownMenuTrigger
+                  render={(triggerProps) => (
+                    <Button variant="ghost" className="h-10 gap-2 px-3 rounded-xl" {...triggerProps}>
+                      <div className="h-7 w-7 rounded-full bg-primary/10 flex items-center justify-center">
+                        <User className="h-4 w-4 text-primary" />
+                      </div>
+                      <span className="hidden sm:inline text-sm font-medium">Account</span>
+                    </Button>
+                  )}
+                />
+                <DropdownMenuContent align="end" className="w-72 rounded-xl">
+                  <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                    Signed in as <span className="font-medium text-foreground">{username}</span>
                   </div>
-                ) : (
-                  <div className="px-2 py-3">
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Upload className="h-4 w-4" />
-                      <span>Import data (Owner only)</span>
+                  <DropdownMenuSeparator />
+                  {isOwner ? (
+                    <div className="p-2">
+                      <DropdownMenuGroup>
+                        <DropdownMenuLabel className="text-xs font-medium text-muted-foreground mb-2">
+                          Import Data
+                        </DropdownMenuLabel>
+                        <ImportControls ownerToken={token} compact />
+                      </DropdownMenuGroup>
                     </div>
-                  </div>
-                )}
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={logout} className="text-destructive focus:text-destructive cursor-pointer">
-                  <LogOut className="h-4 w-4 mr-2" />
-                  Sign out
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+                  ) : (
+                    <div className="px-2 py-3">
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Upload className="h-4 w-4" />
+                        <span>Import data (Owner only)</span>
+                      </div>
+                    </div>
+                  )}
+                  {isOwner && (
+                    <DropdownMenuItem render={<Link href="/settings/tally" />} className="cursor-pointer">
+                      <Settings className="h-4 w-4 mr-2" />
+                      Tally setup
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={logout} className="text-destructive focus:text-destructive cursor-pointer">
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </div>
         </div>
       </header>
@@ -115,6 +138,12 @@ export function AppShell({ children }: AppShellProps) {
             <Activity className="h-5 w-5" />
             <span className="text-xs font-medium">Activity</span>
           </MobileNavLink>
+          {isOwner && (
+            <MobileNavLink href="/quotes" active={pathname?.startsWith("/quotes")}>
+              <FileText className="h-5 w-5" />
+              <span className="text-xs font-medium">Quotes</span>
+            </MobileNavLink>
+          )}
           <MobileNavLink href="/account" active={pathname?.startsWith("/account")}>
             <User className="h-5 w-5" />
             <span className="text-xs font-medium">Account</span>
@@ -0,0 +1,65 @@
+"use client"
+
+import { useMemo } from "react"
+import { Check } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { categoryTree, type Category } from "@/lib/categories"
+import { cn } from "@/lib/utils"
+
+interface CategoryFilterProps {
+  /** A stock group name, or "all". */
+  value: string
+  onValueChange: (value: string) => void
+  categories: Category[]
+  className?: string
+}
+
+/** Dropdown of the stock group tree, each group indented under its parent. */
+export function CategorySelect({ value, onValueChange, categories, className }: CategoryFilterProps) {
+  const options = useMemo(() => categoryTree(categories), [categories])
+
+  return (
+    <Select value={value} onValueChange={(v) => onValueChange(v ?? "all")}>
+      <SelectTrigger className={cn("w-[180px]", className)}>
+        <SelectValue>{(v: string) => (v === "all" ? "Category" : v)}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Categories</SelectItem>
+        {options.map((opt) => (
+          <SelectItem key={opt.name} value={opt.name} style={{ paddingLeft: `${0.75 + opt.depth}rem` }}>
+            {opt.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/** The same tree as a scrollable list, for filter drawers (no portal dropdowns). */
+export function CategoryList({ value, onValueChange, categories, className }: CategoryFilterProps) {
+  const options = useMemo(() => [{ name: "all", depth: 0 }, ...categoryTree(categories)], [categories])
+
+  return (
+    <ScrollArea className={cn("h-40 rounded-xl border p-2", className)}>
+      <div className="flex flex-col gap-1">
+        {options.map((opt) => (
+          <button
+            key={opt.name}
+            type="button"
+            onClick={() => onValueChange(opt.name)}
+            style={{ paddingLeft: `${0.75 + opt.depth}rem` }}
+            className={cn(
+              "inline-flex items-center gap-1.5 rounded-lg py-2 pr-3 text-left text-sm font-medium transition-colors",
+              value === opt.name ? "bg-primary text-primary-foreground" : "hover:bg-muted",
+              opt.depth === 0 && value !== opt.name && "font-semibold",
+            )}
+          >
+            {value === opt.name && <Check className="h-4 w-4 shrink-0" />}
+            <span className="truncate">{opt.name === "all" ? "All Categories" : opt.name}</span>
+          </button>
+        ))}
+      </div>
+    </ScrollArea>
+  )
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
+import { DEFAULT_COMPANY_ID, type Company } from "@/lib/companies";
+
+const STORAGE_KEY = "tally:company";
+
+interface CompanyContextValue {
+  /** Every company in the registry, oldest first. */
+  companies: Company[];
+  /** The company whose products are shown and imported into. */
+  companyId: string;
+  company: Company | null;
+  setCompanyId: (id: string) => void;
+  reload: () => Promise<void>;
+}
+
+const CompanyContext = createContext<CompanyContextValue | null>(null);
+
+export function CompanyProvider({ children }: { children: ReactNode }) {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch("/api/companies", { cache: "no-store" });
+      const body = (await res.json()) as { ok: boolean; companies?: Company[] };
+      if (body.ok && body.companies) setCompanies(body.companies);
+    } catch {
+      // Keep the current list.
+    } finally {
+      setSelected((current) => current ?? localStorage.getItem(STORAGE_KEY));
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const setCompanyId = useCallback((id: string) => {
+    setSelected(id);
+    localStorage.setItem(STORAGE_KEY, id);
+  }, []);
+
+  // A stored choice that was removed or deactivated falls back to the first active company.
+  const active = companies.filter((c) => c.active);
+  const company = active.find((c) => c.id === selected) ?? active[0] ?? null;
+  const companyId = company?.id ?? selected ?? DEFAULT_COMPANY_ID;
+
+  return (
+    <CompanyContext.Provider value={{ companies, companyId, company, setCompanyId, reload }}>
+      {children}
+    </CompanyContext.Provider>
+  );
+}
+
+export function useCompany(): CompanyContextValue {
+  const context = useContext(CompanyContext);
+  if (!context) {
+    throw new Error("useCompany must be used within CompanyProvider");
+  }
+  return context;
+}
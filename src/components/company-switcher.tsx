@@ -0,0 +1,34 @@
+"use client"
+
+import { Building2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCompany } from "@/components/company-provider"
+import { cn } from "@/lib/utils"
+
+/** Picks the company whose products are shown; hidden while there is only one active company. */
+export function CompanySwitcher({ className }: { className?: string }) {
+  const { companies, companyId, setCompanyId } = useCompany()
+  const active = companies.filter((c) => c.active)
+  if (active.length <= 1) return null
+
+  return (
+    <Select
+      value={companyId}
+      onValueChange={(v) => {
+        if (v) setCompanyId(v)
+      }}
+    >
+      <SelectTrigger className={cn("h-9 gap-2 rounded-lg", className)} aria-label="Company">
+        <Building2 className="h-4 w-4 text-muted-foreground" />
+        <SelectValue>{(v: string) => active.find((c) => c.id === v)?.name ?? v}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {active.map((c) => (
+          <SelectItem key={c.id} value={c.id}>
+            {c.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Search, X, SlidersHorizontal, ArrowUpDown, Filter, Check } from "lucide-react"
+import { CategoryList, CategorySelect } from "@/components/category-filter"
+import type { Category } from "@/lib/categories"
 import type { Availability } from "@/lib/domain"
 import { cn } from "@/lib/utils"
 import {
@@ -19,7 +21,14 @@ import {
 } from "@/components/ui/drawer"
 import { ScrollArea } from "@/components/ui/scroll-area"
 
-export type SortKey = "name" | "qty" | "dealerPrice" | "retail" | "daraz"
+/** Fixed sort keys, or the id of a configured price tier. */
+export type SortKey = "name" | "qty" | "dealerPrice" | (string & {})
+
+const BASE_SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: "name", label: "Name" },
+  { value: "qty", label: "Quantity" },
+  { value: "dealerPrice", label: "Dealer Price" },
+]
 
 interface DataTableToolbarProps {
   search: string
@@ -27,8 +36,15 @@ interface DataTableToolbarProps {
   brand: string
   onBrandChange: (value: string) => void
   brands: string[]
+  /** A Tally stock group, or "all"; matches products in the group and every group below it. */
+  category: string
+  onCategoryChange: (value: string) => void
+  /** The stock group tree; the category filter is hidden while it is empty. */
+  categories: Category[]
   availability: "all" | Availability
   onAvailabilityChange: (value: "all" | Availability) => void
+  /** Price tiers offered as sort options after Dealer Price. */
+  tiers: { id: string; label: string }[]
   sortKey: SortKey
   onSortKeyChange: (value: SortKey) => void
   sortDir: "asc" | "desc"
@@ -43,8 +59,12 @@ export function DataTableToolbar({
   brand,
   onBrandChange,
   brands,
+  category,
+  onCategoryChange,
+  categories,
   availability,
   onAvailabilityChange,
+  tiers,
   sortKey,
   onSortKeyChange,
   sortDir,
@@ -53,12 +73,15 @@ export function DataTableToolbar({
   filteredCount,
 }: DataTableToolbarProps) {
   const [drawerOpen, setDrawerOpen] = useState(false)
-  const hasFilters = search || brand !== "all" || availability !== "all"
-  const activeFilterCount = (search ? 1 : 0) + (brand !== "all" ? 1 : 0) + (availability !== "all" ? 1 : 0)
+  const sortOptions = [...BASE_SORT_OPTIONS, ...tiers.map((t) => ({ value: t.id, label: `${t.label} Price` }))]
+  const hasFilters = search || brand !== "all" || category !== "all" || availability !== "all"
+  const activeFilterCount =
+    (search ? 1 : 0) + (brand !== "all" ? 1 : 0) + (category !== "all" ? 1 : 0) + (availability !== "all" ? 1 : 0)
 
   const clearFilters = () => {
     onSearchChange("")
     onBrandChange("all")
+    onCategoryChange("all")
     onAvailabilityChange("all")
   }
 
@@ -106,6 +129,10 @@ export function DataTableToolbar({
               </SelectContent>
             </Select>
 
+            {categories.length > 0 && (
+              <CategorySelect value={category} onValueChange={onCategoryChange} categories={categories} />
+            )}
+
             <Select value={availability} onValueChange={(v) => onAvailabilityChange((v ?? "all") as "all" | Availability)}>
               <SelectTrigger className="w-[140px]">
                 <SelectValue>Status</SelectValue>
@@ -125,11 +152,11 @@ export function DataTableToolbar({
                   <SelectValue>Sort by</SelectValue>
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="name">Name</SelectItem>
-                  <SelectItem value="qty">Quantity</SelectItem>
-                  <SelectItem value="dealerPrice">Dealer Price</SelectItem>
-                  <SelectItem value="retail">Retail Price</SelectItem>
-                  <SelectItem value="daraz">Daraz Price</SelectItem>
+                  {sortOptions.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -160,6 +187,14 @@ export function DataTableToolbar({
                     </button>
                   </Badge>
                 )}
+                {category !== "all" && (
+                  <Badge variant="secondary" className="gap-1.5">
+                    Category: {category}
+                    <button onClick={() => onCategoryChange("all")}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
                 {availability !== "all" && (
                   <Badge variant="secondary" className="gap-1.5">
                     Status: {availability.replace("_", " ")}
@@ -276,6 +311,19 @@ export function DataTableToolbar({
                   </ScrollArea>
                 </div>
 
+                {/* Category filter - the stock group tree, indented */}
+                {categories.length > 0 && (
+                  <div className="space-y-3">
+                    <label className="text-base font-semibold text-foreground">Category</label>
+                    <CategoryList
+                      value={category}
+                      onValueChange={onCategoryChange}
+                      categories={categories}
+                      className="h-[180px] rounded-2xl"
+                    />
+                  </div>
+                )}
+
                 {/* Availability filter - button grid */}
                 <div className="space-y-3">
                   <label className="text-base font-semibold text-foreground">Status</label>
@@ -306,18 +354,12 @@ export function DataTableToolbar({
                 <div className="space-y-3">
                   <label className="text-base font-semibold text-foreground">Sort By</label>
                   <div className="grid grid-cols-2 gap-3">
-                    {[
-                      { value: "name", label: "Name" },
-                      { value: "qty", label: "Quantity" },
-                      { value: "dealerPrice", label: "Dealer Price" },
-                      { value: "retail", label: "Retail" },
-                      { value: "daraz", label: "Daraz" },
-                    ].map((opt) => (
+                    {sortOptions.map((opt) => (
                       <Button
                         key={opt.value}
                         variant={sortKey === opt.value ? "default" : "outline"}
                         size="lg"
-                        onClick={() => onSortKeyChange(opt.value as SortKey)}
+                        onClick={() => onSortKeyChange(opt.value)}
                         className={cn(
                           "h-12 text-sm font-semibold rounded-2xl active:scale-[0.98] transition-transform",
                           sortKey !== opt.value && "bg-transparent",
@@ -384,6 +426,14 @@ export function DataTableToolbar({
                 </button>
               </Badge>
             )}
+            {category !== "all" && (
+              <Badge variant="secondary" className="h-9 px-4 text-sm gap-2 rounded-full">
+                {category}
+                <button onClick={() => onCategoryChange("all")} className="p-0.5 rounded-full hover:bg-foreground/10">
+                  <X className="h-4 w-4" />
+                </button>
+              </Badge>
+            )}
             {availability !== "all" && (
               <Badge variant="secondary" className="h-9 px-4 text-sm gap-2 rounded-full">
                 {availability.replace("_", " ")}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2, Plus, Save, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { BASE_CURRENCY, type ExchangeRate } from "@/lib/currency"
+import { ownerHeaders } from "@/lib/owner"
+
+type RateDraft = { key: number; currency: string; rate: string; updatedBy: string | null; updatedAt: number | null }
+
+interface ExchangeRatesCardProps {
+  ownerToken: string | null
+  ownerName?: string | null
+}
+
+function toDrafts(rates: ExchangeRate[]): RateDraft[] {
+  return rates.map((r, key) => ({ key, currency: r.currency, rate: String(r.rate), updatedBy: r.updatedBy, updatedAt: r.updatedAt }))
+}
+
+/** Owner-maintained LKR rates used by the /products currency switcher and supplier quotes. Saved separately from tiers. */
+export function ExchangeRatesCard({ ownerToken, ownerName = null }: ExchangeRatesCardProps) {
+  const [drafts, setDrafts] = useState<RateDraft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/exchange-rates", { cache: "no-store" })
+      const body = (await res.json()) as { ok: boolean; rates?: ExchangeRate[]; error?: string }
+      if (!body.ok || !body.rates) throw new Error(body.error ?? "Failed to load exchange rates.")
+      setDrafts(toDrafts(body.rates))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load exchange rates.")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load().catch(() => {})
+  }, [load])
+
+  const update = (key: number, patch: Partial<RateDraft>) =>
+    setDrafts((prev) => prev.map((d) => (d.key === key ? { ...d, ...patch } : d)))
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/exchange-rates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(ownerToken, ownerName) },
+        // Invalid numbers are passed through as NaN so the server reports them.
+        body: JSON.stringify({ rates: drafts.map((d) => ({ currency: d.currency.trim(), rate: Number(d.rate) })) }),
+      })
+      const body = (await res.json()) as { ok: boolean; rates?: ExchangeRate[]; error?: string }
+      if (!body.ok || !body.rates) throw new Error(body.error ?? "Failed to save exchange rates.")
+      setDrafts(toDrafts(body.rates))
+      setSavedAt(Date.now())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save exchange rates.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange rates</CardTitle>
+        <CardDescription>
+          How many {BASE_CURRENCY} one unit of each currency buys. Prices are always stored in {BASE_CURRENCY}; these rates
+          only convert for display and for supplier quotes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && drafts.length === 0 && <p className="text-sm text-muted-foreground">Loading…</p>}
+        {!loading && drafts.length === 0 && <p className="text-sm text-muted-foreground">No exchange rates.</p>}
+        {drafts.map((d) => (
+          <div key={d.key} className="flex items-end gap-2">
+            <div className="w-28 space-y-1.5">
+              <Label className="text-xs font-medium">Currency</Label>
+              <Input
+                value={d.currency}
+                placeholder="USD"
+                maxLength={3}
+                onChange={(e) => update(d.key, { currency: e.target.value.toUpperCase() })}
+                className="rounded-lg font-mono"
+              />
+            </div>
+            <div className="flex-1 space-y-1.5">
+              <Label className="text-xs font-medium">{BASE_CURRENCY} per unit</Label>
+              <Input
+                inputMode="decimal"
+                value={d.rate}
+                onChange={(e) => update(d.key, { rate: e.target.value })}
+                className="rounded-lg tabular-nums"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setDrafts((prev) => prev.filter((p) => p.key !== d.key))}
+              className="h-9 w-9 rounded-lg"
+              title="Remove currency"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {drafts.some((d) => d.updatedAt) && (
+          <p className="text-xs text-muted-foreground">
+            {drafts
+              .filter((d) => d.updatedAt)
+              .map((d) => `${d.currency} updated ${new Date(d.updatedAt!).toLocaleDateString()}${d.updatedBy ? ` by ${d.updatedBy}` : ""}`)
+              .join(" · ")}
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {savedAt && !error && <p className="text-sm text-muted-foreground">Saved at {new Date(savedAt).toLocaleTimeString()}.</p>}
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() =>
+              setDrafts((prev) => [
+                ...prev,
+                { key: Math.max(-1, ...prev.map((p) => p.key)) + 1, currency: "", rate: "", updatedBy: null, updatedAt: null },
+              ])
+            }
+            className="gap-2 rounded-xl"
+          >
+            <Plus className="h-4 w-4" />
+            Add currency
+          </Button>
+          <Button onClick={() => void save()} disabled={loading || saving} className="gap-2 rounded-xl">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save rates
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
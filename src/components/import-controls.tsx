@@ -12,17 +12,20 @@ import {
 import { Upload, FileText, RefreshCcw, ChevronDown, CheckCircle2, AlertCircle, Loader2, Database } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { ownerHeaders } from "@/lib/owner"
+import { useAuthContext } from "@/components/auth-provider"
+import { useCompany } from "@/components/company-provider"
+import { withCompany } from "@/lib/companies"
 
 type ImportResult =
   | { ok: true; parsedCount: number; upserted: number; fileMtimeMs?: number }
   | { ok: false; error: string }
 
-async function postJson<T>(url: string, token: string | null, body?: unknown): Promise<T> {
+async function postJson<T>(url: string, token: string | null, username: string | null, body?: unknown): Promise<T> {
   const res = await fetch(url, {
     method: "POST",
     headers: {
       ...(body ? { "Content-Type": "application/json" } : {}),
-      ...ownerHeaders(token),
+      ...ownerHeaders(token, username),
     },
     body: body ? JSON.stringify(body) : undefined,
   })
@@ -42,15 +45,18 @@ export function ImportControls({
   const [busy, setBusy] = useState<null | "auto" | "upload" | "sample" | "migrate" | "tally">(null)
   const [message, setMessage] = useState<{ text: string; success: boolean } | null>(null)
   const token = ownerToken
+  const { username } = useAuthContext()
+  // Files are imported into, and "Sync from Tally" refreshes, the company picked in the header.
+  const { companyId } = useCompany()
 
   // Sync from Tally ERP 9 via ODBC API
   const doTallySync = async () => {
     setBusy("tally")
     setMessage(null)
     try {
-      const res = await fetch("/api/import/tally", {
+      const res = await fetch(withCompany("/api/import/tally", companyId), {
         method: "POST",
-        headers: ownerHeaders(token),
+        headers: ownerHeaders(token, username),
       })
       const result = await res.json() as { ok: boolean; parsedCount?: number; upsertedCount?: number; error?: string }
 
@@ -80,7 +86,11 @@ export function ImportControls({
     setBusy("auto")
     setMessage(null)
     try {
-      const result = await postJson<ImportResult & { fileMtimeMs?: number }>("/api/import/auto", token)
+      const result = await postJson<ImportResult & { fileMtimeMs?: number }>(
+        withCompany("/api/import/auto", companyId),
+        token,
+        username,
+      )
       if (result.ok && typeof result.fileMtimeMs === "number") {
         localStorage.setItem("tally:lastDefaultMtimeMs", String(result.fileMtimeMs))
         localStorage.setItem("tally:lastAutoLoadAt", String(Date.now()))
@@ -103,7 +113,7 @@ export function ImportControls({
     setBusy("sample")
     setMessage(null)
     try {
-      const result = await postJson<ImportResult>("/api/import/sample", token)
+      const result = await postJson<ImportResult>(withCompany("/api/import/sample", companyId), token, username)
       onImported?.(result)
       setMessage({
         text: result.ok ? `Imported ${result.parsedCount.toLocaleString("en-IN")} sample products` : result.error,
@@ -122,7 +132,7 @@ export function ImportControls({
     setBusy("sample")
     setMessage(null)
     try {
-      const result = await postJson<ImportResult>("/api/import/fixture-xlsx", token)
+      const result = await postJson<ImportResult>(withCompany("/api/import/fixture-xlsx", companyId), token, username)
       onImported?.(result)
       setMessage({
         text: result.ok ? `Imported ${result.parsedCount.toLocaleString("en-IN")} sample products` : result.error,
@@ -143,7 +153,11 @@ export function ImportControls({
     try {
       const form = new FormData()
       form.set("file", file)
-      const res = await fetch("/api/import/upload", { method: "POST", body: form, headers: ownerHeaders(token) })
+      const res = await fetch(withCompany("/api/import/upload", companyId), {
+        method: "POST",
+        body: form,
+        headers: ownerHeaders(token, username),
+      })
       const result = (await res.json()) as ImportResult
       onImported?.(result)
       setMessage({
@@ -168,7 +182,7 @@ export function ImportControls({
       const result = await postJson<
         | { ok: true; productsCopied: number; pricesCopied: number; sqlitePath: string }
         | { ok: false; error: string }
-      >("/api/admin/migrate-sqlite", token)
+      >("/api/admin/migrate-sqlite", token, username)
 
       setMessage({
         text: result.ok
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { formatMargin, marginLevel, type MarginLevel } from "@/lib/pricing"
+
+const LEVEL_CLASS: Record<MarginLevel, string> = {
+  negative: "bg-destructive/10 text-destructive border-destructive/20",
+  low: "bg-warning/10 text-warning border-warning/20",
+  ok: "bg-muted text-foreground border-border",
+}
+
+/** Gross margin %, flagged red when negative and amber when below LOW_MARGIN_PERCENT. */
+export function MarginBadge({ margin, title }: { margin: number | null; title?: string }) {
+  const level = marginLevel(margin)
+  if (level == null) return <span className="text-muted-foreground">—</span>
+
+  return (
+    <Badge
+      variant="outline"
+      title={title}
+      className={cn("font-medium text-xs rounded-md px-2 py-0.5 tabular-nums", LEVEL_CLASS[level])}
+    >
+      {formatMargin(margin)}
+    </Badge>
+  )
+}
@@ -0,0 +1,311 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, ArrowRight, CheckCircle2, Loader2, Undo2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuthContext } from "@/components/auth-provider"
+import type { Availability } from "@/lib/domain"
+import { formatMoney } from "@/lib/pricing"
+import { ownerHeaders } from "@/lib/owner"
+import { cn } from "@/lib/utils"
+
+type AdjustmentKind = "percent" | "fixed"
+
+export type PriceAdjustFilters = {
+  search?: string
+  brand?: string
+  category?: string
+  availability?: Availability
+  removed?: boolean
+  location?: string
+  companyId?: string
+}
+
+type PreviewItem = {
+  productId: string
+  name: string
+  displayName: string | null
+  brand: string | null
+  oldPrice: number
+  newPrice: number
+}
+
+type Preview = { items: PreviewItem[]; withoutPrice: number; belowZero: number }
+
+type PreviewResponse = ({ ok: true } & Preview) | { ok: false; error: string }
+
+type BatchResponse =
+  | { ok: true; batchId: string; applied: number; failed: { productId: string; error: string }[] }
+  | { ok: false; error: string }
+
+type UndoResponse =
+  | { ok: true; batchId: string; reverted: number; skipped: { productId: string; name: string; reason: string }[] }
+  | { ok: false; error: string }
+
+const KIND_LABELS: Record<AdjustmentKind, string> = {
+  percent: "Percentage (%)",
+  fixed: "Fixed amount (LKR)",
+}
+
+// Rendering thousands of rows in a dialog is slow; the count and the apply button still cover all of them.
+const PREVIEW_ROWS = 200
+
+interface PriceAdjustDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The current /products filters; the adjustment applies to every product they match. */
+  filters: PriceAdjustFilters
+  onApplied?: () => void
+}
+
+function describeFilters(filters: PriceAdjustFilters) {
+  const parts = [
+    filters.brand === "__unknown__" ? "no brand" : filters.brand,
+    filters.category,
+    filters.availability?.toLowerCase().replace(/_/g, " "),
+    filters.removed ? "removed" : undefined,
+    filters.location ? `at ${filters.location}` : undefined,
+    filters.search ? `matching "${filters.search}"` : undefined,
+  ].filter(Boolean)
+  return parts.length ? parts.join(", ") : "all products"
+}
+
+export function PriceAdjustDialog({ open, onOpenChange, filters, onApplied }: PriceAdjustDialogProps) {
+  const { token, username } = useAuthContext()
+  const [kind, setKind] = useState<AdjustmentKind>("percent")
+  const [value, setValue] = useState("")
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [busy, setBusy] = useState<null | "preview" | "apply" | "undo">(null)
+  const [message, setMessage] = useState<{ text: string; success: boolean } | null>(null)
+  const [appliedBatchId, setAppliedBatchId] = useState<string | null>(null)
+
+  const amount = Number.parseFloat(value)
+  const validAmount = Number.isFinite(amount) && amount !== 0
+  const changed = preview?.items.filter((i) => i.newPrice !== i.oldPrice) ?? []
+
+  const reset = () => {
+    setPreview(null)
+    setMessage(null)
+    setAppliedBatchId(null)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return
+    if (!next) {
+      reset()
+      setValue("")
+    }
+    onOpenChange(next)
+  }
+
+  const post = async <T,>(url: string, body?: unknown): Promise<T> => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...ownerHeaders(token, username) },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    return (await res.json()) as T
+  }
+
+  const doPreview = async () => {
+    if (!validAmount) return
+    reset()
+    setBusy("preview")
+    try {
+      const result = await post<PreviewResponse>("/api/prices/adjust", { filters, adjustment: { kind, value: amount } })
+      if (!result.ok) setMessage({ text: result.error, success: false })
+      else setPreview({ items: result.items, withoutPrice: result.withoutPrice, belowZero: result.belowZero })
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : "Failed to preview adjustment.", success: false })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const doApply = async () => {
+    if (changed.length === 0) return
+    setBusy("apply")
+    setMessage(null)
+    try {
+      const result = await post<BatchResponse>("/api/prices/adjust/apply", {
+        filters,
+        adjustment: { kind, value: amount },
+        productIds: changed.map((i) => i.productId),
+      })
+      if (!result.ok) {
+        setMessage({ text: result.error, success: false })
+        return
+      }
+      setPreview(null)
+      setAppliedBatchId(result.batchId)
+      setMessage({
+        text:
+          result.failed.length > 0
+            ? `Updated ${result.applied.toLocaleString("en-IN")} prices; ${result.failed.length} failed`
+            : `Updated ${result.applied.toLocaleString("en-IN")} dealer prices`,
+        success: result.failed.length === 0,
+      })
+      onApplied?.()
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : "Failed to apply adjustment.", success: false })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const doUndo = async () => {
+    if (!appliedBatchId) return
+    setBusy("undo")
+    try {
+      const result = await post<UndoResponse>(`/api/prices/batches/${encodeURIComponent(appliedBatchId)}/undo`)
+      if (!result.ok) {
+        setMessage({ text: result.error, success: false })
+        return
+      }
+      setAppliedBatchId(null)
+      setMessage({
+        text:
+          result.skipped.length > 0
+            ? `Restored ${result.reverted.toLocaleString("en-IN")} prices; ${result.skipped.length} changed since and were left alone`
+            : `Restored ${result.reverted.toLocaleString("en-IN")} previous prices`,
+        success: true,
+      })
+      onApplied?.()
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : "Failed to undo adjustment.", success: false })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Adjust Dealer Prices</DialogTitle>
+          <DialogDescription>
+            Applies to {describeFilters(filters)}. New prices are rounded to whole rupees; derived prices follow the
+            price tiers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_auto] sm:grid-cols-[1fr_1fr_auto] items-end gap-3">
+          <div className="space-y-1.5 col-span-2 sm:col-span-1">
+            <Label className="text-xs font-medium">Adjustment</Label>
+            <Select
+              value={kind}
+              onValueChange={(v) => {
+                setKind((v ?? "percent") as AdjustmentKind)
+                reset()
+              }}
+            >
+              <SelectTrigger className="w-full rounded-lg">
+                <SelectValue>{(v: AdjustmentKind) => KIND_LABELS[v]}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(KIND_LABELS) as AdjustmentKind[]).map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {KIND_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">{kind === "percent" ? "Change (%)" : "Change (LKR)"}</Label>
+            <Input
+              inputMode="decimal"
+              placeholder={kind === "percent" ? "e.g. 8 or -5" : "e.g. 250 or -100"}
+              value={value}
+              onChange={(e) => {
+                setValue(e.target.value)
+                reset()
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") void doPreview()
+              }}
+              className="rounded-lg tabular-nums"
+            />
+          </div>
+          <Button variant="outline" className="gap-2 rounded-lg" disabled={!validAmount || busy !== null} onClick={doPreview}>
+            {busy === "preview" && <Loader2 className="h-4 w-4 animate-spin" />}
+            Preview
+          </Button>
+        </div>
+
+        {message && (
+          <div
+            className={cn(
+              "flex items-center gap-2 rounded-lg px-3 py-2 text-sm",
+              message.success ? "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" : "bg-destructive/10 text-destructive",
+            )}
+          >
+            {message.success ? <CheckCircle2 className="h-4 w-4 shrink-0" /> : <AlertCircle className="h-4 w-4 shrink-0" />}
+            <span className="flex-1">{message.text}</span>
+            {appliedBatchId && (
+              <Button size="sm" variant="outline" className="gap-1.5 rounded-lg" disabled={busy !== null} onClick={doUndo}>
+                {busy === "undo" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Undo2 className="h-3.5 w-3.5" />}
+                Undo
+              </Button>
+            )}
+          </div>
+        )}
+
+        {preview && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {changed.length.toLocaleString("en-IN")} prices will change
+              {preview.withoutPrice > 0 && ` · ${preview.withoutPrice.toLocaleString("en-IN")} without a dealer price`}
+              {preview.belowZero > 0 && ` · ${preview.belowZero.toLocaleString("en-IN")} would go below zero and are skipped`}
+            </p>
+            {changed.length > 0 && (
+              <div className="rounded-lg border divide-y">
+                {changed.slice(0, PREVIEW_ROWS).map((item) => (
+                  <div key={item.productId} className="flex items-center gap-3 px-3 py-2">
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium truncate">{item.displayName ?? item.name}</div>
+                      {item.brand && <div className="text-xs text-muted-foreground truncate">{item.brand}</div>}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm tabular-nums shrink-0">
+                      <span className="text-muted-foreground">{formatMoney(item.oldPrice)}</span>
+                      <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                      <span className="font-semibold text-primary">{formatMoney(item.newPrice)}</span>
+                    </div>
+                  </div>
+                ))}
+                {changed.length > PREVIEW_ROWS && (
+                  <div className="px-3 py-2 text-sm text-muted-foreground">
+                    and {(changed.length - PREVIEW_ROWS).toLocaleString("en-IN")} more
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="rounded-lg" disabled={busy !== null} onClick={() => handleOpenChange(false)}>
+            {preview ? "Cancel" : "Close"}
+          </Button>
+          {preview && (
+            <Button className="gap-2 rounded-lg" disabled={busy !== null || changed.length === 0} onClick={doApply}>
+              {busy === "apply" && <Loader2 className="h-4 w-4 animate-spin" />}
+              Apply to {changed.length.toLocaleString("en-IN")} {changed.length === 1 ? "product" : "products"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,7 +8,10 @@ interface PriceConfirmationDialogProps {
   onOpenChange: (open: boolean) => void
   price: number | null
   priceDisplay: string
-  onConfirm: (priceType: "dealer" | "retail") => void
+  /** Price tiers the entered price may be in, besides dealer. */
+  tiers: { id: string; label: string }[]
+  /** "dealer" or the id of the chosen tier. */
+  onConfirm: (priceType: string) => void
 }
 
 export function PriceConfirmationDialog({
@@ -16,6 +19,7 @@ export function PriceConfirmationDialog({
   onOpenChange,
   price,
   priceDisplay,
+  tiers,
   onConfirm,
 }: PriceConfirmationDialogProps) {
   return (
@@ -24,7 +28,7 @@ export function PriceConfirmationDialog({
         <DialogHeader>
           <DialogTitle>Confirm Price Type</DialogTitle>
           <DialogDescription>
-            Is this price a dealer or retail price?
+            Which price tier is this price in?
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
@@ -32,10 +36,10 @@ export function PriceConfirmationDialog({
             <p className="text-sm text-muted-foreground mb-2">Entered Price</p>
             <p className="text-2xl font-semibold tabular-nums text-primary">{priceDisplay}</p>
           </div>
-          <div className="flex gap-3">
+          <div className="grid grid-cols-2 gap-3">
             <Button
               variant="outline"
-              className="flex-1 rounded-lg"
+              className="rounded-lg"
               onClick={() => {
                 onConfirm("dealer")
                 onOpenChange(false)
@@ -43,15 +47,19 @@ export function PriceConfirmationDialog({
             >
               Dealer Price
             </Button>
-            <Button
-              className="flex-1 rounded-lg"
-              onClick={() => {
-                onConfirm("retail")
-                onOpenChange(false)
-              }}
-            >
-              Retail Price
-            </Button>
+            {tiers.map((tier, i) => (
+              <Button
+                key={tier.id}
+                variant={i === 0 ? "default" : "outline"}
+                className="rounded-lg"
+                onClick={() => {
+                  onConfirm(tier.id)
+                  onOpenChange(false)
+                }}
+              >
+                {tier.label} Price
+              </Button>
+            ))}
           </div>
         </div>
       </DialogContent>
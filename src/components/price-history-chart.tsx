@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+
+type PricePoint = {
+  at: number
+  dealerPrice: number | null
+  tiers: Record<string, number | null>
+  /** Tiers worked out with today's rules; none were stored with this price. */
+  recalculated: boolean
+  changeId: string | null
+}
+
+type PriceHistory = {
+  tiers: Array<{ id: string; label: string }>
+  points: PricePoint[]
+}
+
+interface PriceHistoryChartProps {
+  productId: string
+  enabled: boolean
+  /** Refetches when the saved dealer price changes. */
+  dealerPrice: number | null
+  formatMoney: (value: number | null) => string
+}
+
+// Dealer plus the first tiers; more lines than this stop being readable at sheet width.
+const TIER_COLORS = ["var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"]
+const MAX_STEPS = 6
+
+function formatDate(ms: number) {
+  return new Date(ms).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" })
+}
+
+// Tier ids become CSS variable names (--color-<key>), so they get a prefix that cannot clash with "dealer".
+const tierKey = (id: string) => `tier-${id}`
+
+export function PriceHistoryChart({ productId, enabled, dealerPrice, formatMoney }: PriceHistoryChartProps) {
+  const [history, setHistory] = useState<PriceHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      try {
+        const res = await fetch(`/api/products/${productId}/price-history`, { cache: "no-store" })
+        const body = (await res.json()) as { ok: boolean } & Partial<PriceHistory>
+        if (!cancelled) setHistory(body.ok ? { tiers: body.tiers ?? [], points: body.points ?? [] } : null)
+      } catch {
+        if (!cancelled) setHistory(null)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, productId, dealerPrice])
+
+  const tiers = useMemo(() => (history?.tiers ?? []).slice(0, TIER_COLORS.length), [history])
+
+  const chartConfig = useMemo<ChartConfig>(
+    () => ({
+      dealer: { label: "Dealer", color: "var(--primary)" },
+      ...Object.fromEntries(tiers.map((t, i) => [tierKey(t.id), { label: t.label, color: TIER_COLORS[i] }])),
+    }),
+    [tiers],
+  )
+
+  const data = useMemo(
+    () =>
+      (history?.points ?? []).map((p) => ({
+        at: p.at,
+        recalculated: p.recalculated,
+        dealer: p.dealerPrice,
+        ...Object.fromEntries(tiers.map((t) => [tierKey(t.id), p.tiers[t.id] ?? null])),
+      })),
+    [history, tiers],
+  )
+
+  // Newest first; each step runs until the one listed above it.
+  const steps = useMemo(
+    () =>
+      (history?.points ?? [])
+        .filter((p) => p.changeId)
+        .reverse()
+        .slice(0, MAX_STEPS),
+    [history],
+  )
+
+  const hasChanges = steps.length > 0
+  const hasRecalculated = tiers.length > 0 && (history?.points ?? []).some((p) => p.recalculated)
+
+  return (
+    <div className="pt-3 border-t border-border space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">Price history</span>
+        {loading && <span className="text-xs text-muted-foreground">Loading…</span>}
+      </div>
+      {!hasChanges && !loading ? (
+        <p className="text-sm text-muted-foreground">No dealer price changes recorded yet.</p>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="at"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+                tickFormatter={(v: number) => formatDate(v)}
+              />
+              {/* Values are in LKR while labels follow the display currency, so the tooltip carries the amounts */}
+              <YAxis hide domain={["auto", "auto"]} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const at = payload?.[0]?.payload?.at
+                      if (typeof at !== "number") return ""
+                      const label = new Date(at).toLocaleString()
+                      const recalculated = payload?.[0]?.payload?.recalculated && tiers.length > 0
+                      return recalculated ? `${label} · tiers recalculated` : label
+                    }}
+                    formatter={(value, name) => (
+                      <div className="flex flex-1 items-center justify-between gap-3">
+                        <span className="text-muted-foreground">{chartConfig[String(name)]?.label ?? name}</span>
+                        <span className="font-mono font-medium tabular-nums">{formatMoney(Number(value))}</span>
+                      </div>
+                    )}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="dealer" type="stepAfter" stroke="var(--color-dealer)" strokeWidth={2} dot={false} />
+              {tiers.map((t) => (
+                <Line
+                  key={t.id}
+                  dataKey={tierKey(t.id)}
+                  type="stepAfter"
+                  stroke={`var(--color-${tierKey(t.id)})`}
+                  strokeWidth={1.5}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+
+          <div className="space-y-1">
+            {steps.map((p) => (
+              <div key={p.changeId} className="flex items-baseline justify-between gap-3 text-xs">
+                <span className="text-muted-foreground">From {formatDate(p.at)}</span>
+                <span className="tabular-nums text-right">
+                  <span className="font-medium text-foreground">{formatMoney(p.dealerPrice)}</span>
+                  {tiers.length > 0 && (
+                    <span className="text-muted-foreground">
+                      {" · "}
+                      {tiers.map((t) => `${t.label} ${formatMoney(p.tiers[t.id] ?? null)}`).join(" · ")}
+                      {p.recalculated && "*"}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+          {hasRecalculated && (
+            <p className="text-xs text-muted-foreground">
+              * Recorded before tier prices were kept: tiers are recalculated with the current pricing rules, not
+              necessarily what was charged.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { AlertCircle, ArrowRight, CheckCircle2, FileSpreadsheet, Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useAuthContext } from "@/components/auth-provider"
+import { useCompany } from "@/components/company-provider"
+import { formatMoney } from "@/lib/pricing"
+import { withCompany } from "@/lib/companies"
+import { ownerHeaders } from "@/lib/owner"
+import { cn } from "@/lib/utils"
+
+type MatchedRow = {
+  rowNumber: number
+  inputName: string
+  productId: string
+  productName: string
+  displayName: string | null
+  brand: string | null
+  oldPrice: number | null
+  newPrice: number
+  match: "exact" | "fuzzy"
+  score: number
+}
+
+type UnmatchedRow = {
+  rowNumber: number
+  inputName: string
+  price: number | null
+  reason: string
+}
+
+type Preview = { matched: MatchedRow[]; unmatched: UnmatchedRow[] }
+
+type PreviewResponse = ({ ok: true } & Preview) | { ok: false; error: string }
+
+type ApplyResponse =
+  | { ok: true; batchId: string; applied: number; failed: { productId: string; error: string }[] }
+  | { ok: false; error: string }
+
+interface PriceImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onApplied?: (applied: number) => void
+}
+
+function isChanged(row: MatchedRow) {
+  return row.oldPrice == null || Math.abs(row.oldPrice - row.newPrice) > 1e-9
+}
+
+export function PriceImportDialog({ open, onOpenChange, onApplied }: PriceImportDialogProps) {
+  const { token, username } = useAuthContext()
+  const { companyId } = useCompany()
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [included, setIncluded] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState<null | "preview" | "apply">(null)
+  const [message, setMessage] = useState<{ text: string; success: boolean } | null>(null)
+
+  const changedCount = useMemo(() => preview?.matched.filter(isChanged).length ?? 0, [preview])
+
+  const reset = () => {
+    setFile(null)
+    setPreview(null)
+    setIncluded(new Set())
+    setMessage(null)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const doPreview = async (selected: File) => {
+    setFile(selected)
+    setPreview(null)
+    setMessage(null)
+    setBusy("preview")
+    try {
+      const form = new FormData()
+      form.set("file", selected)
+      const res = await fetch(withCompany("/api/prices/import", companyId), {
+        method: "POST",
+        body: form,
+        headers: ownerHeaders(token, username),
+      })
+      const result = (await res.json()) as PreviewResponse
+      if (!result.ok) {
+        setMessage({ text: result.error, success: false })
+        return
+      }
+      setPreview({ matched: result.matched, unmatched: result.unmatched })
+      // Unchanged prices are left out by default so the batch only records real changes.
+      setIncluded(new Set(result.matched.filter(isChanged).map((r) => r.productId)))
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : "Failed to read price list.", success: false })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const doApply = async () => {
+    if (!preview) return
+    const items = preview.matched
+      .filter((r) => included.has(r.productId))
+      .map((r) => ({ productId: r.productId, dealerPrice: r.newPrice }))
+    if (items.length === 0) return
+
+    setBusy("apply")
+    setMessage(null)
+    try {
+      const res = await fetch("/api/prices/import/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(token, username) },
+        body: JSON.stringify({ label: file?.name ?? null, items }),
+      })
+      const result = (await res.json()) as ApplyResponse
+      if (!result.ok) {
+        setMessage({ text: result.error, success: false })
+        return
+      }
+      onApplied?.(result.applied)
+      setPreview(null)
+      setIncluded(new Set())
+      setMessage({
+        text:
+          result.failed.length > 0
+            ? `Updated ${result.applied.toLocaleString("en-IN")} prices; ${result.failed.length} failed`
+            : `Updated ${result.applied.toLocaleString("en-IN")} dealer prices`,
+        success: result.failed.length === 0,
+      })
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : "Failed to apply prices.", success: false })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const toggle = (productId: string, checked: boolean) => {
+    setIncluded((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(productId)
+      else next.delete(productId)
+      return next
+    })
+  }
+
+  const allIncluded = preview != null && preview.matched.length > 0 && included.size === preview.matched.length
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Dealer Prices</DialogTitle>
+          <DialogDescription>
+            Upload a supplier price list (.xlsx or .csv) with a product or Tally name column and a dealer price
+            column. Nothing changes until you apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const selected = e.target.files?.[0]
+              if (selected) void doPreview(selected)
+            }}
+          />
+          <Button
+            variant="outline"
+            className="gap-2 rounded-lg"
+            disabled={busy !== null}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {busy === "preview" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+            {file ? "Choose another file" : "Choose file"}
+          </Button>
+          {file && <span className="text-sm text-muted-foreground truncate">{file.name}</span>}
+        </div>
+
+        {message && (
+          <div
+            className={cn(
+              "flex items-center gap-2 rounded-lg px-3 py-2 text-sm",
+              message.success ? "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" : "bg-destructive/10 text-destructive",
+            )}
+          >
+            {message.success ? <CheckCircle2 className="h-4 w-4 shrink-0" /> : <AlertCircle className="h-4 w-4 shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        {preview && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-muted-foreground">
+                {preview.matched.length.toLocaleString("en-IN")} matched · {changedCount.toLocaleString("en-IN")} changed ·{" "}
+                {preview.unmatched.length.toLocaleString("en-IN")} unmatched
+              </span>
+              {preview.matched.length > 0 && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={allIncluded}
+                    onCheckedChange={(checked) =>
+                      setIncluded(checked ? new Set(preview.matched.map((r) => r.productId)) : new Set())
+                    }
+                  />
+                  Select all
+                </label>
+              )}
+            </div>
+
+            {preview.matched.length > 0 && (
+              <div className="rounded-lg border divide-y">
+                {preview.matched.map((row) => {
+                  const changed = isChanged(row)
+                  return (
+                    <label
+                      key={row.productId}
+                      className={cn("flex items-center gap-3 px-3 py-2 cursor-pointer", !changed && "opacity-60")}
+                    >
+                      <Checkbox
+                        checked={included.has(row.productId)}
+                        onCheckedChange={(checked) => toggle(row.productId, checked)}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{row.displayName ?? row.productName}</span>
+                          {row.match === "fuzzy" && (
+                            <Badge variant="outline" className="shrink-0">
+                              Fuzzy
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          Row {row.rowNumber}: {row.inputName}
+                          {row.brand ? ` · ${row.brand}` : ""}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm tabular-nums shrink-0">
+                        <span className="text-muted-foreground">{formatMoney(row.oldPrice)}</span>
+                        <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                        <span className={cn(changed && "font-semibold text-primary")}>{formatMoney(row.newPrice)}</span>
+                      </div>
+                    </label>
+                  )
+                })}
+              </div>
+            )}
+
+            {preview.unmatched.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Unmatched rows</p>
+                <div className="rounded-lg border divide-y text-sm">
+                  {preview.unmatched.map((row, i) => (
+                    <div key={`${row.rowNumber}-${i}`} className="flex items-center gap-3 px-3 py-2">
+                      <span className="text-muted-foreground tabular-nums shrink-0">Row {row.rowNumber}</span>
+                      <span className="min-w-0 flex-1 truncate">{row.inputName || "—"}</span>
+                      <span className="tabular-nums shrink-0">{formatMoney(row.price)}</span>
+                      <span className="text-muted-foreground shrink-0">{row.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="rounded-lg" disabled={busy !== null} onClick={() => handleOpenChange(false)}>
+            {preview ? "Cancel" : "Close"}
+          </Button>
+          {preview && (
+            <Button className="gap-2 rounded-lg" disabled={busy !== null || included.size === 0} onClick={doApply}>
+              {busy === "apply" && <Loader2 className="h-4 w-4 animate-spin" />}
+              Apply {included.size.toLocaleString("en-IN")} {included.size === 1 ? "price" : "prices"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
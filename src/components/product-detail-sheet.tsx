@@ -4,39 +4,70 @@ import { useEffect, useState, useMemo, useRef } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { StockBadge } from "@/components/stock-badge"
+import { MarginBadge } from "@/components/margin-badge"
 import type { Availability } from "@/lib/domain"
+import { BASE_CURRENCY, toBaseCurrency, type ExchangeRate } from "@/lib/currency"
 import { Copy, Save, Check, Loader2, Edit2 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer"
 import { ownerHeaders } from "@/lib/owner"
 import { useIsMobile } from "@/lib/use-is-mobile"
+import {
+  computeDerivedPrices,
+  dealerPriceFromTier,
+  DEALER_BASE,
+  formatMoney as formatInCurrency,
+  grossMargin,
+  LOW_MARGIN_PERCENT,
+  marginLevel,
+  RETAIL_TIER_ID,
+  type PriceTier,
+} from "@/lib/pricing"
 import { PriceConfirmationDialog } from "@/components/price-confirmation-dialog"
 import { Slider } from "@/components/ui/slider"
+import { StockHistoryChart } from "@/components/stock-history-chart"
+import { PriceHistoryChart } from "@/components/price-history-chart"
+import { ScheduledPrices } from "@/components/scheduled-prices"
 
 type ProductRow = {
   id: string
   name: string
   brand: string | null
+  /** Tally stock group; the brand is its top-level group. */
+  category?: string | null
   stockQty: number | null
   unit: string | null
   availability: Availability
   lastSeenAt: number | null
   updatedAt: number
+  removedAt: number | null
   dealerPrice: number | null
+  costPrice: number | null
+  sourceCurrency: string | null
+  sourceAmount: number | null
+  displayName: string | null
+  notes: string | null
+  tags: string[]
+  locations: { godown: string; qty: number | null }[]
 }
 
-type DerivedPrices = {
-  retailPrice: number | null
-  darazPrice: number | null
-  customerPrice: number | null
-  discountPercent: number
-}
+type ProductMeta = Pick<ProductRow, "displayName" | "notes" | "tags" | "sourceCurrency" | "sourceAmount">
 
 type ProductChange = {
   id: string
-  changeType: "NEW_PRODUCT" | "STOCK_DROP" | "OUT_OF_STOCK" | "PRICE_CHANGE"
+  changeType: 
+    | "NEW_PRODUCT"
+    | "STOCK_DROP"
+    | "STOCK_INCREASE"
+    | "OUT_OF_STOCK"
+    | "BACK_IN_STOCK"
+    | "PRICE_CHANGE"
+    | "REMOVED_FROM_EXPORT"
   fromQty: number | null
   toQty: number | null
   fromAvailability: Availability | null
@@ -52,23 +83,41 @@ interface ProductDetailSheetProps {
   onOpenChange: (open: boolean) => void
   formatQty: (qty: number | null, unit: string | null) => string
   formatMoney: (value: number | null) => string
-  computeDerivedPrices: (dealerPrice: number | null) => DerivedPrices
+  /** Price tiers with this product's brand overrides applied. */
+  priceTiers: PriceTier[]
+  exchangeRates?: ExchangeRate[]
   onPriceSaved: (id: string, newPrice: number | null) => void
+  onMetaSaved?: (id: string, meta: ProductMeta) => void
   canEditPrices: boolean
   ownerToken: string | null
+  ownerName?: string | null
   shouldFocusPrice?: boolean
 }
 
+function tierLabel(tier: PriceTier, value = tier.value): string {
+  return tier.op === "discount" || tier.op === "markup" ? `${tier.label} (${value}%)` : tier.label
+}
+
+function parseTagsInput(value: string): string[] {
+  return value
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean)
+}
+
 export function ProductDetailSheet({
   product,
   open,
   onOpenChange,
   formatQty,
   formatMoney,
-  computeDerivedPrices,
+  priceTiers,
+  exchangeRates = [],
   onPriceSaved,
+  onMetaSaved,
   canEditPrices,
   ownerToken,
+  ownerName = null,
   shouldFocusPrice = false,
 }: ProductDetailSheetProps) {
   const isMobile = useIsMobile()
@@ -81,25 +130,55 @@ export function ProductDetailSheet({
   const [displayName, setDisplayName] = useState<string>("")
   const [editingDisplayName, setEditingDisplayName] = useState(false)
   const [notes, setNotes] = useState<string>("")
-  const [customerDiscount, setCustomerDiscount] = useState(10)
+  const [tagsInput, setTagsInput] = useState<string>("")
+  const [sourceCurrency, setSourceCurrency] = useState<string>(BASE_CURRENCY)
+  const [sourceAmountInput, setSourceAmountInput] = useState<string>("")
+  const [savingMeta, setSavingMeta] = useState(false)
+  const [metaError, setMetaError] = useState<string | null>(null)
+  // The slider adjusts the first discount tier (customer by default) for this view only.
+  const discountTier = priceTiers.find((t) => t.op === "discount") ?? null
+  const [discount, setDiscount] = useState(discountTier?.value ?? 0)
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false)
   const [priceToConfirm, setPriceToConfirm] = useState<number | null>(null)
   const isEditingPriceRef = useRef(false)
   const productId = product?.id ?? null
   const productDealerPrice = product?.dealerPrice ?? null
 
+  const productName = product?.name ?? ""
+  const defaultDiscount = discountTier?.value ?? 0
+  const savedDisplayName = product?.displayName ?? null
+  const savedNotes = product?.notes ?? null
+  const savedTags = useMemo(() => product?.tags ?? [], [product?.tags])
+  const savedSourceCurrency = product?.sourceCurrency ?? null
+  const savedSourceAmount = product?.sourceAmount ?? null
+
   useEffect(() => {
     if (productId) {
-      setDisplayName(product?.name ?? "")
+      setDisplayName(savedDisplayName ?? productName)
+      setNotes(savedNotes ?? "")
+      setTagsInput(savedTags.join(", "))
+      setSourceCurrency(savedSourceCurrency ?? BASE_CURRENCY)
+      setSourceAmountInput(savedSourceAmount == null ? "" : String(savedSourceAmount))
+      setEditingDisplayName(false)
+      setMetaError(null)
       setDealerPriceInput(
         productDealerPrice == null || !Number.isFinite(productDealerPrice) ? "" : String(productDealerPrice),
       )
       setCopied(false)
       setError(null)
-      setCustomerDiscount(10)
-      setNotes("")
+      setDiscount(defaultDiscount)
     }
-  }, [productDealerPrice, productId, product?.name])
+  }, [
+    defaultDiscount,
+    productDealerPrice,
+    productId,
+    productName,
+    savedDisplayName,
+    savedNotes,
+    savedSourceAmount,
+    savedSourceCurrency,
+    savedTags,
+  ])
 
   useEffect(() => {
     if (!productId || !open) return
@@ -129,14 +208,18 @@ export function ProductDetailSheet({
     return parsed != null && Number.isFinite(parsed) ? parsed : null
   }, [dealerPriceInput])
 
-  const liveDerived = useMemo(() => {
-    const prices = computeDerivedPrices(livePrice)
-    return {
-      ...prices,
-      customerPrice: prices.retailPrice ? prices.retailPrice * (1 - customerDiscount / 100) : null,
-      discountPercent: customerDiscount,
-    }
-  }, [livePrice, computeDerivedPrices, customerDiscount])
+  const discountTierId = discountTier?.id ?? null
+  const liveDerived = useMemo(
+    () => computeDerivedPrices(livePrice, priceTiers, discountTierId ? { [discountTierId]: discount } : {}),
+    [livePrice, priceTiers, discountTierId, discount],
+  )
+  const heroTier = discountTier ?? priceTiers[0] ?? null
+  const retailTier = priceTiers.find((t) => t.id === RETAIL_TIER_ID) ?? null
+  const costPrice = product?.costPrice ?? null
+  const dealerMargin = grossMargin(livePrice, costPrice)
+  const retailMargin = retailTier ? grossMargin(liveDerived.byId[retailTier.id] ?? null, costPrice) : null
+  const dealerMarginLevel = marginLevel(dealerMargin)
+  const tierValue = (tier: PriceTier) => (tier.id === discountTierId ? discount : tier.value)
 
   // Check if input has unsaved changes
   const hasChanges = useMemo(() => {
@@ -144,13 +227,12 @@ export function ProductDetailSheet({
     return productDealerPrice !== livePrice
   }, [productDealerPrice, livePrice])
 
-  const saveDealerPrice = async () => {
+  const saveDealerPrice = async (dealerPrice: number | null) => {
     if (!canEditPrices) return
     if (!product) return
     setSaving(true)
     setError(null)
     try {
-      const dealerPrice = livePrice
       const res = await fetch(`/api/products/${product.id}/price`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json", ...ownerHeaders(ownerToken) },
@@ -166,15 +248,69 @@ export function ProductDetailSheet({
     }
   }
 
+  // An empty display name (or the raw Tally name) clears the override; an empty amount clears the supplier quote.
+  const metaDraft = useMemo<ProductMeta>(() => {
+    const name = displayName.trim()
+    const amount = Number.parseFloat(sourceAmountInput.replace(/,/g, ""))
+    const hasSource = sourceAmountInput.trim() !== "" && Number.isFinite(amount)
+    return {
+      displayName: name && name !== productName ? name : null,
+      notes: notes.trim() || null,
+      tags: parseTagsInput(tagsInput),
+      sourceCurrency: hasSource ? sourceCurrency : null,
+      sourceAmount: hasSource ? amount : null,
+    }
+  }, [displayName, notes, productName, sourceAmountInput, sourceCurrency, tagsInput])
+
+  const hasMetaChanges =
+    metaDraft.displayName !== savedDisplayName ||
+    metaDraft.notes !== savedNotes ||
+    metaDraft.tags.join("\n") !== savedTags.join("\n") ||
+    metaDraft.sourceCurrency !== savedSourceCurrency ||
+    metaDraft.sourceAmount !== savedSourceAmount
+
+  // Landed cost always follows the current rate, so it moves when an owner updates the exchange rates.
+  const sourceCurrencies = [BASE_CURRENCY, ...exchangeRates.map((r) => r.currency)]
+  if (savedSourceCurrency && !sourceCurrencies.includes(savedSourceCurrency)) sourceCurrencies.push(savedSourceCurrency)
+  const landedCost = metaDraft.sourceCurrency
+    ? toBaseCurrency(metaDraft.sourceAmount, metaDraft.sourceCurrency, exchangeRates)
+    : null
+
+  const saveMeta = async () => {
+    if (!canEditPrices || !product) return
+    setSavingMeta(true)
+    setMetaError(null)
+    try {
+      const res = await fetch(`/api/products/${product.id}/meta`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(ownerToken, ownerName) },
+        body: JSON.stringify(metaDraft),
+      })
+      const body = (await res.json()) as { ok: boolean; error?: string; meta?: ProductMeta }
+      if (!body.ok || !body.meta) throw new Error(body.error ?? "Failed to save details.")
+      setEditingDisplayName(false)
+      onMetaSaved?.(product.id, {
+        displayName: body.meta.displayName,
+        notes: body.meta.notes,
+        tags: body.meta.tags,
+        sourceCurrency: body.meta.sourceCurrency,
+        sourceAmount: body.meta.sourceAmount,
+      })
+    } catch (e) {
+      setMetaError(e instanceof Error ? e.message : "Failed to save details.")
+    } finally {
+      setSavingMeta(false)
+    }
+  }
+
   const copyPrices = async () => {
     if (!product) return
     const lines = [
-      product.name,
+      product.displayName ?? product.name,
       `Brand: ${product.brand ?? "—"}`,
       `Qty: ${formatQty(product.stockQty, product.unit)}`,
       `Dealer: ${formatMoney(livePrice)}`,
-      `Retail: ${formatMoney(liveDerived.retailPrice)}`,
-      `Daraz: ${formatMoney(liveDerived.darazPrice)}`,
+      ...liveDerived.tiers.map((t) => `${t.label}: ${formatMoney(t.price)}`),
     ]
     await navigator.clipboard.writeText(lines.join("\n"))
     setCopied(true)
@@ -212,7 +348,10 @@ export function ProductDetailSheet({
                 </Button>
               )}
             </div>
-            <p className="text-sm text-muted-foreground">{product.brand ?? "No brand"}</p>
+            <p className="text-sm text-muted-foreground">
+              {product.brand ?? "No brand"}
+              {product.category && product.category !== product.brand && <> › {product.category}</>}
+            </p>
           </div>
 
           {/* Stock & Availability */}
@@ -222,22 +361,45 @@ export function ProductDetailSheet({
               <span className="text-2xl font-semibold tabular-nums">{formatQty(product.stockQty, product.unit)}</span>
               <StockBadge availability={product.availability} size="large" showIcon />
             </div>
+            {/* Per-godown breakdown; the total above is their sum */}
+            {product.locations.length > 0 && (
+              <div className="rounded-lg border divide-y text-sm">
+                {product.locations.map((l) => (
+                  <div key={l.godown} className="flex items-center justify-between px-3 py-1.5">
+                    <span className="text-muted-foreground truncate">{l.godown}</span>
+                    <span className="tabular-nums">{formatQty(l.qty, product.unit)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Prices - Different layout for mobile vs desktop */}
           <div className="space-y-3">
             <Label className="text-xs font-medium text-muted-foreground">Pricing</Label>
             {isMobile ? (
-              // Mobile: Retail as hero
+              // Mobile: the discounted (customer) tier as hero
               <div className="space-y-3">
-                <div className="rounded-lg bg-primary/10 p-4 text-center border-2 border-primary">
-                  <p className="text-xs text-muted-foreground mb-1">CUSTOMER PRICE</p>
-                  <p className="text-3xl font-bold tabular-nums text-primary">{formatMoney(liveDerived.customerPrice)}</p>
-                  <p className="text-xs text-muted-foreground mt-2">{customerDiscount}% off retail</p>
-                </div>
+                {heroTier && (
+                  <div className="rounded-lg bg-primary/10 p-4 text-center border-2 border-primary">
+                    <p className="text-xs text-muted-foreground mb-1">{heroTier.label.toUpperCase()} PRICE</p>
+                    <p className="text-3xl font-bold tabular-nums text-primary">
+                      {formatMoney(liveDerived.byId[heroTier.id] ?? null)}
+                    </p>
+                    {heroTier.id === discountTierId && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {discount}% off {priceTiers.find((t) => t.id === heroTier.base)?.label.toLowerCase() ?? DEALER_BASE}
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-2">
-                  <PriceCard label="Retail" value={formatMoney(liveDerived.retailPrice)} />
                   <PriceCard label="Dealer" value={formatMoney(livePrice)} />
+                  {priceTiers
+                    .filter((t) => t.id !== heroTier?.id)
+                    .map((t) => (
+                      <PriceCard key={t.id} label={tierLabel(t, tierValue(t))} value={formatMoney(liveDerived.byId[t.id] ?? null)} />
+                    ))}
                 </div>
               </div>
             ) : (
@@ -248,50 +410,156 @@ export function ProductDetailSheet({
                   <p className="text-3xl font-bold tabular-nums text-primary">{formatMoney(livePrice)}</p>
                 </div>
                 <div className="grid grid-cols-2 gap-2">
-                  <PriceCard label="Retail" value={formatMoney(liveDerived.retailPrice)} />
-                  <div className="rounded-lg bg-muted/50 p-3 text-center">
-                    <p className="text-xs text-muted-foreground mb-1">CUSTOMER ({customerDiscount}%)</p>
-                    <p className="text-base font-semibold tabular-nums">{formatMoney(liveDerived.customerPrice)}</p>
-                  </div>
+                  {priceTiers.map((t) => (
+                    <PriceCard
+                      key={t.id}
+                      label={tierLabel(t, tierValue(t))}
+                      value={formatMoney(liveDerived.byId[t.id] ?? null)}
+                      highlight={t.id === discountTierId}
+                    />
+                  ))}
                 </div>
               </div>
             )}
           </div>
 
-          {/* Customer Discount Slider */}
-          <div className="space-y-3 pt-2 border-t border-border">
-            <div className="flex items-center justify-between">
-              <Label className="text-xs font-medium">Customer Discount</Label>
-              <span className="text-sm font-semibold">{customerDiscount}%</span>
+          {/* Margin against the Tally closing rate; follows the price being typed */}
+          {costPrice != null && (
+            <div className="space-y-2 pt-2 border-t border-border">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium text-muted-foreground">Margin</Label>
+                <span className="text-xs text-muted-foreground tabular-nums">Tally cost {formatMoney(costPrice)}</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+                <span className="flex items-center gap-1.5">
+                  Dealer <MarginBadge margin={dealerMargin} />
+                </span>
+                {retailTier && (
+                  <span className="flex items-center gap-1.5">
+                    {retailTier.label} <MarginBadge margin={retailMargin} />
+                  </span>
+                )}
+              </div>
+              {dealerMarginLevel === "negative" && (
+                <p className="text-xs text-destructive">The dealer price is below cost.</p>
+              )}
+              {dealerMarginLevel === "low" && (
+                <p className="text-xs text-warning">Dealer margin is under {LOW_MARGIN_PERCENT}%.</p>
+              )}
             </div>
-            <div className="space-y-2">
-              <Slider
-                value={[customerDiscount]}
-                onValueChange={(val: number | readonly number[]) => {
-                  const arr = Array.isArray(val) ? val : [val]
-                  setCustomerDiscount(arr[0] ?? 10)
-                }}
-                min={0}
-                max={50}
-                step={1}
-                className="w-full"
-              />
-              <div className="flex justify-between text-xs text-muted-foreground">
-                <span>0%</span>
-                <span>50%</span>
+          )}
+
+          {/* Discount Slider */}
+          {discountTier && (
+            <div className="space-y-3 pt-2 border-t border-border">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium">{discountTier.label} Discount</Label>
+                <span className="text-sm font-semibold">{discount}%</span>
+              </div>
+              <div className="space-y-2">
+                <Slider
+                  value={[discount]}
+                  onValueChange={(val: number | readonly number[]) => {
+                    const arr = Array.isArray(val) ? val : [val]
+                    setDiscount(arr[0] ?? defaultDiscount)
+                  }}
+                  min={0}
+                  max={50}
+                  step={1}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>0%</span>
+                  <span>50%</span>
+                </div>
               </div>
             </div>
-          </div>
+          )}
+
+          {/* Supplier quote in its own currency (saved with the notes below); converted to LKR for landed cost */}
+          {(canEditPrices || product.sourceAmount != null) && (
+            <div className="space-y-2 pt-2 border-t border-border">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium">Supplier price</Label>
+                {landedCost != null && (
+                  <span className="text-xs text-muted-foreground tabular-nums">Landed cost {formatMoney(landedCost)}</span>
+                )}
+              </div>
+              {canEditPrices ? (
+                <div className="flex gap-2">
+                  <Select value={sourceCurrency} onValueChange={(v) => setSourceCurrency(v ?? BASE_CURRENCY)}>
+                    <SelectTrigger className="w-24 rounded-lg">
+                      <SelectValue>{(v: string) => v}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sourceCurrencies.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          {c}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="Supplier quote"
+                    value={sourceAmountInput}
+                    onChange={(e) => setSourceAmountInput(e.target.value)}
+                    className="h-9 flex-1 rounded-lg tabular-nums"
+                  />
+                </div>
+              ) : (
+                <p className="text-sm tabular-nums">{formatInCurrency(product.sourceAmount, product.sourceCurrency ?? BASE_CURRENCY)}</p>
+              )}
+              {metaDraft.sourceCurrency && landedCost == null && (
+                <p className="text-xs text-warning">No exchange rate for {metaDraft.sourceCurrency}.</p>
+              )}
+            </div>
+          )}
 
-          {/* Product Notes */}
+          {/* Product Notes & tags (saved to product_meta; imports never overwrite them) */}
           <div className="space-y-2 pt-2 border-t border-border">
             <Label className="text-xs font-medium">Notes</Label>
-            <Input
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Add product notes..."
-              className="rounded-lg min-h-16"
-            />
+            {canEditPrices ? (
+              <>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Add product notes..."
+                  className="rounded-lg min-h-16"
+                />
+                <Input
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder="Tags, comma separated"
+                  className="rounded-lg"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  {metaError ? <p className="text-sm text-destructive">{metaError}</p> : <span />}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => void saveMeta()}
+                    disabled={savingMeta || !hasMetaChanges}
+                    className="rounded-lg gap-2"
+                  >
+                    {savingMeta ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save details
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm whitespace-pre-wrap text-muted-foreground">{product.notes || "No notes."}</p>
+            )}
+            {!canEditPrices && product.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {product.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="rounded-full">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Edit prices section */}
@@ -336,6 +604,16 @@ export function ProductDetailSheet({
             </div>
           )}
 
+          {/* Scheduled dealer price changes */}
+          <ScheduledPrices
+            productId={product.id}
+            enabled={open}
+            canEdit={canEditPrices}
+            ownerToken={ownerToken}
+            ownerName={ownerName}
+            formatMoney={formatMoney}
+          />
+
           {/* Metadata */}
           <div className="space-y-2 pt-2 border-t border-border text-sm">
             <div className="flex justify-between">
@@ -346,8 +624,23 @@ export function ProductDetailSheet({
               <span className="text-muted-foreground">Updated</span>
               <span>{new Date(product.updatedAt).toLocaleDateString()}</span>
             </div>
+            {product.removedAt != null && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Removed from export</span>
+                <span className="text-destructive">{new Date(product.removedAt).toLocaleDateString()}</span>
+              </div>
+            )}
           </div>
 
+          <StockHistoryChart productId={product.id} enabled={open} />
+
+          <PriceHistoryChart
+            productId={product.id}
+            enabled={open}
+            dealerPrice={product.dealerPrice}
+            formatMoney={formatMoney}
+          />
+
           {/* Change log */}
           <div className="pt-3 border-t border-border space-y-2">
             <div className="flex items-center justify-between">
@@ -362,7 +655,7 @@ export function ProductDetailSheet({
                   <div key={c.id} className="rounded-lg border border-border bg-muted/30 px-3 py-2">
                     <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
                       <span>{new Date(c.createdAt).toLocaleString()}</span>
-                      <span className="font-medium text-foreground">{c.changeType.replace("_", " ")}</span>
+                      <span className="font-medium text-foreground">{c.changeType.replace(/_/g, " ")}</span>
                     </div>
                     {c.changeType === "PRICE_CHANGE" ? (
                       <p className="text-sm text-foreground">Price {formatMoney(c.fromPrice)} → {formatMoney(c.toPrice)}</p>
@@ -389,15 +682,16 @@ export function ProductDetailSheet({
         onOpenChange={setConfirmDialogOpen}
         price={priceToConfirm}
         priceDisplay={formatMoney(priceToConfirm)}
+        tiers={priceTiers}
         onConfirm={(priceType) => {
-          // If retail was selected, convert to dealer price (retail / 1.5)
+          // If a tier was selected, convert back to a dealer price through that tier's formula chain
           let finalDealerPrice = priceToConfirm
-          if (priceType === "retail" && priceToConfirm != null) {
-            finalDealerPrice = priceToConfirm / 1.5
+          if (priceType !== DEALER_BASE && priceToConfirm != null) {
+            finalDealerPrice = dealerPriceFromTier(priceToConfirm, priceType, priceTiers)
           }
           // Update the input to show the dealer price
           setDealerPriceInput(finalDealerPrice != null ? String(finalDealerPrice) : "")
-          saveDealerPrice()
+          void saveDealerPrice(finalDealerPrice)
         }}
       />
       {isMobile ? (
@@ -1,13 +1,16 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState, type ReactNode } from "react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { StockBadge } from "@/components/stock-badge"
+import { MarginBadge } from "@/components/margin-badge"
 import type { Availability } from "@/lib/domain"
-import { ChevronLeft, ChevronRight, Package, Loader2, Pencil, X, Check, ChevronDown, Eye } from "lucide-react"
+import { ChevronLeft, ChevronRight, Package, Loader2, Pencil, X, Check, ChevronDown, Eye, FileText } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { ownerHeaders } from "@/lib/owner"
+import { formatMargin, grossMargin, RETAIL_TIER_ID } from "@/lib/pricing"
 import { cn } from "@/lib/utils"
 import { useIsMobile } from "@/lib/use-is-mobile"
 
@@ -15,27 +18,76 @@ type ProductRow = {
   id: string
   name: string
   brand: string | null
+  /** Tally stock group the item sits in; null for file imports. */
+  category: string | null
   stockQty: number | null
   unit: string | null
   availability: Availability
   lastSeenAt: number | null
   updatedAt: number
+  removedAt: number | null
   dealerPrice: number | null
+  costPrice: number | null
+  sourceCurrency: string | null
+  sourceAmount: number | null
+  displayName: string | null
+  notes: string | null
+  tags: string[]
+  /** Quantity per godown from a multi-godown Tally sync; empty for file imports. */
+  locations: { godown: string; qty: number | null }[]
+  /** `[start, end)` ranges from ranked search, bolded in the name/brand cells. */
+  highlights?: { displayName: [number, number][]; name: [number, number][]; brand: [number, number][] }
 }
 
 type DerivedPrices = {
-  retailPrice: number | null
-  darazPrice: number | null
-  customerPrice: number | null
-  discountPercent: number
+  byId: Record<string, number | null>
+}
+
+/** A price tier shown as a column after Dealer. */
+export type PriceColumn = {
+  id: string
+  label: string
+}
+
+/**
+ * "relevance" ranks fuzzy search matches; without a search it falls back to name. Any other key is a
+ * price tier id.
+ */
+export type ProductSortKey = "relevance" | "name" | "qty" | "dealerPrice" | (string & {})
+
+/** Filters and sort sent to `/api/products`; the table owns paging. */
+export type ProductQuery = {
+  search?: string
+  brand?: string
+  /** Stock group name; products in it or any group below it. */
+  category?: string
+  availability?: Availability
+  removed?: boolean
+  /** Godown name; only products with stock there. */
+  location?: string
+  /** Registry company; products of other companies are left out. */
+  companyId?: string
+  sort: ProductSortKey
+  dir: "asc" | "desc"
+}
+
+export type ProductCounts = {
+  total: number
+  inStock: number
+  outOfStock: number
+  negative: number
+  unknown: number
+  removed: number
 }
 
 interface ProductTableProps {
-  items: ProductRow[]
-  loading: boolean
+  query: ProductQuery
+  reloadKey?: number
+  onResult?: (result: { total: number; counts: ProductCounts }) => void
   formatQty: (qty: number | null, unit: string | null) => string
   formatMoney: (value: number | null) => string
-  computeDerivedPrices: (dealerPrice: number | null) => DerivedPrices
+  computeDerivedPrices: (dealerPrice: number | null, brand: string | null) => DerivedPrices
+  priceColumns: PriceColumn[]
   onRowClick: (item: ProductRow) => void
   onEditPrice?: (item: ProductRow) => void
   canEditPrices: boolean
@@ -43,16 +95,97 @@ interface ProductTableProps {
   onDealerPriceSaved: (id: string, newPrice: number | null) => void
   onError?: (message: string) => void
   searchActive?: boolean
+  /** Rows picked for a quote; selection is shown only when onToggleSelect is set. */
+  selectedIds?: ReadonlySet<string>
+  onToggleSelect?: (item: ProductRow) => void
+  /** Show the per-godown quantities (when stock is synced from several godowns). */
+  showLocations?: boolean
 }
 
 const PAGE_SIZE = 50
+const FETCH_DEBOUNCE_MS = 200
+
+function productsUrl(query: ProductQuery, page: number) {
+  const params = new URLSearchParams({
+    offset: String(page * PAGE_SIZE),
+    limit: String(PAGE_SIZE),
+    sort: query.sort,
+    dir: query.dir,
+  })
+  if (query.search) params.set("search", query.search)
+  if (query.brand) params.set("brand", query.brand)
+  if (query.category) params.set("category", query.category)
+  if (query.availability) params.set("availability", query.availability)
+  if (query.removed != null) params.set("removed", query.removed ? "1" : "0")
+  if (query.location) params.set("location", query.location)
+  if (query.companyId) params.set("company", query.companyId)
+  return `/api/products?${params.toString()}`
+}
+
+/** Tooltip for the margin cell: the Tally cost and the margin at the retail tier. */
+function marginTitle(cost: number | null, retailPrice: number | null, formatMoney: (value: number | null) => string) {
+  if (cost == null) return undefined
+  const retail = grossMargin(retailPrice, cost)
+  return `Cost ${formatMoney(cost)}${retail == null ? "" : ` · ${formatMargin(retail)} at retail`}`
+}
+
+function Highlighted({ text, ranges }: { text: string; ranges?: [number, number][] }) {
+  if (!ranges?.length) return <>{text}</>
+  const parts: ReactNode[] = []
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <strong key={start} className="font-bold text-foreground">
+        {text.slice(start, end)}
+      </strong>,
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
+
+/** Curated display name when set, otherwise the raw Tally item name. */
+function ProductName({ item }: { item: ProductRow }) {
+  return item.displayName ? (
+    <Highlighted text={item.displayName} ranges={item.highlights?.displayName} />
+  ) : (
+    <Highlighted text={item.name} ranges={item.highlights?.name} />
+  )
+}
+
+/** "Feeder Stores 4 · Main 7"; the filtered godown is emphasised. */
+function LocationList({
+  item,
+  active,
+  formatQty,
+}: {
+  item: ProductRow
+  active?: string
+  formatQty: (qty: number | null, unit: string | null) => string
+}) {
+  if (item.locations.length === 0) return <>—</>
+  return (
+    <>
+      {item.locations.map((l, i) => (
+        <span key={l.godown} className={cn(l.godown === active && "font-semibold text-foreground")}>
+          {i > 0 && " · "}
+          {l.godown} {formatQty(l.qty, item.unit)}
+        </span>
+      ))}
+    </>
+  )
+}
 
 export function ProductTable({
-  items,
-  loading,
+  query,
+  reloadKey = 0,
+  onResult,
   formatQty,
   formatMoney,
   computeDerivedPrices,
+  priceColumns,
   onRowClick,
   onEditPrice,
   canEditPrices,
@@ -60,26 +193,68 @@ export function ProductTable({
   onDealerPriceSaved,
   onError,
   searchActive = false,
+  selectedIds,
+  onToggleSelect,
+  showLocations = false,
 }: ProductTableProps) {
   const isMobile = useIsMobile()
+  const [items, setItems] = useState<ProductRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
   const [page, setPage] = useState(0)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editingValue, setEditingValue] = useState<string>("")
   const [savingId, setSavingId] = useState<string | null>(null)
   const [expandedId, setExpandedId] = useState<string | null>(null)
 
-  useEffect(() => {
+  // A new filter/sort starts from the first page; a reload keeps the current one.
+  const queryKey = productsUrl(query, 0)
+  const [lastQueryKey, setLastQueryKey] = useState(queryKey)
+  if (queryKey !== lastQueryKey) {
+    setLastQueryKey(queryKey)
     setPage(0)
-    // Auto-expand first item when search is active
-    if (searchActive && items.length > 0) {
-      setExpandedId(items[0]?.id ?? null)
-    } else {
-      setExpandedId(null)
+  }
+
+  // Keep the latest callbacks without refetching when the parent re-renders.
+  const callbacksRef = useRef({ onResult, onError, searchActive })
+  useEffect(() => {
+    callbacksRef.current = { onResult, onError, searchActive }
+  })
+
+  const url = productsUrl(query, page)
+  useEffect(() => {
+    let cancelled = false
+    const timer = window.setTimeout(async () => {
+      setLoading(true)
+      try {
+        const res = await fetch(url, { cache: "no-store" })
+        const body = (await res.json()) as { items?: ProductRow[]; total?: number; counts?: ProductCounts; error?: string }
+        if (!res.ok || !body.items || !body.counts) throw new Error(body.error ?? "Failed to load products.")
+        if (cancelled) return
+        const nextTotal = body.total ?? body.counts.total
+        // The page can fall off the end after a reload (e.g. rows filtered out); step back to the last one.
+        if (body.items.length === 0 && page > 0 && nextTotal > 0) {
+          setPage(Math.max(0, Math.ceil(nextTotal / PAGE_SIZE) - 1))
+          return
+        }
+        setItems(body.items)
+        setTotal(nextTotal)
+        // Auto-expand first item when search is active
+        setExpandedId(callbacksRef.current.searchActive ? (body.items[0]?.id ?? null) : null)
+        callbacksRef.current.onResult?.({ total: nextTotal, counts: body.counts })
+      } catch (e) {
+        if (!cancelled) callbacksRef.current.onError?.(e instanceof Error ? e.message : "Failed to load products.")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, FETCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
     }
-  }, [items.length, searchActive])
+  }, [url, page, reloadKey])
 
-  const totalPages = Math.ceil(items.length / PAGE_SIZE)
-  const paginatedItems = items.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+  const totalPages = Math.ceil(total / PAGE_SIZE)
 
   const beginEdit = (item: ProductRow) => {
     if (!canEditPrices) return
@@ -107,6 +282,7 @@ export function ProductTable({
       })
       const body = (await res.json()) as { ok: boolean; error?: string; dealerPrice?: number | null }
       if (!body.ok) throw new Error(body.error ?? "Failed to save price.")
+      setItems((prev) => prev.map((p) => (p.id === id ? { ...p, dealerPrice: body.dealerPrice ?? null } : p)))
       onDealerPriceSaved(id, body.dealerPrice ?? null)
       cancelEdit()
     } catch (e) {
@@ -116,7 +292,7 @@ export function ProductTable({
     }
   }
 
-  if (loading) {
+  if (loading && items.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-20 text-muted-foreground">
         <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
@@ -142,11 +318,11 @@ export function ProductTable({
   // Mobile: Card-based view with expandable inline details
   if (isMobile) {
     return (
-      <div className="space-y-0">
+      <div className={cn("space-y-0 transition-opacity", loading && "opacity-60")}>
         <div className="divide-y divide-border">
-          {paginatedItems.map((item) => {
+          {items.map((item) => {
             const isExpanded = expandedId === item.id
-            const derived = computeDerivedPrices(item.dealerPrice)
+            const derived = computeDerivedPrices(item.dealerPrice, item.brand)
 
             return (
               <div key={item.id} className="bg-card">
@@ -156,9 +332,12 @@ export function ProductTable({
                   className="w-full flex items-center gap-3 px-4 py-3 text-left active:bg-muted/50"
                 >
                   <div className="flex-1 min-w-0">
-                    <p className="font-medium text-sm truncate">{item.name}</p>
+                    <p className="font-medium text-sm truncate">
+                      <ProductName item={item} />
+                    </p>
                     <p className="text-xs text-muted-foreground mt-0.5 truncate">
-                      {item.brand ?? "No brand"} · {formatQty(item.stockQty, item.unit)}
+                      {item.brand ? <Highlighted text={item.brand} ranges={item.highlights?.brand} /> : "No brand"} ·{" "}
+                      {formatQty(item.stockQty, item.unit)}
                     </p>
                   </div>
                   <StockBadge availability={item.availability} size="small" />
@@ -177,16 +356,41 @@ export function ProductTable({
                         <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-0.5">Dealer</p>
                         <p className="text-sm font-semibold tabular-nums text-primary">{formatMoney(item.dealerPrice)}</p>
                       </div>
-                      <div className="bg-card rounded-lg p-2.5 text-center border border-border">
-                        <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-0.5">Retail</p>
-                        <p className="text-sm font-semibold tabular-nums">{formatMoney(derived.retailPrice)}</p>
-                      </div>
-                      <div className="bg-card rounded-lg p-2.5 text-center border border-primary/50">
-                        <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-0.5">Customer</p>
-                        <p className="text-sm font-semibold tabular-nums text-primary">{formatMoney(derived.customerPrice)}</p>
-                      </div>
+                      {priceColumns.map((column, i) => {
+                        const last = i === priceColumns.length - 1
+                        return (
+                          <div
+                            key={column.id}
+                            className={cn("bg-card rounded-lg p-2.5 text-center border", last ? "border-primary/50" : "border-border")}
+                          >
+                            <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-0.5 truncate">{column.label}</p>
+                            <p className={cn("text-sm font-semibold tabular-nums", last && "text-primary")}>
+                              {formatMoney(derived.byId[column.id] ?? null)}
+                            </p>
+                          </div>
+                        )
+                      })}
                     </div>
 
+                    {showLocations && item.locations.length > 0 && (
+                      <p className="text-xs text-muted-foreground tabular-nums">
+                        <LocationList item={item} active={query.location} formatQty={formatQty} />
+                      </p>
+                    )}
+
+                    {item.costPrice != null && (
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span className="tabular-nums">Cost {formatMoney(item.costPrice)}</span>
+                        <span className="flex items-center gap-1.5">
+                          Margin
+                          <MarginBadge
+                            margin={grossMargin(item.dealerPrice, item.costPrice)}
+                            title={marginTitle(item.costPrice, derived.byId[RETAIL_TIER_ID] ?? null, formatMoney)}
+                          />
+                        </span>
+                      </div>
+                    )}
+
                     {/* Actions */}
                     <div className="flex gap-2">
                       <Button
@@ -207,6 +411,17 @@ export function ProductTable({
                           Edit Price
                         </Button>
                       )}
+                      {onToggleSelect && (
+                        <Button
+                          variant={selectedIds?.has(item.id) ? "secondary" : "outline"}
+                          size="sm"
+                          onClick={() => onToggleSelect(item)}
+                          className="flex-1 h-9 rounded-lg text-xs gap-1"
+                        >
+                          <FileText className="h-3 w-3" />
+                          {selectedIds?.has(item.id) ? "On Quote" : "Add to Quote"}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 )}
@@ -220,9 +435,9 @@ export function ProductTable({
           <div className="flex items-center justify-between gap-4 px-4 py-3 border-t border-border">
             <p className="text-xs text-muted-foreground">
               <span className="font-medium text-foreground">
-                {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, items.length)}
+                {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)}
               </span>
-              {" "}of {items.length.toLocaleString("en-IN")}
+              {" "}of {total.toLocaleString("en-IN")}
             </p>
             <div className="flex items-center gap-2">
               <Button
@@ -255,7 +470,7 @@ export function ProductTable({
 
   // Desktop: Table view
   return (
-    <div className="space-y-0">
+    <div className={cn("space-y-0 transition-opacity", loading && "opacity-60")}>
       {/* Horizontal scroll wrapper for mobile */}
       <div className="overflow-x-auto">
         <Table className="min-w-[900px]">
@@ -266,21 +481,28 @@ export function ProductTable({
               </TableHead>
               <TableHead className="font-medium w-[140px]">Brand</TableHead>
               <TableHead className="font-medium text-right w-[100px]">Qty</TableHead>
+              {showLocations && <TableHead className="font-medium w-[180px]">Location</TableHead>}
               <TableHead className="font-medium w-[100px]">Status</TableHead>
               <TableHead className="font-medium text-right w-[110px]">Dealer</TableHead>
-              <TableHead className="font-medium text-right w-[110px]">Retail</TableHead>
-              <TableHead className="font-medium text-right w-[110px]">Customer</TableHead>
+              {priceColumns.map((column) => (
+                <TableHead key={column.id} className="font-medium text-right w-[110px]">
+                  {column.label}
+                </TableHead>
+              ))}
+              <TableHead className="font-medium text-right w-[90px]" title="Gross margin on the dealer price against the Tally cost">
+                Margin
+              </TableHead>
               <TableHead className="font-medium text-center w-[60px]">View</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {paginatedItems.map((item) => {
+            {items.map((item) => {
               const isEditing = editingId === item.id
               const cleaned = isEditing ? editingValue.replace(/,/g, "").trim() : ""
               const editingParsed = isEditing && cleaned !== "" ? Number.parseFloat(cleaned) : item.dealerPrice
-              const derived = computeDerivedPrices(
-                isEditing && Number.isFinite(editingParsed as number) ? (editingParsed as number) : item.dealerPrice,
-              )
+              const shownDealerPrice =
+                isEditing && Number.isFinite(editingParsed as number) ? (editingParsed as number) : item.dealerPrice
+              const derived = computeDerivedPrices(shownDealerPrice, item.brand)
 
               return (
                 <TableRow
@@ -291,12 +513,32 @@ export function ProductTable({
                   )}
                 >
                   <TableCell className="sticky left-0 z-10 bg-card font-medium">
-                    <div className="truncate max-w-[250px] md:max-w-[300px]">{item.name}</div>
+                    <div className="flex items-center gap-2">
+                      {onToggleSelect && (
+                        <Checkbox
+                          checked={selectedIds?.has(item.id) ?? false}
+                          onCheckedChange={() => onToggleSelect(item)}
+                          aria-label="Add to quote"
+                        />
+                      )}
+                      <div className="truncate max-w-[250px] md:max-w-[300px]" title={item.displayName ? item.name : undefined}>
+                        <ProductName item={item} />
+                      </div>
+                    </div>
                   </TableCell>
                   <TableCell className="text-muted-foreground">
-                    <div className="truncate max-w-[120px]">{item.brand ?? "—"}</div>
+                    <div className="truncate max-w-[120px]">
+                      {item.brand ? <Highlighted text={item.brand} ranges={item.highlights?.brand} /> : "—"}
+                    </div>
                   </TableCell>
                   <TableCell className="text-right tabular-nums">{formatQty(item.stockQty, item.unit)}</TableCell>
+                  {showLocations && (
+                    <TableCell className="text-xs text-muted-foreground tabular-nums">
+                      <div className="truncate max-w-[180px]" title={item.locations.map((l) => `${l.godown}: ${formatQty(l.qty, item.unit)}`).join("\n")}>
+                        <LocationList item={item} active={query.location} formatQty={formatQty} />
+                      </div>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <StockBadge availability={item.availability} />
                   </TableCell>
@@ -354,8 +596,20 @@ export function ProductTable({
                       </div>
                     )}
                   </TableCell>
-                  <TableCell className="text-right tabular-nums">{formatMoney(derived.retailPrice)}</TableCell>
-                  <TableCell className="text-right tabular-nums text-primary font-semibold">{formatMoney(derived.customerPrice)}</TableCell>
+                  {priceColumns.map((column, i) => (
+                    <TableCell
+                      key={column.id}
+                      className={cn("text-right tabular-nums", i === priceColumns.length - 1 && "text-primary font-semibold")}
+                    >
+                      {formatMoney(derived.byId[column.id] ?? null)}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">
+                    <MarginBadge
+                      margin={grossMargin(shownDealerPrice, item.costPrice)}
+                      title={marginTitle(item.costPrice, derived.byId[RETAIL_TIER_ID] ?? null, formatMoney)}
+                    />
+                  </TableCell>
                   <TableCell className="text-center">
                     <Button
                       variant="ghost"
@@ -381,9 +635,9 @@ export function ProductTable({
         <div className="flex items-center justify-between gap-4 px-4 py-3 border-t border-border">
           <p className="text-sm text-muted-foreground">
             <span className="font-medium text-foreground">
-              {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, items.length)}
+              {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)}
             </span>
-            {" "}of {items.length.toLocaleString("en-IN")}
+            {" "}of {total.toLocaleString("en-IN")}
           </p>
           <div className="flex items-center gap-2">
             <Button
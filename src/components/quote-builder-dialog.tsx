@@ -0,0 +1,303 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, CheckCircle2, Download, Loader2, Printer, X } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuthContext } from "@/components/auth-provider"
+import { formatMoney, RETAIL_TIER_ID, type DerivedPrices, type PriceTier } from "@/lib/pricing"
+import { DEFAULT_QUOTE_VALID_DAYS, formatQuoteNumber, priceQuoteLine, quoteTotals, roundCents } from "@/lib/quotes"
+import { ownerHeaders } from "@/lib/owner"
+import { cn } from "@/lib/utils"
+
+/** The product fields a quote line needs; the server re-reads prices when the quote is saved. */
+export type QuoteProduct = {
+  id: string
+  name: string
+  displayName: string | null
+  brand: string | null
+  unit: string | null
+  dealerPrice: number | null
+}
+
+type LineDraft = { qty: string; discount: string }
+
+type CreatedQuote = { id: string; number: number; total: number }
+
+type CreateResponse = { ok: true; quote: CreatedQuote } | { ok: false; error: string }
+
+interface QuoteBuilderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  products: QuoteProduct[]
+  tiers: PriceTier[]
+  derive: (dealerPrice: number | null, brand: string | null) => DerivedPrices
+  onRemove: (id: string) => void
+  /** Called once the quote is stored, e.g. to clear the selection. */
+  onCreated?: () => void
+}
+
+const EMPTY_LINE: LineDraft = { qty: "1", discount: "" }
+
+function parseNumber(value: string): number {
+  return Number.parseFloat(value.replace(/,/g, "").trim())
+}
+
+export function QuoteBuilderDialog({ open, onOpenChange, products, tiers, derive, onRemove, onCreated }: QuoteBuilderDialogProps) {
+  const { token, username } = useAuthContext()
+  const defaultTierId = tiers.some((t) => t.id === RETAIL_TIER_ID) ? RETAIL_TIER_ID : (tiers[0]?.id ?? "")
+  const [tierId, setTierId] = useState(defaultTierId)
+  const [customerName, setCustomerName] = useState("")
+  const [note, setNote] = useState("")
+  const [validDays, setValidDays] = useState(String(DEFAULT_QUOTE_VALID_DAYS))
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [created, setCreated] = useState<CreatedQuote | null>(null)
+
+  // Tiers are loaded asynchronously; fall back once the stored choice no longer exists.
+  const activeTierId = tiers.some((t) => t.id === tierId) ? tierId : defaultTierId
+  const tier = tiers.find((t) => t.id === activeTierId) ?? null
+
+  const lines = products.map((p) => {
+    const draft = drafts[p.id] ?? EMPTY_LINE
+    const qty = parseNumber(draft.qty)
+    const discountPercent = draft.discount.trim() ? parseNumber(draft.discount) : 0
+    const tierPrice = derive(p.dealerPrice, p.brand).byId[activeTierId] ?? null
+    const unitPrice = tierPrice == null ? null : roundCents(tierPrice)
+    const valid =
+      unitPrice != null && Number.isFinite(qty) && qty > 0 && Number.isFinite(discountPercent) && discountPercent >= 0 && discountPercent <= 100
+    return {
+      product: p,
+      draft,
+      qty,
+      discountPercent,
+      unitPrice,
+      valid,
+      lineTotal: valid ? priceQuoteLine(unitPrice, qty, discountPercent).lineTotal : null,
+    }
+  })
+  const totals = quoteTotals(lines.flatMap((l) => (l.valid && l.unitPrice != null ? [{ ...l, unitPrice: l.unitPrice }] : [])))
+  const validDaysValue = Number(validDays)
+  const canSave =
+    !saving &&
+    lines.length > 0 &&
+    lines.every((l) => l.valid) &&
+    customerName.trim() !== "" &&
+    Number.isInteger(validDaysValue) &&
+    validDaysValue >= 1
+
+  const updateDraft = (id: string, patch: Partial<LineDraft>) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...(prev[id] ?? EMPTY_LINE), ...patch } }))
+
+  const handleOpenChange = (next: boolean) => {
+    if (saving) return
+    if (!next && created) {
+      setCreated(null)
+      setCustomerName("")
+      setNote("")
+      setDrafts({})
+    }
+    setError(null)
+    onOpenChange(next)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(token, username) },
+        body: JSON.stringify({
+          customerName: customerName.trim(),
+          note: note.trim() || null,
+          tierId: activeTierId,
+          validDays: validDaysValue,
+          lines: lines.map((l) => ({ productId: l.product.id, qty: l.qty, discountPercent: l.discountPercent })),
+        }),
+      })
+      const body = (await res.json()) as CreateResponse
+      if (!body.ok) throw new Error(body.error)
+      setCreated(body.quote)
+      onCreated?.()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create quote.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{created ? `Quote ${formatQuoteNumber(created.number)}` : "New Quote"}</DialogTitle>
+          <DialogDescription>
+            {created
+              ? `Saved with a total of ${formatMoney(created.total)}.`
+              : "Prices come from the chosen tier and are fixed when the quote is saved. Amounts are in LKR."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <div className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm bg-emerald-500/10 text-emerald-600 dark:text-emerald-400">
+            <CheckCircle2 className="h-4 w-4 shrink-0" />
+            <span className="flex-1">Download it for the customer or open the printable version.</span>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1.5 col-span-2">
+                <Label className="text-xs font-medium">Customer</Label>
+                <Input
+                  value={customerName}
+                  onChange={(e) => setCustomerName(e.target.value)}
+                  placeholder="Customer name"
+                  className="rounded-lg"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Price tier</Label>
+                <Select value={activeTierId} onValueChange={(v) => setTierId(v ?? defaultTierId)}>
+                  <SelectTrigger className="w-full rounded-lg">
+                    <SelectValue>{() => tier?.label ?? "—"}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tiers.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Valid for (days)</Label>
+                <Input
+                  inputMode="numeric"
+                  value={validDays}
+                  onChange={(e) => setValidDays(e.target.value)}
+                  className="rounded-lg tabular-nums"
+                />
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border divide-y">
+              {lines.length === 0 && (
+                <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+                  Select products in the list to add them to the quote.
+                </p>
+              )}
+              {lines.map((l) => (
+                <div key={l.product.id} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                  <div className="min-w-0 flex-1 basis-48">
+                    <div className="font-medium truncate">{l.product.displayName ?? l.product.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {[l.product.brand, l.unitPrice == null ? `No ${tier?.label ?? "tier"} price` : `${formatMoney(l.unitPrice)} each`]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      inputMode="decimal"
+                      aria-label="Quantity"
+                      value={l.draft.qty}
+                      onChange={(e) => updateDraft(l.product.id, { qty: e.target.value })}
+                      className="h-8 w-16 rounded-lg tabular-nums text-right"
+                    />
+                    <span className="text-xs text-muted-foreground w-8">{l.product.unit ?? ""}</span>
+                    <Input
+                      inputMode="decimal"
+                      aria-label="Discount percent"
+                      placeholder="0"
+                      value={l.draft.discount}
+                      onChange={(e) => updateDraft(l.product.id, { discount: e.target.value })}
+                      className="h-8 w-14 rounded-lg tabular-nums text-right"
+                    />
+                    <span className="text-xs text-muted-foreground">%</span>
+                  </div>
+                  <div className="w-28 text-right text-sm font-semibold tabular-nums">{formatMoney(l.lineTotal)}</div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onRemove(l.product.id)}
+                    className="h-8 w-8 rounded-lg"
+                    title="Remove from quote"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid sm:grid-cols-[1fr_auto] gap-3">
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note for the customer (optional)"
+                className="rounded-lg min-h-16"
+              />
+              <div className="text-sm tabular-nums space-y-1 sm:min-w-48">
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>{formatMoney(totals.subtotal)}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Discount</span>
+                  <span>−{formatMoney(totals.discountTotal)}</span>
+                </div>
+                <div className="flex justify-between gap-4 font-semibold text-base border-t pt-1">
+                  <span>Total</span>
+                  <span>{formatMoney(totals.total)}</span>
+                </div>
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm bg-destructive/10 text-destructive">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <span className="flex-1">{error}</span>
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="rounded-lg" disabled={saving} onClick={() => handleOpenChange(false)}>
+            {created ? "Done" : "Cancel"}
+          </Button>
+          {created ? (
+            <>
+              <a href={`/api/quotes/${created.id}/xlsx`} download className={cn(buttonVariants({ variant: "outline" }), "gap-2 rounded-lg")}>
+                <Download className="h-4 w-4" />
+                XLSX
+              </a>
+              <a href={`/api/quotes/${created.id}/print`} target="_blank" rel="noreferrer" className={cn(buttonVariants(), "gap-2 rounded-lg")}>
+                <Printer className="h-4 w-4" />
+                Print
+              </a>
+            </>
+          ) : (
+            <Button className="gap-2 rounded-lg" disabled={!canSave} onClick={() => void save()}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create quote
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
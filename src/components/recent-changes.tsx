@@ -4,15 +4,24 @@ import { useEffect, useMemo, useState } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Card } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { useCompany } from "@/components/company-provider"
+import { withCompany } from "@/lib/companies"
 import { cn } from "@/lib/utils"
-import { ArrowDown, AlertTriangle, Sparkles, Tag } from "lucide-react"
+import { ArrowDown, ArrowUp, AlertTriangle, PackageCheck, PackageX, Sparkles, Tag } from "lucide-react"
 
 export type ProductChange = {
   id: string
   productId: string
   name: string
   brand: string | null
-  changeType: "NEW_PRODUCT" | "STOCK_DROP" | "OUT_OF_STOCK" | "PRICE_CHANGE"
+  changeType: 
+    | "NEW_PRODUCT"
+    | "STOCK_DROP"
+    | "STOCK_INCREASE"
+    | "OUT_OF_STOCK"
+    | "BACK_IN_STOCK"
+    | "PRICE_CHANGE"
+    | "REMOVED_FROM_EXPORT"
   fromQty: number | null
   toQty: number | null
   fromAvailability: "IN_STOCK" | "OUT_OF_STOCK" | "NEGATIVE" | "UNKNOWN" | null
@@ -25,6 +34,8 @@ export type ProductChange = {
 function formatDelta(change: ProductChange) {
   if (change.changeType === "NEW_PRODUCT") return "New product"
   if (change.changeType === "OUT_OF_STOCK") return "Now out of stock"
+  if (change.changeType === "BACK_IN_STOCK") return `Back in stock (${(change.toQty ?? 0).toLocaleString("en-IN")})`
+  if (change.changeType === "REMOVED_FROM_EXPORT") return "Missing from latest export"
   if (change.changeType === "PRICE_CHANGE") {
     const from = change.fromPrice ?? 0
     const to = change.toPrice ?? 0
@@ -47,6 +58,7 @@ function timeAgo(ts: number) {
 }
 
 export function RecentChangesPanel({ limit = 20 }: { limit?: number }) {
+  const { companyId } = useCompany()
   const [items, setItems] = useState<ProductChange[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -57,7 +69,7 @@ export function RecentChangesPanel({ limit = 20 }: { limit?: number }) {
       setLoading(true)
       setError(null)
       try {
-        const res = await fetch(`/api/changes?limit=${limit}`, { cache: "no-store" })
+        const res = await fetch(withCompany(`/api/changes?limit=${limit}`, companyId), { cache: "no-store" })
         const body = (await res.json()) as { items: ProductChange[] }
         if (!cancelled) setItems(body.items ?? [])
       } catch (e) {
@@ -70,7 +82,7 @@ export function RecentChangesPanel({ limit = 20 }: { limit?: number }) {
     return () => {
       cancelled = true
     }
-  }, [limit])
+  }, [companyId, limit])
 
   const grouped = useMemo(() => items.slice(0, limit), [items, limit])
 
@@ -100,13 +112,18 @@ export function RecentChangesPanel({ limit = 20 }: { limit?: number }) {
                   <span className={cn("mt-0.5 inline-flex h-7 w-7 items-center justify-center rounded-full", {
                     "bg-primary/10 text-primary": c.changeType === "NEW_PRODUCT",
                     "bg-amber-100 text-amber-800": c.changeType === "STOCK_DROP",
+                    "bg-emerald-100 text-emerald-800": c.changeType === "STOCK_INCREASE" || c.changeType === "BACK_IN_STOCK",
                     "bg-destructive/10 text-destructive": c.changeType === "OUT_OF_STOCK",
                     "bg-blue-100 text-blue-800": c.changeType === "PRICE_CHANGE",
+                    "bg-muted text-muted-foreground": c.changeType === "REMOVED_FROM_EXPORT",
                   })}>
                     {c.changeType === "NEW_PRODUCT" && <Sparkles className="h-4 w-4" />}
                     {c.changeType === "STOCK_DROP" && <ArrowDown className="h-4 w-4" />}
+                    {c.changeType === "STOCK_INCREASE" && <ArrowUp className="h-4 w-4" />}
+                    {c.changeType === "BACK_IN_STOCK" && <PackageCheck className="h-4 w-4" />}
                     {c.changeType === "OUT_OF_STOCK" && <AlertTriangle className="h-4 w-4" />}
                     {c.changeType === "PRICE_CHANGE" && <Tag className="h-4 w-4" />}
+                    {c.changeType === "REMOVED_FROM_EXPORT" && <PackageX className="h-4 w-4" />}
                   </span>
                   <div className="flex-1 min-w-0 space-y-1">
                     <div className="flex items-start justify-between gap-2">
@@ -0,0 +1,186 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { CalendarClock, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ownerHeaders } from "@/lib/owner"
+
+type ScheduledPrice = {
+  id: string
+  dealerPrice: number
+  effectiveAt: number
+  note: string | null
+  createdBy: string | null
+}
+
+interface ScheduledPricesProps {
+  productId: string
+  enabled: boolean
+  canEdit: boolean
+  ownerToken: string | null
+  ownerName?: string | null
+  formatMoney: (value: number | null) => string
+}
+
+// Value for <input type="datetime-local"> in local time.
+function toLocalInput(ms: number) {
+  const d = new Date(ms)
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+// Supplier price changes usually take effect on the 1st of the month.
+function startOfNextMonth() {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime()
+}
+
+export function ScheduledPrices({ productId, enabled, canEdit, ownerToken, ownerName = null, formatMoney }: ScheduledPricesProps) {
+  const [items, setItems] = useState<ScheduledPrice[]>([])
+  const [loading, setLoading] = useState(false)
+  const [priceInput, setPriceInput] = useState("")
+  const [whenInput, setWhenInput] = useState(() => toLocalInput(startOfNextMonth()))
+  const [saving, setSaving] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/products/${productId}/scheduled-prices`, { cache: "no-store" })
+    const body = (await res.json()) as { items?: ScheduledPrice[] }
+    return body.items ?? []
+  }, [productId])
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    setLoading(true)
+    load()
+      .then((next) => {
+        if (!cancelled) setItems(next)
+      })
+      .catch(() => {
+        if (!cancelled) setItems([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, load])
+
+  const schedule = async () => {
+    const dealerPrice = Number.parseFloat(priceInput.replace(/,/g, ""))
+    const effectiveAt = new Date(whenInput).getTime()
+    if (!Number.isFinite(dealerPrice) || dealerPrice < 0) {
+      setError("Enter a valid dealer price.")
+      return
+    }
+    if (!Number.isFinite(effectiveAt) || effectiveAt <= Date.now()) {
+      setError("Pick a date and time in the future.")
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/products/${productId}/scheduled-prices`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders(ownerToken, ownerName) },
+        body: JSON.stringify({ dealerPrice, effectiveAt }),
+      })
+      const body = (await res.json()) as { ok: boolean; error?: string }
+      if (!body.ok) throw new Error(body.error ?? "Failed to schedule price.")
+      setPriceInput("")
+      setItems(await load())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to schedule price.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cancel = async (id: string) => {
+    setCancellingId(id)
+    setError(null)
+    try {
+      const res = await fetch(`/api/prices/scheduled/${id}`, {
+        method: "DELETE",
+        headers: ownerHeaders(ownerToken, ownerName),
+      })
+      const body = (await res.json()) as { ok: boolean; error?: string }
+      if (!body.ok) throw new Error(body.error ?? "Failed to cancel scheduled price.")
+      setItems((prev) => prev.filter((i) => i.id !== id))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to cancel scheduled price.")
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  if (!canEdit && items.length === 0) return null
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Upcoming prices</span>
+        {loading && <span className="text-xs text-muted-foreground">Loading…</span>}
+      </div>
+
+      {items.length === 0 && !loading && <p className="text-sm text-muted-foreground">No price changes scheduled.</p>}
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2">
+          <CalendarClock className="h-4 w-4 text-primary shrink-0" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-semibold tabular-nums">{formatMoney(item.dealerPrice)}</p>
+            <p className="text-xs text-muted-foreground">
+              From {new Date(item.effectiveAt).toLocaleString()}
+              {item.note ? ` · ${item.note}` : ""}
+            </p>
+          </div>
+          {canEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void cancel(item.id)}
+              disabled={cancellingId === item.id}
+              className="h-8 w-8 p-0"
+              title="Cancel scheduled price"
+            >
+              {cancellingId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {canEdit && (
+        <div className="flex flex-wrap gap-2">
+          <Input
+            type="text"
+            inputMode="decimal"
+            placeholder="New dealer price"
+            value={priceInput}
+            onChange={(e) => setPriceInput(e.target.value)}
+            className="h-10 flex-1 min-w-32 rounded-lg tabular-nums"
+          />
+          <Input
+            type="datetime-local"
+            value={whenInput}
+            onChange={(e) => setWhenInput(e.target.value)}
+            className="h-10 w-auto rounded-lg"
+          />
+          <Button
+            variant="outline"
+            onClick={() => void schedule()}
+            disabled={saving || !priceInput.trim()}
+            className="h-10 rounded-lg gap-2 shrink-0"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarClock className="h-4 w-4" />}
+            Schedule
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { Availability } from "@/lib/domain"
+
+type HistoryPoint = {
+  day: string
+  at: number
+  qty: number | null
+  availability: Availability
+  importRunId: string | null
+}
+
+const chartConfig = {
+  qty: { label: "Qty", color: "var(--primary)" },
+} satisfies ChartConfig
+
+function formatDay(day: string) {
+  const [y, m, d] = day.split("-").map(Number)
+  return new Date(y, m - 1, d).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+}
+
+export function StockHistoryChart({ productId, enabled }: { productId: string; enabled: boolean }) {
+  const [points, setPoints] = useState<HistoryPoint[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      try {
+        const res = await fetch(`/api/products/${productId}/history`, { cache: "no-store" })
+        const body = (await res.json()) as { ok: boolean; points?: HistoryPoint[] }
+        if (!cancelled) setPoints(body.ok ? (body.points ?? []) : [])
+      } catch {
+        if (!cancelled) setPoints([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, productId])
+
+  return (
+    <div className="pt-3 border-t border-border space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">Stock history (90 days)</span>
+        {loading && <span className="text-xs text-muted-foreground">Loading…</span>}
+      </div>
+      {points.length < 2 && !loading ? (
+        <p className="text-sm text-muted-foreground">Not enough imports yet to draw a timeline.</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+          <AreaChart data={points} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={formatDay} />
+            <YAxis width={36} tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+            <Area
+              dataKey="qty"
+              type="stepAfter"
+              stroke="var(--color-qty)"
+              fill="var(--color-qty)"
+              fillOpacity={0.15}
+              connectNulls
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
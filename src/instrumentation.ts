@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  try {
+    const { startScheduledPriceTimer } = await import("@/server/scheduled-prices");
+    startScheduledPriceTimer();
+  } catch (e) {
+    // e.g. DATABASE_URL missing; due prices then wait for POST /api/prices/scheduled/apply.
+    console.error("[instrumentation] scheduled price timer not started:", e);
+  }
+}
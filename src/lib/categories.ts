@@ -0,0 +1,40 @@
+/**
+ * One Tally stock group. Groups nest (e.g. Brand > Category > Sub-category); a top-level group has no parent.
+ * Products are filed under the group they sit in directly, so filtering by a group also takes its descendants.
+ */
+export type Category = {
+  name: string;
+  parent: string | null;
+};
+
+/** A group in display order, with its depth below the top level (0). */
+export type CategoryOption = {
+  name: string;
+  depth: number;
+};
+
+/**
+ * Flattens the tree depth-first, siblings alphabetically. A group whose parent is missing from the list is shown
+ * at the top level; groups caught in a parent loop are left out.
+ */
+export function categoryTree(categories: Category[]): CategoryOption[] {
+  const names = new Set(categories.map((c) => c.name));
+  const children = new Map<string | null, string[]>();
+  for (const c of categories) {
+    const parent = c.parent && names.has(c.parent) && c.parent !== c.name ? c.parent : null;
+    children.set(parent, [...(children.get(parent) ?? []), c.name]);
+  }
+
+  const out: CategoryOption[] = [];
+  const seen = new Set<string>();
+  const visit = (parent: string | null, depth: number) => {
+    for (const name of (children.get(parent) ?? []).sort((a, b) => a.localeCompare(b))) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+      out.push({ name, depth });
+      visit(name, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return out;
+}
@@ -0,0 +1,26 @@
+/** Products imported before the company registry existed belong to this company. */
+export const DEFAULT_COMPANY_ID = "default";
+
+export const COMPANY_ID = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/**
+ * One business whose stock is synced from Tally. `tallyCompany` is the name Tally shows (it changes with
+ * each financial year, e.g. "… - 22/23"); `id` stays the same so products keep their prices and history.
+ */
+export type Company = {
+  id: string;
+  name: string;
+  tallyCompany: string;
+  /** Godowns to sync and sum; empty means company-wide stock. */
+  godowns: string[];
+  /** Inactive companies are skipped by the scheduler and hidden from the switcher. */
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** Adds the `company` query parameter that scopes product, brand, location and import requests. */
+export function withCompany(url: string, companyId: string | null | undefined): string {
+  if (!companyId) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}company=${encodeURIComponent(companyId)}`;
+}
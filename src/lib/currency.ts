@@ -0,0 +1,30 @@
+/** Every stored price is in LKR; other currencies are display conversions or supplier quotes. */
+export const BASE_CURRENCY = "LKR";
+
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/** `rate` is how many LKR one unit of `currency` buys. */
+export type ExchangeRate = {
+  currency: string;
+  rate: number;
+  updatedBy: string | null;
+  updatedAt: number;
+};
+
+/** LKR per unit of `currency`; null when no rate is stored for it. */
+export function rateFor(rates: ExchangeRate[], currency: string): number | null {
+  if (currency === BASE_CURRENCY) return 1;
+  return rates.find((r) => r.currency === currency)?.rate ?? null;
+}
+
+export function toBaseCurrency(amount: number | null, currency: string, rates: ExchangeRate[]): number | null {
+  const rate = rateFor(rates, currency);
+  if (amount == null || rate == null || !Number.isFinite(amount)) return null;
+  return amount * rate;
+}
+
+export function fromBaseCurrency(amount: number | null, currency: string, rates: ExchangeRate[]): number | null {
+  const rate = rateFor(rates, currency);
+  if (amount == null || rate == null || !Number.isFinite(amount)) return null;
+  return amount / rate;
+}
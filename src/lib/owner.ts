@@ -57,6 +57,7 @@ export function useOwner() {
   };
 }
 
-export function ownerHeaders(token?: string | null): Record<string, string> {
-  return token ? { "x-owner-token": token } : {};
+export function ownerHeaders(token?: string | null, username?: string | null): Record<string, string> {
+  if (!token) return {};
+  return username ? { "x-owner-token": token, "x-owner-name": username } : { "x-owner-token": token };
 }
@@ -1,63 +1,200 @@
+import { BASE_CURRENCY } from "./currency";
+
+/** How a tier's price is derived from its base price. */
+export type PriceTierOp = "divide" | "multiply" | "markup" | "discount";
+
+/**
+ * Applied to each tier's price as it is computed, so the displayed, copied and exported prices agree.
+ * "ending" picks the closest price ending in 90 or 99 (e.g. 13,333 -> 13,290 or 13,299).
+ */
+export type RoundingPolicy =
+  | { mode: "none" }
+  | { mode: "nearest"; step: number }
+  | { mode: "up"; step: number }
+  | { mode: "ending"; ending: 90 | 99 };
+
+export const ROUNDING_ENDINGS = [90, 99] as const;
+
+export const ROUNDING_PRESETS: { label: string; policy: RoundingPolicy }[] = [
+  { label: "No rounding", policy: { mode: "none" } },
+  { label: "Nearest 10", policy: { mode: "nearest", step: 10 } },
+  { label: "Nearest 50", policy: { mode: "nearest", step: 50 } },
+  { label: "Nearest 100", policy: { mode: "nearest", step: 100 } },
+  { label: "Up to 10", policy: { mode: "up", step: 10 } },
+  { label: "Up to 50", policy: { mode: "up", step: 50 } },
+  { label: "Up to 100", policy: { mode: "up", step: 100 } },
+  { label: "Ending in 90", policy: { mode: "ending", ending: 90 } },
+  { label: "Ending in 99", policy: { mode: "ending", ending: 99 } },
+];
+
+/**
+ * A named sales channel. Tiers are evaluated in order, so `base` is either "dealer" or the id of an
+ * earlier tier.
+ */
+export type PriceTier = {
+  id: string;
+  label: string;
+  base: string;
+  op: PriceTierOp;
+  value: number;
+  rounding: RoundingPolicy;
+  /** Show as a column in the products table (the detail sheet and export always show every tier). */
+  showInList: boolean;
+};
+
+/** Configured tiers plus per-brand overrides of a tier's `value` (brand -> tier id -> value). */
+export type PricingRules = {
+  tiers: PriceTier[];
+  brands: Record<string, Record<string, number>>;
+};
+
+export type TierPrice = { id: string; label: string; price: number | null };
+
 export type DerivedPrices = {
-  retailPrice: number | null;
-  darazPrice: number | null;
-  customerPrice: number | null;
-  discountPercent: number;
+  tiers: TierPrice[];
+  byId: Record<string, number | null>;
 };
 
+export const DEALER_BASE = "dealer";
+
+type TierFormula = {
+  apply: (base: number, value: number) => number;
+  invert: (price: number, value: number) => number;
+};
+
+export const PRICE_TIER_OPS: Record<PriceTierOp, TierFormula> = {
+  divide: { apply: (b, v) => b / v, invert: (p, v) => p * v },
+  multiply: { apply: (b, v) => b * v, invert: (p, v) => p / v },
+  markup: { apply: (b, v) => b * (1 + v / 100), invert: (p, v) => p / (1 + v / 100) },
+  discount: { apply: (b, v) => b * (1 - v / 100), invert: (p, v) => p / (1 - v / 100) },
+};
+
+export const DEFAULT_PRICE_TIERS: PriceTier[] = [
+  { id: "retail", label: "Retail", base: DEALER_BASE, op: "divide", value: 0.75, rounding: { mode: "none" }, showInList: true },
+  { id: "daraz", label: "Daraz", base: DEALER_BASE, op: "divide", value: 0.6, rounding: { mode: "none" }, showInList: false },
+  { id: "customer", label: "Customer", base: "retail", op: "discount", value: 10, rounding: { mode: "none" }, showInList: true },
+  { id: "institution", label: "Institution", base: "retail", op: "discount", value: 15, rounding: { mode: "none" }, showInList: false },
+];
+
+export const DEFAULT_PRICING_RULES: PricingRules = { tiers: DEFAULT_PRICE_TIERS, brands: {} };
+
 const NA = "—";
-const DEFAULT_CUSTOMER_DISCOUNT = 10;
-
-export function calculateCustomerPrice(
-  retailPrice: number | null,
-  discountPercent: number = DEFAULT_CUSTOMER_DISCOUNT
-): number | null {
-  if (retailPrice == null || !Number.isFinite(retailPrice)) return null;
-  return retailPrice * (1 - discountPercent / 100);
+
+/** Tiers with the brand's value overrides applied. */
+export function resolvePricingRule(rules: PricingRules, brand: string | null | undefined): PriceTier[] {
+  const overrides = brand ? rules.brands[brand] : undefined;
+  if (!overrides) return rules.tiers;
+  return rules.tiers.map((t) => (overrides[t.id] == null ? t : { ...t, value: overrides[t.id] }));
 }
 
-export function computeDerivedPrices(dealerPrice: number | null): DerivedPrices {
-  if (dealerPrice == null || !Number.isFinite(dealerPrice)) {
-    return {
-      retailPrice: null,
-      darazPrice: null,
-      customerPrice: null,
-      discountPercent: DEFAULT_CUSTOMER_DISCOUNT,
-    };
+/** Stable string form of a policy, e.g. for select values. */
+export function roundingKey(rounding: RoundingPolicy): string {
+  switch (rounding.mode) {
+    case "nearest":
+    case "up":
+      return `${rounding.mode}:${rounding.step}`;
+    case "ending":
+      return `ending:${rounding.ending}`;
+    default:
+      return "none";
   }
-  const retailPrice = dealerPrice / 0.75;
-  const darazPrice = dealerPrice / 0.6;
-  const customerPrice = calculateCustomerPrice(retailPrice, DEFAULT_CUSTOMER_DISCOUNT);
-  return { retailPrice, darazPrice, customerPrice, discountPercent: DEFAULT_CUSTOMER_DISCOUNT };
 }
 
-export function computeDerivedPricesWithDiscount(
+export function describeRounding(rounding: RoundingPolicy): string {
+  const key = roundingKey(rounding);
+  const preset = ROUNDING_PRESETS.find((p) => roundingKey(p.policy) === key);
+  if (preset) return preset.label;
+  if (rounding.mode === "nearest") return `Nearest ${rounding.step}`;
+  if (rounding.mode === "up") return `Up to ${rounding.step}`;
+  return "No rounding";
+}
+
+export function applyRounding(price: number, rounding: RoundingPolicy): number {
+  switch (rounding.mode) {
+    case "nearest":
+      return rounding.step > 0 ? Math.round(price / rounding.step) * rounding.step : price;
+    case "up":
+      // The epsilon keeps float noise (e.g. 1200.0000001) from bumping an exact multiple up a step.
+      return rounding.step > 0 ? Math.ceil(price / rounding.step - 1e-9) * rounding.step : price;
+    case "ending": {
+      if (price <= 0) return price;
+      const hundreds = Math.max(0, Math.round((price - rounding.ending) / 100));
+      return hundreds * 100 + rounding.ending;
+    }
+    default:
+      return price;
+  }
+}
+
+/**
+ * Prices for every tier. `valueOverrides` replaces a tier's value for this calculation only
+ * (e.g. the discount slider in the detail sheet).
+ */
+export function computeDerivedPrices(
   dealerPrice: number | null,
-  discountPercent: number = DEFAULT_CUSTOMER_DISCOUNT
+  tiers: PriceTier[] = DEFAULT_PRICE_TIERS,
+  valueOverrides: Record<string, number> = {},
 ): DerivedPrices {
-  if (dealerPrice == null || !Number.isFinite(dealerPrice)) {
-    return {
-      retailPrice: null,
-      darazPrice: null,
-      customerPrice: null,
-      discountPercent,
-    };
+  const byId: Record<string, number | null> = {};
+  const hasDealer = dealerPrice != null && Number.isFinite(dealerPrice);
+  for (const tier of tiers) {
+    const base = tier.base === DEALER_BASE ? (hasDealer ? dealerPrice : null) : (byId[tier.base] ?? null);
+    const value = valueOverrides[tier.id] ?? tier.value;
+    const raw = base == null ? null : PRICE_TIER_OPS[tier.op].apply(base, value);
+    byId[tier.id] = raw == null || !Number.isFinite(raw) ? null : applyRounding(raw, tier.rounding);
   }
-  const retailPrice = dealerPrice / 0.75;
-  const darazPrice = dealerPrice / 0.6;
-  const customerPrice = calculateCustomerPrice(retailPrice, discountPercent);
-  return { retailPrice, darazPrice, customerPrice, discountPercent };
+  return { tiers: tiers.map((t) => ({ id: t.id, label: t.label, price: byId[t.id] ?? null })), byId };
+}
+
+/** Inverse of a tier's formula chain, for prices entered as e.g. retail. Rounding is not undone. */
+export function dealerPriceFromTier(price: number, tierId: string, tiers: PriceTier[] = DEFAULT_PRICE_TIERS): number | null {
+  let current = price;
+  let id = tierId;
+  for (let guard = 0; id !== DEALER_BASE; guard++) {
+    const tier = tiers.find((t) => t.id === id);
+    if (!tier || guard > tiers.length) return null;
+    current = PRICE_TIER_OPS[tier.op].invert(current, tier.value);
+    id = tier.base;
+  }
+  return Number.isFinite(current) ? current : null;
+}
+
+/** The tier margins are also reported against, when the configured tiers include it. */
+export const RETAIL_TIER_ID = "retail";
+
+/** Margins below this percentage are flagged as low. */
+export const LOW_MARGIN_PERCENT = 10;
+
+export type MarginLevel = "negative" | "low" | "ok";
+
+/** Gross margin as a percentage of the selling price, or null without a cost or a positive price. */
+export function grossMargin(price: number | null, cost: number | null): number | null {
+  if (price == null || cost == null || !Number.isFinite(price) || !Number.isFinite(cost) || price <= 0) return null;
+  return ((price - cost) / price) * 100;
+}
+
+export function marginLevel(margin: number | null): MarginLevel | null {
+  if (margin == null) return null;
+  if (margin < 0) return "negative";
+  return margin < LOW_MARGIN_PERCENT ? "low" : "ok";
+}
+
+export function formatMargin(margin: number | null): string {
+  if (margin == null || !Number.isFinite(margin)) return NA;
+  return `${margin.toFixed(1)}%`;
 }
 
-export function formatMoney(value: number | null): string {
+/** LKR is shown in whole rupees; other currencies keep cents (e.g. "USD 24.99"). */
+export function formatMoney(value: number | null, currency: string = BASE_CURRENCY): string {
   if (value == null || !Number.isFinite(value)) return NA;
-  const rounded = Math.round(value);
+  const digits = currency === BASE_CURRENCY ? 0 : 2;
   return new Intl.NumberFormat("en-LK", {
     style: "currency",
-    currency: "LKR",
+    currency,
     currencyDisplay: "code",
-    maximumFractionDigits: 0,
-  }).format(rounded);
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(digits === 0 ? Math.round(value) : value);
 }
 
 export function formatQty(qty: number | null, unit: string | null): string {
@@ -0,0 +1,29 @@
+export const DEFAULT_QUOTE_VALID_DAYS = 14;
+export const MAX_QUOTE_LINES = 100;
+
+/** Customer-facing reference for a quote number, e.g. "Q-00042". */
+export function formatQuoteNumber(number: number): string {
+  return `Q-${String(number).padStart(5, "0")}`;
+}
+
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Line amounts in LKR, rounded to cents; the discount is a percentage of qty × unit price. */
+export function priceQuoteLine(unitPrice: number, qty: number, discountPercent: number) {
+  const gross = roundCents(unitPrice * qty);
+  const discount = roundCents((gross * discountPercent) / 100);
+  return { gross, discount, lineTotal: roundCents(gross - discount) };
+}
+
+export function quoteTotals(lines: Array<{ unitPrice: number; qty: number; discountPercent: number }>) {
+  let subtotal = 0;
+  let discountTotal = 0;
+  for (const line of lines) {
+    const priced = priceQuoteLine(line.unitPrice, line.qty, line.discountPercent);
+    subtotal += priced.gross;
+    discountTotal += priced.discount;
+  }
+  return { subtotal: roundCents(subtotal), discountTotal: roundCents(discountTotal), total: roundCents(subtotal - discountTotal) };
+}
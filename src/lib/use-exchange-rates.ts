@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ExchangeRate } from "@/lib/currency";
+
+/** Loads the owner-maintained exchange rates once per mount; an empty list means LKR only. */
+export function useExchangeRates() {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch("/api/exchange-rates", { cache: "no-store" });
+      const body = (await res.json()) as { ok: boolean; rates?: ExchangeRate[] };
+      if (body.ok && body.rates) setRates(body.rates);
+    } catch {
+      // Keep the current rates.
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { rates, setRates, loaded, reload };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_PRICING_RULES,
+  computeDerivedPrices,
+  resolvePricingRule,
+  type DerivedPrices,
+  type PriceTier,
+  type PricingRules,
+} from "@/lib/pricing";
+
+/**
+ * Loads the configured pricing rules once per mount. Until they arrive (or if the request fails)
+ * the built-in tiers are used, so prices render immediately.
+ */
+export function usePricingRules() {
+  const [rules, setRules] = useState<PricingRules>(DEFAULT_PRICING_RULES);
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch("/api/pricing-rules", { cache: "no-store" });
+      const body = (await res.json()) as { ok: boolean; rules?: PricingRules };
+      if (body.ok && body.rules) setRules(body.rules);
+    } catch {
+      // Keep the current rules.
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const tiersFor = useCallback((brand: string | null | undefined): PriceTier[] => resolvePricingRule(rules, brand), [rules]);
+
+  const derive = useCallback(
+    (dealerPrice: number | null, brand: string | null | undefined): DerivedPrices =>
+      computeDerivedPrices(dealerPrice, resolvePricingRule(rules, brand)),
+    [rules],
+  );
+
+  return { rules, tiers: rules.tiers, setRules, loaded, reload, tiersFor, derive };
+}
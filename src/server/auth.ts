@@ -31,3 +31,13 @@ export function assertOwner(request: Request) {
   }
   return null;
 }
+
+/**
+ * Best-effort name of whoever triggered a request, for audit fields like import runs.
+ * The client sends the signed-in username in `x-owner-name`; it is only trusted alongside a valid owner token.
+ */
+export function requestActor(request: Request): string | null {
+  if (!isOwnerRequest(request)) return null;
+  const name = request.headers.get("x-owner-name")?.trim();
+  return name ? name.slice(0, 100) : "owner";
+}
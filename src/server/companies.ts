@@ -0,0 +1,44 @@
+import { COMPANY_ID, DEFAULT_COMPANY_ID, type Company } from "@/lib/companies";
+import { db } from "@/server/db";
+import { DEFAULT_TALLY_COMPANY, DEFAULT_TALLY_GODOWN } from "@/server/tally/client";
+
+/**
+ * Godowns from the environment: TALLY_GODOWNS (comma-separated), then TALLY_GODOWN, then the default.
+ * A single empty name means company-wide stock.
+ */
+export function configuredGodowns(): string[] {
+  const list = Array.from(new Set((process.env.TALLY_GODOWNS ?? "").split(",").map((g) => g.trim()).filter(Boolean)));
+  if (list.length) return list;
+  return [(process.env.TALLY_GODOWN ?? DEFAULT_TALLY_GODOWN).trim()];
+}
+
+/**
+ * The registry, oldest first. An empty registry is seeded with the "default" company from TALLY_COMPANY and
+ * the godown settings, so existing installs keep syncing what they did before.
+ */
+export async function listCompanies(): Promise<Company[]> {
+  const companies = await db.listCompanies();
+  if (companies.length) return companies;
+
+  const tallyCompany = process.env.TALLY_COMPANY?.trim() || DEFAULT_TALLY_COMPANY;
+  const saved = await db.saveCompanies([
+    {
+      id: DEFAULT_COMPANY_ID,
+      name: tallyCompany,
+      tallyCompany,
+      godowns: configuredGodowns().filter(Boolean),
+      active: true,
+    },
+  ]);
+  return saved.ok ? saved.companies : [];
+}
+
+export async function getCompany(id: string): Promise<Company | null> {
+  return (await listCompanies()).find((c) => c.id === id) ?? null;
+}
+
+/** The `company` query parameter when it is a well-formed id; lists span every company without it. */
+export function requestCompanyId(request: Request): string | undefined {
+  const id = (new URL(request.url).searchParams.get("company") ?? "").trim();
+  return COMPANY_ID.test(id) ? id : undefined;
+}
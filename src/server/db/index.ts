@@ -1,5 +1,6 @@
 import type { DbProvider } from "./types";
 import { createNeonProvider } from "./neon";
+import { createSqliteProvider } from "./sqlite";
 
 declare global {
   var __dbProvider: DbProvider | undefined;
@@ -10,27 +11,51 @@ function isPostgresUrl(url: string) {
   return url.startsWith("postgres://") || url.startsWith("postgresql://");
 }
 
+function isSqliteUrl(url: string) {
+  return url.startsWith("file:");
+}
+
+function createProvider(url: string): DbProvider {
+  if (isPostgresUrl(url)) return createNeonProvider(url);
+  if (isSqliteUrl(url)) return createSqliteProvider(url);
+  throw new Error("Unsupported DATABASE_URL. Use a Postgres URL (Neon) or a `file:` path (local SQLite).");
+}
+
 export const db: DbProvider = (() => {
   const url = process.env.DATABASE_URL?.trim();
   if (!url) {
-    throw new Error("DATABASE_URL is required and must point to Neon Postgres.");
-  }
-  if (!isPostgresUrl(url)) {
-    throw new Error("Only Postgres DATABASE_URL values are supported (Neon is the primary database).");
+    throw new Error("DATABASE_URL is required (Postgres URL for Neon, or `file:./data/...` for local SQLite).");
   }
 
+  // Reuse the provider across dev hot reloads, but only if it still exposes the full DbProvider surface.
   if (
     process.env.NODE_ENV !== "production" &&
     global.__dbProvider &&
-    global.__dbProvider.kind === "neon" &&
     global.__dbProviderUrl === url &&
-    typeof (global.__dbProvider as any).deleteProductsByNameKeys === "function" &&
-    typeof (global.__dbProvider as any).listChanges === "function"
+    typeof global.__dbProvider.deleteProductsByNameKeys === "function" &&
+    typeof global.__dbProvider.listChanges === "function" &&
+    typeof global.__dbProvider.listImportRuns === "function" &&
+    typeof global.__dbProvider.listStockHistory === "function" &&
+    typeof global.__dbProvider.countProducts === "function" &&
+    typeof global.__dbProvider.setProductMeta === "function" &&
+    typeof global.__dbProvider.savePricingRules === "function" &&
+    typeof global.__dbProvider.createPriceBatch === "function" &&
+    typeof global.__dbProvider.markPriceBatchUndone === "function" &&
+    typeof global.__dbProvider.clearPriceBatchUndone === "function" &&
+    typeof global.__dbProvider.claimScheduledPrice === "function" &&
+    typeof global.__dbProvider.finishScheduledPrice === "function" &&
+    typeof global.__dbProvider.saveExchangeRates === "function" &&
+    typeof global.__dbProvider.listPriceChanges === "function" &&
+    typeof global.__dbProvider.createQuote === "function" &&
+    typeof global.__dbProvider.listLocations === "function" &&
+    typeof global.__dbProvider.saveCompanies === "function" &&
+    typeof global.__dbProvider.replaceCategories === "function" &&
+    typeof global.__dbProvider.migrate === "function"
   ) {
     return global.__dbProvider;
   }
 
-  const provider = createNeonProvider(url);
+  const provider = createProvider(url);
   if (process.env.NODE_ENV !== "production") {
     global.__dbProvider = provider;
     global.__dbProviderUrl = url;
@@ -0,0 +1,55 @@
+import type { Migration } from "./types";
+
+export const productsAndPrices: Migration = {
+  id: "0001_products_and_prices",
+  description: "Products and dealer prices",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS products (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      name_key TEXT NOT NULL UNIQUE,
+      brand TEXT NULL,
+      stock_qty DOUBLE PRECISION NULL,
+      unit TEXT NULL,
+      availability TEXT NOT NULL CHECK (availability IN ('IN_STOCK','OUT_OF_STOCK','NEGATIVE','UNKNOWN')),
+      last_seen_at BIGINT NULL,
+      created_at BIGINT NOT NULL,
+      updated_at BIGINT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_products_brand ON products(brand)`,
+    `CREATE INDEX IF NOT EXISTS idx_products_availability ON products(availability)`,
+    `CREATE INDEX IF NOT EXISTS idx_products_last_seen_at ON products(last_seen_at)`,
+    `CREATE TABLE IF NOT EXISTS prices (
+      product_id TEXT PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+      dealer_price DOUBLE PRECISION NULL,
+      updated_at BIGINT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_prices_product_id ON prices(product_id)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS products (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        name_key TEXT NOT NULL UNIQUE,
+        brand TEXT,
+        stock_qty REAL,
+        unit TEXT,
+        availability TEXT NOT NULL CHECK (availability IN ('IN_STOCK','OUT_OF_STOCK','NEGATIVE','UNKNOWN')),
+        last_seen_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_products_brand ON products(brand);
+      CREATE INDEX IF NOT EXISTS idx_products_availability ON products(availability);
+      CREATE INDEX IF NOT EXISTS idx_products_last_seen_at ON products(last_seen_at);
+
+      CREATE TABLE IF NOT EXISTS prices (
+        product_id TEXT PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+        dealer_price REAL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_prices_product_id ON prices(product_id);
+    `);
+  },
+};
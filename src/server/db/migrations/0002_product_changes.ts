@@ -0,0 +1,45 @@
+import type { Migration } from "./types";
+
+export const productChanges: Migration = {
+  id: "0002_product_changes",
+  description: "Change feed for stock and price events",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS product_changes (
+      id TEXT PRIMARY KEY,
+      product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      product_name TEXT NOT NULL,
+      product_brand TEXT NULL,
+      change_type TEXT NOT NULL CONSTRAINT product_changes_change_type_check
+        CHECK (change_type IN ('NEW_PRODUCT','STOCK_DROP','OUT_OF_STOCK','PRICE_CHANGE')),
+      from_qty DOUBLE PRECISION NULL,
+      to_qty DOUBLE PRECISION NULL,
+      from_availability TEXT NULL,
+      to_availability TEXT NULL,
+      from_price DOUBLE PRECISION NULL,
+      to_price DOUBLE PRECISION NULL,
+      created_at BIGINT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_product_changes_created_at ON product_changes(created_at DESC)`,
+    `CREATE INDEX IF NOT EXISTS idx_product_changes_product_id ON product_changes(product_id)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_changes (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        product_name TEXT NOT NULL,
+        product_brand TEXT,
+        change_type TEXT NOT NULL CHECK (change_type IN ('NEW_PRODUCT','STOCK_DROP','OUT_OF_STOCK','PRICE_CHANGE')),
+        from_qty REAL,
+        to_qty REAL,
+        from_availability TEXT,
+        to_availability TEXT,
+        from_price REAL,
+        to_price REAL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_product_changes_created_at ON product_changes(created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_product_changes_product_id ON product_changes(product_id);
+    `);
+  },
+};
@@ -0,0 +1,49 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+export const importRuns: Migration = {
+  id: "0003_import_runs",
+  description: "Import run history linked from the change feed",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS import_runs (
+      id TEXT PRIMARY KEY,
+      source TEXT NOT NULL CHECK (source IN ('auto','upload','sample','tally')),
+      filename TEXT NULL,
+      company TEXT NULL,
+      godown TEXT NULL,
+      triggered_by TEXT NULL,
+      parsed_count INTEGER NOT NULL DEFAULT 0,
+      upserted INTEGER NOT NULL DEFAULT 0,
+      deleted_brand_rows INTEGER NOT NULL DEFAULT 0,
+      error TEXT NULL,
+      started_at BIGINT NOT NULL,
+      completed_at BIGINT NULL,
+      duration_ms BIGINT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_import_runs_started_at ON import_runs(started_at DESC)`,
+    `ALTER TABLE product_changes ADD COLUMN IF NOT EXISTS import_run_id TEXT NULL REFERENCES import_runs(id) ON DELETE SET NULL`,
+    `CREATE INDEX IF NOT EXISTS idx_product_changes_import_run_id ON product_changes(import_run_id)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS import_runs (
+        id TEXT PRIMARY KEY,
+        source TEXT NOT NULL CHECK (source IN ('auto','upload','sample','tally')),
+        filename TEXT,
+        company TEXT,
+        godown TEXT,
+        triggered_by TEXT,
+        parsed_count INTEGER NOT NULL DEFAULT 0,
+        upserted INTEGER NOT NULL DEFAULT 0,
+        deleted_brand_rows INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        completed_at INTEGER,
+        duration_ms INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_import_runs_started_at ON import_runs(started_at DESC);
+    `);
+    addColumnIfMissing(db, "product_changes", "import_run_id", "TEXT REFERENCES import_runs(id) ON DELETE SET NULL");
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_product_changes_import_run_id ON product_changes(import_run_id)`);
+  },
+};
@@ -0,0 +1,23 @@
+import { addColumnIfMissing, setChangeTypeCheck } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+const CHANGE_TYPES = ["NEW_PRODUCT", "STOCK_DROP", "OUT_OF_STOCK", "PRICE_CHANGE", "REMOVED_FROM_EXPORT"];
+
+export const snapshotImports: Migration = {
+  id: "0004_snapshot_imports",
+  description: "Snapshot import mode and REMOVED_FROM_EXPORT changes",
+  postgres: [
+    `ALTER TABLE products ADD COLUMN IF NOT EXISTS removed_at BIGINT NULL`,
+    `ALTER TABLE import_runs ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'partial' CHECK (mode IN ('partial','snapshot'))`,
+    `ALTER TABLE import_runs ADD COLUMN IF NOT EXISTS removed_count INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE product_changes DROP CONSTRAINT IF EXISTS product_changes_change_type_check`,
+    `ALTER TABLE product_changes ADD CONSTRAINT product_changes_change_type_check
+      CHECK (change_type IN (${CHANGE_TYPES.map((t) => `'${t}'`).join(",")}))`,
+  ],
+  sqlite: (db) => {
+    addColumnIfMissing(db, "products", "removed_at", "INTEGER");
+    addColumnIfMissing(db, "import_runs", "mode", "TEXT NOT NULL DEFAULT 'partial' CHECK (mode IN ('partial','snapshot'))");
+    addColumnIfMissing(db, "import_runs", "removed_count", "INTEGER NOT NULL DEFAULT 0");
+    setChangeTypeCheck(db, CHANGE_TYPES);
+  },
+};
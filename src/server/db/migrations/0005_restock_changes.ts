@@ -0,0 +1,25 @@
+import { setChangeTypeCheck } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+const CHANGE_TYPES = [
+  "NEW_PRODUCT",
+  "STOCK_DROP",
+  "OUT_OF_STOCK",
+  "PRICE_CHANGE",
+  "REMOVED_FROM_EXPORT",
+  "STOCK_INCREASE",
+  "BACK_IN_STOCK",
+];
+
+export const restockChanges: Migration = {
+  id: "0005_restock_changes",
+  description: "STOCK_INCREASE and BACK_IN_STOCK changes",
+  postgres: [
+    `ALTER TABLE product_changes DROP CONSTRAINT IF EXISTS product_changes_change_type_check`,
+    `ALTER TABLE product_changes ADD CONSTRAINT product_changes_change_type_check
+      CHECK (change_type IN (${CHANGE_TYPES.map((t) => `'${t}'`).join(",")}))`,
+  ],
+  sqlite: (db) => {
+    setChangeTypeCheck(db, CHANGE_TYPES);
+  },
+};
@@ -0,0 +1,30 @@
+import type { Migration } from "./types";
+
+export const stockSnapshots: Migration = {
+  id: "0006_stock_snapshots",
+  description: "Daily per-product stock snapshots",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS stock_snapshots (
+      product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      day TEXT NOT NULL,
+      stock_qty DOUBLE PRECISION NULL,
+      availability TEXT NOT NULL,
+      import_run_id TEXT NULL REFERENCES import_runs(id) ON DELETE SET NULL,
+      captured_at BIGINT NOT NULL,
+      PRIMARY KEY (product_id, day)
+    )`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_snapshots (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        day TEXT NOT NULL,
+        stock_qty REAL,
+        availability TEXT NOT NULL,
+        import_run_id TEXT REFERENCES import_runs(id) ON DELETE SET NULL,
+        captured_at INTEGER NOT NULL,
+        PRIMARY KEY (product_id, day)
+      );
+    `);
+  },
+};
@@ -0,0 +1,29 @@
+import type { Migration } from "./types";
+
+export const productMeta: Migration = {
+  id: "0007_product_meta",
+  description: "Owner-curated display names, notes and tags",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS product_meta (
+      product_id TEXT PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+      display_name TEXT NULL,
+      notes TEXT NULL,
+      tags TEXT[] NOT NULL DEFAULT '{}',
+      updated_by TEXT NULL,
+      updated_at BIGINT NOT NULL
+    )`,
+  ],
+  sqlite: (db) => {
+    // tags is a JSON array of strings.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_meta (
+        product_id TEXT PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+        display_name TEXT,
+        notes TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        updated_by TEXT,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  },
+};
@@ -0,0 +1,31 @@
+import type { Migration } from "./types";
+
+// scope is '*' for the global defaults or a brand name for an override; NULL columns inherit.
+export const pricingRules: Migration = {
+  id: "0008_pricing_rules",
+  description: "Editable pricing rules with per-brand overrides",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS pricing_rules (
+      scope TEXT PRIMARY KEY,
+      retail_divisor DOUBLE PRECISION NULL,
+      daraz_divisor DOUBLE PRECISION NULL,
+      customer_discount_percent DOUBLE PRECISION NULL,
+      institution_discount_percent DOUBLE PRECISION NULL,
+      updated_by TEXT NULL,
+      updated_at BIGINT NOT NULL
+    )`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS pricing_rules (
+        scope TEXT PRIMARY KEY,
+        retail_divisor REAL,
+        daraz_divisor REAL,
+        customer_discount_percent REAL,
+        institution_discount_percent REAL,
+        updated_by TEXT,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  },
+};
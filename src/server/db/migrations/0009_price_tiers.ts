@@ -0,0 +1,76 @@
+import type { Migration } from "./types";
+
+// Seeds the four built-in channels from the 0008 pricing_rules row (or the old constants), carries brand
+// overrides across as per-tier values, then drops pricing_rules.
+const SEED_TIERS = [
+  { id: "retail", label: "Retail", base: "dealer", op: "divide", column: "retail_divisor", fallback: 0.75, showInList: true },
+  { id: "daraz", label: "Daraz", base: "dealer", op: "divide", column: "daraz_divisor", fallback: 0.6, showInList: false },
+  { id: "customer", label: "Customer", base: "retail", op: "discount", column: "customer_discount_percent", fallback: 10, showInList: true },
+  { id: "institution", label: "Institution", base: "retail", op: "discount", column: "institution_discount_percent", fallback: 15, showInList: false },
+];
+
+function seedStatements(showInList: (value: boolean) => string): string[] {
+  return SEED_TIERS.flatMap((t, position) => [
+    `INSERT INTO price_tiers(id, label, base, op, value, rounding, position, show_in_list)
+      SELECT '${t.id}', '${t.label}', '${t.base}', '${t.op}',
+        COALESCE((SELECT ${t.column} FROM pricing_rules WHERE scope = '*'), ${t.fallback}),
+        '{"mode":"none"}', ${position}, ${showInList(t.showInList)}
+      WHERE NOT EXISTS (SELECT 1 FROM price_tiers WHERE id = '${t.id}')`,
+    `INSERT INTO price_tier_overrides(brand, tier_id, value)
+      SELECT scope, '${t.id}', ${t.column} FROM pricing_rules
+      WHERE scope <> '*' AND ${t.column} IS NOT NULL
+      ON CONFLICT DO NOTHING`,
+  ]);
+}
+
+export const priceTiers: Migration = {
+  id: "0009_price_tiers",
+  description: "Configurable price tiers replacing the fixed pricing rules",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS price_tiers (
+      id TEXT PRIMARY KEY,
+      label TEXT NOT NULL,
+      base TEXT NOT NULL,
+      op TEXT NOT NULL,
+      value DOUBLE PRECISION NOT NULL,
+      rounding TEXT NOT NULL DEFAULT '{"mode":"none"}',
+      position INTEGER NOT NULL,
+      show_in_list BOOLEAN NOT NULL DEFAULT FALSE,
+      updated_by TEXT NULL,
+      updated_at BIGINT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS price_tier_overrides (
+      brand TEXT NOT NULL,
+      tier_id TEXT NOT NULL REFERENCES price_tiers(id) ON DELETE CASCADE,
+      value DOUBLE PRECISION NOT NULL,
+      PRIMARY KEY (brand, tier_id)
+    )`,
+    ...seedStatements((v) => (v ? "TRUE" : "FALSE")),
+    `DROP TABLE pricing_rules`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS price_tiers (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        base TEXT NOT NULL,
+        op TEXT NOT NULL,
+        value REAL NOT NULL,
+        rounding TEXT NOT NULL DEFAULT '{"mode":"none"}',
+        position INTEGER NOT NULL,
+        show_in_list INTEGER NOT NULL DEFAULT 0,
+        updated_by TEXT,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS price_tier_overrides (
+        brand TEXT NOT NULL,
+        tier_id TEXT NOT NULL REFERENCES price_tiers(id) ON DELETE CASCADE,
+        value REAL NOT NULL,
+        PRIMARY KEY (brand, tier_id)
+      );
+    `);
+    for (const statement of seedStatements((v) => (v ? "1" : "0"))) db.exec(statement);
+    db.exec(`DROP TABLE pricing_rules`);
+  },
+};
@@ -0,0 +1,34 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// A batch groups the PRICE_CHANGE rows written by one bulk price operation (e.g. a supplier price list).
+export const priceBatches: Migration = {
+  id: "0010_price_batches",
+  description: "Price change batches for bulk price updates",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS price_batches (
+      id TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      label TEXT NULL,
+      created_by TEXT NULL,
+      created_at BIGINT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_price_batches_created_at ON price_batches(created_at DESC)`,
+    `ALTER TABLE product_changes ADD COLUMN IF NOT EXISTS batch_id TEXT NULL REFERENCES price_batches(id) ON DELETE SET NULL`,
+    `CREATE INDEX IF NOT EXISTS idx_product_changes_batch_id ON product_changes(batch_id)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS price_batches (
+        id TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        label TEXT,
+        created_by TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_price_batches_created_at ON price_batches(created_at DESC);
+    `);
+    addColumnIfMissing(db, "product_changes", "batch_id", "TEXT REFERENCES price_batches(id) ON DELETE SET NULL");
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_product_changes_batch_id ON product_changes(batch_id)`);
+  },
+};
@@ -0,0 +1,19 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// An undo is itself a batch (source "undo") pointing at the batch it reverts; the reverted batch is stamped
+// so it can only be undone once.
+export const priceBatchUndo: Migration = {
+  id: "0011_price_batch_undo",
+  description: "Undo tracking for price change batches",
+  postgres: [
+    `ALTER TABLE price_batches ADD COLUMN IF NOT EXISTS reverts_batch_id TEXT NULL REFERENCES price_batches(id) ON DELETE SET NULL`,
+    `ALTER TABLE price_batches ADD COLUMN IF NOT EXISTS undone_at BIGINT NULL`,
+    `ALTER TABLE price_batches ADD COLUMN IF NOT EXISTS undone_by TEXT NULL`,
+  ],
+  sqlite: (db) => {
+    addColumnIfMissing(db, "price_batches", "reverts_batch_id", "TEXT REFERENCES price_batches(id) ON DELETE SET NULL");
+    addColumnIfMissing(db, "price_batches", "undone_at", "INTEGER");
+    addColumnIfMissing(db, "price_batches", "undone_by", "TEXT");
+  },
+};
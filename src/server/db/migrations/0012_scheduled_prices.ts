@@ -0,0 +1,41 @@
+import type { Migration } from "./types";
+
+// A row is pending until applied_at or cancelled_at is set; error is recorded when applying failed.
+export const scheduledPrices: Migration = {
+  id: "0012_scheduled_prices",
+  description: "Dealer prices scheduled to take effect at a future time",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS scheduled_prices (
+      id TEXT PRIMARY KEY,
+      product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      dealer_price DOUBLE PRECISION NOT NULL,
+      effective_at BIGINT NOT NULL,
+      note TEXT NULL,
+      created_by TEXT NULL,
+      created_at BIGINT NOT NULL,
+      applied_at BIGINT NULL,
+      cancelled_at BIGINT NULL,
+      error TEXT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_scheduled_prices_product_id ON scheduled_prices(product_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_scheduled_prices_pending ON scheduled_prices(effective_at) WHERE applied_at IS NULL AND cancelled_at IS NULL`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS scheduled_prices (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        dealer_price REAL NOT NULL,
+        effective_at INTEGER NOT NULL,
+        note TEXT,
+        created_by TEXT,
+        created_at INTEGER NOT NULL,
+        applied_at INTEGER,
+        cancelled_at INTEGER,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_scheduled_prices_product_id ON scheduled_prices(product_id);
+      CREATE INDEX IF NOT EXISTS idx_scheduled_prices_pending ON scheduled_prices(effective_at) WHERE applied_at IS NULL AND cancelled_at IS NULL;
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// Tally's closing rate (weighted average cost per unit). Imports only overwrite it when the export carries
+// a rate, so a zero-stock row with a blank rate keeps the last known cost.
+export const productCost: Migration = {
+  id: "0013_product_cost",
+  description: "Cost price per product from Tally closing rates",
+  postgres: [`ALTER TABLE products ADD COLUMN IF NOT EXISTS cost_price DOUBLE PRECISION NULL`],
+  sqlite: (db) => {
+    addColumnIfMissing(db, "products", "cost_price", "REAL");
+  },
+};
@@ -0,0 +1,31 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// Prices stay in LKR. Rates convert them for display, and turn a supplier's foreign-currency quote
+// (kept with the owner-curated product_meta) into a landed cost.
+export const exchangeRates: Migration = {
+  id: "0014_exchange_rates",
+  description: "Exchange rates and supplier currency per product",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS exchange_rates (
+      currency TEXT PRIMARY KEY,
+      rate DOUBLE PRECISION NOT NULL CHECK (rate > 0),
+      updated_by TEXT NULL,
+      updated_at BIGINT NOT NULL
+    )`,
+    `ALTER TABLE product_meta ADD COLUMN IF NOT EXISTS source_currency TEXT NULL`,
+    `ALTER TABLE product_meta ADD COLUMN IF NOT EXISTS source_amount DOUBLE PRECISION NULL`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        currency TEXT PRIMARY KEY,
+        rate REAL NOT NULL CHECK (rate > 0),
+        updated_by TEXT,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+    addColumnIfMissing(db, "product_meta", "source_currency", "TEXT");
+    addColumnIfMissing(db, "product_meta", "source_amount", "REAL");
+  },
+};
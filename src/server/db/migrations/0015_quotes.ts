@@ -0,0 +1,72 @@
+import type { Migration } from "./types";
+
+// Lines snapshot the product name and price at quoting time, so a quote still reads the same after the
+// product is renamed, repriced or deleted. `number` is the customer-facing sequential quote number.
+export const quotes: Migration = {
+  id: "0015_quotes",
+  description: "Customer quotations and their lines",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS quotes (
+      id TEXT PRIMARY KEY,
+      number INTEGER NOT NULL UNIQUE,
+      customer_name TEXT NOT NULL,
+      note TEXT NULL,
+      tier_id TEXT NOT NULL,
+      tier_label TEXT NOT NULL,
+      subtotal DOUBLE PRECISION NOT NULL,
+      discount_total DOUBLE PRECISION NOT NULL,
+      total DOUBLE PRECISION NOT NULL,
+      valid_until BIGINT NOT NULL,
+      created_by TEXT NULL,
+      created_at BIGINT NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS quote_lines (
+      id TEXT PRIMARY KEY,
+      quote_id TEXT NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      product_id TEXT NULL REFERENCES products(id) ON DELETE SET NULL,
+      product_name TEXT NOT NULL,
+      product_brand TEXT NULL,
+      unit TEXT NULL,
+      qty DOUBLE PRECISION NOT NULL,
+      unit_price DOUBLE PRECISION NOT NULL,
+      discount_percent DOUBLE PRECISION NOT NULL,
+      line_total DOUBLE PRECISION NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_quote_lines_quote_id ON quote_lines(quote_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_quotes_created_at ON quotes(created_at)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS quotes (
+        id TEXT PRIMARY KEY,
+        number INTEGER NOT NULL UNIQUE,
+        customer_name TEXT NOT NULL,
+        note TEXT,
+        tier_id TEXT NOT NULL,
+        tier_label TEXT NOT NULL,
+        subtotal REAL NOT NULL,
+        discount_total REAL NOT NULL,
+        total REAL NOT NULL,
+        valid_until INTEGER NOT NULL,
+        created_by TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS quote_lines (
+        id TEXT PRIMARY KEY,
+        quote_id TEXT NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        product_id TEXT REFERENCES products(id) ON DELETE SET NULL,
+        product_name TEXT NOT NULL,
+        product_brand TEXT,
+        unit TEXT,
+        qty REAL NOT NULL,
+        unit_price REAL NOT NULL,
+        discount_percent REAL NOT NULL,
+        line_total REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_quote_lines_quote_id ON quote_lines(quote_id);
+      CREATE INDEX IF NOT EXISTS idx_quotes_created_at ON quotes(created_at);
+    `);
+  },
+};
@@ -0,0 +1,30 @@
+import type { Migration } from "./types";
+
+// products.stock_qty stays the total; these rows break it down per Tally godown. A multi-godown sync
+// replaces a product's rows, so godowns where it no longer appears simply have no row.
+export const stockLocations: Migration = {
+  id: "0016_stock_locations",
+  description: "Per-godown stock quantities",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS product_stock_locations (
+      product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      godown TEXT NOT NULL,
+      stock_qty DOUBLE PRECISION NULL,
+      updated_at BIGINT NOT NULL,
+      PRIMARY KEY (product_id, godown)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_product_stock_locations_godown ON product_stock_locations(godown)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_stock_locations (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        godown TEXT NOT NULL,
+        stock_qty REAL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (product_id, godown)
+      );
+      CREATE INDEX IF NOT EXISTS idx_product_stock_locations_godown ON product_stock_locations(godown);
+    `);
+  },
+};
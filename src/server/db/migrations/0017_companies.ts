@@ -0,0 +1,42 @@
+import { addColumnIfMissing, rebuildTable } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// Products are scoped per company, so the same Tally item name can exist once in each. Existing rows
+// belong to the "default" company, which is created from the TALLY_* settings on first use.
+export const companies: Migration = {
+  id: "0017_companies",
+  description: "Company registry and per-company products",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS companies (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      tally_company TEXT NOT NULL,
+      godowns TEXT[] NOT NULL DEFAULT '{}',
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at BIGINT NOT NULL,
+      updated_at BIGINT NOT NULL
+    )`,
+    `ALTER TABLE products ADD COLUMN IF NOT EXISTS company_id TEXT NOT NULL DEFAULT 'default'`,
+    `ALTER TABLE products DROP CONSTRAINT IF EXISTS products_name_key_key`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_products_company_name_key ON products(company_id, name_key)`,
+  ],
+  foreignKeysOff: true,
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS companies (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        tally_company TEXT NOT NULL,
+        godowns TEXT NOT NULL DEFAULT '[]',
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+    // godowns is a JSON array of strings.
+    addColumnIfMissing(db, "products", "company_id", "TEXT NOT NULL DEFAULT 'default'");
+    // The inline UNIQUE on name_key cannot be dropped, so the table is rebuilt without it.
+    rebuildTable(db, "products", (sql) => sql.replace(/name_key TEXT NOT NULL UNIQUE/, "name_key TEXT NOT NULL"));
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_products_company_name_key ON products(company_id, name_key)`);
+  },
+};
@@ -0,0 +1,33 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// Tally's stock group tree (e.g. Brand > Category > Sub-category), replaced per company on each sync. A top-level
+// group has a NULL parent. products.category is the item's own (leaf) group; products.brand stays its top-level group.
+export const stockGroups: Migration = {
+  id: "0018_stock_groups",
+  description: "Stock group tree and product categories",
+  postgres: [
+    `CREATE TABLE IF NOT EXISTS stock_groups (
+      company_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      parent TEXT NULL,
+      updated_at BIGINT NOT NULL,
+      PRIMARY KEY (company_id, name)
+    )`,
+    `ALTER TABLE products ADD COLUMN IF NOT EXISTS category TEXT NULL`,
+    `CREATE INDEX IF NOT EXISTS idx_products_category ON products(category)`,
+  ],
+  sqlite: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_groups (
+        company_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        parent TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (company_id, name)
+      );
+    `);
+    addColumnIfMissing(db, "products", "category", "TEXT");
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_products_category ON products(category)`);
+  },
+};
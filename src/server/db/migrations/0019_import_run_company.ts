@@ -0,0 +1,17 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// Import runs record the registry company they synced, so the activity log can be filtered per company.
+// `company` stays the Tally company name; runs from before companies existed belong to "default".
+export const importRunCompany: Migration = {
+  id: "0019_import_run_company",
+  description: "Company id on import runs",
+  postgres: [
+    `ALTER TABLE import_runs ADD COLUMN IF NOT EXISTS company_id TEXT NOT NULL DEFAULT 'default'`,
+    `CREATE INDEX IF NOT EXISTS idx_import_runs_company_id ON import_runs(company_id, started_at DESC)`,
+  ],
+  sqlite: (db) => {
+    addColumnIfMissing(db, "import_runs", "company_id", "TEXT NOT NULL DEFAULT 'default'");
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_import_runs_company_id ON import_runs(company_id, started_at DESC)`);
+  },
+};
@@ -0,0 +1,13 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// A schedule is "applying" while claimed_at is set and applied_at is not: the claim is taken before the price is
+// written and applied_at only after, so a run that dies in between leaves a stale claim that goes back to pending.
+export const scheduledPriceClaims: Migration = {
+  id: "0020_scheduled_price_claims",
+  description: "Claim timestamp on scheduled prices",
+  postgres: [`ALTER TABLE scheduled_prices ADD COLUMN IF NOT EXISTS claimed_at BIGINT NULL`],
+  sqlite: (db) => {
+    addColumnIfMissing(db, "scheduled_prices", "claimed_at", "INTEGER");
+  },
+};
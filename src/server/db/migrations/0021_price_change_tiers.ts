@@ -0,0 +1,13 @@
+import { addColumnIfMissing } from "./sqlite-helpers";
+import type { Migration } from "./types";
+
+// PRICE_CHANGE rows keep the tier prices derived from to_price with the rules in force at the time, as a JSON
+// object of tier id -> price, so price history shows what was charged. Older rows stay NULL.
+export const priceChangeTiers: Migration = {
+  id: "0021_price_change_tiers",
+  description: "Derived tier prices on price changes",
+  postgres: [`ALTER TABLE product_changes ADD COLUMN IF NOT EXISTS to_tiers TEXT NULL`],
+  sqlite: (db) => {
+    addColumnIfMissing(db, "product_changes", "to_tiers", "TEXT");
+  },
+};
@@ -0,0 +1,67 @@
+import type { AppliedMigration, MigrationStatus } from "../types";
+import { productsAndPrices } from "./0001_products_and_prices";
+import { productChanges } from "./0002_product_changes";
+import { importRuns } from "./0003_import_runs";
+import { snapshotImports } from "./0004_snapshot_imports";
+import { restockChanges } from "./0005_restock_changes";
+import { stockSnapshots } from "./0006_stock_snapshots";
+import { productMeta } from "./0007_product_meta";
+import { pricingRules } from "./0008_pricing_rules";
+import { priceTiers } from "./0009_price_tiers";
+import { priceBatches } from "./0010_price_batches";
+import { priceBatchUndo } from "./0011_price_batch_undo";
+import { scheduledPrices } from "./0012_scheduled_prices";
+import { productCost } from "./0013_product_cost";
+import { exchangeRates } from "./0014_exchange_rates";
+import { quotes } from "./0015_quotes";
+import { stockLocations } from "./0016_stock_locations";
+import { companies } from "./0017_companies";
+import { stockGroups } from "./0018_stock_groups";
+import { importRunCompany } from "./0019_import_run_company";
+import { scheduledPriceClaims } from "./0020_scheduled_price_claims";
+import { priceChangeTiers } from "./0021_price_change_tiers";
+import type { Migration } from "./types";
+
+export type { Migration } from "./types";
+
+/**
+ * Every schema change, oldest first. Append new migrations here; never edit one that has shipped.
+ * The early entries are idempotent because databases created before the runner already have those tables.
+ */
+export const MIGRATIONS: Migration[] = [
+  productsAndPrices,
+  productChanges,
+  importRuns,
+  snapshotImports,
+  restockChanges,
+  stockSnapshots,
+  productMeta,
+  pricingRules,
+  priceTiers,
+  priceBatches,
+  priceBatchUndo,
+  scheduledPrices,
+  productCost,
+  exchangeRates,
+  quotes,
+  stockLocations,
+  companies,
+  stockGroups,
+  importRunCompany,
+  scheduledPriceClaims,
+  priceChangeTiers,
+];
+
+export function pendingMigrations(appliedIds: Iterable<string>): Migration[] {
+  const applied = new Set(appliedIds);
+  return MIGRATIONS.filter((m) => !applied.has(m.id));
+}
+
+export function buildMigrationStatus(applied: AppliedMigration[]): MigrationStatus {
+  const pending = pendingMigrations(applied.map((a) => a.id));
+  return {
+    applied,
+    pending: pending.map((m) => ({ id: m.id, description: m.description })),
+    upToDate: pending.length === 0,
+  };
+}
@@ -0,0 +1,47 @@
+import type Database from "better-sqlite3";
+
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Recreates `table` from its own DDL passed through `transform`, copying every row and index. SQLite cannot
+ * drop or alter constraints in place. A table other tables reference needs the migration to run with
+ * `foreignKeysOff`, or dropping the old copy would cascade.
+ */
+export function rebuildTable(db: Database.Database, table: string, transform: (sql: string) => string) {
+  const current = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) as
+    | { sql: string }
+    | undefined;
+  if (!current) throw new Error(`${table} table is missing.`);
+  const rebuiltSql = transform(current.sql);
+  if (rebuiltSql === current.sql) return;
+
+  const indexes = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`)
+    .all(table) as Array<{ sql: string }>;
+
+  db.exec(rebuiltSql.replace(new RegExp(`^CREATE TABLE\\s+"?${table}"?`), `CREATE TABLE ${table}_new`));
+  db.exec(`INSERT INTO ${table}_new SELECT * FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+  for (const idx of indexes) db.exec(idx.sql);
+}
+
+/**
+ * SQLite cannot alter a CHECK constraint, so product_changes is rebuilt from its own DDL with the new
+ * change_type list, keeping whatever columns the table has at that point.
+ */
+export function setChangeTypeCheck(db: Database.Database, changeTypes: readonly string[]) {
+  const checkList = `change_type IN (${changeTypes.map((t) => `'${t}'`).join(",")})`;
+  rebuildTable(db, "product_changes", (sql) =>
+    changeTypes.every((t) => sql.includes(`'${t}'`)) ? sql : sql.replace(/change_type IN \([^)]*\)/, checkList),
+  );
+}
@@ -0,0 +1,15 @@
+import type Database from "better-sqlite3";
+
+/**
+ * One schema change, written for both backends. Ids sort lexically and must never be renamed once shipped.
+ */
+export type Migration = {
+  id: string;
+  description: string;
+  /** Statements run in order inside one transaction on Postgres (Neon). */
+  postgres: string[];
+  /** Runs inside a transaction on SQLite. Gets the raw handle because SQLite lacks ADD COLUMN IF NOT EXISTS. */
+  sqlite: (db: Database.Database) => void;
+  /** SQLite only: run with foreign keys off so a referenced table can be rebuilt; violations still fail it. */
+  foreignKeysOff?: boolean;
+};
@@ -1,15 +1,59 @@
-import { neon } from "@neondatabase/serverless";
+import { neon, type NeonQueryPromise } from "@neondatabase/serverless";
 import crypto from "node:crypto";
+import type { Category } from "@/lib/categories";
+import { DEFAULT_COMPANY_ID, type Company } from "@/lib/companies";
+import type { ExchangeRate } from "@/lib/currency";
 import type { Availability } from "@/lib/domain";
+import type { PricingRules } from "@/lib/pricing";
+import { snapshotDay } from "./snapshot-day";
+import {
+  parseTierPrices,
+  priceTierOverrideRows,
+  priceTierRows,
+  pricingRulesFromRows,
+  tierPricesJson,
+} from "./pricing-rules";
+import { buildMigrationStatus, pendingMigrations } from "./migrations";
 import type {
+  AppliedMigration,
   DbProvider,
+  CompanyInput,
+  ExchangeRateInput,
+  ImportMode,
+  ImportRun,
+  ImportRunOutcome,
+  ImportRunSource,
+  ListImportRunsParams,
+  ListScheduledPricesParams,
   ListProductsParams,
   ListChangesParams,
+  ListQuotesParams,
+  ListStockHistoryParams,
+  MigrationRunResult,
+  MigrationStatus,
+  NewImportRun,
+  NewScheduledPrice,
+  NewPriceBatch,
+  NewQuote,
+  PriceBatch,
+  PriceBatchSource,
   ProductChange,
   ProductChangeType,
+  ProductCounts,
+  ProductMeta,
+  ProductMetaPatch,
   ProductRow,
+  Quote,
+  QuoteLine,
+  QuoteSummary,
+  ScheduledPrice,
+  ScheduledPriceStatus,
+  SetDealerPriceOptions,
+  StockLocation,
+  StockSnapshot,
   Summary,
   UpsertStockItem,
+  UpsertStockOptions,
 } from "./types";
 
 function parseAvailability(value: unknown): Availability {
@@ -17,72 +61,372 @@ function parseAvailability(value: unknown): Availability {
   return "UNKNOWN";
 }
 
+type NeonQuery = NeonQueryPromise<false, false>;
+
+function productFilters(params: ListProductsParams): { where: string[]; values: unknown[] } {
+  const search = (params.search ?? "").trim();
+  const brand = (params.brand ?? "").trim();
+  const where: string[] = [];
+  const values: unknown[] = [];
+
+  if (params.id) {
+    where.push(`p.id = $${values.length + 1}`);
+    values.push(params.id);
+  }
+  if (params.companyId) {
+    where.push(`p.company_id = $${values.length + 1}`);
+    values.push(params.companyId);
+  }
+  if (search) {
+    const n = values.length + 1;
+    where.push(`(p.name ILIKE $${n} OR pm.display_name ILIKE $${n} OR p.brand ILIKE $${n})`);
+    values.push(`%${search}%`);
+  }
+  if (brand) {
+    if (brand === "__unknown__") where.push(`p.brand IS NULL`);
+    else {
+      where.push(`p.brand = $${values.length + 1}`);
+      values.push(brand);
+    }
+  }
+  if (params.category) {
+    // The group itself plus every group below it; groups are matched within the listed company when there is one.
+    const n = values.length + 1;
+    where.push(
+      `p.category IN (
+        WITH RECURSIVE tree(name) AS (
+          SELECT $${n}::text
+          UNION
+          SELECT g.name FROM stock_groups g JOIN tree t ON g.parent = t.name${params.companyId ? ` AND g.company_id = $${n + 1}` : ""}
+        )
+        SELECT name FROM tree
+      )`,
+    );
+    values.push(params.category);
+    if (params.companyId) values.push(params.companyId);
+  }
+  if (params.availability) {
+    where.push(`p.availability = $${values.length + 1}`);
+    values.push(params.availability);
+  }
+  if (params.removed === true) where.push(`p.removed_at IS NOT NULL`);
+  else if (params.removed === false) where.push(`p.removed_at IS NULL`);
+  if (params.location) {
+    where.push(
+      `EXISTS (SELECT 1 FROM product_stock_locations l WHERE l.product_id = p.id AND l.godown = $${values.length + 1} AND COALESCE(l.stock_qty, 0) <> 0)`,
+    );
+    values.push(params.location);
+  }
+
+  return { where, values };
+}
+
+// Name sorts use the curated display name when there is one.
+const SORT_NAME = "COALESCE(pm.display_name, p.name)";
+
+// Price sorts need the prices join; rows without a dealer price always go last. Tier sorts happen in memory.
+function productOrderBy(params: ListProductsParams): string {
+  const dir = params.dir === "desc" ? "DESC" : "ASC";
+  switch (params.sort ?? "name") {
+    case "qty":
+      return `p.stock_qty ${dir} NULLS LAST, ${SORT_NAME} ASC`;
+    case "availability":
+      return `p.availability ${dir}, ${SORT_NAME} ASC`;
+    case "dealerPrice":
+      return `pr.dealer_price ${dir} NULLS LAST, ${SORT_NAME} ASC`;
+    default:
+      return `${SORT_NAME} ${dir}`;
+  }
+}
+
+// `locations` is a json_agg of { godown, qty } objects.
+function parseLocations(value: unknown): StockLocation[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((l: Record<string, unknown>) => ({
+    godown: String(l.godown ?? ""),
+    qty: l.qty == null ? null : Number(l.qty),
+  }));
+}
+
+function mapChangeRow(r: Record<string, unknown>): ProductChange {
+  return {
+    id: String(r.id ?? ""),
+    productId: String(r.product_id ?? ""),
+    importRunId: r.import_run_id == null ? null : String(r.import_run_id),
+    batchId: r.batch_id == null ? null : String(r.batch_id),
+    name: String(r.product_name ?? ""),
+    brand: r.product_brand == null ? null : String(r.product_brand),
+    changeType: r.change_type as ProductChangeType,
+    fromQty: r.from_qty == null ? null : Number(r.from_qty),
+    toQty: r.to_qty == null ? null : Number(r.to_qty),
+    fromAvailability: r.from_availability == null ? null : parseAvailability(r.from_availability),
+    toAvailability: r.to_availability == null ? null : parseAvailability(r.to_availability),
+    fromPrice: r.from_price == null ? null : Number(r.from_price),
+    toPrice: r.to_price == null ? null : Number(r.to_price),
+    toTiers: parseTierPrices(r.to_tiers),
+    createdAt: Number(r.created_at ?? 0),
+  };
+}
+
+function mapPriceBatchRow(r: Record<string, unknown>): PriceBatch {
+  return {
+    id: String(r.id ?? ""),
+    source: String(r.source ?? "") as PriceBatchSource,
+    label: r.label == null ? null : String(r.label),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+    revertsBatchId: r.reverts_batch_id == null ? null : String(r.reverts_batch_id),
+    undoneAt: r.undone_at == null ? null : Number(r.undone_at),
+    undoneBy: r.undone_by == null ? null : String(r.undone_by),
+  };
+}
+
+function mapScheduledPriceRow(r: Record<string, unknown>): ScheduledPrice {
+  const claimedAt = r.claimed_at == null ? null : Number(r.claimed_at);
+  const appliedAt = r.applied_at == null ? null : Number(r.applied_at);
+  const cancelledAt = r.cancelled_at == null ? null : Number(r.cancelled_at);
+  const error = r.error == null ? null : String(r.error);
+  return {
+    id: String(r.id ?? ""),
+    productId: String(r.product_id ?? ""),
+    dealerPrice: Number(r.dealer_price ?? 0),
+    effectiveAt: Number(r.effective_at ?? 0),
+    note: r.note == null ? null : String(r.note),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+    claimedAt,
+    appliedAt,
+    cancelledAt,
+    error,
+    status:
+      cancelledAt != null
+        ? "cancelled"
+        : appliedAt == null
+          ? claimedAt == null
+            ? "pending"
+            : "applying"
+          : error
+            ? "failed"
+            : "applied",
+  };
+}
+
+const SCHEDULED_PRICE_STATUS_SQL: Record<ScheduledPriceStatus, string> = {
+  pending: "applied_at IS NULL AND cancelled_at IS NULL AND claimed_at IS NULL",
+  applying: "applied_at IS NULL AND cancelled_at IS NULL AND claimed_at IS NOT NULL",
+  applied: "applied_at IS NOT NULL AND error IS NULL",
+  failed: "applied_at IS NOT NULL AND error IS NOT NULL",
+  cancelled: "cancelled_at IS NOT NULL",
+};
+
+function mapCompanyRow(r: Record<string, unknown>): Company {
+  return {
+    id: String(r.id ?? ""),
+    name: String(r.name ?? ""),
+    tallyCompany: String(r.tally_company ?? ""),
+    godowns: Array.isArray(r.godowns) ? r.godowns.map(String) : [],
+    active: r.active === true,
+    createdAt: Number(r.created_at ?? 0),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+function mapExchangeRateRow(r: Record<string, unknown>): ExchangeRate {
+  return {
+    currency: String(r.currency ?? ""),
+    rate: Number(r.rate ?? 0),
+    updatedBy: r.updated_by == null ? null : String(r.updated_by),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+function mapQuoteRow(r: Record<string, unknown>): Omit<Quote, "lines"> {
+  return {
+    id: String(r.id ?? ""),
+    number: Number(r.number ?? 0),
+    customerName: String(r.customer_name ?? ""),
+    note: r.note == null ? null : String(r.note),
+    tierId: String(r.tier_id ?? ""),
+    tierLabel: String(r.tier_label ?? ""),
+    subtotal: Number(r.subtotal ?? 0),
+    discountTotal: Number(r.discount_total ?? 0),
+    total: Number(r.total ?? 0),
+    validUntil: Number(r.valid_until ?? 0),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+  };
+}
+
+function mapQuoteLineRow(r: Record<string, unknown>): QuoteLine {
+  return {
+    id: String(r.id ?? ""),
+    productId: r.product_id == null ? null : String(r.product_id),
+    productName: String(r.product_name ?? ""),
+    productBrand: r.product_brand == null ? null : String(r.product_brand),
+    unit: r.unit == null ? null : String(r.unit),
+    qty: Number(r.qty ?? 0),
+    unitPrice: Number(r.unit_price ?? 0),
+    discountPercent: Number(r.discount_percent ?? 0),
+    lineTotal: Number(r.line_total ?? 0),
+  };
+}
+
+function mapImportRunRow(r: Record<string, unknown>): ImportRun {
+  const completedAt = r.completed_at == null ? null : Number(r.completed_at);
+  const error = r.error == null ? null : String(r.error);
+  return {
+    id: String(r.id ?? ""),
+    source: String(r.source ?? "") as ImportRunSource,
+    mode: (r.mode === "snapshot" ? "snapshot" : "partial") as ImportMode,
+    filename: r.filename == null ? null : String(r.filename),
+    companyId: String(r.company_id ?? DEFAULT_COMPANY_ID),
+    company: r.company == null ? null : String(r.company),
+    godown: r.godown == null ? null : String(r.godown),
+    triggeredBy: r.triggered_by == null ? null : String(r.triggered_by),
+    startedAt: Number(r.started_at ?? 0),
+    parsedCount: Number(r.parsed_count ?? 0),
+    upserted: Number(r.upserted ?? 0),
+    deletedBrandRows: Number(r.deleted_brand_rows ?? 0),
+    removedCount: Number(r.removed_count ?? 0),
+    error,
+    completedAt,
+    durationMs: r.duration_ms == null ? null : Number(r.duration_ms),
+    status: completedAt == null ? "running" : error ? "failed" : "success",
+  };
+}
+
 export function createNeonProvider(databaseUrl: string): DbProvider {
   const sql = neon(databaseUrl);
 
+  const readAppliedMigrations = async (): Promise<AppliedMigration[]> => {
+    const rows = (await sql.query(`SELECT id, description, applied_at FROM schema_migrations ORDER BY id ASC`)) as Array<
+      Record<string, unknown>
+    >;
+    return rows.map((r) => ({
+      id: String(r.id ?? ""),
+      description: String(r.description ?? ""),
+      appliedAt: Number(r.applied_at ?? 0),
+    }));
+  };
+
+  const ensureMigrationsTable = () =>
+    sql.query(
+      `
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        id TEXT PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at BIGINT NOT NULL
+      )
+    `,
+    );
+
+  const runMigrations = async (): Promise<string[]> => {
+    await ensureMigrationsTable();
+    const applied = await readAppliedMigrations();
+    const ran: string[] = [];
+    for (const migration of pendingMigrations(applied.map((m) => m.id))) {
+      // A concurrent runner that got there first makes the schema_migrations insert fail and rolls this one back.
+      await sql.transaction([
+        ...migration.postgres.map((q) => sql.query(q)),
+        sql.query(`INSERT INTO schema_migrations(id, description, applied_at) VALUES ($1, $2, $3)`, [
+          migration.id,
+          migration.description,
+          Date.now(),
+        ]),
+      ]);
+      ran.push(migration.id);
+    }
+    return ran;
+  };
+
   let ensured: Promise<void> | null = null;
   const ensureSchema = async () => {
     if (!ensured) {
-      ensured = (async () => {
-        await sql.query(
-          `
-          CREATE TABLE IF NOT EXISTS products (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            name_key TEXT NOT NULL UNIQUE,
-            brand TEXT NULL,
-            stock_qty DOUBLE PRECISION NULL,
-            unit TEXT NULL,
-            availability TEXT NOT NULL CHECK (availability IN ('IN_STOCK','OUT_OF_STOCK','NEGATIVE','UNKNOWN')),
-            last_seen_at BIGINT NULL,
-            created_at BIGINT NOT NULL,
-            updated_at BIGINT NOT NULL
-          )
-        `,
-        );
-        await sql.query(`CREATE INDEX IF NOT EXISTS idx_products_brand ON products(brand)`);
-        await sql.query(`CREATE INDEX IF NOT EXISTS idx_products_availability ON products(availability)`);
-        await sql.query(`CREATE INDEX IF NOT EXISTS idx_products_last_seen_at ON products(last_seen_at)`);
+      ensured = runMigrations().then(
+        (ran) => {
+          if (ran.length) console.log(`[db:neon] Applied migrations: ${ran.join(", ")}`);
+        },
+        (e) => {
+          ensured = null;
+          throw e;
+        },
+      );
+    }
+    await ensured;
+  };
 
-        await sql.query(
-          `
-          CREATE TABLE IF NOT EXISTS prices (
-            product_id TEXT PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
-            dealer_price DOUBLE PRECISION NULL,
-            updated_at BIGINT NOT NULL
-          )
-        `,
-        );
-        await sql.query(`CREATE INDEX IF NOT EXISTS idx_prices_product_id ON prices(product_id)`);
+  // Zeroes and flags products not seen since `seenAt`; returns one row per removed product.
+  const markRemovedQuery = (seenAt: number, importRunId: string | null, companyId: string) =>
+    sql.query(
+      `WITH removed AS (
+         UPDATE products p
+         SET stock_qty = 0, availability = 'OUT_OF_STOCK', removed_at = $1, updated_at = $1
+         FROM products old
+         WHERE old.id = p.id
+           AND p.company_id = $4
+           AND p.removed_at IS NULL
+           AND (p.last_seen_at IS NULL OR p.last_seen_at < $1)
+         RETURNING p.id, p.name, p.brand, old.stock_qty AS from_qty, old.availability AS from_availability
+       ),
+       cleared AS (
+         DELETE FROM product_stock_locations WHERE product_id IN (SELECT id FROM removed)
+       ),
+       snapshots AS (
+         INSERT INTO stock_snapshots(product_id, day, stock_qty, availability, import_run_id, captured_at)
+         SELECT id, $3, 0, 'OUT_OF_STOCK', $2, $1 FROM removed
+         ON CONFLICT (product_id, day) DO UPDATE SET
+           stock_qty = EXCLUDED.stock_qty,
+           availability = EXCLUDED.availability,
+           import_run_id = EXCLUDED.import_run_id,
+           captured_at = EXCLUDED.captured_at
+       )
+       INSERT INTO product_changes(
+         id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, import_run_id
+       )
+       SELECT gen_random_uuid()::text, id, name, brand, 'REMOVED_FROM_EXPORT', from_qty, 0, from_availability, 'OUT_OF_STOCK', NULL, NULL, $1, $2
+       FROM removed
+       RETURNING 1`,
+      [seenAt, importRunId, snapshotDay(seenAt), companyId],
+    );
 
-        await sql.query(
-          `
-          CREATE TABLE IF NOT EXISTS product_changes (
-            id TEXT PRIMARY KEY,
-            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
-            product_name TEXT NOT NULL,
-            product_brand TEXT NULL,
-            change_type TEXT NOT NULL CHECK (change_type IN ('NEW_PRODUCT','STOCK_DROP','OUT_OF_STOCK','PRICE_CHANGE')),
-            from_qty DOUBLE PRECISION NULL,
-            to_qty DOUBLE PRECISION NULL,
-            from_availability TEXT NULL,
-            to_availability TEXT NULL,
-            from_price DOUBLE PRECISION NULL,
-            to_price DOUBLE PRECISION NULL,
-            created_at BIGINT NOT NULL
-          )
-        `,
-        );
-        await sql.query(`CREATE INDEX IF NOT EXISTS idx_product_changes_created_at ON product_changes(created_at DESC)`);
-        await sql.query(`CREATE INDEX IF NOT EXISTS idx_product_changes_product_id ON product_changes(product_id)`);
-      })();
+  const deleteByNameKeysQueries = (nameKeys: string[], companyId: string) => {
+    const unique = Array.from(new Set(nameKeys.map((s) => (s ?? "").trim()).filter(Boolean)));
+    const queries: NeonQuery[] = [];
+    const chunkSize = 400;
+    for (let i = 0; i < unique.length; i += chunkSize) {
+      const chunk = unique.slice(i, i + chunkSize);
+      const placeholders = chunk.map((_, idx) => `$${idx + 2}`).join(",");
+      queries.push(
+        sql.query(`DELETE FROM products WHERE company_id = $1 AND name_key IN (${placeholders}) RETURNING 1`, [
+          companyId,
+          ...chunk,
+        ]),
+      );
     }
-    await ensured;
+    return queries;
+  };
+
+  const readPricingRules = async () => {
+    const [tiers, overrides] = await Promise.all([
+      sql.query(`SELECT * FROM price_tiers ORDER BY position ASC`),
+      sql.query(`SELECT * FROM price_tier_overrides`),
+    ]);
+    return pricingRulesFromRows(tiers as Array<Record<string, unknown>>, overrides as Array<Record<string, unknown>>);
   };
 
+  const readCompanies = async () =>
+    ((await sql.query(`SELECT * FROM companies ORDER BY created_at ASC, id ASC`)) as Array<Record<string, unknown>>).map(
+      mapCompanyRow,
+    );
+
+  const readExchangeRates = async () =>
+    ((await sql.query(`SELECT * FROM exchange_rates ORDER BY currency ASC`)) as Array<Record<string, unknown>>).map(
+      mapExchangeRateRow,
+    );
+
   return {
     kind: "neon",
-    async getSummary(): Promise<Summary> {
+    async getSummary(companyId?: string): Promise<Summary> {
       await ensureSchema();
       const rows = await sql.query(
         `
@@ -93,8 +437,10 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
           SUM(CASE WHEN availability='NEGATIVE' THEN 1 ELSE 0 END)::bigint AS negative,
           SUM(CASE WHEN availability='UNKNOWN' THEN 1 ELSE 0 END)::bigint AS unknown,
           MAX(last_seen_at) AS last_import_at
-        FROM products;
+        FROM products
+        WHERE $1::text IS NULL OR company_id = $1;
       `,
+        [companyId ?? null],
       );
       const row = (rows[0] ?? null) as Record<string, unknown> | null;
       return {
@@ -107,100 +453,171 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
       };
     },
 
-    async listBrands(): Promise<string[]> {
+    async listBrands(companyId?: string): Promise<string[]> {
       await ensureSchema();
-      const rows = (await sql.query(`SELECT DISTINCT brand FROM products WHERE brand IS NOT NULL ORDER BY brand ASC`)) as Array<
-        Record<string, unknown>
-      >;
+      const rows = (await sql.query(
+        `SELECT DISTINCT brand FROM products
+         WHERE brand IS NOT NULL AND ($1::text IS NULL OR company_id = $1)
+         ORDER BY brand ASC`,
+        [companyId ?? null],
+      )) as Array<Record<string, unknown>>;
       return rows
         .map((r) => (typeof r.brand === "string" ? r.brand : String(r.brand ?? "")))
         .filter(Boolean);
     },
 
-    async listProducts(params: ListProductsParams): Promise<ProductRow[]> {
+    async listLocations(companyId?: string): Promise<string[]> {
       await ensureSchema();
-      const search = (params.search ?? "").trim();
-      const brand = (params.brand ?? "").trim();
-      const availability = params.availability;
-      const limit = Math.min(params.limit ?? 5000, 20000);
+      const rows = (await sql.query(
+        `SELECT DISTINCT l.godown FROM product_stock_locations l
+         JOIN products p ON p.id = l.product_id
+         WHERE $1::text IS NULL OR p.company_id = $1
+         ORDER BY l.godown ASC`,
+        [companyId ?? null],
+      )) as Array<Record<string, unknown>>;
+      return rows.map((r) => String(r.godown ?? "")).filter(Boolean);
+    },
 
-      const where: string[] = [];
-      const values: unknown[] = [];
+    async listCategories(companyId?: string): Promise<Category[]> {
+      await ensureSchema();
+      // Merging companies keeps one parent per group name.
+      const rows = (await sql.query(
+        `SELECT name, MIN(parent) AS parent FROM stock_groups
+         WHERE $1::text IS NULL OR company_id = $1
+         GROUP BY name
+         ORDER BY name ASC`,
+        [companyId ?? null],
+      )) as Array<Record<string, unknown>>;
+      return rows.map((r) => ({ name: String(r.name ?? ""), parent: r.parent == null ? null : String(r.parent) }));
+    },
 
-      if (search) {
-        where.push(`p.name ILIKE $${values.length + 1}`);
-        values.push(`%${search}%`);
-      }
-      if (brand) {
-        if (brand === "__unknown__") where.push(`p.brand IS NULL`);
-        else {
-          where.push(`p.brand = $${values.length + 1}`);
-          values.push(brand);
-        }
-      }
-      if (availability) {
-        where.push(`p.availability = $${values.length + 1}`);
-        values.push(availability);
-      }
+    async replaceCategories(companyId: string, categories: Category[]) {
+      await ensureSchema();
+      const now = Date.now();
+      await sql.transaction([
+        sql.query(`DELETE FROM stock_groups WHERE company_id = $1`, [companyId]),
+        ...categories.map((c) =>
+          sql.query(
+            `INSERT INTO stock_groups(company_id, name, parent, updated_at) VALUES ($1,$2,$3,$4)
+             ON CONFLICT (company_id, name) DO UPDATE SET parent = EXCLUDED.parent, updated_at = EXCLUDED.updated_at`,
+            [companyId, c.name, c.parent, now],
+          ),
+        ),
+      ]);
+    },
 
-      const sort = params.sort ?? "name";
-      const dir = params.dir === "desc" ? "DESC" : "ASC";
-      const orderBy =
-        sort === "qty"
-          ? `p.stock_qty ${dir} NULLS LAST, p.name ASC`
-          : sort === "availability"
-            ? `p.availability ${dir}, p.name ASC`
-            : `p.name ${dir}`;
+    async listProducts(params: ListProductsParams): Promise<ProductRow[]> {
+      await ensureSchema();
+      const limit = Math.min(params.limit ?? 5000, 20000);
+      const offset = Math.max(0, Math.floor(params.offset ?? 0));
+      const { where, values } = productFilters(params);
 
       const q = `
         SELECT
           p.id,
           p.name,
           p.brand,
+          p.category,
           p.stock_qty AS "stockQty",
           p.unit,
           p.availability AS availability,
           p.last_seen_at AS "lastSeenAt",
           p.updated_at AS "updatedAt",
-          pr.dealer_price AS "dealerPrice"
+          p.removed_at AS "removedAt",
+          pr.dealer_price AS "dealerPrice",
+          p.cost_price AS "costPrice",
+          pm.display_name AS "displayName",
+          pm.notes,
+          pm.tags,
+          pm.source_currency AS "sourceCurrency",
+          pm.source_amount AS "sourceAmount",
+          COALESCE(
+            (SELECT json_agg(json_build_object('godown', l.godown, 'qty', l.stock_qty) ORDER BY l.godown)
+             FROM product_stock_locations l WHERE l.product_id = p.id),
+            '[]'::json
+          ) AS locations
         FROM products p
         LEFT JOIN prices pr ON pr.product_id = p.id
+        LEFT JOIN product_meta pm ON pm.product_id = p.id
         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
-        ORDER BY ${orderBy}
-        LIMIT $${values.length + 1}
+        ORDER BY ${productOrderBy(params)}
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
       `;
-      values.push(limit);
+      values.push(limit, offset);
       const rows = (await sql.query(q, values)) as Array<Record<string, unknown>>;
 
       return rows.map((r) => ({
         id: String(r.id ?? ""),
         name: String(r.name ?? ""),
         brand: r.brand == null ? null : String(r.brand),
+        category: r.category == null ? null : String(r.category),
         stockQty: r.stockQty == null ? null : Number(r.stockQty),
         unit: r.unit == null ? null : String(r.unit),
         availability: parseAvailability(r.availability),
         lastSeenAt: r.lastSeenAt == null ? null : Number(r.lastSeenAt),
         updatedAt: Number(r.updatedAt ?? 0),
+        removedAt: r.removedAt == null ? null : Number(r.removedAt),
         dealerPrice: r.dealerPrice == null ? null : Number(r.dealerPrice),
+        costPrice: r.costPrice == null ? null : Number(r.costPrice),
+        displayName: r.displayName == null ? null : String(r.displayName),
+        notes: r.notes == null ? null : String(r.notes),
+        tags: Array.isArray(r.tags) ? r.tags.map(String) : [],
+        sourceCurrency: r.sourceCurrency == null ? null : String(r.sourceCurrency),
+        sourceAmount: r.sourceAmount == null ? null : Number(r.sourceAmount),
+        locations: parseLocations(r.locations),
       }));
     },
 
-    async upsertStock(items: UpsertStockItem[]) {
+    async countProducts(params: ListProductsParams): Promise<ProductCounts> {
       await ensureSchema();
+      const { where, values } = productFilters(params);
+      const rows = (await sql.query(
+        `
+        SELECT
+          COUNT(*)::int AS total,
+          COUNT(*) FILTER (WHERE p.availability = 'IN_STOCK')::int AS "inStock",
+          COUNT(*) FILTER (WHERE p.availability = 'OUT_OF_STOCK')::int AS "outOfStock",
+          COUNT(*) FILTER (WHERE p.availability = 'NEGATIVE')::int AS negative,
+          COUNT(*) FILTER (WHERE p.availability = 'UNKNOWN')::int AS unknown,
+          COUNT(*) FILTER (WHERE p.removed_at IS NOT NULL)::int AS removed
+        FROM products p
+        LEFT JOIN product_meta pm ON pm.product_id = p.id
+        ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      `,
+        values,
+      )) as Array<Record<string, unknown>>;
+      const row = rows[0] ?? {};
+      return {
+        total: Number(row.total ?? 0),
+        inStock: Number(row.inStock ?? 0),
+        outOfStock: Number(row.outOfStock ?? 0),
+        negative: Number(row.negative ?? 0),
+        unknown: Number(row.unknown ?? 0),
+        removed: Number(row.removed ?? 0),
+      };
+    },
+
+    async upsertStock(items: UpsertStockItem[], options?: UpsertStockOptions) {
+      await ensureSchema();
+      const importRunId = options?.importRunId ?? null;
+      const companyId = options?.companyId ?? DEFAULT_COMPANY_ID;
+      // Existing rows are read up front; every write is then sent as a single transaction so a failure
+      // part-way through (or in the cleanup steps) leaves the previous stock untouched.
+      const writes: NeonQuery[] = [];
       const chunkSize = 400;
       for (let i = 0; i < items.length; i += chunkSize) {
         const chunk = items.slice(i, i + chunkSize);
         if (chunk.length === 0) continue;
 
         const nameKeys = Array.from(new Set(chunk.map((c) => c.nameKey)));
-        const placeholders = nameKeys.map((_, idx) => `$${idx + 1}`).join(",");
+        const placeholders = nameKeys.map((_, idx) => `$${idx + 2}`).join(",");
         const existingRows = nameKeys.length
           ? ((await sql.query(
               `SELECT p.id, p.name_key, p.stock_qty, p.availability, p.name, p.brand, pr.dealer_price
                FROM products p
                LEFT JOIN prices pr ON pr.product_id = p.id
-               WHERE p.name_key IN (${placeholders})`,
-              nameKeys,
+               WHERE p.company_id = $1 AND p.name_key IN (${placeholders})`,
+              [companyId, ...nameKeys],
             )) as Array<Record<string, unknown>>)
           : [];
         const existingByNameKey = new Map(
@@ -222,6 +639,11 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
 
         const values: unknown[] = [];
         const tuples: string[] = [];
+        const snapshotValues: unknown[] = [];
+        const snapshotTuples: string[] = [];
+        const productIds: string[] = [];
+        const locationValues: unknown[] = [];
+        const locationTuples: string[] = [];
         for (const it of chunk) {
           const existing = existingByNameKey.get(it.nameKey);
           const productId = existing ? String(existing.id) : it.id;
@@ -251,44 +673,98 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
             if (fromQty != null && toQty != null && toQty < fromQty) {
               maybeAddChange("STOCK_DROP");
             }
+            if (fromQty != null && toQty != null && toQty > fromQty) {
+              maybeAddChange("STOCK_INCREASE");
+            }
             if (fromAvailability !== "OUT_OF_STOCK" && toAvailability === "OUT_OF_STOCK") {
               maybeAddChange("OUT_OF_STOCK");
             }
+            if ((fromAvailability === "OUT_OF_STOCK" || fromAvailability === "NEGATIVE") && toAvailability === "IN_STOCK") {
+              maybeAddChange("BACK_IN_STOCK");
+            }
           }
 
           const base = values.length;
           tuples.push(
-            `($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6},$${base + 7},$${base + 8},$${base + 9},$${base + 10})`,
+            `($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6},$${base + 7},$${base + 8},$${base + 9},$${base + 10},$${base + 11},$${base + 12},$${base + 13})`,
           );
           values.push(
             productId,
+            companyId,
             it.name,
             it.nameKey,
             it.brand,
+            it.category,
             it.stockQty,
             it.unit,
             it.availability,
+            it.costPrice,
             it.lastSeenAt,
             it.createdAt,
             it.updatedAt,
           );
+
+          const snapshotBase = snapshotValues.length;
+          snapshotTuples.push(
+            `($${snapshotBase + 1},$${snapshotBase + 2},$${snapshotBase + 3},$${snapshotBase + 4},$${snapshotBase + 5},$${snapshotBase + 6})`,
+          );
+          snapshotValues.push(productId, snapshotDay(it.updatedAt), it.stockQty, it.availability, importRunId, it.updatedAt);
+
+          productIds.push(productId);
+          for (const location of it.locations ?? []) {
+            const locationBase = locationValues.length;
+            locationTuples.push(`($${locationBase + 1},$${locationBase + 2},$${locationBase + 3},$${locationBase + 4})`);
+            locationValues.push(productId, location.godown, location.qty, it.updatedAt);
+          }
         }
 
         const q = `
           INSERT INTO products(
-            id, name, name_key, brand, stock_qty, unit, availability, last_seen_at, created_at, updated_at
+            id, company_id, name, name_key, brand, category, stock_qty, unit, availability, cost_price, last_seen_at, created_at, updated_at
           )
           VALUES ${tuples.join(",")}
-          ON CONFLICT (name_key) DO UPDATE SET
+          ON CONFLICT (company_id, name_key) DO UPDATE SET
             name = EXCLUDED.name,
             brand = COALESCE(EXCLUDED.brand, products.brand),
+            category = COALESCE(EXCLUDED.category, products.category),
             stock_qty = EXCLUDED.stock_qty,
             unit = COALESCE(EXCLUDED.unit, products.unit),
             availability = EXCLUDED.availability,
+            cost_price = COALESCE(EXCLUDED.cost_price, products.cost_price),
             last_seen_at = EXCLUDED.last_seen_at,
-            updated_at = EXCLUDED.updated_at;
+            updated_at = EXCLUDED.updated_at,
+            removed_at = NULL;
         `;
-        await sql.query(q, values);
+        writes.push(sql.query(q, values));
+
+        // Each product's godown rows are replaced, so godowns it has left drop out.
+        writes.push(
+          sql.query(
+            `DELETE FROM product_stock_locations WHERE product_id IN (${productIds.map((_, idx) => `$${idx + 1}`).join(",")})`,
+            productIds,
+          ),
+        );
+        if (locationTuples.length) {
+          writes.push(
+            sql.query(
+              `INSERT INTO product_stock_locations(product_id, godown, stock_qty, updated_at) VALUES ${locationTuples.join(",")}`,
+              locationValues,
+            ),
+          );
+        }
+
+        writes.push(
+          sql.query(
+            `INSERT INTO stock_snapshots(product_id, day, stock_qty, availability, import_run_id, captured_at)
+             VALUES ${snapshotTuples.join(",")}
+             ON CONFLICT (product_id, day) DO UPDATE SET
+               stock_qty = EXCLUDED.stock_qty,
+               availability = EXCLUDED.availability,
+               import_run_id = EXCLUDED.import_run_id,
+               captured_at = EXCLUDED.captured_at`,
+            snapshotValues,
+          ),
+        );
 
         if (changeRows.length) {
           const changeValues: unknown[] = [];
@@ -296,7 +772,7 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
           for (const c of changeRows) {
             const base = changeValues.length;
             changeTuples.push(
-              `($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6},$${base + 7},$${base + 8},$${base + 9},$${base + 10},$${base + 11},$${base + 12})`,
+              `($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6},$${base + 7},$${base + 8},$${base + 9},$${base + 10},$${base + 11},$${base + 12},$${base + 13})`,
             );
             changeValues.push(
               c.id,
@@ -311,38 +787,56 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
               null,
               null,
               c.createdAt,
+              importRunId,
             );
           }
-          await sql.query(
-            `INSERT INTO product_changes(
-              id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at
-            ) VALUES ${changeTuples.join(",")}`,
-            changeValues,
+          writes.push(
+            sql.query(
+              `INSERT INTO product_changes(
+                id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, import_run_id
+              ) VALUES ${changeTuples.join(",")}`,
+              changeValues,
+            ),
           );
         }
       }
-      return { upserted: items.length };
+
+      const deleteQueries = deleteByNameKeysQueries(options?.deleteNameKeys ?? [], companyId);
+      writes.push(...deleteQueries);
+      const markRemoved =
+        options?.markRemovedBefore != null ? markRemovedQuery(options.markRemovedBefore, importRunId, companyId) : null;
+      if (markRemoved) writes.push(markRemoved);
+
+      if (writes.length === 0) return { upserted: 0, deleted: 0, removed: 0 };
+      const results = (await sql.transaction(writes)) as Array<Array<Record<string, unknown>>>;
+
+      const deleteStart = writes.length - deleteQueries.length - (markRemoved ? 1 : 0);
+      const deleted = results
+        .slice(deleteStart, deleteStart + deleteQueries.length)
+        .reduce((sum, rows) => sum + rows.length, 0);
+      const removed = markRemoved ? results[results.length - 1].length : 0;
+      return { upserted: items.length, deleted, removed };
     },
 
-    async deleteProductsByNameKeys(nameKeys: string[]) {
+    async markProductsRemoved(seenAt: number, options?: Pick<UpsertStockOptions, "importRunId" | "companyId">) {
       await ensureSchema();
-      const unique = Array.from(new Set(nameKeys.map((s) => (s ?? "").trim()).filter(Boolean)));
-      if (unique.length === 0) return { deleted: 0 };
+      const rows = (await markRemovedQuery(
+        seenAt,
+        options?.importRunId ?? null,
+        options?.companyId ?? DEFAULT_COMPANY_ID,
+      )) as Array<Record<string, unknown>>;
+      return { removed: rows.length };
+    },
 
-      let deleted = 0;
-      const chunkSize = 400;
-      for (let i = 0; i < unique.length; i += chunkSize) {
-        const chunk = unique.slice(i, i + chunkSize);
-        const placeholders = chunk.map((_, idx) => `$${idx + 1}`).join(",");
-        const rows = (await sql.query(`DELETE FROM products WHERE name_key IN (${placeholders}) RETURNING 1`, chunk)) as Array<
-          Record<string, unknown>
-        >;
-        deleted += rows.length;
-      }
-      return { deleted };
+    async deleteProductsByNameKeys(nameKeys: string[], companyId = DEFAULT_COMPANY_ID) {
+      await ensureSchema();
+      const queries = deleteByNameKeysQueries(nameKeys, companyId);
+      if (queries.length === 0) return { deleted: 0 };
+      const results = (await sql.transaction(queries)) as Array<Array<Record<string, unknown>>>;
+      return { deleted: results.reduce((sum, rows) => sum + rows.length, 0) };
     },
 
-    async setDealerPrice(productId: string, dealerPrice: number | null) {
+    async setDealerPrice(productId: string, dealerPrice: number | null, options?: SetDealerPriceOptions) {
       await ensureSchema();
       const now = Date.now();
       try {
@@ -366,19 +860,22 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
         const toPrice = dealerPrice;
         const changed = fromPrice !== toPrice;
         if (changed) {
+          const brand = existing.brand == null ? null : String(existing.brand);
           await sql.query(
             `INSERT INTO product_changes(
-              id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at
-            ) VALUES ($1,$2,$3,$4,$5,NULL,NULL,NULL,NULL,$6,$7,$8)`,
+              id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, to_tiers, created_at, batch_id
+            ) VALUES ($1,$2,$3,$4,$5,NULL,NULL,NULL,NULL,$6,$7,$8,$9,$10)`,
             [
               crypto.randomUUID(),
               productId,
               String(existing.name ?? ""),
-              existing.brand == null ? null : String(existing.brand),
+              brand,
               "PRICE_CHANGE",
               fromPrice,
               toPrice,
+              tierPricesJson(await readPricingRules(), brand, toPrice),
               now,
+              options?.batchId ?? null,
             ],
           );
         }
@@ -388,6 +885,153 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
       }
     },
 
+    async getPricingRules() {
+      await ensureSchema();
+      return readPricingRules();
+    },
+
+    async savePricingRules(rules: PricingRules, updatedBy: string | null) {
+      await ensureSchema();
+      const now = Date.now();
+      await sql.transaction([
+        sql.query(`DELETE FROM price_tier_overrides`),
+        sql.query(`DELETE FROM price_tiers`),
+        ...priceTierRows(rules).map((r) =>
+          sql.query(
+            `INSERT INTO price_tiers(id, label, base, op, value, rounding, position, show_in_list, updated_by, updated_at)
+            VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)`,
+            [r.id, r.label, r.base, r.op, r.value, r.rounding, r.position, r.showInList, updatedBy, now],
+          ),
+        ),
+        ...priceTierOverrideRows(rules).map((r) =>
+          sql.query(`INSERT INTO price_tier_overrides(brand, tier_id, value) VALUES ($1,$2,$3)`, [r.brand, r.tierId, r.value]),
+        ),
+      ]);
+      return readPricingRules();
+    },
+
+    async setProductMeta(productId: string, patch: ProductMetaPatch, updatedBy: string | null) {
+      await ensureSchema();
+      // Omitted fields keep their stored value; $6-$8 and $12-$13 say which ones the patch sets.
+      const rows = (await sql.query(
+        `
+        INSERT INTO product_meta(product_id, display_name, notes, tags, source_currency, source_amount, updated_by, updated_at)
+        SELECT p.id, $2::text, $3::text, COALESCE($4::text[], '{}'), $10::text, $11::double precision, $5::text, $9::bigint
+        FROM products p WHERE p.id = $1
+        ON CONFLICT (product_id) DO UPDATE SET
+          display_name = CASE WHEN $6::boolean THEN EXCLUDED.display_name ELSE product_meta.display_name END,
+          notes = CASE WHEN $7::boolean THEN EXCLUDED.notes ELSE product_meta.notes END,
+          tags = CASE WHEN $8::boolean THEN EXCLUDED.tags ELSE product_meta.tags END,
+          source_currency = CASE WHEN $12::boolean THEN EXCLUDED.source_currency ELSE product_meta.source_currency END,
+          source_amount = CASE WHEN $13::boolean THEN EXCLUDED.source_amount ELSE product_meta.source_amount END,
+          updated_by = EXCLUDED.updated_by,
+          updated_at = EXCLUDED.updated_at
+        RETURNING display_name, notes, tags, source_currency, source_amount, updated_by, updated_at
+      `,
+        [
+          productId,
+          patch.displayName ?? null,
+          patch.notes ?? null,
+          patch.tags ?? null,
+          updatedBy,
+          patch.displayName !== undefined,
+          patch.notes !== undefined,
+          patch.tags !== undefined,
+          Date.now(),
+          patch.sourceCurrency ?? null,
+          patch.sourceAmount ?? null,
+          patch.sourceCurrency !== undefined,
+          patch.sourceAmount !== undefined,
+        ],
+      )) as Array<Record<string, unknown>>;
+      const r = rows[0];
+      if (!r) return { ok: false as const, error: "Product not found" };
+
+      const meta: ProductMeta = {
+        productId,
+        displayName: r.display_name == null ? null : String(r.display_name),
+        notes: r.notes == null ? null : String(r.notes),
+        tags: Array.isArray(r.tags) ? r.tags.map(String) : [],
+        sourceCurrency: r.source_currency == null ? null : String(r.source_currency),
+        sourceAmount: r.source_amount == null ? null : Number(r.source_amount),
+        updatedBy: r.updated_by == null ? null : String(r.updated_by),
+        updatedAt: Number(r.updated_at ?? 0),
+      };
+      return { ok: true as const, meta };
+    },
+
+    async listCompanies() {
+      await ensureSchema();
+      return readCompanies();
+    },
+
+    async saveCompanies(companies: CompanyInput[]) {
+      await ensureSchema();
+      const now = Date.now();
+      const existing = new Map((await readCompanies()).map((c) => [c.id, c]));
+      const keep = new Set(companies.map((c) => c.id));
+      const dropped = Array.from(existing.keys()).filter((id) => !keep.has(id));
+      if (dropped.length) {
+        const owned = (await sql.query(`SELECT DISTINCT company_id FROM products WHERE company_id = ANY($1::text[])`, [
+          dropped,
+        ])) as Array<Record<string, unknown>>;
+        if (owned.length) {
+          const id = String(owned[0].company_id);
+          return { ok: false as const, error: `${existing.get(id)?.name ?? id} still has products; mark it inactive instead.` };
+        }
+      }
+
+      await sql.transaction([
+        ...dropped.map((id) => sql.query(`DELETE FROM companies WHERE id = $1`, [id])),
+        ...companies.map((c) => {
+          const prev = existing.get(c.id);
+          const unchanged =
+            prev != null &&
+            prev.name === c.name &&
+            prev.tallyCompany === c.tallyCompany &&
+            prev.active === c.active &&
+            JSON.stringify(prev.godowns) === JSON.stringify(c.godowns);
+          return sql.query(
+            `INSERT INTO companies(id, name, tally_company, godowns, active, created_at, updated_at)
+             VALUES ($1,$2,$3,$4::text[],$5,$6,$7)
+             ON CONFLICT (id) DO UPDATE SET
+               name = EXCLUDED.name,
+               tally_company = EXCLUDED.tally_company,
+               godowns = EXCLUDED.godowns,
+               active = EXCLUDED.active,
+               updated_at = EXCLUDED.updated_at`,
+            [c.id, c.name, c.tallyCompany, c.godowns, c.active, prev?.createdAt ?? now, unchanged ? prev.updatedAt : now],
+          );
+        }),
+      ]);
+      return { ok: true as const, companies: await readCompanies() };
+    },
+
+    async listExchangeRates() {
+      await ensureSchema();
+      return readExchangeRates();
+    },
+
+    async saveExchangeRates(rates: ExchangeRateInput[], updatedBy: string | null) {
+      await ensureSchema();
+      const now = Date.now();
+      // Unchanged rates keep their original author and time.
+      const existing = new Map((await readExchangeRates()).map((r) => [r.currency, r]));
+      await sql.transaction([
+        sql.query(`DELETE FROM exchange_rates`),
+        ...rates.map((r) => {
+          const prev = existing.get(r.currency);
+          const unchanged = prev != null && prev.rate === r.rate;
+          return sql.query(`INSERT INTO exchange_rates(currency, rate, updated_by, updated_at) VALUES ($1,$2,$3,$4)`, [
+            r.currency,
+            r.rate,
+            unchanged ? prev.updatedBy : updatedBy,
+            unchanged ? prev.updatedAt : now,
+          ]);
+        }),
+      ]);
+      return readExchangeRates();
+    },
     async listChanges(params: ListChangesParams): Promise<ProductChange[]> {
       await ensureSchema();
       const where: string[] = [];
@@ -398,6 +1042,21 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
         values.push(params.productId);
       }
 
+      if (params.importRunId) {
+        where.push(`import_run_id = $${values.length + 1}`);
+        values.push(params.importRunId);
+      }
+
+      if (params.batchId) {
+        where.push(`batch_id = $${values.length + 1}`);
+        values.push(params.batchId);
+      }
+
+      if (params.companyId) {
+        where.push(`product_id IN (SELECT id FROM products WHERE company_id = $${values.length + 1})`);
+        values.push(params.companyId);
+      }
+
       if (params.since) {
         where.push(`created_at >= $${values.length + 1}`);
         values.push(params.since);
@@ -413,7 +1072,7 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
       values.push(limit);
 
       const rows = (await sql.query(
-        `SELECT id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at
+        `SELECT id, product_id, import_run_id, batch_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, to_tiers
          FROM product_changes
          ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
          ORDER BY created_at DESC
@@ -421,20 +1080,311 @@ export function createNeonProvider(databaseUrl: string): DbProvider {
         values,
       )) as Array<Record<string, unknown>>;
 
+      return rows.map(mapChangeRow);
+    },
+
+    async listStockHistory(productId: string, params: ListStockHistoryParams): Promise<StockSnapshot[]> {
+      await ensureSchema();
+      const where: string[] = [`product_id = $1`];
+      const values: unknown[] = [productId];
+      if (params.from != null && Number.isFinite(params.from)) {
+        where.push(`day >= $${values.length + 1}`);
+        values.push(snapshotDay(params.from));
+      }
+      if (params.to != null && Number.isFinite(params.to)) {
+        where.push(`day <= $${values.length + 1}`);
+        values.push(snapshotDay(params.to));
+      }
+
+      const rows = (await sql.query(
+        `SELECT product_id, day, stock_qty, availability, import_run_id, captured_at
+         FROM stock_snapshots
+         WHERE ${where.join(" AND ")}
+         ORDER BY day ASC
+         LIMIT 2000`,
+        values,
+      )) as Array<Record<string, unknown>>;
+
       return rows.map((r) => ({
-        id: String(r.id ?? ""),
         productId: String(r.product_id ?? ""),
-        name: String(r.product_name ?? ""),
-        brand: r.product_brand == null ? null : String(r.product_brand),
-        changeType: r.change_type as ProductChangeType,
-        fromQty: r.from_qty == null ? null : Number(r.from_qty),
-        toQty: r.to_qty == null ? null : Number(r.to_qty),
-        fromAvailability: r.from_availability == null ? null : parseAvailability(r.from_availability),
-        toAvailability: r.to_availability == null ? null : parseAvailability(r.to_availability),
-        fromPrice: r.from_price == null ? null : Number(r.from_price),
-        toPrice: r.to_price == null ? null : Number(r.to_price),
-        createdAt: Number(r.created_at ?? 0),
+        day: String(r.day ?? ""),
+        stockQty: r.stock_qty == null ? null : Number(r.stock_qty),
+        availability: parseAvailability(r.availability),
+        importRunId: r.import_run_id == null ? null : String(r.import_run_id),
+        capturedAt: Number(r.captured_at ?? 0),
       }));
     },
+
+    async createPriceBatch(batch: NewPriceBatch) {
+      await ensureSchema();
+      await sql.query(
+        `INSERT INTO price_batches(id, source, label, created_by, created_at, reverts_batch_id) VALUES ($1,$2,$3,$4,$5,$6)`,
+        [batch.id, batch.source, batch.label, batch.createdBy, batch.createdAt, batch.revertsBatchId ?? null],
+      );
+    },
+
+    async getPriceBatch(id: string): Promise<PriceBatch | null> {
+      await ensureSchema();
+      const rows = (await sql.query(`SELECT * FROM price_batches WHERE id = $1`, [id])) as Array<Record<string, unknown>>;
+      return rows[0] ? mapPriceBatchRow(rows[0]) : null;
+    },
+
+    async listPriceBatchChanges(batchId: string): Promise<ProductChange[]> {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `SELECT id, product_id, import_run_id, batch_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, to_tiers
+         FROM product_changes
+         WHERE batch_id = $1 AND change_type = 'PRICE_CHANGE'
+         ORDER BY created_at ASC`,
+        [batchId],
+      )) as Array<Record<string, unknown>>;
+      return rows.map(mapChangeRow);
+    },
+
+    async listPriceChanges(productId: string): Promise<ProductChange[]> {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `SELECT id, product_id, import_run_id, batch_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, to_tiers
+         FROM product_changes
+         WHERE product_id = $1 AND change_type = 'PRICE_CHANGE'
+         ORDER BY created_at ASC`,
+        [productId],
+      )) as Array<Record<string, unknown>>;
+      return rows.map(mapChangeRow);
+    },
+
+    async markPriceBatchUndone(id: string, undoneBy: string | null, undoneAt: number) {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `UPDATE price_batches SET undone_at = $1, undone_by = $2 WHERE id = $3 AND undone_at IS NULL RETURNING id`,
+        [undoneAt, undoneBy, id],
+      )) as Array<Record<string, unknown>>;
+      return rows.length > 0;
+    },
+
+    async clearPriceBatchUndone(id: string, undoneAt: number) {
+      await ensureSchema();
+      await sql.query(`UPDATE price_batches SET undone_at = NULL, undone_by = NULL WHERE id = $1 AND undone_at = $2`, [
+        id,
+        undoneAt,
+      ]);
+    },
+
+    async createImportRun(run: NewImportRun) {
+      await ensureSchema();
+      await sql.query(
+        `INSERT INTO import_runs(id, source, mode, filename, company_id, company, godown, triggered_by, started_at)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)`,
+        [run.id, run.source, run.mode, run.filename, run.companyId, run.company, run.godown, run.triggeredBy, run.startedAt],
+      );
+    },
+
+    async finishImportRun(id: string, outcome: ImportRunOutcome) {
+      await ensureSchema();
+      await sql.query(
+        `UPDATE import_runs SET
+           parsed_count = $2,
+           upserted = $3,
+           deleted_brand_rows = $4,
+           removed_count = $5,
+           error = $6,
+           completed_at = $7,
+           duration_ms = $7 - started_at
+         WHERE id = $1`,
+        [
+          id,
+          outcome.parsedCount,
+          outcome.upserted,
+          outcome.deletedBrandRows,
+          outcome.removedCount,
+          outcome.error,
+          outcome.completedAt,
+        ],
+      );
+    },
+
+    async createScheduledPrice(price: NewScheduledPrice) {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `INSERT INTO scheduled_prices(id, product_id, dealer_price, effective_at, note, created_by, created_at)
+         SELECT $1::text, p.id, $3::double precision, $4::bigint, $5::text, $6::text, $7::bigint FROM products p WHERE p.id = $2
+         RETURNING id`,
+        [price.id, price.productId, price.dealerPrice, price.effectiveAt, price.note, price.createdBy, price.createdAt],
+      )) as Array<Record<string, unknown>>;
+      if (rows.length === 0) return { ok: false as const, error: "Product not found" };
+      const scheduled: ScheduledPrice = {
+        ...price,
+        status: "pending",
+        claimedAt: null,
+        appliedAt: null,
+        cancelledAt: null,
+        error: null,
+      };
+      return { ok: true as const, scheduled };
+    },
+
+    async listScheduledPrices(params: ListScheduledPricesParams): Promise<ScheduledPrice[]> {
+      await ensureSchema();
+      const where: string[] = [];
+      const values: unknown[] = [];
+
+      if (params.productId) {
+        where.push(`product_id = $${values.length + 1}`);
+        values.push(params.productId);
+      }
+
+      if (params.status) where.push(SCHEDULED_PRICE_STATUS_SQL[params.status]);
+
+      if (params.dueBy != null) {
+        where.push(`effective_at <= $${values.length + 1}`);
+        values.push(params.dueBy);
+      }
+
+      const limit = Math.min(params.limit ?? 100, 1000);
+      values.push(limit);
+
+      const rows = (await sql.query(
+        `SELECT * FROM scheduled_prices
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY effective_at ASC, created_at ASC
+         LIMIT $${values.length}`,
+        values,
+      )) as Array<Record<string, unknown>>;
+      return rows.map(mapScheduledPriceRow);
+    },
+
+    async cancelScheduledPrice(id: string, cancelledAt: number) {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `UPDATE scheduled_prices SET cancelled_at = $1 WHERE id = $2 AND ${SCHEDULED_PRICE_STATUS_SQL.pending} RETURNING id`,
+        [cancelledAt, id],
+      )) as Array<Record<string, unknown>>;
+      return rows.length > 0;
+    },
+
+    async claimScheduledPrice(id: string, claimedAt: number) {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `UPDATE scheduled_prices SET claimed_at = $1 WHERE id = $2 AND ${SCHEDULED_PRICE_STATUS_SQL.pending} RETURNING id`,
+        [claimedAt, id],
+      )) as Array<Record<string, unknown>>;
+      return rows.length > 0;
+    },
+
+    async releaseStaleScheduledPriceClaims(claimedBefore: number) {
+      await ensureSchema();
+      const rows = (await sql.query(
+        `UPDATE scheduled_prices SET claimed_at = NULL
+         WHERE ${SCHEDULED_PRICE_STATUS_SQL.applying} AND claimed_at < $1
+         RETURNING id`,
+        [claimedBefore],
+      )) as Array<Record<string, unknown>>;
+      return rows.length;
+    },
+
+    async finishScheduledPrice(id: string, appliedAt: number, error: string | null) {
+      await ensureSchema();
+      await sql.query(`UPDATE scheduled_prices SET applied_at = $1, error = $2 WHERE id = $3`, [appliedAt, error, id]);
+    },
+
+    async createQuote(quote: NewQuote): Promise<Quote> {
+      await ensureSchema();
+      const { lines, ...q } = quote;
+      // Two quotes saved at once can pick the same number; the loser hits the UNIQUE constraint and retries.
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const [rows] = (await sql.transaction([
+            sql.query(
+              `INSERT INTO quotes(id, number, customer_name, note, tier_id, tier_label, subtotal, discount_total, total, valid_until, created_by, created_at)
+               SELECT $1::text, COALESCE(MAX(number), 0) + 1, $2::text, $3::text, $4::text, $5::text,
+                 $6::double precision, $7::double precision, $8::double precision, $9::bigint, $10::text, $11::bigint
+               FROM quotes
+               RETURNING number`,
+              [q.id, q.customerName, q.note, q.tierId, q.tierLabel, q.subtotal, q.discountTotal, q.total, q.validUntil, q.createdBy, q.createdAt],
+            ),
+            ...lines.map((l, position) =>
+              sql.query(
+                `INSERT INTO quote_lines(id, quote_id, position, product_id, product_name, product_brand, unit, qty, unit_price, discount_percent, line_total)
+                 VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)`,
+                [l.id, q.id, position, l.productId, l.productName, l.productBrand, l.unit, l.qty, l.unitPrice, l.discountPercent, l.lineTotal],
+              ),
+            ),
+          ])) as Array<Array<Record<string, unknown>>>;
+          return { ...quote, number: Number(rows[0]?.number ?? 0) };
+        } catch (e) {
+          if (attempt >= 3 || (e as { code?: string }).code !== "23505") throw e;
+        }
+      }
+    },
+
+    async getQuote(id: string): Promise<Quote | null> {
+      await ensureSchema();
+      const [rows, lines] = (await Promise.all([
+        sql.query(`SELECT q.id, q.number, q.customer_name, q.note, q.tier_id, q.tier_label, q.subtotal, q.discount_total, q.total, q.valid_until, q.created_by, q.created_at FROM quotes q WHERE q.id = $1`, [id]),
+        sql.query(`SELECT id, product_id, product_name, product_brand, unit, qty, unit_price, discount_percent, line_total FROM quote_lines WHERE quote_id = $1 ORDER BY position ASC`, [id]),
+      ])) as Array<Array<Record<string, unknown>>>;
+      if (!rows[0]) return null;
+      return { ...mapQuoteRow(rows[0]), lines: lines.map(mapQuoteLineRow) };
+    },
+
+    async listQuotes(params: ListQuotesParams): Promise<QuoteSummary[]> {
+      await ensureSchema();
+      const limit = Math.min(params.limit ?? 100, 500);
+      const rows = (await sql.query(
+        `SELECT q.id, q.number, q.customer_name, q.note, q.tier_id, q.tier_label, q.subtotal, q.discount_total, q.total, q.valid_until, q.created_by, q.created_at, (SELECT COUNT(*) FROM quote_lines l WHERE l.quote_id = q.id) AS line_count
+         FROM quotes q
+         ORDER BY q.number DESC
+         LIMIT $1`,
+        [limit],
+      )) as Array<Record<string, unknown>>;
+      return rows.map((r) => ({ ...mapQuoteRow(r), lineCount: Number(r.line_count ?? 0) }));
+    },
+
+    async listImportRuns(params: ListImportRunsParams): Promise<ImportRun[]> {
+      await ensureSchema();
+      const where: string[] = [];
+      const values: unknown[] = [];
+
+      if (params.source) {
+        where.push(`source = $${values.length + 1}`);
+        values.push(params.source);
+      }
+
+      if (params.companyId) {
+        where.push(`company_id = $${values.length + 1}`);
+        values.push(params.companyId);
+      }
+
+      const limit = Math.min(params.limit ?? 50, 300);
+      values.push(limit);
+
+      const rows = (await sql.query(
+        `SELECT * FROM import_runs
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY started_at DESC
+         LIMIT $${values.length}`,
+        values,
+      )) as Array<Record<string, unknown>>;
+      return rows.map(mapImportRunRow);
+    },
+
+    async getImportRun(id: string): Promise<ImportRun | null> {
+      await ensureSchema();
+      const rows = (await sql.query(`SELECT * FROM import_runs WHERE id = $1 LIMIT 1`, [id])) as Array<
+        Record<string, unknown>
+      >;
+      return rows[0] ? mapImportRunRow(rows[0]) : null;
+    },
+
+    async getMigrationStatus(): Promise<MigrationStatus> {
+      await ensureMigrationsTable();
+      return buildMigrationStatus(await readAppliedMigrations());
+    },
+
+    async migrate(): Promise<MigrationRunResult> {
+      const ran = await runMigrations();
+      ensured = Promise.resolve();
+      return { ...buildMigrationStatus(await readAppliedMigrations()), ran };
+    },
   };
 }
@@ -0,0 +1,114 @@
+import {
+  computeDerivedPrices,
+  DEFAULT_PRICING_RULES,
+  PRICE_TIER_OPS,
+  resolvePricingRule,
+  type PriceTier,
+  type PriceTierOp,
+  type PricingRules,
+  type RoundingPolicy,
+} from "@/lib/pricing";
+
+/** A price_tiers row as bound into INSERT statements. */
+export type PriceTierRow = {
+  id: string;
+  label: string;
+  base: string;
+  op: PriceTierOp;
+  value: number;
+  rounding: string;
+  position: number;
+  showInList: boolean;
+};
+
+export type PriceTierOverrideRow = { brand: string; tierId: string; value: number };
+
+function parseRounding(value: unknown): RoundingPolicy {
+  try {
+    const parsed = typeof value === "string" ? JSON.parse(value) : value;
+    if (parsed && typeof parsed === "object" && typeof (parsed as { mode?: unknown }).mode === "string") {
+      return parsed as RoundingPolicy;
+    }
+  } catch {
+    // Fall through to no rounding.
+  }
+  return { mode: "none" };
+}
+
+function isTierOp(value: unknown): value is PriceTierOp {
+  return typeof value === "string" && Object.hasOwn(PRICE_TIER_OPS, value);
+}
+
+/**
+ * Builds rules from price_tiers (ordered by position) and price_tier_overrides rows. An empty tier
+ * table means the rules were never saved, so the built-in tiers apply.
+ */
+export function pricingRulesFromRows(
+  tierRows: Array<Record<string, unknown>>,
+  overrideRows: Array<Record<string, unknown>>,
+): PricingRules {
+  const tiers: PriceTier[] = tierRows
+    .filter((r) => isTierOp(r.op))
+    .map((r) => ({
+      id: String(r.id),
+      label: String(r.label),
+      base: String(r.base),
+      op: r.op as PriceTierOp,
+      value: Number(r.value),
+      rounding: parseRounding(r.rounding),
+      showInList: r.show_in_list === true || Number(r.show_in_list) === 1,
+    }));
+  if (tiers.length === 0) return DEFAULT_PRICING_RULES;
+
+  const ids = new Set(tiers.map((t) => t.id));
+  const brands: PricingRules["brands"] = {};
+  for (const r of overrideRows) {
+    const brand = String(r.brand ?? "");
+    const tierId = String(r.tier_id ?? "");
+    const value = Number(r.value);
+    if (!brand || !ids.has(tierId) || !Number.isFinite(value)) continue;
+    (brands[brand] ??= {})[tierId] = value;
+  }
+  return { tiers, brands };
+}
+
+export function priceTierRows(rules: PricingRules): PriceTierRow[] {
+  return rules.tiers.map((t, position) => ({
+    id: t.id,
+    label: t.label,
+    base: t.base,
+    op: t.op,
+    value: t.value,
+    rounding: JSON.stringify(t.rounding),
+    position,
+    showInList: t.showInList,
+  }));
+}
+
+export function priceTierOverrideRows(rules: PricingRules): PriceTierOverrideRow[] {
+  const ids = new Set(rules.tiers.map((t) => t.id));
+  return Object.entries(rules.brands).flatMap(([brand, values]) =>
+    Object.entries(values)
+      .filter(([tierId]) => ids.has(tierId))
+      .map(([tierId, value]) => ({ brand, tierId, value })),
+  );
+}
+
+/** product_changes.to_tiers for a new dealer price: every tier derived with the rules in force now, as JSON. */
+export function tierPricesJson(rules: PricingRules, brand: string | null, dealerPrice: number | null): string {
+  return JSON.stringify(computeDerivedPrices(dealerPrice, resolvePricingRule(rules, brand)).byId);
+}
+
+/** Reads product_changes.to_tiers; null for rows written before tier prices were stored. */
+export function parseTierPrices(value: unknown): Record<string, number | null> | null {
+  if (typeof value !== "string" || !value) return null;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([id, price]) => [id, typeof price === "number" && Number.isFinite(price) ? price : null]),
+    );
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Calendar day (server local time) used as the stock_snapshots bucket, e.g. "2024-03-18".
+ */
+export function snapshotDay(ts: number): string {
+  const d = new Date(ts);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
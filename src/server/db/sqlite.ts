@@ -1,15 +1,61 @@
 import Database from "better-sqlite3";
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
+import type { Category } from "@/lib/categories";
+import { DEFAULT_COMPANY_ID, type Company } from "@/lib/companies";
+import type { ExchangeRate } from "@/lib/currency";
 import type { Availability } from "@/lib/domain";
+import type { PricingRules } from "@/lib/pricing";
+import { snapshotDay } from "./snapshot-day";
+import {
+  parseTierPrices,
+  priceTierOverrideRows,
+  priceTierRows,
+  pricingRulesFromRows,
+  tierPricesJson,
+} from "./pricing-rules";
+import { buildMigrationStatus, pendingMigrations } from "./migrations";
 import type {
+  AppliedMigration,
+  CompanyInput,
   DbProvider,
+  ExchangeRateInput,
+  ImportMode,
+  ImportRun,
+  ImportRunOutcome,
+  ImportRunSource,
   ListChangesParams,
+  ListImportRunsParams,
+  ListScheduledPricesParams,
   ListProductsParams,
+  ListQuotesParams,
+  ListStockHistoryParams,
+  MigrationRunResult,
+  MigrationStatus,
+  NewImportRun,
+  NewScheduledPrice,
+  NewPriceBatch,
+  NewQuote,
+  PriceBatch,
+  PriceBatchSource,
   ProductChange,
+  ProductChangeType,
+  ProductCounts,
+  ProductMeta,
+  ProductMetaPatch,
   ProductRow,
+  Quote,
+  QuoteLine,
+  QuoteSummary,
+  ScheduledPrice,
+  ScheduledPriceStatus,
+  SetDealerPriceOptions,
+  StockLocation,
+  StockSnapshot,
   Summary,
   UpsertStockItem,
+  UpsertStockOptions,
 } from "./types";
 
 function resolveDbPath(databaseUrl: string): string {
@@ -19,34 +65,51 @@ function resolveDbPath(databaseUrl: string): string {
   return path.resolve(process.cwd(), normalized);
 }
 
-function ensureSchema(sqlite: Database.Database) {
-  sqlite.pragma("foreign_keys = ON");
-  sqlite.pragma("journal_mode = WAL");
+function readAppliedMigrations(sqlite: Database.Database): AppliedMigration[] {
+  const rows = sqlite.prepare(`SELECT id, description, applied_at FROM schema_migrations ORDER BY id ASC`).all() as Array<
+    Record<string, unknown>
+  >;
+  return rows.map((r) => ({
+    id: String(r.id ?? ""),
+    description: String(r.description ?? ""),
+    appliedAt: Number(r.applied_at ?? 0),
+  }));
+}
+
+function runMigrations(sqlite: Database.Database): string[] {
   sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS products (
+    CREATE TABLE IF NOT EXISTS schema_migrations (
       id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      name_key TEXT NOT NULL UNIQUE,
-      brand TEXT,
-      stock_qty REAL,
-      unit TEXT,
-      availability TEXT NOT NULL CHECK (availability IN ('IN_STOCK','OUT_OF_STOCK','NEGATIVE','UNKNOWN')),
-      last_seen_at INTEGER,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
     );
-
-    CREATE INDEX IF NOT EXISTS idx_products_brand ON products(brand);
-    CREATE INDEX IF NOT EXISTS idx_products_availability ON products(availability);
-    CREATE INDEX IF NOT EXISTS idx_products_last_seen_at ON products(last_seen_at);
-
-    CREATE TABLE IF NOT EXISTS prices (
-      product_id TEXT PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
-      dealer_price REAL,
-      updated_at INTEGER NOT NULL
-    );
-    CREATE INDEX IF NOT EXISTS idx_prices_product_id ON prices(product_id);
   `);
+  const record = sqlite.prepare(`INSERT INTO schema_migrations(id, description, applied_at) VALUES (?, ?, ?)`);
+  const ran: string[] = [];
+  for (const migration of pendingMigrations(readAppliedMigrations(sqlite).map((m) => m.id))) {
+    // The pragma is ignored inside a transaction, so it is switched around it.
+    if (migration.foreignKeysOff) sqlite.pragma("foreign_keys = OFF");
+    try {
+      sqlite.transaction(() => {
+        migration.sqlite(sqlite);
+        if (migration.foreignKeysOff && (sqlite.pragma("foreign_key_check") as unknown[]).length > 0) {
+          throw new Error(`Migration ${migration.id} left foreign key violations.`);
+        }
+        record.run(migration.id, migration.description, Date.now());
+      })();
+    } finally {
+      if (migration.foreignKeysOff) sqlite.pragma("foreign_keys = ON");
+    }
+    ran.push(migration.id);
+  }
+  return ran;
+}
+
+function ensureSchema(sqlite: Database.Database) {
+  sqlite.pragma("foreign_keys = ON");
+  sqlite.pragma("journal_mode = WAL");
+  const ran = runMigrations(sqlite);
+  if (ran.length) console.log(`[db:sqlite] Applied migrations: ${ran.join(", ")}`);
 }
 
 function parseAvailability(value: unknown): Availability {
@@ -54,6 +117,261 @@ function parseAvailability(value: unknown): Availability {
   return "UNKNOWN";
 }
 
+function productFilters(params: ListProductsParams): { where: string[]; values: unknown[] } {
+  const search = (params.search ?? "").trim().toLowerCase();
+  const brand = (params.brand ?? "").trim();
+  const where: string[] = [];
+  const values: unknown[] = [];
+
+  if (params.id) {
+    where.push(`p.id = ?`);
+    values.push(params.id);
+  }
+  if (params.companyId) {
+    where.push(`p.company_id = ?`);
+    values.push(params.companyId);
+  }
+  if (search) {
+    where.push(
+      `(lower(p.name) LIKE ? OR lower(COALESCE(pm.display_name, '')) LIKE ? OR lower(COALESCE(p.brand, '')) LIKE ?)`,
+    );
+    values.push(`%${search}%`, `%${search}%`, `%${search}%`);
+  }
+  if (brand) {
+    if (brand === "__unknown__") where.push(`p.brand IS NULL`);
+    else {
+      where.push(`p.brand = ?`);
+      values.push(brand);
+    }
+  }
+  if (params.category) {
+    // The group itself plus every group below it; groups are matched within the listed company when there is one.
+    where.push(
+      `p.category IN (
+        WITH RECURSIVE tree(name) AS (
+          SELECT ?
+          UNION
+          SELECT g.name FROM stock_groups g JOIN tree t ON g.parent = t.name${params.companyId ? ` AND g.company_id = ?` : ""}
+        )
+        SELECT name FROM tree
+      )`,
+    );
+    values.push(params.category);
+    if (params.companyId) values.push(params.companyId);
+  }
+  if (params.availability) {
+    where.push(`p.availability = ?`);
+    values.push(params.availability);
+  }
+  if (params.removed === true) where.push(`p.removed_at IS NOT NULL`);
+  else if (params.removed === false) where.push(`p.removed_at IS NULL`);
+  if (params.location) {
+    where.push(
+      `EXISTS (SELECT 1 FROM product_stock_locations l WHERE l.product_id = p.id AND l.godown = ? AND COALESCE(l.stock_qty, 0) <> 0)`,
+    );
+    values.push(params.location);
+  }
+
+  return { where, values };
+}
+
+// Name sorts use the curated display name when there is one.
+const SORT_NAME = "COALESCE(pm.display_name, p.name)";
+
+// Price sorts need the prices join; rows without a dealer price always go last. Tier sorts happen in memory.
+function productOrderBy(params: ListProductsParams): string {
+  const dir = params.dir === "desc" ? "DESC" : "ASC";
+  switch (params.sort ?? "name") {
+    case "qty":
+      return `p.stock_qty ${dir} NULLS LAST, ${SORT_NAME} ASC`;
+    case "availability":
+      return `p.availability ${dir}, ${SORT_NAME} ASC`;
+    case "dealerPrice":
+      return `pr.dealer_price ${dir} NULLS LAST, ${SORT_NAME} ASC`;
+    default:
+      return `${SORT_NAME} ${dir}`;
+  }
+}
+
+function parseTags(value: unknown): string[] {
+  if (typeof value !== "string" || !value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// `locations` is a json_group_array of { godown, qty } objects.
+function parseLocations(value: unknown): StockLocation[] {
+  if (typeof value !== "string" || !value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map((l: Record<string, unknown>) => ({
+      godown: String(l.godown ?? ""),
+      qty: l.qty == null ? null : Number(l.qty),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function mapChangeRow(r: Record<string, unknown>): ProductChange {
+  return {
+    id: String(r.id ?? ""),
+    productId: String(r.product_id ?? ""),
+    importRunId: r.import_run_id == null ? null : String(r.import_run_id),
+    batchId: r.batch_id == null ? null : String(r.batch_id),
+    name: String(r.product_name ?? ""),
+    brand: r.product_brand == null ? null : String(r.product_brand),
+    changeType: r.change_type as ProductChangeType,
+    fromQty: r.from_qty == null ? null : Number(r.from_qty),
+    toQty: r.to_qty == null ? null : Number(r.to_qty),
+    fromAvailability: r.from_availability == null ? null : parseAvailability(r.from_availability),
+    toAvailability: r.to_availability == null ? null : parseAvailability(r.to_availability),
+    fromPrice: r.from_price == null ? null : Number(r.from_price),
+    toPrice: r.to_price == null ? null : Number(r.to_price),
+    toTiers: parseTierPrices(r.to_tiers),
+    createdAt: Number(r.created_at ?? 0),
+  };
+}
+
+function mapPriceBatchRow(r: Record<string, unknown>): PriceBatch {
+  return {
+    id: String(r.id ?? ""),
+    source: String(r.source ?? "") as PriceBatchSource,
+    label: r.label == null ? null : String(r.label),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+    revertsBatchId: r.reverts_batch_id == null ? null : String(r.reverts_batch_id),
+    undoneAt: r.undone_at == null ? null : Number(r.undone_at),
+    undoneBy: r.undone_by == null ? null : String(r.undone_by),
+  };
+}
+
+function mapScheduledPriceRow(r: Record<string, unknown>): ScheduledPrice {
+  const claimedAt = r.claimed_at == null ? null : Number(r.claimed_at);
+  const appliedAt = r.applied_at == null ? null : Number(r.applied_at);
+  const cancelledAt = r.cancelled_at == null ? null : Number(r.cancelled_at);
+  const error = r.error == null ? null : String(r.error);
+  return {
+    id: String(r.id ?? ""),
+    productId: String(r.product_id ?? ""),
+    dealerPrice: Number(r.dealer_price ?? 0),
+    effectiveAt: Number(r.effective_at ?? 0),
+    note: r.note == null ? null : String(r.note),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+    claimedAt,
+    appliedAt,
+    cancelledAt,
+    error,
+    status:
+      cancelledAt != null
+        ? "cancelled"
+        : appliedAt == null
+          ? claimedAt == null
+            ? "pending"
+            : "applying"
+          : error
+            ? "failed"
+            : "applied",
+  };
+}
+
+const SCHEDULED_PRICE_STATUS_SQL: Record<ScheduledPriceStatus, string> = {
+  pending: "applied_at IS NULL AND cancelled_at IS NULL AND claimed_at IS NULL",
+  applying: "applied_at IS NULL AND cancelled_at IS NULL AND claimed_at IS NOT NULL",
+  applied: "applied_at IS NOT NULL AND error IS NULL",
+  failed: "applied_at IS NOT NULL AND error IS NOT NULL",
+  cancelled: "cancelled_at IS NOT NULL",
+};
+
+function mapCompanyRow(r: Record<string, unknown>): Company {
+  let godowns: string[] = [];
+  try {
+    const parsed = JSON.parse(String(r.godowns ?? "[]"));
+    if (Array.isArray(parsed)) godowns = parsed.map(String);
+  } catch {
+    // Treat malformed JSON as no godowns.
+  }
+  return {
+    id: String(r.id ?? ""),
+    name: String(r.name ?? ""),
+    tallyCompany: String(r.tally_company ?? ""),
+    godowns,
+    active: Number(r.active ?? 0) === 1,
+    createdAt: Number(r.created_at ?? 0),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+function mapExchangeRateRow(r: Record<string, unknown>): ExchangeRate {
+  return {
+    currency: String(r.currency ?? ""),
+    rate: Number(r.rate ?? 0),
+    updatedBy: r.updated_by == null ? null : String(r.updated_by),
+    updatedAt: Number(r.updated_at ?? 0),
+  };
+}
+
+function mapQuoteRow(r: Record<string, unknown>): Omit<Quote, "lines"> {
+  return {
+    id: String(r.id ?? ""),
+    number: Number(r.number ?? 0),
+    customerName: String(r.customer_name ?? ""),
+    note: r.note == null ? null : String(r.note),
+    tierId: String(r.tier_id ?? ""),
+    tierLabel: String(r.tier_label ?? ""),
+    subtotal: Number(r.subtotal ?? 0),
+    discountTotal: Number(r.discount_total ?? 0),
+    total: Number(r.total ?? 0),
+    validUntil: Number(r.valid_until ?? 0),
+    createdBy: r.created_by == null ? null : String(r.created_by),
+    createdAt: Number(r.created_at ?? 0),
+  };
+}
+
+function mapQuoteLineRow(r: Record<string, unknown>): QuoteLine {
+  return {
+    id: String(r.id ?? ""),
+    productId: r.product_id == null ? null : String(r.product_id),
+    productName: String(r.product_name ?? ""),
+    productBrand: r.product_brand == null ? null : String(r.product_brand),
+    unit: r.unit == null ? null : String(r.unit),
+    qty: Number(r.qty ?? 0),
+    unitPrice: Number(r.unit_price ?? 0),
+    discountPercent: Number(r.discount_percent ?? 0),
+    lineTotal: Number(r.line_total ?? 0),
+  };
+}
+
+function mapImportRunRow(r: Record<string, unknown>): ImportRun {
+  const completedAt = r.completed_at == null ? null : Number(r.completed_at);
+  const error = r.error == null ? null : String(r.error);
+  return {
+    id: String(r.id ?? ""),
+    source: String(r.source ?? "") as ImportRunSource,
+    mode: (r.mode === "snapshot" ? "snapshot" : "partial") as ImportMode,
+    filename: r.filename == null ? null : String(r.filename),
+    companyId: String(r.company_id ?? DEFAULT_COMPANY_ID),
+    company: r.company == null ? null : String(r.company),
+    godown: r.godown == null ? null : String(r.godown),
+    triggeredBy: r.triggered_by == null ? null : String(r.triggered_by),
+    startedAt: Number(r.started_at ?? 0),
+    parsedCount: Number(r.parsed_count ?? 0),
+    upserted: Number(r.upserted ?? 0),
+    deletedBrandRows: Number(r.deleted_brand_rows ?? 0),
+    removedCount: Number(r.removed_count ?? 0),
+    error,
+    completedAt,
+    durationMs: r.duration_ms == null ? null : Number(r.duration_ms),
+    status: completedAt == null ? "running" : error ? "failed" : "success",
+  };
+}
+
 export function createSqliteProvider(databaseUrl: string): DbProvider {
   const dbPath = resolveDbPath(databaseUrl);
   fs.mkdirSync(path.dirname(dbPath), { recursive: true });
@@ -62,25 +380,194 @@ export function createSqliteProvider(databaseUrl: string): DbProvider {
   ensureSchema(sqlite);
 
   const upsertStmt = sqlite.prepare(`
-    INSERT INTO products(id, name, name_key, brand, stock_qty, unit, availability, last_seen_at, created_at, updated_at)
-    VALUES (@id, @name, @nameKey, @brand, @stockQty, @unit, @availability, @lastSeenAt, @createdAt, @updatedAt)
-    ON CONFLICT(name_key) DO UPDATE SET
+    INSERT INTO products(id, company_id, name, name_key, brand, category, stock_qty, unit, availability, cost_price, last_seen_at, created_at, updated_at)
+    VALUES (@id, @companyId, @name, @nameKey, @brand, @category, @stockQty, @unit, @availability, @costPrice, @lastSeenAt, @createdAt, @updatedAt)
+    ON CONFLICT(company_id, name_key) DO UPDATE SET
       name = excluded.name,
       brand = COALESCE(excluded.brand, products.brand),
+      category = COALESCE(excluded.category, products.category),
       stock_qty = excluded.stock_qty,
       unit = COALESCE(excluded.unit, products.unit),
       availability = excluded.availability,
+      cost_price = COALESCE(excluded.cost_price, products.cost_price),
       last_seen_at = excluded.last_seen_at,
-      updated_at = excluded.updated_at;
+      updated_at = excluded.updated_at,
+      removed_at = NULL;
+  `);
+
+  const existingByNameKeyStmt = sqlite.prepare(
+    `SELECT id, stock_qty, availability FROM products WHERE company_id = ? AND name_key = ?`,
+  );
+
+  const insertChangeStmt = sqlite.prepare(`
+    INSERT INTO product_changes(
+      id, product_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, to_tiers, created_at, import_run_id, batch_id
+    ) VALUES (
+      @id, @productId, @productName, @productBrand, @changeType, @fromQty, @toQty, @fromAvailability, @toAvailability, @fromPrice, @toPrice, @toTiers, @createdAt, @importRunId, @batchId
+    )
   `);
 
-  const upsertTxn = sqlite.transaction((items: UpsertStockItem[]) => {
-    for (const it of items) upsertStmt.run(it);
+  const snapshotStmt = sqlite.prepare(`
+    INSERT INTO stock_snapshots(product_id, day, stock_qty, availability, import_run_id, captured_at)
+    VALUES (@productId, @day, @stockQty, @availability, @importRunId, @capturedAt)
+    ON CONFLICT(product_id, day) DO UPDATE SET
+      stock_qty = excluded.stock_qty,
+      availability = excluded.availability,
+      import_run_id = excluded.import_run_id,
+      captured_at = excluded.captured_at;
+  `);
+
+  const deleteLocationsStmt = sqlite.prepare(`DELETE FROM product_stock_locations WHERE product_id = ?`);
+  const insertLocationStmt = sqlite.prepare(`
+    INSERT INTO product_stock_locations(product_id, godown, stock_qty, updated_at)
+    VALUES (@productId, @godown, @stockQty, @updatedAt)
+  `);
+
+  const upsertTxn = sqlite.transaction((items: UpsertStockItem[], importRunId: string | null, companyId: string) => {
+    for (const it of items) {
+      const existing = existingByNameKeyStmt.get(companyId, it.nameKey) as Record<string, unknown> | undefined;
+      const productId = existing ? String(existing.id) : it.id;
+      const fromQty = existing?.stock_qty == null ? null : Number(existing.stock_qty);
+      const toQty = it.stockQty == null ? null : it.stockQty;
+      const fromAvailability = existing ? parseAvailability(existing.availability) : null;
+      const toAvailability = it.availability;
+
+      upsertStmt.run({ ...it, id: productId, companyId });
+      deleteLocationsStmt.run(productId);
+      for (const location of it.locations ?? []) {
+        insertLocationStmt.run({ productId, godown: location.godown, stockQty: location.qty, updatedAt: it.updatedAt });
+      }
+      snapshotStmt.run({
+        productId,
+        day: snapshotDay(it.updatedAt),
+        stockQty: it.stockQty,
+        availability: it.availability,
+        importRunId,
+        capturedAt: it.updatedAt,
+      });
+
+      const addChange = (changeType: ProductChangeType) => {
+        insertChangeStmt.run({
+          id: crypto.randomUUID(),
+          productId,
+          productName: it.name,
+          productBrand: it.brand,
+          changeType,
+          fromQty,
+          toQty,
+          fromAvailability,
+          toAvailability,
+          fromPrice: null,
+          toPrice: null,
+          toTiers: null,
+          createdAt: it.updatedAt,
+          importRunId,
+          batchId: null,
+        });
+      };
+
+      if (!existing) {
+        addChange("NEW_PRODUCT");
+      } else {
+        if (fromQty != null && toQty != null && toQty < fromQty) {
+          addChange("STOCK_DROP");
+        }
+        if (fromQty != null && toQty != null && toQty > fromQty) {
+          addChange("STOCK_INCREASE");
+        }
+        if (fromAvailability !== "OUT_OF_STOCK" && toAvailability === "OUT_OF_STOCK") {
+          addChange("OUT_OF_STOCK");
+        }
+        if ((fromAvailability === "OUT_OF_STOCK" || fromAvailability === "NEGATIVE") && toAvailability === "IN_STOCK") {
+          addChange("BACK_IN_STOCK");
+        }
+      }
+    }
   });
 
+  const staleProductsStmt = sqlite.prepare(
+    `SELECT id, name, brand, stock_qty, availability FROM products
+     WHERE company_id = ? AND removed_at IS NULL AND (last_seen_at IS NULL OR last_seen_at < ?)`,
+  );
+  const markRemovedStmt = sqlite.prepare(
+    `UPDATE products SET stock_qty = 0, availability = 'OUT_OF_STOCK', removed_at = ?, updated_at = ? WHERE id = ?`,
+  );
+
+  const markRemovedTxn = sqlite.transaction((seenAt: number, importRunId: string | null, companyId: string) => {
+    const stale = staleProductsStmt.all(companyId, seenAt) as Array<Record<string, unknown>>;
+    for (const r of stale) {
+      markRemovedStmt.run(seenAt, seenAt, r.id);
+      deleteLocationsStmt.run(r.id);
+      snapshotStmt.run({
+        productId: String(r.id),
+        day: snapshotDay(seenAt),
+        stockQty: 0,
+        availability: "OUT_OF_STOCK",
+        importRunId,
+        capturedAt: seenAt,
+      });
+      insertChangeStmt.run({
+        id: crypto.randomUUID(),
+        productId: String(r.id),
+        productName: String(r.name ?? ""),
+        productBrand: r.brand == null ? null : String(r.brand),
+        changeType: "REMOVED_FROM_EXPORT",
+        fromQty: r.stock_qty == null ? null : Number(r.stock_qty),
+        toQty: 0,
+        fromAvailability: parseAvailability(r.availability),
+        toAvailability: "OUT_OF_STOCK",
+        fromPrice: null,
+        toPrice: null,
+        toTiers: null,
+        createdAt: seenAt,
+        importRunId,
+        batchId: null,
+      });
+    }
+    return stale.length;
+  });
+
+  const deleteByNameKeyStmt = sqlite.prepare(`DELETE FROM products WHERE company_id = ? AND name_key = ?`);
+
+  const deleteByNameKeysTxn = sqlite.transaction((nameKeys: string[], companyId: string) => {
+    const unique = Array.from(new Set(nameKeys.map((s) => (s ?? "").trim()).filter(Boolean)));
+    let deleted = 0;
+    for (const k of unique) {
+      deleted += deleteByNameKeyStmt.run(companyId, k).changes;
+    }
+    return deleted;
+  });
+
+  // Nested transactions become savepoints, so the whole import commits or rolls back together.
+  const importTxn = sqlite.transaction((items: UpsertStockItem[], options: UpsertStockOptions) => {
+    const importRunId = options.importRunId ?? null;
+    const companyId = options.companyId ?? DEFAULT_COMPANY_ID;
+    upsertTxn(items, importRunId, companyId);
+    const deleted = deleteByNameKeysTxn(options.deleteNameKeys ?? [], companyId);
+    const removed =
+      options.markRemovedBefore != null ? markRemovedTxn(options.markRemovedBefore, importRunId, companyId) : 0;
+    return { upserted: items.length, deleted, removed };
+  });
+
+  const readPricingRules = () =>
+    pricingRulesFromRows(
+      sqlite.prepare(`SELECT * FROM price_tiers ORDER BY position ASC`).all() as Array<Record<string, unknown>>,
+      sqlite.prepare(`SELECT * FROM price_tier_overrides`).all() as Array<Record<string, unknown>>,
+    );
+
+  const readCompanies = () =>
+    (sqlite.prepare(`SELECT * FROM companies ORDER BY created_at ASC, id ASC`).all() as Array<Record<string, unknown>>).map(
+      mapCompanyRow,
+    );
+
+  const readExchangeRates = () =>
+    (sqlite.prepare(`SELECT * FROM exchange_rates ORDER BY currency ASC`).all() as Array<Record<string, unknown>>).map(
+      mapExchangeRateRow,
+    );
+
   return {
     kind: "sqlite",
-    async getSummary(): Promise<Summary> {
+    async getSummary(companyId?: string): Promise<Summary> {
       const row = sqlite
         .prepare(
           `
@@ -91,10 +578,11 @@ export function createSqliteProvider(databaseUrl: string): DbProvider {
             SUM(CASE WHEN availability='NEGATIVE' THEN 1 ELSE 0 END) AS negative,
             SUM(CASE WHEN availability='UNKNOWN' THEN 1 ELSE 0 END) AS unknown,
             MAX(last_seen_at) AS lastImportAt
-          FROM products;
+          FROM products
+          WHERE @companyId IS NULL OR company_id = @companyId;
         `,
         )
-        .get() as Record<string, unknown> | undefined;
+        .get({ companyId: companyId ?? null }) as Record<string, unknown> | undefined;
 
       return {
         total: Number(row?.total ?? 0),
@@ -106,124 +594,678 @@ export function createSqliteProvider(databaseUrl: string): DbProvider {
       };
     },
 
-    async listBrands(): Promise<string[]> {
+    async listBrands(companyId?: string): Promise<string[]> {
       const rows = sqlite
-        .prepare(`SELECT DISTINCT brand FROM products WHERE brand IS NOT NULL ORDER BY brand ASC`)
-        .all() as Array<{ brand: string }>;
+        .prepare(
+          `SELECT DISTINCT brand FROM products
+           WHERE brand IS NOT NULL AND (@companyId IS NULL OR company_id = @companyId)
+           ORDER BY brand ASC`,
+        )
+        .all({ companyId: companyId ?? null }) as Array<{ brand: string }>;
       return rows.map((r) => r.brand).filter(Boolean);
     },
 
-    async listProducts(params: ListProductsParams): Promise<ProductRow[]> {
-      const search = (params.search ?? "").trim().toLowerCase();
-      const brand = (params.brand ?? "").trim();
-      const availability = params.availability;
-      const limit = Math.min(params.limit ?? 5000, 20000);
+    async listLocations(companyId?: string): Promise<string[]> {
+      const rows = sqlite
+        .prepare(
+          `SELECT DISTINCT l.godown FROM product_stock_locations l
+           JOIN products p ON p.id = l.product_id
+           WHERE @companyId IS NULL OR p.company_id = @companyId
+           ORDER BY l.godown ASC`,
+        )
+        .all({ companyId: companyId ?? null }) as Array<{ godown: string }>;
+      return rows.map((r) => r.godown).filter(Boolean);
+    },
 
-      const where: string[] = [];
-      const values: unknown[] = [];
+    async listCategories(companyId?: string): Promise<Category[]> {
+      // Merging companies keeps one parent per group name.
+      const rows = sqlite
+        .prepare(
+          `SELECT name, MIN(parent) AS parent FROM stock_groups
+           WHERE @companyId IS NULL OR company_id = @companyId
+           GROUP BY name
+           ORDER BY name ASC`,
+        )
+        .all({ companyId: companyId ?? null }) as Array<{ name: string; parent: string | null }>;
+      return rows.map((r) => ({ name: r.name, parent: r.parent ?? null }));
+    },
 
-      if (search) {
-        where.push(`lower(p.name) LIKE ?`);
-        values.push(`%${search}%`);
-      }
-      if (brand) {
-        if (brand === "__unknown__") where.push(`p.brand IS NULL`);
-        else {
-          where.push(`p.brand = ?`);
-          values.push(brand);
-        }
-      }
-      if (availability) {
-        where.push(`p.availability = ?`);
-        values.push(availability);
-      }
+    async replaceCategories(companyId: string, categories: Category[]) {
+      const now = Date.now();
+      const insert = sqlite.prepare(
+        `INSERT INTO stock_groups(company_id, name, parent, updated_at) VALUES (@companyId, @name, @parent, @updatedAt)
+         ON CONFLICT(company_id, name) DO UPDATE SET parent = excluded.parent, updated_at = excluded.updated_at`,
+      );
+      sqlite.transaction(() => {
+        sqlite.prepare(`DELETE FROM stock_groups WHERE company_id = ?`).run(companyId);
+        for (const c of categories) insert.run({ companyId, name: c.name, parent: c.parent, updatedAt: now });
+      })();
+    },
 
-      const sort = params.sort ?? "name";
-      const dir = params.dir === "desc" ? "DESC" : "ASC";
-      const orderBy =
-        sort === "qty"
-          ? `p.stock_qty ${dir} NULLS LAST, p.name ASC`
-          : sort === "availability"
-            ? `p.availability ${dir}, p.name ASC`
-            : `p.name ${dir}`;
+    async listProducts(params: ListProductsParams): Promise<ProductRow[]> {
+      const limit = Math.min(params.limit ?? 5000, 20000);
+      const offset = Math.max(0, Math.floor(params.offset ?? 0));
+      const { where, values } = productFilters(params);
 
       const sql = `
         SELECT
           p.id,
           p.name,
           p.brand,
+          p.category,
           p.stock_qty AS stockQty,
           p.unit,
           p.availability AS availability,
           p.last_seen_at AS lastSeenAt,
           p.updated_at AS updatedAt,
-          pr.dealer_price AS dealerPrice
+          p.removed_at AS removedAt,
+          pr.dealer_price AS dealerPrice,
+          p.cost_price AS costPrice,
+          pm.display_name AS displayName,
+          pm.notes AS notes,
+          pm.tags AS tags,
+          pm.source_currency AS sourceCurrency,
+          pm.source_amount AS sourceAmount,
+          (
+            SELECT json_group_array(json_object('godown', l.godown, 'qty', l.stock_qty))
+            FROM (SELECT godown, stock_qty FROM product_stock_locations WHERE product_id = p.id ORDER BY godown) l
+          ) AS locations
         FROM products p
         LEFT JOIN prices pr ON pr.product_id = p.id
+        LEFT JOIN product_meta pm ON pm.product_id = p.id
         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
-        ORDER BY ${orderBy}
-        LIMIT ?
+        ORDER BY ${productOrderBy(params)}
+        LIMIT ? OFFSET ?
       `;
-      values.push(limit);
+      values.push(limit, offset);
 
       const rows = sqlite.prepare(sql).all(...values) as Array<Record<string, unknown>>;
       return rows.map((r) => ({
         id: String(r.id ?? ""),
         name: String(r.name ?? ""),
         brand: r.brand == null ? null : String(r.brand),
+        category: r.category == null ? null : String(r.category),
         stockQty: r.stockQty == null ? null : Number(r.stockQty),
         unit: r.unit == null ? null : String(r.unit),
         availability: parseAvailability(r.availability),
         lastSeenAt: r.lastSeenAt == null ? null : Number(r.lastSeenAt),
         updatedAt: Number(r.updatedAt ?? 0),
+        removedAt: r.removedAt == null ? null : Number(r.removedAt),
         dealerPrice: r.dealerPrice == null ? null : Number(r.dealerPrice),
+        costPrice: r.costPrice == null ? null : Number(r.costPrice),
+        displayName: r.displayName == null ? null : String(r.displayName),
+        notes: r.notes == null ? null : String(r.notes),
+        tags: parseTags(r.tags),
+        sourceCurrency: r.sourceCurrency == null ? null : String(r.sourceCurrency),
+        sourceAmount: r.sourceAmount == null ? null : Number(r.sourceAmount),
+        locations: parseLocations(r.locations),
       }));
     },
 
-    async upsertStock(items: UpsertStockItem[]) {
-      upsertTxn(items);
-      return { upserted: items.length };
+    async countProducts(params: ListProductsParams): Promise<ProductCounts> {
+      const { where, values } = productFilters(params);
+      const row = sqlite
+        .prepare(
+          `
+          SELECT
+            COUNT(*) AS total,
+            COALESCE(SUM(CASE WHEN p.availability = 'IN_STOCK' THEN 1 ELSE 0 END), 0) AS inStock,
+            COALESCE(SUM(CASE WHEN p.availability = 'OUT_OF_STOCK' THEN 1 ELSE 0 END), 0) AS outOfStock,
+            COALESCE(SUM(CASE WHEN p.availability = 'NEGATIVE' THEN 1 ELSE 0 END), 0) AS negative,
+            COALESCE(SUM(CASE WHEN p.availability = 'UNKNOWN' THEN 1 ELSE 0 END), 0) AS unknown,
+            COALESCE(SUM(CASE WHEN p.removed_at IS NOT NULL THEN 1 ELSE 0 END), 0) AS removed
+          FROM products p
+          LEFT JOIN product_meta pm ON pm.product_id = p.id
+          ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+        `,
+        )
+        .get(...values) as Record<string, unknown>;
+      return {
+        total: Number(row.total ?? 0),
+        inStock: Number(row.inStock ?? 0),
+        outOfStock: Number(row.outOfStock ?? 0),
+        negative: Number(row.negative ?? 0),
+        unknown: Number(row.unknown ?? 0),
+        removed: Number(row.removed ?? 0),
+      };
+    },
+
+    async upsertStock(items: UpsertStockItem[], options?: UpsertStockOptions) {
+      return importTxn(items, options ?? {});
     },
 
-    async deleteProductsByNameKeys(nameKeys: string[]) {
-      const unique = Array.from(new Set(nameKeys.map((s) => (s ?? "").trim()).filter(Boolean)));
-      if (unique.length === 0) return { deleted: 0 };
+    async markProductsRemoved(seenAt: number, options?: Pick<UpsertStockOptions, "importRunId" | "companyId">) {
+      return { removed: markRemovedTxn(seenAt, options?.importRunId ?? null, options?.companyId ?? DEFAULT_COMPANY_ID) };
+    },
 
-      const stmt = sqlite.prepare(`DELETE FROM products WHERE name_key = ?`);
-      const txn = sqlite.transaction((keys: string[]) => {
-        let deleted = 0;
-        for (const k of keys) {
-          const info = stmt.run(k);
-          deleted += info.changes;
-        }
-        return deleted;
-      });
-      return { deleted: txn(unique) };
+    async deleteProductsByNameKeys(nameKeys: string[], companyId = DEFAULT_COMPANY_ID) {
+      return { deleted: deleteByNameKeysTxn(nameKeys, companyId) };
+    },
+
+    async setDealerPrice(productId: string, dealerPrice: number | null, options?: SetDealerPriceOptions) {
+      const existing = sqlite
+        .prepare(
+          `SELECT p.name, p.brand, pr.dealer_price FROM products p LEFT JOIN prices pr ON pr.product_id = p.id WHERE p.id = ?`,
+        )
+        .get(productId) as Record<string, unknown> | undefined;
+      if (!existing) return { ok: false as const, error: "Product not found" };
+
+      const now = Date.now();
+      const fromPrice = existing.dealer_price == null ? null : Number(existing.dealer_price);
+      const brand = existing.brand == null ? null : String(existing.brand);
+      try {
+        sqlite.transaction(() => {
+          sqlite
+            .prepare(
+              `
+              INSERT INTO prices(product_id, dealer_price, updated_at)
+              VALUES(?, ?, ?)
+              ON CONFLICT(product_id) DO UPDATE SET dealer_price=excluded.dealer_price, updated_at=excluded.updated_at
+            `,
+            )
+            .run(productId, dealerPrice, now);
+
+          if (fromPrice !== dealerPrice) {
+            insertChangeStmt.run({
+              id: crypto.randomUUID(),
+              productId,
+              productName: String(existing.name ?? ""),
+              productBrand: brand,
+              changeType: "PRICE_CHANGE",
+              fromQty: null,
+              toQty: null,
+              fromAvailability: null,
+              toAvailability: null,
+              fromPrice,
+              toPrice: dealerPrice,
+              toTiers: tierPricesJson(readPricingRules(), brand, dealerPrice),
+              createdAt: now,
+              importRunId: null,
+              batchId: options?.batchId ?? null,
+            });
+          }
+        })();
+        return { ok: true as const };
+      } catch (e) {
+        return { ok: false as const, error: e instanceof Error ? e.message : "Failed to save price." };
+      }
     },
 
-    async setDealerPrice(productId: string, dealerPrice: number | null) {
-      const exists = sqlite
-        .prepare(`SELECT 1 AS ok FROM products WHERE id = ?`)
-        .get(productId) as { ok: 1 } | undefined;
-      if (!exists) return { ok: false as const, error: "Not found." };
+    async getPricingRules() {
+      return readPricingRules();
+    },
 
+    async savePricingRules(rules: PricingRules, updatedBy: string | null) {
       const now = Date.now();
+      const insertTier = sqlite.prepare(`
+        INSERT INTO price_tiers(id, label, base, op, value, rounding, position, show_in_list, updated_by, updated_at)
+        VALUES (@id, @label, @base, @op, @value, @rounding, @position, @showInList, @updatedBy, @updatedAt)
+      `);
+      const insertOverride = sqlite.prepare(`
+        INSERT INTO price_tier_overrides(brand, tier_id, value) VALUES (@brand, @tierId, @value)
+      `);
+      sqlite.transaction(() => {
+        sqlite.prepare(`DELETE FROM price_tier_overrides`).run();
+        sqlite.prepare(`DELETE FROM price_tiers`).run();
+        for (const row of priceTierRows(rules)) {
+          insertTier.run({ ...row, showInList: row.showInList ? 1 : 0, updatedBy, updatedAt: now });
+        }
+        for (const row of priceTierOverrideRows(rules)) insertOverride.run(row);
+      })();
+      return readPricingRules();
+    },
+
+    async setProductMeta(productId: string, patch: ProductMetaPatch, updatedBy: string | null) {
+      const exists = sqlite.prepare(`SELECT 1 FROM products WHERE id = ?`).get(productId);
+      if (!exists) return { ok: false as const, error: "Product not found" };
+
+      const current = sqlite
+        .prepare(`SELECT display_name, notes, tags, source_currency, source_amount FROM product_meta WHERE product_id = ?`)
+        .get(productId) as Record<string, unknown> | undefined;
+      const meta: ProductMeta = {
+        productId,
+        displayName:
+          patch.displayName !== undefined
+            ? patch.displayName
+            : current?.display_name == null
+              ? null
+              : String(current.display_name),
+        notes: patch.notes !== undefined ? patch.notes : current?.notes == null ? null : String(current.notes),
+        tags: patch.tags ?? parseTags(current?.tags),
+        sourceCurrency:
+          patch.sourceCurrency !== undefined
+            ? patch.sourceCurrency
+            : current?.source_currency == null
+              ? null
+              : String(current.source_currency),
+        sourceAmount:
+          patch.sourceAmount !== undefined
+            ? patch.sourceAmount
+            : current?.source_amount == null
+              ? null
+              : Number(current.source_amount),
+        updatedBy,
+        updatedAt: Date.now(),
+      };
+
       sqlite
         .prepare(
           `
-          INSERT INTO prices(product_id, dealer_price, updated_at)
-          VALUES(?, ?, ?)
-          ON CONFLICT(product_id) DO UPDATE SET dealer_price=excluded.dealer_price, updated_at=excluded.updated_at
+          INSERT INTO product_meta(product_id, display_name, notes, tags, source_currency, source_amount, updated_by, updated_at)
+          VALUES(@productId, @displayName, @notes, @tags, @sourceCurrency, @sourceAmount, @updatedBy, @updatedAt)
+          ON CONFLICT(product_id) DO UPDATE SET
+            display_name=excluded.display_name,
+            notes=excluded.notes,
+            tags=excluded.tags,
+            source_currency=excluded.source_currency,
+            source_amount=excluded.source_amount,
+            updated_by=excluded.updated_by,
+            updated_at=excluded.updated_at
         `,
         )
-        .run(productId, dealerPrice, now);
+        .run({ ...meta, tags: JSON.stringify(meta.tags) });
+      return { ok: true as const, meta };
+    },
+
+    async listCompanies() {
+      return readCompanies();
+    },
+
+    async saveCompanies(companies: CompanyInput[]) {
+      const now = Date.now();
+      const existing = new Map(readCompanies().map((c) => [c.id, c]));
+      const keep = new Set(companies.map((c) => c.id));
+      const dropped = Array.from(existing.keys()).filter((id) => !keep.has(id));
+      for (const id of dropped) {
+        const owned = sqlite.prepare(`SELECT 1 FROM products WHERE company_id = ? LIMIT 1`).get(id);
+        if (owned) {
+          return { ok: false as const, error: `${existing.get(id)?.name ?? id} still has products; mark it inactive instead.` };
+        }
+      }
+
+      const upsert = sqlite.prepare(`
+        INSERT INTO companies(id, name, tally_company, godowns, active, created_at, updated_at)
+        VALUES (@id, @name, @tallyCompany, @godowns, @active, @createdAt, @updatedAt)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          tally_company = excluded.tally_company,
+          godowns = excluded.godowns,
+          active = excluded.active,
+          updated_at = excluded.updated_at
+      `);
+      sqlite.transaction(() => {
+        for (const id of dropped) sqlite.prepare(`DELETE FROM companies WHERE id = ?`).run(id);
+        for (const c of companies) {
+          const prev = existing.get(c.id);
+          const unchanged =
+            prev != null &&
+            prev.name === c.name &&
+            prev.tallyCompany === c.tallyCompany &&
+            prev.active === c.active &&
+            JSON.stringify(prev.godowns) === JSON.stringify(c.godowns);
+          upsert.run({
+            id: c.id,
+            name: c.name,
+            tallyCompany: c.tallyCompany,
+            godowns: JSON.stringify(c.godowns),
+            active: c.active ? 1 : 0,
+            createdAt: prev?.createdAt ?? now,
+            updatedAt: unchanged ? prev.updatedAt : now,
+          });
+        }
+      })();
+      return { ok: true as const, companies: readCompanies() };
+    },
+
+    async listExchangeRates() {
+      return readExchangeRates();
+    },
+
+    async saveExchangeRates(rates: ExchangeRateInput[], updatedBy: string | null) {
+      const now = Date.now();
+      const insert = sqlite.prepare(
+        `INSERT INTO exchange_rates(currency, rate, updated_by, updated_at) VALUES (@currency, @rate, @updatedBy, @updatedAt)`,
+      );
+      // Unchanged rates keep their original author and time.
+      const existing = new Map(readExchangeRates().map((r) => [r.currency, r]));
+      sqlite.transaction(() => {
+        sqlite.prepare(`DELETE FROM exchange_rates`).run();
+        for (const r of rates) {
+          const prev = existing.get(r.currency);
+          const unchanged = prev != null && prev.rate === r.rate;
+          insert.run({
+            currency: r.currency,
+            rate: r.rate,
+            updatedBy: unchanged ? prev.updatedBy : updatedBy,
+            updatedAt: unchanged ? prev.updatedAt : now,
+          });
+        }
+      })();
+      return readExchangeRates();
+    },
+
+    async listChanges(params: ListChangesParams): Promise<ProductChange[]> {
+      const where: string[] = [];
+      const values: unknown[] = [];
+
+      if (params.productId) {
+        where.push(`product_id = ?`);
+        values.push(params.productId);
+      }
+
+      if (params.importRunId) {
+        where.push(`import_run_id = ?`);
+        values.push(params.importRunId);
+      }
+
+      if (params.batchId) {
+        where.push(`batch_id = ?`);
+        values.push(params.batchId);
+      }
+
+      if (params.companyId) {
+        where.push(`product_id IN (SELECT id FROM products WHERE company_id = ?)`);
+        values.push(params.companyId);
+      }
+
+      if (params.since) {
+        where.push(`created_at >= ?`);
+        values.push(params.since);
+      }
+
+      if (params.changeTypes && params.changeTypes.length) {
+        where.push(`change_type IN (${params.changeTypes.map(() => "?").join(",")})`);
+        values.push(...params.changeTypes);
+      }
+
+      const limit = Math.min(params.limit ?? 100, 300);
+      values.push(limit);
+
+      const rows = sqlite
+        .prepare(
+          `SELECT id, product_id, import_run_id, batch_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, to_tiers
+           FROM product_changes
+           ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+           ORDER BY created_at DESC
+           LIMIT ?`,
+        )
+        .all(...values) as Array<Record<string, unknown>>;
+
+      return rows.map(mapChangeRow);
+    },
+
+    async listStockHistory(productId: string, params: ListStockHistoryParams): Promise<StockSnapshot[]> {
+      const where: string[] = [`product_id = ?`];
+      const values: unknown[] = [productId];
+      if (params.from != null && Number.isFinite(params.from)) {
+        where.push(`day >= ?`);
+        values.push(snapshotDay(params.from));
+      }
+      if (params.to != null && Number.isFinite(params.to)) {
+        where.push(`day <= ?`);
+        values.push(snapshotDay(params.to));
+      }
+
+      const rows = sqlite
+        .prepare(
+          `SELECT product_id, day, stock_qty, availability, import_run_id, captured_at
+           FROM stock_snapshots
+           WHERE ${where.join(" AND ")}
+           ORDER BY day ASC
+           LIMIT 2000`,
+        )
+        .all(...values) as Array<Record<string, unknown>>;
+
+      return rows.map((r) => ({
+        productId: String(r.product_id ?? ""),
+        day: String(r.day ?? ""),
+        stockQty: r.stock_qty == null ? null : Number(r.stock_qty),
+        availability: parseAvailability(r.availability),
+        importRunId: r.import_run_id == null ? null : String(r.import_run_id),
+        capturedAt: Number(r.captured_at ?? 0),
+      }));
+    },
+
+    async createPriceBatch(batch: NewPriceBatch) {
+      sqlite
+        .prepare(
+          `INSERT INTO price_batches(id, source, label, created_by, created_at, reverts_batch_id)
+           VALUES (@id, @source, @label, @createdBy, @createdAt, @revertsBatchId)`,
+        )
+        .run({ ...batch, revertsBatchId: batch.revertsBatchId ?? null });
+    },
+
+    async getPriceBatch(id: string): Promise<PriceBatch | null> {
+      const row = sqlite.prepare(`SELECT * FROM price_batches WHERE id = ?`).get(id) as Record<string, unknown> | undefined;
+      return row ? mapPriceBatchRow(row) : null;
+    },
+
+    async listPriceBatchChanges(batchId: string): Promise<ProductChange[]> {
+      const rows = sqlite
+        .prepare(
+          `SELECT id, product_id, import_run_id, batch_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, to_tiers
+           FROM product_changes
+           WHERE batch_id = ? AND change_type = 'PRICE_CHANGE'
+           ORDER BY created_at ASC`,
+        )
+        .all(batchId) as Array<Record<string, unknown>>;
+      return rows.map(mapChangeRow);
+    },
+
+    async listPriceChanges(productId: string): Promise<ProductChange[]> {
+      const rows = sqlite
+        .prepare(
+          `SELECT id, product_id, import_run_id, batch_id, product_name, product_brand, change_type, from_qty, to_qty, from_availability, to_availability, from_price, to_price, created_at, to_tiers
+           FROM product_changes
+           WHERE product_id = ? AND change_type = 'PRICE_CHANGE'
+           ORDER BY created_at ASC`,
+        )
+        .all(productId) as Array<Record<string, unknown>>;
+      return rows.map(mapChangeRow);
+    },
+
+    async markPriceBatchUndone(id: string, undoneBy: string | null, undoneAt: number) {
+      const result = sqlite
+        .prepare(`UPDATE price_batches SET undone_at = ?, undone_by = ? WHERE id = ? AND undone_at IS NULL`)
+        .run(undoneAt, undoneBy, id);
+      return result.changes > 0;
+    },
+
+    async clearPriceBatchUndone(id: string, undoneAt: number) {
+      sqlite
+        .prepare(`UPDATE price_batches SET undone_at = NULL, undone_by = NULL WHERE id = ? AND undone_at = ?`)
+        .run(id, undoneAt);
+    },
+
+    async createImportRun(run: NewImportRun) {
+      sqlite
+        .prepare(
+          `INSERT INTO import_runs(id, source, mode, filename, company_id, company, godown, triggered_by, started_at)
+           VALUES (@id, @source, @mode, @filename, @companyId, @company, @godown, @triggeredBy, @startedAt)`,
+        )
+        .run(run);
+    },
+
+    async finishImportRun(id: string, outcome: ImportRunOutcome) {
+      sqlite
+        .prepare(
+          `UPDATE import_runs SET
+             parsed_count = @parsedCount,
+             upserted = @upserted,
+             deleted_brand_rows = @deletedBrandRows,
+             removed_count = @removedCount,
+             error = @error,
+             completed_at = @completedAt,
+             duration_ms = @completedAt - started_at
+           WHERE id = @id`,
+        )
+        .run({ id, ...outcome });
+    },
+
+    async createScheduledPrice(price: NewScheduledPrice) {
+      const exists = sqlite.prepare(`SELECT 1 FROM products WHERE id = ?`).get(price.productId);
+      if (!exists) return { ok: false as const, error: "Product not found" };
+
+      sqlite
+        .prepare(
+          `INSERT INTO scheduled_prices(id, product_id, dealer_price, effective_at, note, created_by, created_at)
+           VALUES (@id, @productId, @dealerPrice, @effectiveAt, @note, @createdBy, @createdAt)`,
+        )
+        .run(price);
+      const scheduled: ScheduledPrice = {
+        ...price,
+        status: "pending",
+        claimedAt: null,
+        appliedAt: null,
+        cancelledAt: null,
+        error: null,
+      };
+      return { ok: true as const, scheduled };
+    },
+
+    async listScheduledPrices(params: ListScheduledPricesParams): Promise<ScheduledPrice[]> {
+      const where: string[] = [];
+      const values: unknown[] = [];
+
+      if (params.productId) {
+        where.push(`product_id = ?`);
+        values.push(params.productId);
+      }
+
+      if (params.status) where.push(SCHEDULED_PRICE_STATUS_SQL[params.status]);
+
+      if (params.dueBy != null) {
+        where.push(`effective_at <= ?`);
+        values.push(params.dueBy);
+      }
+
+      const limit = Math.min(params.limit ?? 100, 1000);
+      values.push(limit);
+
+      const rows = sqlite
+        .prepare(
+          `SELECT * FROM scheduled_prices
+           ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+           ORDER BY effective_at ASC, created_at ASC
+           LIMIT ?`,
+        )
+        .all(...values) as Array<Record<string, unknown>>;
+      return rows.map(mapScheduledPriceRow);
+    },
+
+    async cancelScheduledPrice(id: string, cancelledAt: number) {
+      const result = sqlite
+        .prepare(`UPDATE scheduled_prices SET cancelled_at = ? WHERE id = ? AND ${SCHEDULED_PRICE_STATUS_SQL.pending}`)
+        .run(cancelledAt, id);
+      return result.changes > 0;
+    },
+
+    async claimScheduledPrice(id: string, claimedAt: number) {
+      const result = sqlite
+        .prepare(`UPDATE scheduled_prices SET claimed_at = ? WHERE id = ? AND ${SCHEDULED_PRICE_STATUS_SQL.pending}`)
+        .run(claimedAt, id);
+      return result.changes > 0;
+    },
+
+    async releaseStaleScheduledPriceClaims(claimedBefore: number) {
+      const result = sqlite
+        .prepare(
+          `UPDATE scheduled_prices SET claimed_at = NULL WHERE ${SCHEDULED_PRICE_STATUS_SQL.applying} AND claimed_at < ?`,
+        )
+        .run(claimedBefore);
+      return result.changes;
+    },
+
+    async finishScheduledPrice(id: string, appliedAt: number, error: string | null) {
+      sqlite.prepare(`UPDATE scheduled_prices SET applied_at = ?, error = ? WHERE id = ?`).run(appliedAt, error, id);
+    },
+
+    async createQuote(quote: NewQuote): Promise<Quote> {
+      const insertQuote = sqlite.prepare(
+        `INSERT INTO quotes(id, number, customer_name, note, tier_id, tier_label, subtotal, discount_total, total, valid_until, created_by, created_at)
+         VALUES (@id, @number, @customerName, @note, @tierId, @tierLabel, @subtotal, @discountTotal, @total, @validUntil, @createdBy, @createdAt)`,
+      );
+      const insertLine = sqlite.prepare(
+        `INSERT INTO quote_lines(id, quote_id, position, product_id, product_name, product_brand, unit, qty, unit_price, discount_percent, line_total)
+         VALUES (@id, @quoteId, @position, @productId, @productName, @productBrand, @unit, @qty, @unitPrice, @discountPercent, @lineTotal)`,
+      );
+      const number = sqlite.transaction(() => {
+        const row = sqlite.prepare(`SELECT COALESCE(MAX(number), 0) + 1 AS next FROM quotes`).get() as { next: number };
+        const { lines, ...header } = quote;
+        insertQuote.run({ ...header, number: row.next });
+        lines.forEach((line, position) => insertLine.run({ ...line, quoteId: quote.id, position }));
+        return row.next;
+      })();
+      return { ...quote, number };
+    },
+
+    async getQuote(id: string): Promise<Quote | null> {
+      const row = sqlite
+        .prepare(
+          `SELECT q.id, q.number, q.customer_name, q.note, q.tier_id, q.tier_label, q.subtotal, q.discount_total, q.total, q.valid_until, q.created_by, q.created_at
+           FROM quotes q WHERE q.id = ?`,
+        )
+        .get(id) as Record<string, unknown> | undefined;
+      if (!row) return null;
+      const lines = sqlite
+        .prepare(`SELECT id, product_id, product_name, product_brand, unit, qty, unit_price, discount_percent, line_total FROM quote_lines WHERE quote_id = ? ORDER BY position ASC`)
+        .all(id) as Array<Record<string, unknown>>;
+      return { ...mapQuoteRow(row), lines: lines.map(mapQuoteLineRow) };
+    },
+
+    async listQuotes(params: ListQuotesParams): Promise<QuoteSummary[]> {
+      const limit = Math.min(params.limit ?? 100, 500);
+      const rows = sqlite
+        .prepare(
+          `SELECT q.id, q.number, q.customer_name, q.note, q.tier_id, q.tier_label, q.subtotal, q.discount_total, q.total, q.valid_until, q.created_by, q.created_at, (SELECT COUNT(*) FROM quote_lines l WHERE l.quote_id = q.id) AS line_count
+           FROM quotes q
+           ORDER BY q.number DESC
+           LIMIT ?`,
+        )
+        .all(limit) as Array<Record<string, unknown>>;
+      return rows.map((r) => ({ ...mapQuoteRow(r), lineCount: Number(r.line_count ?? 0) }));
+    },
+
+    async listImportRuns(params: ListImportRunsParams): Promise<ImportRun[]> {
+      const where: string[] = [];
+      const values: unknown[] = [];
+
+      if (params.source) {
+        where.push(`source = ?`);
+        values.push(params.source);
+      }
+
+      if (params.companyId) {
+        where.push(`company_id = ?`);
+        values.push(params.companyId);
+      }
+
+      const limit = Math.min(params.limit ?? 50, 300);
+      values.push(limit);
+
+      const rows = sqlite
+        .prepare(
+          `SELECT * FROM import_runs
+           ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+           ORDER BY started_at DESC
+           LIMIT ?`,
+        )
+        .all(...values) as Array<Record<string, unknown>>;
+      return rows.map(mapImportRunRow);
+    },
+
+    async getImportRun(id: string): Promise<ImportRun | null> {
+      const row = sqlite.prepare(`SELECT * FROM import_runs WHERE id = ?`).get(id) as Record<string, unknown> | undefined;
+      return row ? mapImportRunRow(row) : null;
+    },
 
-      return { ok: true as const };
+    async getMigrationStatus(): Promise<MigrationStatus> {
+      return buildMigrationStatus(readAppliedMigrations(sqlite));
     },
 
-    async listChanges(_params: ListChangesParams): Promise<ProductChange[]> {
-      // SQLite provider is only used for admin migration; change feed not required here.
-      return [];
+    async migrate(): Promise<MigrationRunResult> {
+      const ran = runMigrations(sqlite);
+      return { ...buildMigrationStatus(readAppliedMigrations(sqlite)), ran };
     },
   };
 }
@@ -1,17 +1,68 @@
 import type { Availability } from "@/lib/domain";
+import type { ExchangeRate } from "@/lib/currency";
+import type { Category } from "@/lib/categories";
+import type { Company } from "@/lib/companies";
+import type { PricingRules } from "@/lib/pricing";
+
+/** One Tally godown's share of a product's stock. */
+export type StockLocation = {
+  godown: string;
+  qty: number | null;
+};
 
 export type ProductRow = {
   id: string;
   name: string;
   brand: string | null;
+  /** Tally stock group the item sits in directly; null for file imports without a group tree. */
+  category: string | null;
   stockQty: number | null;
   unit: string | null;
   availability: Availability;
   lastSeenAt: number | null;
   updatedAt: number;
   dealerPrice: number | null;
+  /** Tally closing rate per unit from the latest import that carried one. */
+  costPrice: number | null;
+  /** Set when a snapshot import no longer contained this product; cleared when it reappears. */
+  removedAt: number | null;
+  /** Owner-curated name shown instead of the raw Tally item name (from product_meta; imports never touch it). */
+  displayName: string | null;
+  notes: string | null;
+  tags: string[];
+  /** Supplier quote in a foreign currency (e.g. USD 25), converted with exchange_rates for landed cost. */
+  sourceCurrency: string | null;
+  sourceAmount: number | null;
+  /** Per-godown breakdown of stockQty, by godown name; empty when the last import did not name godowns. */
+  locations: StockLocation[];
+};
+
+export type ProductMeta = {
+  productId: string;
+  displayName: string | null;
+  notes: string | null;
+  tags: string[];
+  sourceCurrency: string | null;
+  sourceAmount: number | null;
+  updatedBy: string | null;
+  updatedAt: number;
 };
 
+/** Omitted fields keep their stored value; `null` (or `[]` for tags) clears them. */
+export type ProductMetaPatch = {
+  displayName?: string | null;
+  notes?: string | null;
+  tags?: string[];
+  sourceCurrency?: string | null;
+  sourceAmount?: number | null;
+};
+
+/** One registry entry as sent to saveCompanies; timestamps are kept or set by the provider. */
+export type CompanyInput = Omit<Company, "createdAt" | "updatedAt">;
+
+/** One currency's rate as sent to saveExchangeRates. */
+export type ExchangeRateInput = Pick<ExchangeRate, "currency" | "rate">;
+
 export type Summary = {
   total: number;
   inStock: number;
@@ -22,12 +73,35 @@ export type Summary = {
 };
 
 export type ListProductsParams = {
+  /** Only the product with this id. */
+  id?: string;
+  /** Only this company's products; omitted lists every company. */
+  companyId?: string;
   search?: string;
   brand?: string;
+  /** Only products in this stock group or any group below it. */
+  category?: string;
   availability?: Availability;
-  sort?: "name" | "qty" | "availability";
+  /** true = only products missing from the latest snapshot, false = only present ones */
+  removed?: boolean;
+  /** Only products with non-zero stock at this godown. */
+  location?: string;
+  sort?: ProductSortKey;
   dir?: "asc" | "desc";
   limit?: number;
+  offset?: number;
+};
+
+export type ProductSortKey = "name" | "qty" | "availability" | "dealerPrice";
+
+/** Totals for a filtered product list (limit/offset/sort are ignored). */
+export type ProductCounts = {
+  total: number;
+  inStock: number;
+  outOfStock: number;
+  negative: number;
+  unknown: number;
+  removed: number;
 };
 
 export type UpsertStockItem = {
@@ -35,19 +109,38 @@ export type UpsertStockItem = {
   name: string;
   nameKey: string;
   brand: string | null;
+  /** null keeps the stored category. */
+  category: string | null;
   stockQty: number | null;
   unit: string | null;
   availability: Availability;
+  /** null keeps the stored cost. */
+  costPrice: number | null;
+  /** Replaces the product's per-godown rows; omitted or empty clears them (e.g. a file import). */
+  locations?: StockLocation[];
   lastSeenAt: number;
   createdAt: number;
   updatedAt: number;
 };
 
-export type ProductChangeType = "NEW_PRODUCT" | "STOCK_DROP" | "OUT_OF_STOCK" | "PRICE_CHANGE";
+/** Adding a type also needs a migration that widens the change_type CHECK (see ./migrations). */
+export const PRODUCT_CHANGE_TYPES = [
+  "NEW_PRODUCT",
+  "STOCK_DROP",
+  "OUT_OF_STOCK",
+  "PRICE_CHANGE",
+  "REMOVED_FROM_EXPORT",
+  "STOCK_INCREASE",
+  "BACK_IN_STOCK",
+] as const;
+export type ProductChangeType = (typeof PRODUCT_CHANGE_TYPES)[number];
 
 export type ProductChange = {
   id: string;
   productId: string;
+  importRunId: string | null;
+  /** Set on PRICE_CHANGE rows written by a bulk price operation. */
+  batchId: string | null;
   name: string;
   brand: string | null;
   changeType: ProductChangeType;
@@ -57,6 +150,8 @@ export type ProductChange = {
   toAvailability: Availability | null;
   fromPrice: number | null;
   toPrice: number | null;
+  /** PRICE_CHANGE only: tier prices derived from toPrice with the rules in force then; null on older rows. */
+  toTiers: Record<string, number | null> | null;
   createdAt: number;
 };
 
@@ -65,15 +160,284 @@ export type ListChangesParams = {
   changeTypes?: ProductChangeType[];
   since?: number;
   productId?: string;
+  importRunId?: string;
+  batchId?: string;
+  /** Only changes to this company's products; omitted lists every company. */
+  companyId?: string;
+};
+
+export type PriceBatchSource = "import" | "adjustment" | "undo";
+
+export type NewPriceBatch = {
+  id: string;
+  source: PriceBatchSource;
+  /** e.g. the uploaded file name or "+8% Yonex" */
+  label: string | null;
+  createdBy: string | null;
+  createdAt: number;
+  /** Set on "undo" batches. */
+  revertsBatchId?: string | null;
+};
+
+export type PriceBatch = NewPriceBatch & {
+  revertsBatchId: string | null;
+  undoneAt: number | null;
+  undoneBy: string | null;
+};
+
+export type SetDealerPriceOptions = {
+  batchId?: string | null;
+};
+
+/** "applying" is a claimed schedule whose price is being written; a claim that is never finished expires to "pending". */
+export type ScheduledPriceStatus = "pending" | "applying" | "applied" | "failed" | "cancelled";
+
+export type NewScheduledPrice = {
+  id: string;
+  productId: string;
+  dealerPrice: number;
+  effectiveAt: number;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: number;
+};
+
+export type ScheduledPrice = NewScheduledPrice & {
+  status: ScheduledPriceStatus;
+  claimedAt: number | null;
+  appliedAt: number | null;
+  cancelledAt: number | null;
+  error: string | null;
+};
+
+export type ListScheduledPricesParams = {
+  productId?: string;
+  status?: ScheduledPriceStatus;
+  /** Only rows effective at or before this time. */
+  dueBy?: number;
+  limit?: number;
+};
+
+export type QuoteLine = {
+  id: string;
+  /** Null once the product is deleted; the name, brand and price are a snapshot from quoting time. */
+  productId: string | null;
+  productName: string;
+  productBrand: string | null;
+  unit: string | null;
+  qty: number;
+  /** Tier price per unit when the quote was made. */
+  unitPrice: number;
+  discountPercent: number;
+  lineTotal: number;
+};
+
+export type NewQuote = {
+  id: string;
+  customerName: string;
+  note: string | null;
+  tierId: string;
+  tierLabel: string;
+  /** Sum of qty × unit price, before line discounts. */
+  subtotal: number;
+  discountTotal: number;
+  total: number;
+  validUntil: number;
+  createdBy: string | null;
+  createdAt: number;
+  lines: QuoteLine[];
+};
+
+export type Quote = NewQuote & {
+  /** Sequential, assigned on insert. */
+  number: number;
+};
+
+export type QuoteSummary = Omit<Quote, "lines"> & { lineCount: number };
+
+export type ListQuotesParams = {
+  limit?: number;
+};
+
+export type ImportRunSource = "auto" | "upload" | "sample" | "tally";
+
+export type ImportRunStatus = "running" | "success" | "failed";
+
+/**
+ * partial: only touch products present in the import.
+ * snapshot: the import is the full stock list; anything not in it is marked removed and zeroed.
+ */
+export type ImportMode = "partial" | "snapshot";
+
+export type NewImportRun = {
+  id: string;
+  source: ImportRunSource;
+  mode: ImportMode;
+  filename: string | null;
+  /** Registry company the run synced into. */
+  companyId: string;
+  /** Tally company name, for Tally syncs. */
+  company: string | null;
+  godown: string | null;
+  triggeredBy: string | null;
+  startedAt: number;
+};
+
+export type ImportRunOutcome = {
+  parsedCount: number;
+  upserted: number;
+  deletedBrandRows: number;
+  removedCount: number;
+  error: string | null;
+  completedAt: number;
+};
+
+export type ImportRun = NewImportRun & {
+  status: ImportRunStatus;
+  parsedCount: number;
+  upserted: number;
+  deletedBrandRows: number;
+  removedCount: number;
+  error: string | null;
+  completedAt: number | null;
+  durationMs: number | null;
+};
+
+export type ListImportRunsParams = {
+  limit?: number;
+  source?: ImportRunSource;
+  /** Only runs into this company; omitted lists every company. */
+  companyId?: string;
+};
+
+export type UpsertStockOptions = {
+  importRunId?: string | null;
+  /** Company the items belong to (default "default"); deletes and removals stay within it. */
+  companyId?: string;
+  /** Products to delete as part of the same transaction (brand header rows that slipped in as items). */
+  deleteNameKeys?: string[];
+  /** Snapshot mode: products not seen since this timestamp are marked removed in the same transaction. */
+  markRemovedBefore?: number;
+};
+
+export type UpsertStockResult = {
+  upserted: number;
+  deleted: number;
+  removed: number;
+};
+
+/**
+ * One row per product per calendar day (server local time); later imports on the same day overwrite it.
+ */
+export type StockSnapshot = {
+  productId: string;
+  /** YYYY-MM-DD */
+  day: string;
+  stockQty: number | null;
+  availability: Availability;
+  importRunId: string | null;
+  capturedAt: number;
+};
+
+export type ListStockHistoryParams = {
+  /** Epoch ms, inclusive; compared by calendar day. */
+  from?: number;
+  /** Epoch ms, inclusive; compared by calendar day. */
+  to?: number;
+};
+
+export type AppliedMigration = {
+  id: string;
+  description: string;
+  appliedAt: number;
+};
+
+export type MigrationStatus = {
+  applied: AppliedMigration[];
+  pending: Array<{ id: string; description: string }>;
+  upToDate: boolean;
+};
+
+export type MigrationRunResult = MigrationStatus & {
+  /** Ids applied by this call, in order. */
+  ran: string[];
 };
 
 export type DbProvider = {
   kind: "neon" | "sqlite";
-  getSummary(): Promise<Summary>;
-  listBrands(): Promise<string[]>;
+  /** Stock counts for one company's products; without a company, every company is counted. */
+  getSummary(companyId?: string): Promise<Summary>;
+  listBrands(companyId?: string): Promise<string[]>;
+  /** Godown names that hold stock rows, alphabetically. */
+  listLocations(companyId?: string): Promise<string[]>;
+  /** The stock group tree, by name; without a company, groups of every company are merged. */
+  listCategories(companyId?: string): Promise<Category[]>;
+  /** Replaces the company's stock group tree (each Tally sync sends the full list). */
+  replaceCategories(companyId: string, categories: Category[]): Promise<void>;
   listProducts(params: ListProductsParams): Promise<ProductRow[]>;
-  upsertStock(items: UpsertStockItem[]): Promise<{ upserted: number }>;
-  deleteProductsByNameKeys(nameKeys: string[]): Promise<{ deleted: number }>;
-  setDealerPrice(productId: string, dealerPrice: number | null): Promise<{ ok: true } | { ok: false; error: string }>;
+  countProducts(params: ListProductsParams): Promise<ProductCounts>;
+  /** Applies the whole batch (upserts, change log, snapshots, deletes, removals) atomically. */
+  upsertStock(items: UpsertStockItem[], options?: UpsertStockOptions): Promise<UpsertStockResult>;
+  deleteProductsByNameKeys(nameKeys: string[], companyId?: string): Promise<{ deleted: number }>;
+  /** Zeroes and flags every product not seen since `seenAt`, recording REMOVED_FROM_EXPORT changes. */
+  markProductsRemoved(
+    seenAt: number,
+    options?: Pick<UpsertStockOptions, "importRunId" | "companyId">,
+  ): Promise<{ removed: number }>;
+  setDealerPrice(
+    productId: string,
+    dealerPrice: number | null,
+    options?: SetDealerPriceOptions,
+  ): Promise<{ ok: true } | { ok: false; error: string }>;
+  createPriceBatch(batch: NewPriceBatch): Promise<void>;
+  getPriceBatch(id: string): Promise<PriceBatch | null>;
+  /** Every PRICE_CHANGE recorded under the batch, oldest first (not capped like listChanges). */
+  listPriceBatchChanges(batchId: string): Promise<ProductChange[]>;
+  /** Stamps the batch as undone; false if it was already undone (or does not exist). */
+  markPriceBatchUndone(id: string, undoneBy: string | null, undoneAt: number): Promise<boolean>;
+  /** Clears the undone stamp set at `undoneAt`, when that undo reverted nothing. */
+  clearPriceBatchUndone(id: string, undoneAt: number): Promise<void>;
+  setProductMeta(
+    productId: string,
+    patch: ProductMetaPatch,
+    updatedBy: string | null,
+  ): Promise<{ ok: true; meta: ProductMeta } | { ok: false; error: string }>;
+  getPricingRules(): Promise<PricingRules>;
+  /** Replaces every price tier and brand override. */
+  savePricingRules(rules: PricingRules, updatedBy: string | null): Promise<PricingRules>;
+  listCompanies(): Promise<Company[]>;
+  /** Replaces the registry; a company that still owns products cannot be left out (deactivate it instead). */
+  saveCompanies(companies: CompanyInput[]): Promise<{ ok: true; companies: Company[] } | { ok: false; error: string }>;
+  listExchangeRates(): Promise<ExchangeRate[]>;
+  /** Replaces every stored rate. */
+  saveExchangeRates(rates: ExchangeRateInput[], updatedBy: string | null): Promise<ExchangeRate[]>;
   listChanges(params: ListChangesParams): Promise<ProductChange[]>;
+  /** Every PRICE_CHANGE recorded for the product, oldest first (not capped like listChanges). */
+  listPriceChanges(productId: string): Promise<ProductChange[]>;
+  listStockHistory(productId: string, params: ListStockHistoryParams): Promise<StockSnapshot[]>;
+  createImportRun(run: NewImportRun): Promise<void>;
+  finishImportRun(id: string, outcome: ImportRunOutcome): Promise<void>;
+  createScheduledPrice(
+    price: NewScheduledPrice,
+  ): Promise<{ ok: true; scheduled: ScheduledPrice } | { ok: false; error: string }>;
+  /** Ordered by effective time, soonest first. */
+  listScheduledPrices(params: ListScheduledPricesParams): Promise<ScheduledPrice[]>;
+  /** Cancels a pending schedule; false if it was already applied, cancelled or does not exist. */
+  cancelScheduledPrice(id: string, cancelledAt: number): Promise<boolean>;
+  /** Moves a pending schedule to applying before the price is written, so only one caller applies it. */
+  claimScheduledPrice(id: string, claimedAt: number): Promise<boolean>;
+  /** Returns schedules claimed before `claimedBefore` and never finished to pending; resolves to how many. */
+  releaseStaleScheduledPriceClaims(claimedBefore: number): Promise<number>;
+  /** Finishes a claimed schedule as applied, or as failed when `error` is set. */
+  finishScheduledPrice(id: string, appliedAt: number, error: string | null): Promise<void>;
+  /** Stores the quote and its lines together, numbering it one past the highest quote so far. */
+  createQuote(quote: NewQuote): Promise<Quote>;
+  getQuote(id: string): Promise<Quote | null>;
+  /** Newest first. */
+  listQuotes(params: ListQuotesParams): Promise<QuoteSummary[]>;
+  listImportRuns(params: ListImportRunsParams): Promise<ImportRun[]>;
+  getImportRun(id: string): Promise<ImportRun | null>;
+  getMigrationStatus(): Promise<MigrationStatus>;
+  /** Applies pending migrations in order; each one commits together with its schema_migrations row. */
+  migrate(): Promise<MigrationRunResult>;
 };
@@ -6,8 +6,48 @@ import { parseTallyXlsx } from "@/server/parsers/xlsx";
 import { parseTallyXml } from "@/server/parsers/xml";
 import type { ParsedItem } from "@/server/parsers/types";
 import { db } from "@/server/db";
+import { DEFAULT_COMPANY_ID } from "@/lib/companies";
+import type { ImportMode, ImportRunSource } from "@/server/db/types";
 
-export type ImportSource = "auto" | "upload" | "sample";
+export type ImportSource = ImportRunSource;
+
+/**
+ * Accepts "partial" or "snapshot" (case-insensitive); anything else yields null.
+ */
+export function parseImportMode(value: unknown): ImportMode | null {
+  const v = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return v === "partial" || v === "snapshot" ? v : null;
+}
+
+/**
+ * Mode used when a caller does not ask for one. Set IMPORT_MODE=snapshot once every export is a full Godown Summary.
+ */
+export function defaultImportMode(): ImportMode {
+  return parseImportMode(process.env.IMPORT_MODE) ?? "partial";
+}
+
+/**
+ * Describes where a batch came from. Recorded on the import_runs row that every sync writes.
+ */
+export type ImportRunContext = {
+  source: ImportSource;
+  filename?: string | null;
+  /** Registry id the products belong to (default "default"); `company` is the Tally name for the run record. */
+  companyId?: string;
+  company?: string | null;
+  godown?: string | null;
+  triggeredBy?: string | null;
+  /** In snapshot mode, products missing from this batch are zeroed and flagged as removed. */
+  mode?: ImportMode;
+  /** Defaults to the moment syncParsedItems starts; pass earlier to include fetch/parse time. */
+  startedAt?: number;
+};
+
+export type ImportOptions = {
+  triggeredBy?: string | null;
+  mode?: ImportMode;
+  companyId?: string;
+};
 
 async function parseByExtension(ext: string, content: Buffer): Promise<ParsedItem[]> {
   if (ext === ".xlsx") return await parseTallyXlsx(content);
@@ -15,7 +55,8 @@ async function parseByExtension(ext: string, content: Buffer): Promise<ParsedIte
   throw new Error(`Unsupported file type: ${ext || "(no extension)"}. Expected .xlsx or .xml`);
 }
 
-export async function importFromPath(filePath: string, source: ImportSource) {
+export async function importFromPath(filePath: string, source: ImportSource, options: ImportOptions = {}) {
+  const startedAt = Date.now();
   const stat = await fs.stat(filePath);
   const ext = path.extname(filePath).toLowerCase();
   const content = await fs.readFile(filePath);
@@ -25,7 +66,14 @@ export async function importFromPath(filePath: string, source: ImportSource) {
       `No items detected in ${path.basename(filePath)}. Ensure the export is a Tally Godown Summary and includes a Closing Qty column/field.`,
     );
   }
-  const result = await syncParsedItems(parsed);
+  const result = await syncParsedItems(parsed, {
+    source,
+    filename: path.basename(filePath),
+    companyId: options.companyId,
+    triggeredBy: options.triggeredBy,
+    mode: options.mode,
+    startedAt,
+  });
   return {
     source,
     path: filePath,
@@ -37,7 +85,13 @@ export async function importFromPath(filePath: string, source: ImportSource) {
   };
 }
 
-export async function importFromUpload(filename: string, content: Buffer) {
+export async function importFromUpload(
+  filename: string,
+  content: Buffer,
+  options: ImportOptions & { source?: ImportSource } = {},
+) {
+  const startedAt = Date.now();
+  const source = options.source ?? "upload";
   const ext = path.extname(filename).toLowerCase();
   const parsed = await parseByExtension(ext, content);
   if (parsed.length === 0) {
@@ -45,45 +99,119 @@ export async function importFromUpload(filename: string, content: Buffer) {
       `No items detected in ${filename}. Ensure the export is a Tally Godown Summary and includes a Closing Qty column/field.`,
     );
   }
-  const result = await syncParsedItems(parsed);
-  return { source: "upload" as const, filename, ext, parsedCount: parsed.length, ...result };
+  const result = await syncParsedItems(parsed, {
+    source,
+    filename,
+    companyId: options.companyId,
+    triggeredBy: options.triggeredBy,
+    mode: options.mode,
+    startedAt,
+  });
+  return { source, filename, ext, parsedCount: parsed.length, ...result };
 }
 
-export async function importSampleXml(samplePath: string) {
+export async function importSampleXml(samplePath: string, options: ImportOptions = {}) {
+  const startedAt = Date.now();
   const content = await fs.readFile(samplePath);
   const parsed = parseTallyXml(content.toString("utf8"));
-  const result = await syncParsedItems(parsed);
+  const result = await syncParsedItems(parsed, {
+    source: "sample",
+    filename: path.basename(samplePath),
+    companyId: options.companyId,
+    triggeredBy: options.triggeredBy,
+    mode: options.mode,
+    startedAt,
+  });
   return { source: "sample" as const, filename: path.basename(samplePath), ext: ".xml", parsedCount: parsed.length, ...result };
 }
 
-export async function syncParsedItems(items: ParsedItem[]) {
+export async function syncParsedItems(items: ParsedItem[], context: ImportRunContext) {
   const now = Date.now();
-  const dedup = new Map<string, ParsedItem>();
-  for (const it of items) {
-    const name = normalizeWhitespace(it.name);
-    if (!name) continue;
-    dedup.set(nameKeyFromName(name), { ...it, name });
+  const importRunId = crypto.randomUUID();
+  const mode = context.mode ?? defaultImportMode();
+  await db.createImportRun({
+    id: importRunId,
+    source: context.source,
+    mode,
+    filename: context.filename ?? null,
+    companyId: context.companyId ?? DEFAULT_COMPANY_ID,
+    company: context.company ?? null,
+    godown: context.godown ?? null,
+    triggeredBy: context.triggeredBy ?? null,
+    startedAt: context.startedAt ?? now,
+  });
+
+  let upserted = 0;
+  let deletedBrandRows = 0;
+  let removedCount = 0;
+  try {
+    const dedup = new Map<string, ParsedItem>();
+    for (const it of items) {
+      const name = normalizeWhitespace(it.name);
+      if (!name) continue;
+      dedup.set(nameKeyFromName(name), { ...it, name });
+    }
+    const normalized = Array.from(dedup.entries()).map(([nameKey, it]) => ({
+      id: crypto.randomUUID(),
+      name: it.name,
+      nameKey,
+      brand: it.brand ? normalizeWhitespace(it.brand) : null,
+      category: it.category ? normalizeWhitespace(it.category) : null,
+      stockQty: it.qty,
+      unit: it.unit ? normalizeWhitespace(it.unit) : null,
+      availability: availabilityFromQty(it.qty),
+      // Tally leaves the rate blank (or 0) for items without stock; keep the last known cost then.
+      costPrice: it.rate != null && Number.isFinite(it.rate) && it.rate > 0 ? it.rate : null,
+      // File imports carry no per-godown split, so their products' location rows are cleared.
+      locations: it.locations,
+      lastSeenAt: now,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    // Guard against a common bad-import failure mode where brand total/header rows got inserted
+    // as products in older versions. Brand header (and stock group) names should never be product rows.
+    const brandNameKeys = Array.from(
+      new Set(
+        normalized
+          .flatMap((n) => [n.brand, n.category])
+          .filter(Boolean)
+          .map((b) => nameKeyFromName(String(b))),
+      ),
+    );
+    // Upserts, brand-row cleanup and (in snapshot mode) removals commit together or not at all.
+    // Everything in the export was stamped with lastSeenAt = now; older rows are no longer in Tally.
+    const result = await db.upsertStock(normalized, {
+      importRunId,
+      deleteNameKeys: brandNameKeys,
+      companyId: context.companyId,
+      markRemovedBefore: mode === "snapshot" ? now : undefined,
+    });
+    upserted = result.upserted;
+    deletedBrandRows = result.deleted;
+    removedCount = result.removed;
+  } catch (e) {
+    await db
+      .finishImportRun(importRunId, {
+        parsedCount: items.length,
+        upserted,
+        deletedBrandRows,
+        removedCount,
+        error: e instanceof Error ? e.message : String(e),
+        completedAt: Date.now(),
+      })
+      .catch((finishError) => console.error("[importer] Failed to record import run error", finishError));
+    throw e;
   }
-  const normalized = Array.from(dedup.entries()).map(([nameKey, it]) => ({
-    id: crypto.randomUUID(),
-    name: it.name,
-    nameKey,
-    brand: it.brand ? normalizeWhitespace(it.brand) : null,
-    stockQty: it.qty,
-    unit: it.unit ? normalizeWhitespace(it.unit) : null,
-    availability: availabilityFromQty(it.qty),
-    lastSeenAt: now,
-    createdAt: now,
-    updatedAt: now,
-  }));
 
-  const result = await db.upsertStock(normalized);
-  // Guard against a common bad-import failure mode where brand total/header rows got inserted
-  // as products in older versions. Brand header names should never be product rows.
-  const brandNameKeys = Array.from(
-    new Set(normalized.map((n) => n.brand).filter(Boolean).map((b) => nameKeyFromName(String(b)))),
-  );
-  await db.deleteProductsByNameKeys(brandNameKeys);
+  await db.finishImportRun(importRunId, {
+    parsedCount: items.length,
+    upserted,
+    deletedBrandRows,
+    removedCount,
+    error: null,
+    completedAt: Date.now(),
+  });
 
-  return { upserted: result.upserted };
+  return { upserted, deletedBrandRows, removedCount, mode, importRunId };
 }
@@ -1,7 +1,15 @@
+import type { StockLocation } from "@/server/db/types";
+
 export type ParsedItem = {
   name: string;
   brand: string | null;
+  /** The item's own stock group when the source has a group tree (Tally); `brand` is then its top-level group. */
+  category?: string | null;
   qty: number | null;
   unit: string | null;
+  /** Closing rate per unit (Tally's stock valuation, i.e. cost); null when the export leaves it blank. */
+  rate: number | null;
+  /** Quantity per godown when the source covers several; `qty` is then their sum. */
+  locations?: StockLocation[];
 };
 
@@ -172,6 +172,7 @@ export async function parseTallyXlsx(buffer: Buffer): Promise<ParsedItem[]> {
       brand: currentBrand,
       qty: r.qty,
       unit: r.unit,
+      rate: r.rate,
     });
   }
 
@@ -1,5 +1,5 @@
 import { XMLParser } from "fast-xml-parser";
-import { looksLikeBrandHeader, normalizeWhitespace, parseQty, shouldIgnoreRowName } from "./common";
+import { looksLikeBrandHeader, normalizeWhitespace, parseMaybeNumber, parseQty, shouldIgnoreRowName } from "./common";
 import type { ParsedItem } from "./types";
 
 function nodeText(node: unknown): string | null {
@@ -33,6 +33,22 @@ function getQtyFromStkInfo(stkNode: unknown): { qty: number | null; unit: string
   return parseQty(qtyText);
 }
 
+// With preserveOrder each child is its own { TAG: [...] } entry, so siblings after the first need a search.
+function findChild(node: unknown, parentTag: string, tag: string): unknown | null {
+  if (!node || typeof node !== "object") return null;
+  const children = (node as Record<string, unknown>)[parentTag];
+  if (!Array.isArray(children)) return null;
+  const match = children.find((c) => !!c && typeof c === "object" && tag in (c as Record<string, unknown>));
+  return match ? firstChild(match, tag) : null;
+}
+
+function getRateFromStkInfo(stkNode: unknown): number | null {
+  const rateNode = findChild(stkNode, "DSPSTKCL", "DSPCLRATE");
+  const rateText = rateNode ? nodeText(rateNode) : null;
+  // "1250.00/nos" parses as 1250.
+  return parseMaybeNumber(rateText);
+}
+
 export function parseTallyXml(xmlText: string): ParsedItem[] {
   const parser = new XMLParser({
     preserveOrder: true,
@@ -68,6 +84,7 @@ export function parseTallyXml(xmlText: string): ParsedItem[] {
     if ("DSPSTKINFO" in obj && pendingName) {
       const stkNode = Array.isArray(obj.DSPSTKINFO) ? obj.DSPSTKINFO[0] : null;
       const { qty, unit } = stkNode ? getQtyFromStkInfo(stkNode) : { qty: null, unit: null };
+      const rate = stkNode ? getRateFromStkInfo(stkNode) : null;
 
       if (shouldIgnoreRowName(pendingName)) {
         pendingName = null;
@@ -85,6 +102,7 @@ export function parseTallyXml(xmlText: string): ParsedItem[] {
         brand: currentBrand,
         qty,
         unit,
+        rate,
       });
       pendingName = null;
       continue;
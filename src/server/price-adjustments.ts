@@ -0,0 +1,139 @@
+import { COMPANY_ID } from "@/lib/companies";
+import { AVAILABILITIES } from "@/lib/domain";
+import type { ListProductsParams } from "@/server/db/types";
+import { applyPriceBatch, type PriceBatchResult } from "@/server/price-batches";
+import { searchProducts } from "@/server/product-search";
+
+export type PriceAdjustmentKind = "percent" | "fixed";
+
+export type PriceAdjustment = {
+  kind: PriceAdjustmentKind;
+  /** Percent (8 = +8%) or LKR amount; negative values lower prices. */
+  value: number;
+};
+
+/** The /products filters the adjustment applies to; `search` uses the same fuzzy matching as the list. */
+export type PriceAdjustmentFilters = Pick<ListProductsParams, "search" | "brand" | "availability" | "removed" | "location" | "category" | "companyId">;
+
+export type PriceAdjustmentRequest = { filters: PriceAdjustmentFilters; adjustment: PriceAdjustment };
+
+export type PriceAdjustmentItem = {
+  productId: string;
+  name: string;
+  displayName: string | null;
+  brand: string | null;
+  oldPrice: number;
+  newPrice: number;
+};
+
+export type PriceAdjustmentPreview = {
+  items: PriceAdjustmentItem[];
+  /** Matching products without a dealer price; there is nothing to adjust. */
+  withoutPrice: number;
+  /** Matching products the adjustment would take below zero. */
+  belowZero: number;
+};
+
+const MAX_PRODUCTS = 20000;
+const PERCENT_RANGE = [-90, 500] as const;
+
+/** Validates a preview/apply request body; returns an error message for the 400 response. */
+export function parsePriceAdjustmentRequest(body: unknown): PriceAdjustmentRequest | { error: string } {
+  const raw = body as { filters?: Record<string, unknown>; adjustment?: Record<string, unknown> } | null;
+  const kind = raw?.adjustment?.kind;
+  const value = raw?.adjustment?.value;
+  if (kind !== "percent" && kind !== "fixed") return { error: "adjustment.kind must be 'percent' or 'fixed'." };
+  if (typeof value !== "number" || !Number.isFinite(value) || value === 0) {
+    return { error: "adjustment.value must be a non-zero number." };
+  }
+  if (kind === "percent" && (value < PERCENT_RANGE[0] || value > PERCENT_RANGE[1])) {
+    return { error: `Percentage must be between ${PERCENT_RANGE[0]} and ${PERCENT_RANGE[1]}.` };
+  }
+
+  const filters = raw?.filters ?? {};
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  const availability = AVAILABILITIES.find((a) => a === filters.availability);
+  return {
+    adjustment: { kind, value },
+    filters: {
+      search: text(filters.search),
+      brand: text(filters.brand),
+      availability,
+      removed: typeof filters.removed === "boolean" ? filters.removed : undefined,
+      location: text(filters.location),
+      category: text(filters.category),
+      companyId: typeof filters.companyId === "string" && COMPANY_ID.test(filters.companyId) ? filters.companyId : undefined,
+    },
+  };
+}
+
+/** New dealer price, rounded to whole rupees. */
+export function adjustDealerPrice(price: number, adjustment: PriceAdjustment): number {
+  const next = adjustment.kind === "percent" ? price * (1 + adjustment.value / 100) : price + adjustment.value;
+  return Math.round(next);
+}
+
+/** e.g. "+8% · Yonex" or "-250 LKR · Li-Ning, in stock, "astrox"" */
+export function describePriceAdjustment({ filters, adjustment }: PriceAdjustmentRequest): string {
+  const sign = adjustment.value > 0 ? "+" : "";
+  const amount = adjustment.kind === "percent" ? `${sign}${adjustment.value}%` : `${sign}${adjustment.value} LKR`;
+  const scope = [
+    filters.brand === "__unknown__" ? "no brand" : filters.brand,
+    filters.category,
+    filters.availability?.toLowerCase().replace(/_/g, " "),
+    filters.removed ? "removed" : undefined,
+    filters.location ? `at ${filters.location}` : undefined,
+    filters.search ? `"${filters.search}"` : undefined,
+  ].filter(Boolean);
+  return scope.length ? `${amount} · ${scope.join(", ")}` : `${amount} · all products`;
+}
+
+export async function previewPriceAdjustment({ filters, adjustment }: PriceAdjustmentRequest): Promise<PriceAdjustmentPreview> {
+  const { items: rows } = await searchProducts({
+    ...filters,
+    fuzzy: Boolean(filters.search),
+    sort: "name",
+    limit: MAX_PRODUCTS,
+  });
+
+  const preview: PriceAdjustmentPreview = { items: [], withoutPrice: 0, belowZero: 0 };
+  for (const row of rows) {
+    if (row.dealerPrice == null) {
+      preview.withoutPrice += 1;
+      continue;
+    }
+    const newPrice = adjustDealerPrice(row.dealerPrice, adjustment);
+    if (newPrice < 0) {
+      preview.belowZero += 1;
+      continue;
+    }
+    preview.items.push({
+      productId: row.id,
+      name: row.name,
+      displayName: row.displayName,
+      brand: row.brand,
+      oldPrice: row.dealerPrice,
+      newPrice,
+    });
+  }
+  return preview;
+}
+
+/**
+ * Re-evaluates the adjustment against current prices and applies it to the confirmed products as one
+ * "adjustment" batch. Products that no longer match the filters are left out.
+ */
+export async function applyPriceAdjustment(
+  request: PriceAdjustmentRequest,
+  productIds: string[],
+  createdBy: string | null,
+): Promise<PriceBatchResult> {
+  const confirmed = new Set(productIds);
+  const { items } = await previewPriceAdjustment(request);
+  return applyPriceBatch(
+    items
+      .filter((item) => confirmed.has(item.productId) && item.newPrice !== item.oldPrice)
+      .map((item) => ({ productId: item.productId, dealerPrice: item.newPrice })),
+    { source: "adjustment", label: describePriceAdjustment(request), createdBy },
+  );
+}
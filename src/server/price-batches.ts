@@ -0,0 +1,120 @@
+import crypto from "node:crypto";
+import { db } from "@/server/db";
+import type { PriceBatchSource } from "@/server/db/types";
+
+/** A null price clears the dealer price (e.g. undoing the first price ever set on a product). */
+export type PriceBatchItem = { productId: string; dealerPrice: number | null };
+
+export type PriceBatchResult = {
+  batchId: string;
+  applied: number;
+  failed: Array<{ productId: string; error: string }>;
+};
+
+export type PriceBatchUndoResult =
+  | {
+      ok: true;
+      /** Id of the new "undo" batch holding the reverting PRICE_CHANGE rows. */
+      batchId: string;
+      reverted: number;
+      /** Products left alone, e.g. because their price changed again after the batch. */
+      skipped: Array<{ productId: string; name: string; reason: string }>;
+      failed: Array<{ productId: string; error: string }>;
+    }
+  | { ok: false; status: 404 | 409 | 500; error: string };
+
+const MAX_PRODUCTS = 20000;
+
+/** Applies prices one by one through setDealerPrice, tagging every PRICE_CHANGE with one new batch id. */
+export async function applyPriceBatch(
+  items: PriceBatchItem[],
+  options: { source: PriceBatchSource; label: string | null; createdBy: string | null; revertsBatchId?: string },
+): Promise<PriceBatchResult> {
+  const batchId = crypto.randomUUID();
+  await db.createPriceBatch({
+    id: batchId,
+    source: options.source,
+    label: options.label,
+    createdBy: options.createdBy,
+    createdAt: Date.now(),
+    revertsBatchId: options.revertsBatchId ?? null,
+  });
+
+  let applied = 0;
+  const failed: PriceBatchResult["failed"] = [];
+  for (const item of items) {
+    const result = await db.setDealerPrice(item.productId, item.dealerPrice, { batchId });
+    if (result.ok) applied += 1;
+    else failed.push({ productId: item.productId, error: result.error });
+  }
+  return { batchId, applied, failed };
+}
+
+/**
+ * Restores the dealer prices a batch replaced, as a new "undo" batch. A product whose price no longer
+ * matches what the batch set (edited by hand or by a later batch) is skipped rather than overwritten.
+ */
+export async function undoPriceBatch(batchId: string, undoneBy: string | null): Promise<PriceBatchUndoResult> {
+  const batch = await db.getPriceBatch(batchId);
+  if (!batch) return { ok: false, status: 404, error: "Price batch not found" };
+  if (batch.source === "undo") return { ok: false, status: 409, error: "An undo cannot itself be undone." };
+  if (batch.undoneAt != null) return { ok: false, status: 409, error: "This batch has already been undone." };
+
+  const [changes, products] = await Promise.all([
+    db.listPriceBatchChanges(batchId),
+    db.listProducts({ limit: MAX_PRODUCTS }),
+  ]);
+  // Collapse to one entry per product: the price before the batch's first change and after its last.
+  const byProduct = new Map<string, { name: string; fromPrice: number | null; toPrice: number | null }>();
+  for (const change of changes) {
+    const entry = byProduct.get(change.productId);
+    if (entry) entry.toPrice = change.toPrice;
+    else byProduct.set(change.productId, { name: change.name, fromPrice: change.fromPrice, toPrice: change.toPrice });
+  }
+
+  const currentPrices = new Map(products.map((p) => [p.id, p.dealerPrice]));
+  const items: PriceBatchItem[] = [];
+  const skipped: Extract<PriceBatchUndoResult, { ok: true }>["skipped"] = [];
+  for (const [productId, entry] of byProduct) {
+    if (!currentPrices.has(productId)) {
+      skipped.push({ productId, name: entry.name, reason: "Product no longer exists" });
+    } else if (currentPrices.get(productId) !== entry.toPrice) {
+      skipped.push({ productId, name: entry.name, reason: "Price changed since this batch" });
+    } else {
+      items.push({ productId, dealerPrice: entry.fromPrice });
+    }
+  }
+
+  if (items.length === 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: "Nothing to undo: every product in this batch has been changed since or no longer exists.",
+    };
+  }
+
+  // The stamp is a claim so two undos cannot both revert the batch; it is cleared again below if nothing was reverted.
+  const undoneAt = Date.now();
+  if (!(await db.markPriceBatchUndone(batchId, undoneBy, undoneAt))) {
+    return { ok: false, status: 409, error: "This batch has already been undone." };
+  }
+
+  let result: PriceBatchResult;
+  try {
+    result = await applyPriceBatch(items, {
+      source: "undo",
+      label: batch.label ? `Undo ${batch.label}` : "Undo",
+      createdBy: undoneBy,
+      revertsBatchId: batchId,
+    });
+  } catch (error) {
+    await db.clearPriceBatchUndone(batchId, undoneAt);
+    throw error;
+  }
+  if (result.applied === 0) {
+    // Nothing was reverted, so the batch is still in effect and can be undone again.
+    await db.clearPriceBatchUndone(batchId, undoneAt);
+    return { ok: false, status: 500, error: `No prices were restored: ${result.failed[0]?.error ?? "unknown error"}` };
+  }
+  return { ok: true, batchId: result.batchId, reverted: result.applied, skipped, failed: result.failed };
+}
@@ -0,0 +1,90 @@
+import { computeDerivedPrices, resolvePricingRule } from "@/lib/pricing";
+import { db } from "@/server/db";
+import type { ProductChange } from "@/server/db/types";
+
+/** The dealer price in effect from `at` until the next point, with each tier derived from it. */
+export type PricePoint = {
+  at: number;
+  dealerPrice: number | null;
+  tiers: Record<string, number | null>;
+  /**
+   * True when `tiers` were worked out with today's pricing rules because none were stored for this price
+   * (changes recorded before tier prices were kept), so they may differ from what was charged.
+   */
+  recalculated: boolean;
+  /** The PRICE_CHANGE that set this price; null for the opening and closing points of the range. */
+  changeId: string | null;
+  batchId: string | null;
+};
+
+export type PriceHistory = {
+  productId: string;
+  from: number;
+  to: number;
+  tiers: Array<{ id: string; label: string }>;
+  points: PricePoint[];
+};
+
+type PriceStep = { dealerPrice: number | null; tiers: Record<string, number | null> | null };
+
+// The price just before `at`: the last change before it, else what the first later change replaced (whose
+// tiers were never stored).
+function priceBefore(changes: ProductChange[], at: number, current: number | null): PriceStep {
+  let step: PriceStep | undefined;
+  for (const c of changes) {
+    if (c.createdAt >= at) {
+      step ??= { dealerPrice: c.fromPrice, tiers: null };
+      break;
+    }
+    step = { dealerPrice: c.toPrice, tiers: c.toTiers };
+  }
+  return step ?? { dealerPrice: current, tiers: null };
+}
+
+/**
+ * Dealer price as a step series over [from, to], built from PRICE_CHANGE rows. `from` defaults to the first
+ * change. Tier prices are the ones stored with each change; where none were stored they are recalculated with
+ * today's pricing rules and the point is flagged. Null if the product is unknown.
+ */
+export async function getPriceHistory(
+  productId: string,
+  range: { from?: number; to: number },
+): Promise<PriceHistory | null> {
+  const [products, changes, rules] = await Promise.all([
+    db.listProducts({ id: productId, limit: 1 }),
+    db.listPriceChanges(productId),
+    db.getPricingRules(),
+  ]);
+  const product = products[0];
+  if (!product) return null;
+
+  const to = range.to;
+  const from = Math.min(range.from ?? changes[0]?.createdAt ?? to, to);
+  const tiers = resolvePricingRule(rules, product.brand);
+  const point = (at: number, step: PriceStep, change: ProductChange | null): PricePoint => ({
+    at,
+    dealerPrice: step.dealerPrice,
+    tiers: step.tiers ?? computeDerivedPrices(step.dealerPrice, tiers).byId,
+    recalculated: step.tiers == null && step.dealerPrice != null,
+    changeId: change?.id ?? null,
+    batchId: change?.batchId ?? null,
+  });
+
+  const points = [point(from, priceBefore(changes, from, product.dealerPrice), null)];
+  for (const c of changes) {
+    if (c.createdAt >= from && c.createdAt <= to) {
+      points.push(point(c.createdAt, { dealerPrice: c.toPrice, tiers: c.toTiers }, c));
+    }
+  }
+  // Carry the last price to the end of the range so the final step is drawn.
+  const last = points[points.length - 1];
+  if (last.at < to) points.push({ ...last, at: to, changeId: null, batchId: null });
+
+  return {
+    productId,
+    from,
+    to,
+    tiers: tiers.map((t) => ({ id: t.id, label: t.label })),
+    points,
+  };
+}
@@ -0,0 +1,245 @@
+import ExcelJS from "exceljs";
+import { db } from "@/server/db";
+import type { ProductRow } from "@/server/db/types";
+import { nameKeyFromName, normalizeWhitespace, parseMaybeNumber } from "@/server/parsers/common";
+import { applyPriceBatch, type PriceBatchItem, type PriceBatchResult } from "@/server/price-batches";
+import { createProductRanker, type RankedProduct } from "@/server/product-search";
+
+export type PriceListRow = {
+  rowNumber: number;
+  /** Candidate names in match order: Tally name column first, then product name. */
+  names: string[];
+  price: number | null;
+};
+
+export type PriceImportMatch = {
+  rowNumber: number;
+  inputName: string;
+  productId: string;
+  productName: string;
+  displayName: string | null;
+  brand: string | null;
+  oldPrice: number | null;
+  newPrice: number;
+  match: "exact" | "fuzzy";
+  /** 0 for exact matches; Fuse score (lower is better) for fuzzy ones. */
+  score: number;
+};
+
+export type PriceImportUnmatched = {
+  rowNumber: number;
+  inputName: string;
+  price: number | null;
+  reason: string;
+};
+
+export type PriceImportPreview = {
+  matched: PriceImportMatch[];
+  unmatched: PriceImportUnmatched[];
+};
+
+const MAX_CANDIDATES = 20000;
+const HEADER_SCAN_ROWS = 20;
+// Mean token score from the product ranker; a fuzzy match must also clearly beat the runner-up, otherwise the
+// row is left unmatched for the owner to fix rather than guessed.
+const FUZZY_MAX_SCORE = 0.4;
+const FUZZY_MIN_GAP = 0.05;
+
+const TALLY_NAME_HEADER = /^(tally\s*name|stock\s*item|particulars)$/i;
+const NAME_HEADER = /^(product(\s*name)?|name|item(\s*name)?|description)$/i;
+const PRICE_HEADER = /(dealer|price|rate|cost)/i;
+
+/** Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function readXlsxCells(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  // ExcelJS types lag behind Node's Buffer generics in newer @types/node.
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+  const rows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount; r += 1) {
+    const row = worksheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= row.cellCount; c += 1) {
+      const cell = row.getCell(c);
+      const value = cell.value as unknown;
+      // Formula cells: prefer the cached result over the displayed text.
+      const result = value && typeof value === "object" && "result" in value ? (value as { result: unknown }).result : null;
+      cells.push(typeof result === "number" ? String(result) : (cell.text ?? ""));
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Finds the name and dealer price columns from a header row in the first few rows. Without a
+ * recognisable header the first column is the name and the second the price.
+ */
+function locateColumns(cells: string[][]) {
+  for (let r = 0; r < Math.min(cells.length, HEADER_SCAN_ROWS); r += 1) {
+    const headers = cells[r].map((c) => normalizeWhitespace(c));
+    const tallyCol = headers.findIndex((h) => TALLY_NAME_HEADER.test(h));
+    const nameCol = headers.findIndex((h) => NAME_HEADER.test(h));
+    const dealerCol = headers.findIndex((h) => /dealer/i.test(h));
+    const priceCol = dealerCol >= 0 ? dealerCol : headers.findIndex((h) => PRICE_HEADER.test(h));
+    if ((tallyCol >= 0 || nameCol >= 0) && priceCol >= 0) {
+      return { start: r + 1, nameCols: [tallyCol, nameCol].filter((c) => c >= 0), priceCol };
+    }
+  }
+  return { start: 0, nameCols: [0], priceCol: 1 };
+}
+
+export async function parsePriceList(filename: string, content: Buffer): Promise<PriceListRow[]> {
+  const lower = filename.toLowerCase();
+  let cells: string[][];
+  if (lower.endsWith(".xlsx")) cells = await readXlsxCells(content);
+  else if (lower.endsWith(".csv")) cells = parseCsv(content.toString("utf8").replace(/^﻿/, ""));
+  else throw new Error("Unsupported file type. Upload an .xlsx or .csv price list.");
+
+  const { start, nameCols, priceCol } = locateColumns(cells);
+  const rows: PriceListRow[] = [];
+  for (let r = start; r < cells.length; r += 1) {
+    const names = nameCols.map((c) => normalizeWhitespace(cells[r][c] ?? "")).filter(Boolean);
+    const priceText = normalizeWhitespace(cells[r][priceCol] ?? "").replace(/^(lkr|rs\.?)\s*/i, "");
+    if (names.length === 0 && !priceText) continue;
+    rows.push({ rowNumber: r + 1, names, price: parseMaybeNumber(priceText) });
+  }
+  if (rows.length === 0) throw new Error("No rows found. Expected a product name column and a dealer price column.");
+  return rows;
+}
+
+/**
+ * Matches rows by exact name key (Tally name or display name), then falls back to the same token-wise
+ * fuzzy ranking as product search.
+ */
+export function matchPriceList(rows: PriceListRow[], products: ProductRow[]): PriceImportPreview {
+  const byKey = new Map<string, ProductRow>();
+  for (const p of products) byKey.set(nameKeyFromName(p.name), p);
+  for (const p of products) {
+    const key = p.displayName ? nameKeyFromName(p.displayName) : "";
+    if (key && !byKey.has(key)) byKey.set(key, p);
+  }
+
+  const matched = new Map<string, PriceImportMatch>();
+  const unmatched: PriceImportUnmatched[] = [];
+  // The fuzzy index is built once, and only if some row misses the exact lookup.
+  let rank: ((search: string) => RankedProduct[]) | null = null;
+
+  for (const row of rows) {
+    const inputName = row.names[0] ?? "";
+    if (!inputName) {
+      unmatched.push({ rowNumber: row.rowNumber, inputName, price: row.price, reason: "Missing product name" });
+      continue;
+    }
+    if (row.price == null || row.price < 0) {
+      unmatched.push({ rowNumber: row.rowNumber, inputName, price: row.price, reason: "Missing or invalid price" });
+      continue;
+    }
+
+    let product: ProductRow | undefined;
+    let score: number | null = null;
+    for (const name of row.names) {
+      product = byKey.get(nameKeyFromName(name));
+      if (product) break;
+    }
+    if (!product) {
+      rank ??= createProductRanker(products);
+      const [best, second] = rank(inputName);
+      const bestScore = best?.score ?? 1;
+      if (best && bestScore <= FUZZY_MAX_SCORE && (!second || second.score - bestScore >= FUZZY_MIN_GAP)) {
+        product = best;
+        score = bestScore;
+      } else {
+        unmatched.push({
+          rowNumber: row.rowNumber,
+          inputName,
+          price: row.price,
+          reason: best && bestScore <= FUZZY_MAX_SCORE ? "Ambiguous match" : "No matching product",
+        });
+        continue;
+      }
+    }
+
+    // A later row for the same product wins; the earlier one is reported rather than silently dropped.
+    const previous = matched.get(product.id);
+    if (previous) {
+      unmatched.push({
+        rowNumber: previous.rowNumber,
+        inputName: previous.inputName,
+        price: previous.newPrice,
+        reason: `Superseded by row ${row.rowNumber}`,
+      });
+    }
+    matched.set(product.id, {
+      rowNumber: row.rowNumber,
+      inputName,
+      productId: product.id,
+      productName: product.name,
+      displayName: product.displayName,
+      brand: product.brand,
+      oldPrice: product.dealerPrice,
+      newPrice: row.price,
+      match: score == null ? "exact" : "fuzzy",
+      score: score ?? 0,
+    });
+  }
+
+  return {
+    matched: Array.from(matched.values()).sort((a, b) => a.rowNumber - b.rowNumber),
+    unmatched: unmatched.sort((a, b) => a.rowNumber - b.rowNumber),
+  };
+}
+
+/** Matches against one company's products when `companyId` is given, otherwise against every product. */
+export async function previewPriceImport(filename: string, content: Buffer, companyId?: string): Promise<PriceImportPreview> {
+  const rows = await parsePriceList(filename, content);
+  const products = await db.listProducts({ companyId, limit: MAX_CANDIDATES });
+  return matchPriceList(rows, products);
+}
+
+/** Applies confirmed rows as one "import" batch of PRICE_CHANGE events. */
+export async function applyPriceImport(
+  items: PriceBatchItem[],
+  options: { label: string | null; createdBy: string | null },
+): Promise<PriceBatchResult> {
+  return applyPriceBatch(items, { source: "import", ...options });
+}
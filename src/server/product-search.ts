@@ -0,0 +1,188 @@
+import Fuse, { type FuseResult, type FuseResultMatch } from "fuse.js";
+import { computeDerivedPrices, resolvePricingRule, type PricingRules } from "@/lib/pricing";
+import { db } from "@/server/db";
+import type { ListProductsParams, ProductCounts, ProductRow, ProductSortKey } from "@/server/db/types";
+
+/** `[start, end)` character offsets into the matched field. */
+export type HighlightRange = [start: number, end: number];
+
+export type ProductHighlights = {
+  displayName: HighlightRange[];
+  name: HighlightRange[];
+  brand: HighlightRange[];
+};
+
+export type RankedProduct = ProductRow & {
+  /** 0 = exact, 1 = no match (Fuse scale, averaged over query tokens). */
+  score: number;
+  highlights: ProductHighlights;
+};
+
+/** Database sort keys, "relevance", or the id of a configured price tier. */
+export type ProductSearchSort = ProductSortKey | "relevance" | (string & {});
+
+export type ProductSearchParams = Omit<ListProductsParams, "sort"> & {
+  /** Rank by `search` in memory; otherwise it is a plain substring filter applied by the database. */
+  fuzzy: boolean;
+  sort?: ProductSearchSort;
+};
+
+// Candidate cap: filters (brand/category/availability/removed/location) are applied in the database before ranking.
+const MAX_CANDIDATES = 20000;
+
+const FUSE_OPTIONS = {
+  keys: [
+    { name: "displayName", weight: 0.5 },
+    { name: "name", weight: 0.3 },
+    { name: "brand", weight: 0.2 },
+  ],
+  includeScore: true,
+  includeMatches: true,
+  ignoreLocation: true,
+  threshold: 0.35,
+  minMatchCharLength: 2,
+};
+
+export function tokenizeSearch(search: string): string[] {
+  return Array.from(new Set(search.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+function toRanges(matches: readonly FuseResultMatch[], key: keyof ProductHighlights): HighlightRange[] {
+  const ranges = matches
+    .filter((m) => m.key === key)
+    .flatMap((m) => m.indices.map(([start, end]): HighlightRange => [start, end + 1]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: HighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  }
+  return merged;
+}
+
+/**
+ * Ranks rows against every query token independently, so token order doesn't matter and each token
+ * may carry its own typo. A row must match all tokens; its score is the mean of the token scores.
+ */
+export function rankProducts(rows: ProductRow[], search: string): RankedProduct[] {
+  return createProductRanker(rows)(search);
+}
+
+/** rankProducts with the Fuse index built once, for ranking many searches against the same rows. */
+export function createProductRanker(rows: ProductRow[]): (search: string) => RankedProduct[] {
+  const fuse = new Fuse(rows, FUSE_OPTIONS);
+  return (search) => rankWithIndex(fuse, rows, search);
+}
+
+function rankWithIndex(fuse: Fuse<ProductRow>, rows: ProductRow[], search: string): RankedProduct[] {
+  const tokens = tokenizeSearch(search);
+  if (tokens.length === 0) return [];
+
+  let hits: Map<number, { score: number; matches: FuseResultMatch[] }> | null = null;
+
+  for (const token of tokens) {
+    const results = new Map<number, FuseResult<ProductRow>>(fuse.search(token).map((r) => [r.refIndex, r]));
+    if (hits === null) {
+      hits = new Map(
+        Array.from(results, ([idx, r]) => [idx, { score: r.score ?? 1, matches: [...(r.matches ?? [])] }]),
+      );
+      continue;
+    }
+    for (const [idx, hit] of hits) {
+      const r = results.get(idx);
+      if (!r) {
+        hits.delete(idx);
+        continue;
+      }
+      hit.score += r.score ?? 1;
+      hit.matches.push(...(r.matches ?? []));
+    }
+  }
+
+  return Array.from(hits ?? [], ([idx, hit]) => ({
+    ...rows[idx],
+    score: hit.score / tokens.length,
+    highlights: {
+      displayName: toRanges(hit.matches, "displayName"),
+      name: toRanges(hit.matches, "name"),
+      brand: toRanges(hit.matches, "brand"),
+    },
+  })).sort((a, b) => a.score - b.score || compareNames(a, b));
+}
+
+function compareNames(a: ProductRow, b: ProductRow) {
+  return (a.displayName ?? a.name).localeCompare(b.displayName ?? b.name);
+}
+
+function compareNullable(a: number | null, b: number | null, dir: 1 | -1) {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return (a - b) * dir;
+}
+
+// Mirrors the SQL ORDER BY in the providers; tier sorts use each row's brand-resolved tiers.
+function compareProducts(sort: ProductSearchSort, dir: 1 | -1, rules: PricingRules) {
+  const tierPrice = (row: ProductRow) =>
+    computeDerivedPrices(row.dealerPrice, resolvePricingRule(rules, row.brand)).byId[sort] ?? null;
+  const isTier = rules.tiers.some((t) => t.id === sort);
+  return (a: ProductRow, b: ProductRow) => {
+    if (isTier) return compareNullable(tierPrice(a), tierPrice(b), dir) || compareNames(a, b);
+    switch (sort) {
+      case "qty":
+        return compareNullable(a.stockQty, b.stockQty, dir) || compareNames(a, b);
+      case "availability":
+        return a.availability.localeCompare(b.availability) * dir || compareNames(a, b);
+      case "dealerPrice":
+        return compareNullable(a.dealerPrice, b.dealerPrice, dir) || compareNames(a, b);
+      default:
+        return compareNames(a, b) * dir;
+    }
+  };
+}
+
+function countRows(rows: ProductRow[]): ProductCounts {
+  const counts: ProductCounts = { total: rows.length, inStock: 0, outOfStock: 0, negative: 0, unknown: 0, removed: 0 };
+  for (const row of rows) {
+    if (row.availability === "IN_STOCK") counts.inStock++;
+    else if (row.availability === "OUT_OF_STOCK") counts.outOfStock++;
+    else if (row.availability === "NEGATIVE") counts.negative++;
+    else counts.unknown++;
+    if (row.removedAt != null) counts.removed++;
+  }
+  return counts;
+}
+
+/**
+ * Fuzzy, ranked search and/or price-tier sorting over the filtered product list; pages and counts the
+ * result in memory because neither can be expressed in SQL.
+ */
+export async function searchProducts(
+  params: ProductSearchParams,
+): Promise<{ items: Array<ProductRow | RankedProduct>; counts: ProductCounts }> {
+  const search = params.search?.trim() ?? "";
+  const fuzzy = params.fuzzy && search !== "";
+  const [candidates, rules] = await Promise.all([
+    db.listProducts({
+      search: fuzzy ? undefined : search || undefined,
+      brand: params.brand,
+      availability: params.availability,
+      removed: params.removed,
+      location: params.location,
+      category: params.category,
+      companyId: params.companyId,
+      limit: MAX_CANDIDATES,
+    }),
+    db.getPricingRules(),
+  ]);
+
+  const rows: Array<ProductRow | RankedProduct> = fuzzy ? rankProducts(candidates, search) : candidates;
+  const sort = params.sort ?? (fuzzy ? "relevance" : "name");
+  if (sort !== "relevance") rows.sort(compareProducts(sort, params.dir === "desc" ? -1 : 1, rules));
+
+  const offset = Math.max(0, Math.floor(params.offset ?? 0));
+  const limit = Math.min(params.limit ?? 5000, MAX_CANDIDATES);
+  return { items: rows.slice(offset, offset + limit), counts: countRows(rows) };
+}
@@ -0,0 +1,148 @@
+import ExcelJS from "exceljs";
+import { formatMoney } from "@/lib/pricing";
+import { formatQuoteNumber, priceQuoteLine } from "@/lib/quotes";
+import type { Quote } from "@/server/db/types";
+
+const MONEY_FORMAT = '"LKR" #,##0.00';
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+}
+
+/** File name without extension, e.g. "quote-Q-00042-acme-sports". */
+export function quoteFileName(quote: Quote): string {
+  const customer = quote.customerName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  return `quote-${formatQuoteNumber(quote.number)}${customer ? `-${customer}` : ""}`;
+}
+
+export async function quoteWorkbook(quote: Quote): Promise<ExcelJS.Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Tally Stockviewer";
+  workbook.created = new Date(quote.createdAt);
+
+  const ws = workbook.addWorksheet(formatQuoteNumber(quote.number));
+  ws.addRow([`Quotation ${formatQuoteNumber(quote.number)}`]).font = { bold: true, size: 14 };
+  ws.addRow(["Customer", quote.customerName]);
+  ws.addRow(["Date", formatDate(quote.createdAt)]);
+  ws.addRow(["Valid until", formatDate(quote.validUntil)]);
+  ws.addRow(["Price list", quote.tierLabel]);
+  if (quote.note) ws.addRow(["Note", quote.note]);
+  ws.addRow([]);
+
+  const header = ws.addRow(["#", "Product", "Brand", "Qty", "Unit", "Unit Price", "Discount", "Line Total"]);
+  header.font = { bold: true };
+  header.eachCell((cell) => {
+    cell.border = { bottom: { style: "thin" } };
+  });
+  quote.lines.forEach((line, i) => {
+    ws.addRow([
+      i + 1,
+      line.productName,
+      line.productBrand ?? "",
+      line.qty,
+      line.unit ?? "",
+      line.unitPrice,
+      // Written as a fraction so Excel's percent format displays it
+      line.discountPercent / 100,
+      line.lineTotal,
+    ]);
+  });
+  ws.addRow([]);
+  const totals: Array<[string, number]> = [
+    ["Subtotal", quote.subtotal],
+    ["Discount", -quote.discountTotal],
+    ["Total", quote.total],
+  ];
+  for (const [label, value] of totals) {
+    const row = ws.addRow(["", "", "", "", "", "", label, value]);
+    if (label === "Total") row.font = { bold: true };
+  }
+
+  ws.getColumn(1).width = 12;
+  ws.getColumn(2).width = 48;
+  ws.getColumn(3).width = 16;
+  ws.getColumn(4).width = 8;
+  ws.getColumn(4).numFmt = "#,##0.###";
+  ws.getColumn(5).width = 8;
+  ws.getColumn(6).width = 16;
+  ws.getColumn(7).width = 12;
+  ws.getColumn(8).width = 18;
+  for (const col of [6, 8]) ws.getColumn(col).numFmt = MONEY_FORMAT;
+  ws.getColumn(7).numFmt = "0.##%";
+  // The totals labels sit in the discount column; keep them as text.
+  ws.getColumn(7).alignment = { horizontal: "right" };
+
+  return workbook.xlsx.writeBuffer();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] ?? c);
+}
+
+/** A self-contained page for the browser's print dialog (or "Save as PDF"). */
+export function quoteHtml(quote: Quote): string {
+  const ref = formatQuoteNumber(quote.number);
+  const rows = quote.lines
+    .map((line, i) => {
+      const { gross } = priceQuoteLine(line.unitPrice, line.qty, line.discountPercent);
+      return `<tr>
+  <td>${i + 1}</td>
+  <td>${escapeHtml(line.productName)}${line.productBrand ? `<div class="muted">${escapeHtml(line.productBrand)}</div>` : ""}</td>
+  <td class="num">${line.qty.toLocaleString("en-IN")}${line.unit ? ` ${escapeHtml(line.unit)}` : ""}</td>
+  <td class="num">${formatMoney(line.unitPrice)}</td>
+  <td class="num">${line.discountPercent ? `${line.discountPercent}%` : "—"}</td>
+  <td class="num">${line.discountPercent ? `<span class="muted strike">${formatMoney(gross)}</span> ` : ""}${formatMoney(line.lineTotal)}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Quotation ${ref}</title>
+<style>
+  body { font: 14px/1.45 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; margin: 32px auto; max-width: 860px; padding: 0 16px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .muted { color: #666; font-size: 12px; }
+  .strike { text-decoration: line-through; }
+  .meta { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 16px 0 24px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+  th { font-size: 12px; text-transform: uppercase; letter-spacing: .04em; color: #555; }
+  .num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  .totals td { border: none; }
+  .totals .grand td { font-weight: 700; font-size: 16px; border-top: 2px solid #111; }
+  .note { margin-top: 24px; white-space: pre-wrap; }
+  .actions { margin-bottom: 16px; }
+  @media print { .actions { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<div class="actions"><button onclick="window.print()">Print</button></div>
+<h1>Quotation ${ref}</h1>
+<div class="meta">
+  <span class="muted">Customer</span><span>${escapeHtml(quote.customerName)}</span>
+  <span class="muted">Date</span><span>${formatDate(quote.createdAt)}</span>
+  <span class="muted">Valid until</span><span>${formatDate(quote.validUntil)}</span>
+  <span class="muted">Price list</span><span>${escapeHtml(quote.tierLabel)}</span>
+</div>
+<table>
+<thead><tr><th>#</th><th>Product</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Discount</th><th class="num">Amount</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+<tbody class="totals">
+<tr><td colspan="5" class="num">Subtotal</td><td class="num">${formatMoney(quote.subtotal)}</td></tr>
+${quote.discountTotal ? `<tr><td colspan="5" class="num">Discount</td><td class="num">−${formatMoney(quote.discountTotal)}</td></tr>` : ""}
+<tr class="grand"><td colspan="5" class="num">Total</td><td class="num">${formatMoney(quote.total)}</td></tr>
+</tbody>
+</table>
+${quote.note ? `<p class="note">${escapeHtml(quote.note)}</p>` : ""}
+</body>
+</html>`;
+}
@@ -0,0 +1,67 @@
+import crypto from "node:crypto";
+import { computeDerivedPrices, resolvePricingRule } from "@/lib/pricing";
+import { priceQuoteLine, quoteTotals, roundCents } from "@/lib/quotes";
+import { db } from "@/server/db";
+import type { Quote, QuoteLine } from "@/server/db/types";
+
+export type QuoteLineInput = { productId: string; qty: number; discountPercent: number };
+
+export type QuoteInput = {
+  customerName: string;
+  note: string | null;
+  tierId: string;
+  validDays: number;
+  lines: QuoteLineInput[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Prices every line at the chosen tier (with the product's brand overrides) and stores the quote. Prices come
+ * from the server, never the client, so a quote always matches the rules at the moment it was made.
+ */
+export async function saveQuote(
+  input: QuoteInput,
+  createdBy: string | null,
+): Promise<{ ok: true; quote: Quote } | { ok: false; error: string }> {
+  const rules = await db.getPricingRules();
+  const tier = rules.tiers.find((t) => t.id === input.tierId);
+  if (!tier) return { ok: false, error: `Unknown price tier "${input.tierId}".` };
+
+  const products = await Promise.all(input.lines.map((l) => db.listProducts({ id: l.productId, limit: 1 })));
+  const lines: QuoteLine[] = [];
+  for (const [i, line] of input.lines.entries()) {
+    const product = products[i][0];
+    if (!product) return { ok: false, error: `Line ${i + 1}: product not found.` };
+    const name = product.displayName ?? product.name;
+    const tierPrice = computeDerivedPrices(product.dealerPrice, resolvePricingRule(rules, product.brand)).byId[tier.id];
+    if (tierPrice == null) return { ok: false, error: `${name} has no ${tier.label} price.` };
+    const unitPrice = roundCents(tierPrice);
+    lines.push({
+      id: crypto.randomUUID(),
+      productId: product.id,
+      productName: name,
+      productBrand: product.brand,
+      unit: product.unit,
+      qty: line.qty,
+      unitPrice,
+      discountPercent: line.discountPercent,
+      lineTotal: priceQuoteLine(unitPrice, line.qty, line.discountPercent).lineTotal,
+    });
+  }
+
+  const createdAt = Date.now();
+  const quote = await db.createQuote({
+    id: crypto.randomUUID(),
+    customerName: input.customerName,
+    note: input.note,
+    tierId: tier.id,
+    tierLabel: tier.label,
+    ...quoteTotals(lines),
+    validUntil: createdAt + input.validDays * DAY_MS,
+    createdBy,
+    createdAt,
+    lines,
+  });
+  return { ok: true, quote };
+}
@@ -0,0 +1,100 @@
+import crypto from "node:crypto";
+import { db } from "@/server/db";
+import type { ScheduledPrice } from "@/server/db/types";
+
+export type ScheduleDealerPriceInput = {
+  productId: string;
+  dealerPrice: number;
+  effectiveAt: number;
+  note: string | null;
+  createdBy: string | null;
+};
+
+export type ApplyDueResult = { applied: number; failed: number };
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const MAX_DUE_PER_RUN = 1000;
+// A claim older than this belongs to a run that died between claiming and finishing; the schedule is retried.
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<ApplyDueResult> | null = null;
+
+export async function scheduleDealerPrice(input: ScheduleDealerPriceInput) {
+  return db.createScheduledPrice({ id: crypto.randomUUID(), ...input, createdAt: Date.now() });
+}
+
+/**
+ * Applies every pending schedule whose effective time has passed, oldest first, through setDealerPrice so a
+ * PRICE_CHANGE is recorded. Each row is claimed (applying) before the price is written and marked applied only
+ * after, so concurrent runs never apply it twice and a crash in between leaves it to be retried, not lost.
+ */
+export function applyDueScheduledPrices(now = Date.now()): Promise<ApplyDueResult> {
+  // Overlapping calls in this process share one run.
+  running ??= (async () => {
+    await db.releaseStaleScheduledPriceClaims(now - CLAIM_TIMEOUT_MS);
+    const due = await db.listScheduledPrices({ status: "pending", dueBy: now, limit: MAX_DUE_PER_RUN });
+    const result: ApplyDueResult = { applied: 0, failed: 0 };
+    for (const item of due) {
+      if (!(await db.claimScheduledPrice(item.id, Date.now()))) continue;
+      const saved = await applyScheduledPrice(item);
+      if (saved.ok) result.applied += 1;
+      else result.failed += 1;
+    }
+    if (result.applied || result.failed) {
+      console.log(`[scheduled-prices] applied ${result.applied}, failed ${result.failed}`);
+    }
+    return result;
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+async function applyScheduledPrice(item: ScheduledPrice) {
+  let saved: { ok: true } | { ok: false; error: string };
+  try {
+    saved = await db.setDealerPrice(item.productId, item.dealerPrice);
+  } catch (e) {
+    saved = { ok: false, error: e instanceof Error ? e.message : "Failed to apply scheduled price." };
+  }
+  await finishScheduledPrice(item.id, saved.ok ? null : saved.error);
+  return saved;
+}
+
+// Once the price is written the outcome must not be rewritten as failed, so recording it is retried and a final
+// error propagates; the row then stays applying rather than being marked failed.
+async function finishScheduledPrice(id: string, error: string | null, attempts = 3): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.finishScheduledPrice(id, Date.now(), error);
+    } catch (e) {
+      if (attempt >= attempts) throw e;
+    }
+  }
+}
+
+/**
+ * Checks for due prices every SCHEDULED_PRICES_INTERVAL_MS (default 1 minute; 0 disables) in long-running
+ * servers. Safe to call more than once.
+ */
+export function startScheduledPriceTimer(): boolean {
+  const raw = process.env.SCHEDULED_PRICES_INTERVAL_MS?.trim();
+  const intervalMs = raw ? Number.parseInt(raw, 10) : DEFAULT_INTERVAL_MS;
+  if (timer || !Number.isFinite(intervalMs) || intervalMs <= 0) return false;
+
+  const tick = () => {
+    applyDueScheduledPrices().catch((e) => {
+      console.error("[scheduled-prices] run failed:", e);
+    });
+  };
+  timer = setInterval(tick, intervalMs);
+  timer.unref();
+  tick();
+  return true;
+}
+
+export function stopScheduledPriceTimer(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -6,7 +6,10 @@
  * and returns XML responses.
  *
  * This client:
- * - Sends XML requests to fetch stock data
+ * - Sends XML requests to fetch stock data (Godown Summary for one godown,
+ *   the Stock Item collection for company-wide balances)
+ * - Lists the companies and godowns Tally knows, for setup
+ * - Lists a company's stock group tree (brands and their categories)
  * - Parses responses and normalizes to RawTallyStockItem[]
  * - Handles connection errors and timeouts gracefully
  *
@@ -25,13 +28,25 @@ import type {
   TallyClientConfig,
   FetchGodownStockOptions,
   TallyFetchResult,
+  TallyListResult,
+  TallyStockGroupResult,
 } from "./types";
 import {
   buildGodownStockRequest,
   buildStockItemCollectionRequest,
   buildConnectionTestRequest,
+  buildCompanyListRequest,
+  buildGodownListRequest,
+  buildStockGroupListRequest,
 } from "./xml-builder";
-import { parseTallyStockResponse, isTallyErrorResponse } from "./xml-parser";
+import {
+  parseTallyStockResponse,
+  parseTallyGodownSummaryResponse,
+  parseTallyCompanyListResponse,
+  parseTallyGodownListResponse,
+  parseTallyStockGroupResponse,
+  isTallyErrorResponse,
+} from "./xml-parser";
 
 // ============================================================================
 // DEFAULT CONFIGURATION
@@ -65,7 +80,7 @@ export function createTallyClient(config: Partial<TallyClientConfig> = {}): Tall
   /**
    * Sends XML request to Tally and returns raw response text.
    */
-  async function sendRequest(xmlBody: string): Promise<string> {
+  async function sendHttpRequest(xmlBody: string): Promise<string> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), cfg.timeout);
 
@@ -95,17 +110,49 @@ export function createTallyClient(config: Partial<TallyClientConfig> = {}): Tall
     }
   }
 
+  const sendRequest = config.transport ?? sendHttpRequest;
+
+  /**
+   * Sends a name lookup request; a Tally error or an empty list is a failure.
+   */
+  async function listNames(
+    label: string,
+    xmlRequest: string,
+    parse: (xmlText: string) => string[],
+    emptyError: string
+  ): Promise<TallyListResult> {
+    try {
+      const xmlResponse = await sendRequest(xmlRequest);
+      const errorCheck = isTallyErrorResponse(xmlResponse);
+      if (errorCheck.isError) {
+        return { success: false, names: [], error: errorCheck.message ?? `Tally could not list ${label}` };
+      }
+      const names = parse(xmlResponse);
+      return names.length > 0 ? { success: true, names } : { success: false, names: [], error: emptyError };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[TallyClient] list ${label} error:`, errorMessage);
+      return { success: false, names: [], error: errorMessage };
+    }
+  }
+
   return {
     async fetchGodownStock(options: FetchGodownStockOptions): Promise<TallyFetchResult> {
       const fetchedAt = Date.now();
 
       try {
-        // Try multiple request formats as different Tally versions may respond differently
-        // Note: buildGodownStockRequest and buildStockItemCollectionRequest now use the same verified format
-        const requestStrategies = [
-          { name: "Stock Collection", builder: buildStockItemCollectionRequest },
-          { name: "Godown Summary", builder: buildGodownStockRequest },
-        ];
+        // A named godown needs the Godown Summary report: the Stock Item collection only
+        // knows company-wide balances, so it must not be used as a fallback for one godown.
+        const stockGroups = new Set(options.stockGroups ?? []);
+        const requestStrategies = options.godown.trim()
+          ? [
+              {
+                name: "Godown Summary",
+                builder: buildGodownStockRequest,
+                parse: (xml: string) => parseTallyGodownSummaryResponse(xml, stockGroups),
+              },
+            ]
+          : [{ name: "Stock Collection", builder: buildStockItemCollectionRequest, parse: parseTallyStockResponse }];
 
         for (const strategy of requestStrategies) {
           try {
@@ -121,7 +168,7 @@ export function createTallyClient(config: Partial<TallyClientConfig> = {}): Tall
             }
 
             // Parse response
-            const items = parseTallyStockResponse(xmlResponse);
+            const items = strategy.parse(xmlResponse);
 
             if (items.length > 0) {
               console.log(`[TallyClient] ${strategy.name} returned ${items.length} items`);
@@ -162,6 +209,42 @@ export function createTallyClient(config: Partial<TallyClientConfig> = {}): Tall
       }
     },
 
+    async listCompanies(): Promise<TallyListResult> {
+      return listNames(
+        "companies",
+        buildCompanyListRequest(),
+        parseTallyCompanyListResponse,
+        "Tally returned no companies. Open the company in Tally first."
+      );
+    },
+
+    async listGodowns(company: string): Promise<TallyListResult> {
+      return listNames(
+        "godowns",
+        buildGodownListRequest(company),
+        parseTallyGodownListResponse,
+        `Tally returned no godowns for "${company}". Check that the company is open in Tally.`
+      );
+    },
+
+    async listStockGroups(company: string): Promise<TallyStockGroupResult> {
+      try {
+        const xmlResponse = await sendRequest(buildStockGroupListRequest(company));
+        const errorCheck = isTallyErrorResponse(xmlResponse);
+        if (errorCheck.isError) {
+          return { success: false, groups: [], error: errorCheck.message ?? "Tally could not list stock groups" };
+        }
+        const groups = parseTallyStockGroupResponse(xmlResponse);
+        return groups.length > 0
+          ? { success: true, groups }
+          : { success: false, groups: [], error: `Tally returned no stock groups for "${company}".` };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error("[TallyClient] list stock groups error:", errorMessage);
+        return { success: false, groups: [], error: errorMessage };
+      }
+    },
+
     async testConnection(): Promise<boolean> {
       try {
         const xmlRequest = buildConnectionTestRequest();
@@ -204,7 +287,8 @@ export function getDefaultTallyClient(): TallyClient {
 
 /**
  * Default company name for Tally requests.
- * This is the company name as it appears in Tally.
+ * This is the company name as it appears in Tally. Only used until the company
+ * registry is seeded; rolling over to a new financial year is a registry edit.
  */
 export const DEFAULT_TALLY_COMPANY = "Ralhum Trading Company (Pv) Ltd - 21/22";
 
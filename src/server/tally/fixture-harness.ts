@@ -0,0 +1,231 @@
+/**
+ * Tally Fixture Harness
+ *
+ * Replays saved Tally XML responses (./fixtures) through the real client,
+ * request builders, parsers and normalizer, so changes to any of them can be
+ * checked without a running Tally. Nothing is written to the database.
+ *
+ * Run with `npm run test:tally-fixtures`, which exits non-zero if a check fails.
+ * To add a case, save the raw response Tally returned under ./fixtures and add a
+ * check below.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createTallyClient } from "./client";
+import { normalizeTallyItems } from "./normalizer";
+import type { TallyTransport } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of one fixture check.
+ */
+export type TallyFixtureCheck = {
+  name: string;
+  ok: boolean;
+  /** Why the check failed */
+  error?: string;
+};
+
+// ============================================================================
+// FIXTURE TRANSPORT
+// ============================================================================
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures");
+
+const COMPANY = "Ralhum Trading Company (Pv) Ltd - 21/22";
+const GODOWN = "Feeder Stores";
+
+async function loadFixture(file: string): Promise<string> {
+  return fs.readFile(path.join(FIXTURE_DIR, file), "utf8");
+}
+
+/**
+ * Answers each request with the fixture saved for its <ID> (collection or report
+ * name) and records the request bodies so checks can inspect them.
+ */
+function createFixtureTransport(responses: Record<string, string>): {
+  transport: TallyTransport;
+  requests: string[];
+} {
+  const requests: string[] = [];
+  const transport: TallyTransport = async (xmlBody) => {
+    requests.push(xmlBody);
+    const id = xmlBody.match(/<ID>([^<]*)<\/ID>/)?.[1] ?? "";
+    const response = responses[id];
+    if (response == null) throw new Error(`No fixture for request "${id}"`);
+    return response;
+  };
+  return { transport, requests };
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/** Feeder Stores quantities from godown-summary.xml; stock-items.xml has the company-wide totals. */
+const GODOWN_EXPECTED = [
+  { name: "Pure Drive 2021 G2", brand: "Babolat", qty: 4, rate: 2750 },
+  { name: "RPM Blast 1.25mm Set", brand: "Babolat", qty: 3, rate: 1700 },
+  { name: "Astrox 88D Pro 4U", brand: "Yonex", qty: 2, rate: 4500 },
+  { name: "Aerosensa 30 Shuttle 12 Pack", brand: "Yonex", qty: 0, rate: null },
+];
+
+const CHECKS: Array<{ name: string; run: () => Promise<void> }> = [
+  {
+    name: "Godown fetch sends a Godown Summary request for that godown",
+    run: async () => {
+      const { transport, requests } = createFixtureTransport({ "Godown Summary": await loadFixture("godown-summary.xml") });
+      await createTallyClient({ transport }).fetchGodownStock({ company: "A & B Traders", godown: GODOWN, asOfDate: "20240331" });
+      assert(requests.length === 1, `Expected 1 request, got ${requests.length}`);
+      assert(requests[0].includes(`<GODOWNNAME>${GODOWN}</GODOWNNAME>`), "GODOWNNAME is missing");
+      assert(requests[0].includes("<SVCURRENTCOMPANY>A &amp; B Traders</SVCURRENTCOMPANY>"), "Company name is not escaped");
+      assert(requests[0].includes("<SVTODATE>20240331</SVTODATE>"), "asOfDate is not sent as SVTODATE");
+    },
+  },
+  {
+    name: "Godown fetch returns that godown's quantities",
+    run: async () => {
+      const { transport } = createFixtureTransport({
+        "Godown Summary": await loadFixture("godown-summary.xml"),
+        StockItems: await loadFixture("stock-items.xml"),
+      });
+      const result = await createTallyClient({ transport }).fetchGodownStock({ company: COMPANY, godown: GODOWN });
+      assert(result.success, `Fetch failed: ${result.error}`);
+      const items = normalizeTallyItems(result.items);
+      assert(items.length === GODOWN_EXPECTED.length, `Expected ${GODOWN_EXPECTED.length} items, got ${items.length}`);
+      for (const expected of GODOWN_EXPECTED) {
+        const item = items.find((i) => i.name === expected.name);
+        assert(item, `${expected.name} is missing`);
+        assert(item.brand === expected.brand, `${expected.name}: brand ${item.brand}, expected ${expected.brand}`);
+        assert(item.qty === expected.qty, `${expected.name}: qty ${item.qty}, expected ${expected.qty}`);
+        assert(item.rate === expected.rate, `${expected.name}: rate ${item.rate}, expected ${expected.rate}`);
+      }
+    },
+  },
+  {
+    name: "Company-wide fetch (no godown) uses the Stock Item collection",
+    run: async () => {
+      const { transport, requests } = createFixtureTransport({ StockItems: await loadFixture("stock-items.xml") });
+      const result = await createTallyClient({ transport }).fetchGodownStock({ company: COMPANY, godown: "" });
+      assert(result.success, `Fetch failed: ${result.error}`);
+      assert(requests.length === 1 && requests[0].includes("<ID>StockItems</ID>"), "StockItems collection was not requested");
+      const drive = normalizeTallyItems(result.items).find((i) => i.name === "Pure Drive 2021 G2");
+      assert(drive?.qty === 11, `Pure Drive 2021 G2: qty ${drive?.qty}, expected 11`);
+    },
+  },
+  {
+    name: "Company list returns every company Tally has loaded",
+    run: async () => {
+      const { transport, requests } = createFixtureTransport({ CompanyList: await loadFixture("company-list.xml") });
+      const result = await createTallyClient({ transport }).listCompanies();
+      assert(result.success, `List failed: ${result.error}`);
+      assert(!requests[0].includes("<SVCURRENTCOMPANY>"), "Company list should not select a company");
+      const expected = [
+        "Ralhum Sports (Pvt) Ltd",
+        "Ralhum Trading Company (Pv) Ltd - 21/22",
+        "Ralhum Trading Company (Pv) Ltd - 22/23",
+      ];
+      assert(result.names.join("|") === expected.join("|"), `Got ${result.names.join(", ")}`);
+    },
+  },
+  {
+    name: "Godown list is requested for the chosen company",
+    run: async () => {
+      const { transport, requests } = createFixtureTransport({ GodownList: await loadFixture("godown-list.xml") });
+      const result = await createTallyClient({ transport }).listGodowns("A & B Traders");
+      assert(result.success, `List failed: ${result.error}`);
+      assert(requests[0].includes("<SVCURRENTCOMPANY>A &amp; B Traders</SVCURRENTCOMPANY>"), "Company name is not escaped");
+      assert(result.names.join("|") === "Feeder Stores|Main Location|Showroom", `Got ${result.names.join(", ")}`);
+    },
+  },
+  {
+    name: "Godown list for an unknown company reports Tally's error",
+    run: async () => {
+      const { transport } = createFixtureTransport({ GodownList: await loadFixture("line-error.xml") });
+      const result = await createTallyClient({ transport }).listGodowns("Unknown Company");
+      assert(!result.success, "List succeeded on a LINEERROR response");
+      assert(result.error?.includes("Unknown Company"), `Error does not name the company: ${result.error}`);
+    },
+  },
+  {
+    name: "Stock group list returns the group tree",
+    run: async () => {
+      const { transport, requests } = createFixtureTransport({ StockGroupList: await loadFixture("stock-groups.xml") });
+      const result = await createTallyClient({ transport }).listStockGroups(COMPANY);
+      assert(result.success, `List failed: ${result.error}`);
+      assert(requests[0].includes("<TYPE>Stock Group</TYPE>"), "Stock Group collection was not requested");
+      const parents = new Map(result.groups.map((g) => [g.name, g.parent]));
+      assert(parents.size === 7, `Expected 7 groups, got ${parents.size}`);
+      assert(parents.get("Babolat") === null, `Babolat: parent ${parents.get("Babolat")}, expected none (Primary)`);
+      assert(parents.get("Yonex") === null, `Yonex: parent ${parents.get("Yonex")}, expected none`);
+      assert(parents.get("Shuttlecocks") === "Yonex Badminton", `Shuttlecocks: parent ${parents.get("Shuttlecocks")}`);
+    },
+  },
+  {
+    name: "Nested stock groups give each item its brand and category",
+    run: async () => {
+      const { transport } = createFixtureTransport({
+        "Godown Summary": await loadFixture("godown-summary-nested.xml"),
+        StockGroupList: await loadFixture("stock-groups.xml"),
+      });
+      const client = createTallyClient({ transport });
+      const { groups } = await client.listStockGroups(COMPANY);
+      const result = await client.fetchGodownStock({ company: COMPANY, godown: GODOWN, stockGroups: groups.map((g) => g.name) });
+      assert(result.success, `Fetch failed: ${result.error}`);
+      const items = normalizeTallyItems(result.items, groups);
+      // "Strings 1.25mm" would pass for an item by name alone.
+      assert(items.length === 4, `Expected 4 items, got ${items.map((i) => i.name).join(", ")}`);
+      const expected = [
+        { name: "Pure Drive 2021 G2", brand: "Babolat", category: "Babolat Racquets" },
+        { name: "RPM Blast 1.25mm Set", brand: "Babolat", category: "Strings 1.25mm" },
+        { name: "Astrox 88D Pro 4U", brand: "Yonex", category: "Badminton Racquets" },
+        { name: "Aerosensa 30 Shuttle 12 Pack", brand: "Yonex", category: "Shuttlecocks" },
+      ];
+      for (const e of expected) {
+        const item = items.find((i) => i.name === e.name);
+        assert(item, `${e.name} is missing`);
+        assert(item.brand === e.brand, `${e.name}: brand ${item.brand}, expected ${e.brand}`);
+        assert(item.category === e.category, `${e.name}: category ${item.category}, expected ${e.category}`);
+      }
+    },
+  },
+  {
+    name: "Tally error response fails the fetch",
+    run: async () => {
+      const { transport } = createFixtureTransport({ "Godown Summary": await loadFixture("line-error.xml") });
+      const result = await createTallyClient({ transport }).fetchGodownStock({ company: COMPANY, godown: GODOWN });
+      assert(!result.success, "Fetch succeeded on a LINEERROR response");
+      assert(result.items.length === 0, "Items were returned with an error");
+    },
+  },
+];
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Runs every fixture check; a failing check does not stop the others.
+ */
+export async function runTallyFixtureChecks(): Promise<TallyFixtureCheck[]> {
+  const results: TallyFixtureCheck[] = [];
+
+  for (const check of CHECKS) {
+    try {
+      await check.run();
+      results.push({ name: check.name, ok: true });
+    } catch (error) {
+      results.push({ name: check.name, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return results;
+}
@@ -48,7 +48,12 @@
  * - TALLY_PORT: Tally server port (default: 9000)
  * - TALLY_TIMEOUT: Request timeout in ms (default: 30000)
  * - TALLY_COMPANY: Company name (default: Ralhum Trading Company (Pv) Ltd - 21/22)
- * - TALLY_GODOWN: Godown name (default: Feeder Stores)
+ * - TALLY_GODOWN: Godown name (default: Feeder Stores); empty for company-wide stock
+ * - TALLY_GODOWNS: Comma-separated godowns to sync and sum; overrides TALLY_GODOWN
+ *
+ * The three company/godown variables only seed the company registry (see
+ * @/server/companies) the first time it is read; after that the scheduler syncs
+ * each active company with the Tally name and godowns stored there.
  * - TALLY_REFRESH_ENABLED: Enable/disable auto-refresh (default: true)
  * - TALLY_REFRESH_INTERVAL_MS: Refresh interval in ms (default: 3600000 = 1 hour)
  */
@@ -59,6 +64,8 @@ export type {
   TallyClientConfig,
   FetchGodownStockOptions,
   TallyFetchResult,
+  TallyListResult,
+  TallyStockGroupResult,
   RawTallyStockItem,
 } from "./types";
 
@@ -78,7 +85,14 @@ export {
 } from "./normalizer";
 
 // Re-export refresh function
-export { refreshFromTally, testTallyConnection, previewTallyData, type TallyRefreshResult } from "./refresh";
+export {
+  refreshFromTally,
+  refreshCompany,
+  refreshAllCompanies,
+  testTallyConnection,
+  previewTallyData,
+  type TallyRefreshResult,
+} from "./refresh";
 
 // Re-export scheduler
 export {
@@ -87,4 +101,5 @@ export {
   isTallySchedulerRunning,
   getLastRefreshStatus,
   triggerManualRefresh,
+  type TallyManualRefreshResult,
 } from "./scheduler";
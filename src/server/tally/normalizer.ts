@@ -27,6 +27,7 @@
  *                                              └────────────────┘
  */
 
+import type { Category } from "@/lib/categories";
 import type { ParsedItem } from "@/server/parsers/types";
 import type { RawTallyStockItem } from "./types";
 import { RawTallyStockItemSchema } from "./types";
@@ -70,11 +71,22 @@ export function normalizeTallyRowToItem(row: RawTallyStockItem): ParsedItem {
     }
   }
 
+  // Cost rate: CLOSINGRATE when Tally sends it, otherwise derived from the closing value
+  let rate: number | null = null;
+  if (row.closingRate != null && Number.isFinite(row.closingRate) && row.closingRate > 0) {
+    rate = row.closingRate;
+  } else if (row.closingValue != null && qty) {
+    const derived = Math.abs(row.closingValue / qty);
+    rate = Number.isFinite(derived) && derived > 0 ? derived : null;
+  }
+
   return {
     name,
     brand,
+    category: brand,
     qty,
     unit,
+    rate,
   };
 }
 
@@ -87,11 +99,17 @@ export function normalizeTallyRowToItem(row: RawTallyStockItem): ParsedItem {
  * - Removes total/subtotal rows
  * - Removes items with null quantities
  *
+ * The item's parent group is its category. With the company's stock group tree,
+ * the brand is that group's top-level ancestor (Brand > Category > Sub-category);
+ * without it, the parent group is also the brand.
+ *
  * @param rawItems - Array of raw Tally stock items
+ * @param stockGroups - Optional stock group tree (see TallyClient.listStockGroups)
  * @returns Array of normalized ParsedItems ready for DB sync
  */
-export function normalizeTallyItems(rawItems: RawTallyStockItem[]): ParsedItem[] {
+export function normalizeTallyItems(rawItems: RawTallyStockItem[], stockGroups?: Category[]): ParsedItem[] {
   const validItems: ParsedItem[] = [];
+  const parents = new Map((stockGroups ?? []).map((g) => [g.name, g.parent]));
 
   for (const raw of rawItems) {
     // Validate raw item structure
@@ -122,6 +140,9 @@ export function normalizeTallyItems(rawItems: RawTallyStockItem[]): ParsedItem[]
       // For consistency with Excel flow which requires currentBrand, skip items without brand
       continue;
     }
+    if (item.category && parents.has(item.category)) {
+      item.brand = topLevelGroup(item.category, parents);
+    }
 
     validItems.push(item);
   }
@@ -129,6 +150,21 @@ export function normalizeTallyItems(rawItems: RawTallyStockItem[]): ParsedItem[]
   return validItems;
 }
 
+/**
+ * Walks up the stock group tree to the group directly under Primary.
+ */
+function topLevelGroup(name: string, parents: ReadonlyMap<string, string | null>): string {
+  let current = name;
+  const seen = new Set([current]);
+  let parent = parents.get(current);
+  while (parent && !seen.has(parent)) {
+    current = parent;
+    seen.add(current);
+    parent = parents.get(current);
+  }
+  return current;
+}
+
 /**
  * Groups raw Tally items by their parent (brand) for debugging/analysis.
  */
@@ -9,9 +9,25 @@
  *
  * The result is identical to what would happen if the user uploaded
  * an Excel file - same data shape, same validation, same DB operations.
+ *
+ * With several godowns configured (TALLY_GODOWNS), each one is fetched and the
+ * items are merged: the product quantity is the sum and every item keeps its
+ * per-godown breakdown in `locations`.
+ *
+ * The company's stock group tree is fetched first and stored as its categories:
+ * each item is filed under its own group, and its brand is the top-level group.
+ *
+ * refreshAllCompanies() runs this for every active company in the registry,
+ * each into its own set of products.
  */
 
+import { DEFAULT_COMPANY_ID } from "@/lib/companies";
+import { configuredGodowns, getCompany, listCompanies } from "@/server/companies";
+import { db } from "@/server/db";
 import { syncParsedItems } from "@/server/importer";
+import type { ImportMode } from "@/server/db/types";
+import type { ParsedItem } from "@/server/parsers/types";
+import { nameKeyFromName } from "@/server/parsers/common";
 import {
   getDefaultTallyClient,
   DEFAULT_TALLY_COMPANY,
@@ -34,9 +50,11 @@ export type TallyRefreshResult = {
   error?: string;
   /** Source identifier */
   source: "tally";
+  /** Registry id the products were stored under */
+  companyId: string;
   /** Company name used */
   company: string;
-  /** Godown name used */
+  /** Godown name used (comma-separated when several were synced) */
   godown: string;
   /** Number of items fetched from Tally */
   fetchedCount: number;
@@ -44,6 +62,8 @@ export type TallyRefreshResult = {
   parsedCount: number;
   /** Number of items upserted to database */
   upsertedCount: number;
+  /** Number of products flagged as removed (snapshot mode only) */
+  removedCount?: number;
   /** Number of invalid items skipped */
   invalidCount: number;
   /** Timestamp when fetch started */
@@ -52,6 +72,8 @@ export type TallyRefreshResult = {
   completedAt: number;
   /** Duration in milliseconds */
   durationMs: number;
+  /** ID of the persisted import_runs record (set once the DB sync starts) */
+  importRunId?: string;
 };
 
 // ============================================================================
@@ -65,7 +87,8 @@ export type TallyRefreshResult = {
  * It fetches data from Tally, normalizes it to the same format as Excel
  * imports, and syncs to the database.
  *
- * @param options - Optional overrides for company/godown names
+ * @param options - Optional overrides for company/godown names, plus who triggered the refresh.
+ *   `godowns` takes precedence over `godown`.
  * @returns TallyRefreshResult with operation details
  *
  * @example
@@ -79,8 +102,12 @@ export type TallyRefreshResult = {
  * ```
  */
 export async function refreshFromTally(options?: {
+  companyId?: string;
   company?: string;
   godown?: string;
+  godowns?: string[];
+  triggeredBy?: string | null;
+  mode?: ImportMode;
 }): Promise<TallyRefreshResult> {
   const startedAt = Date.now();
 
@@ -88,35 +115,56 @@ export async function refreshFromTally(options?: {
   const company = options?.company ??
     process.env.TALLY_COMPANY ??
     DEFAULT_TALLY_COMPANY;
-  const godown = options?.godown ??
-    process.env.TALLY_GODOWN ??
-    DEFAULT_TALLY_GODOWN;
+  const godowns = resolveTallyGodowns(options);
+  const godown = godowns.join(", ");
+  const companyId = options?.companyId ?? DEFAULT_COMPANY_ID;
 
   console.log(`[TallyRefresh] Starting refresh from Tally...`);
   console.log(`[TallyRefresh] Company: ${company}`);
-  console.log(`[TallyRefresh] Godown: ${godown}`);
+  console.log(`[TallyRefresh] Godown: ${godown || "(company-wide)"}`);
 
   try {
-    // Step 1: Fetch from Tally
+    // Step 1: Fetch from Tally, one request per godown. A failed godown fails the
+    // whole refresh so a partial sum is never stored as the total.
     const client = getDefaultTallyClient();
-    const fetchResult: TallyFetchResult = await client.fetchGodownStock({
-      company,
-      godown,
-    });
 
-    if (!fetchResult.success) {
-      return createErrorResult(
-        `Tally fetch failed: ${fetchResult.error}`,
-        company,
-        godown,
-        startedAt
-      );
+    // The group tree is optional: without it the sync still runs, with brands guessed from the rows.
+    const groupsResult = await client.listStockGroups(company);
+    if (!groupsResult.success) {
+      console.warn(`[TallyRefresh] Stock groups unavailable, brands will be guessed: ${groupsResult.error}`);
     }
+    const stockGroups = groupsResult.groups;
 
-    console.log(`[TallyRefresh] Fetched ${fetchResult.count} raw items from Tally`);
+    const perGodown: Array<{ godown: string; items: ParsedItem[] }> = [];
+    let fetchedCount = 0;
+    for (const name of godowns) {
+      const fetchResult: TallyFetchResult = await client.fetchGodownStock({
+        company,
+        godown: name,
+        stockGroups: stockGroups.map((g) => g.name),
+      });
+
+      if (!fetchResult.success) {
+        return createErrorResult(
+          godowns.length > 1
+            ? `Tally fetch failed for ${name}: ${fetchResult.error}`
+            : `Tally fetch failed: ${fetchResult.error}`,
+          companyId,
+          company,
+          godown,
+          startedAt,
+          fetchedCount
+        );
+      }
+
+      console.log(`[TallyRefresh] Fetched ${fetchResult.count} raw items from ${name || "Tally"}`);
+      fetchedCount += fetchResult.count;
 
-    // Step 2: Normalize to ParsedItem[] (same format as Excel)
-    const normalizedItems = normalizeTallyItems(fetchResult.items);
+      // Step 2: Normalize to ParsedItem[] (same format as Excel)
+      perGodown.push({ godown: name, items: normalizeTallyItems(fetchResult.items, stockGroups) });
+    }
+
+    const normalizedItems = mergeGodownItems(perGodown);
 
     console.log(`[TallyRefresh] Normalized to ${normalizedItems.length} valid items`);
 
@@ -132,30 +180,43 @@ export async function refreshFromTally(options?: {
     if (normalizedItems.length === 0) {
       return createErrorResult(
         "No valid items after normalization. Check Tally data and godown name.",
+        companyId,
         company,
         godown,
         startedAt,
-        fetchResult.count
+        fetchedCount
       );
     }
 
     // Step 5: Sync to database using SAME function as Excel import
     // This is the key to maintaining schema compatibility
-    const syncResult = await syncParsedItems(normalizedItems);
+    const syncResult = await syncParsedItems(normalizedItems, {
+      source: "tally",
+      companyId,
+      company,
+      godown,
+      triggeredBy: options?.triggeredBy ?? null,
+      mode: options?.mode,
+      startedAt,
+    });
+    if (stockGroups.length) await db.replaceCategories(companyId, stockGroups);
 
     const completedAt = Date.now();
     const result: TallyRefreshResult = {
       success: true,
       source: "tally",
+      companyId,
       company,
       godown,
-      fetchedCount: fetchResult.count,
+      fetchedCount,
       parsedCount: normalizedItems.length,
       upsertedCount: syncResult.upserted,
-      invalidCount: fetchResult.count - normalizedItems.length,
+      removedCount: syncResult.removedCount,
+      invalidCount: fetchedCount - perGodown.reduce((sum, g) => sum + g.items.length, 0),
       startedAt,
       completedAt,
       durationMs: completedAt - startedAt,
+      importRunId: syncResult.importRunId,
     };
 
     console.log(`[TallyRefresh] ✓ Completed successfully`);
@@ -169,8 +230,84 @@ export async function refreshFromTally(options?: {
     const message = error instanceof Error ? error.message : String(error);
     console.error(`[TallyRefresh] Error:`, error);
 
-    return createErrorResult(message, company, godown, startedAt);
+    return createErrorResult(message, companyId, company, godown, startedAt);
+  }
+}
+
+/**
+ * Refreshes one registry company with its Tally name and godowns (no godowns
+ * means company-wide stock).
+ */
+export async function refreshCompany(
+  companyId: string,
+  options?: { triggeredBy?: string | null; mode?: ImportMode }
+): Promise<TallyRefreshResult> {
+  const company = await getCompany(companyId);
+  if (!company) {
+    return createErrorResult(`Unknown company "${companyId}"`, companyId, "", "", Date.now());
+  }
+
+  return refreshFromTally({
+    ...options,
+    companyId: company.id,
+    company: company.tallyCompany,
+    ...(company.godowns.length ? { godowns: company.godowns } : { godown: "" }),
+  });
+}
+
+/**
+ * Refreshes every active company, one after another. A failed company does
+ * not stop the others.
+ */
+export async function refreshAllCompanies(options?: {
+  triggeredBy?: string | null;
+  mode?: ImportMode;
+}): Promise<TallyRefreshResult[]> {
+  const companies = (await listCompanies()).filter((c) => c.active);
+  const results: TallyRefreshResult[] = [];
+  for (const company of companies) {
+    results.push(await refreshCompany(company.id, options));
+  }
+  return results;
+}
+
+/**
+ * Godowns to sync: `options.godowns`, then `options.godown`, then the
+ * environment (see configuredGodowns). A single empty name means company-wide stock.
+ */
+function resolveTallyGodowns(options?: { godown?: string; godowns?: string[] }): string[] {
+  if (options?.godowns?.length) return Array.from(new Set(options.godowns.map((g) => g.trim()).filter(Boolean)));
+  if (options?.godown != null) return [options.godown.trim()];
+  return configuredGodowns();
+}
+
+/**
+ * Merges per-godown items into one item per product. Known quantities are summed;
+ * the total stays null (unknown) only when no godown reports one. Each godown's
+ * quantity is kept in `locations`; the company-wide fetch ("") has no breakdown.
+ */
+function mergeGodownItems(perGodown: Array<{ godown: string; items: ParsedItem[] }>): ParsedItem[] {
+  const merged = new Map<string, ParsedItem>();
+
+  for (const { godown, items } of perGodown) {
+    for (const item of items) {
+      const key = nameKeyFromName(item.name);
+      const existing = merged.get(key);
+      const location = godown ? [{ godown, qty: item.qty }] : undefined;
+      if (!existing) {
+        merged.set(key, { ...item, locations: location });
+        continue;
+      }
+      if (item.qty != null) existing.qty = (existing.qty ?? 0) + item.qty;
+      existing.brand ??= item.brand;
+      existing.category ??= item.category;
+      existing.unit ??= item.unit;
+      existing.rate ??= item.rate;
+      if (location) existing.locations = [...(existing.locations ?? []), ...location];
+    }
   }
+
+  return Array.from(merged.values());
 }
 
 /**
@@ -178,6 +315,7 @@ export async function refreshFromTally(options?: {
  */
 function createErrorResult(
   error: string,
+  companyId: string,
   company: string,
   godown: string,
   startedAt: number,
@@ -188,6 +326,7 @@ function createErrorResult(
     success: false,
     error,
     source: "tally",
+    companyId,
     company,
     godown,
     fetchedCount,
@@ -260,7 +399,8 @@ export async function previewTallyData(options?: {
 
   try {
     const client = getDefaultTallyClient();
-    const fetchResult = await client.fetchGodownStock({ company, godown });
+    const { groups } = await client.listStockGroups(company);
+    const fetchResult = await client.fetchGodownStock({ company, godown, stockGroups: groups.map((g) => g.name) });
 
     if (!fetchResult.success) {
       return {
@@ -272,7 +412,7 @@ export async function previewTallyData(options?: {
       };
     }
 
-    const normalized = normalizeTallyItems(fetchResult.items);
+    const normalized = normalizeTallyItems(fetchResult.items, groups);
 
     // Count items by brand
     const byBrand: Record<string, number> = {};
@@ -7,7 +7,7 @@
  * ## How it works
  *
  * 1. On server startup, the scheduler is initialized
- * 2. Every hour, it calls refreshFromTally()
+ * 2. Every hour, it calls refreshAllCompanies() (each active company in the registry)
  * 3. Results are logged and stored for monitoring
  * 4. Errors are caught and logged, never crashing the server
  *
@@ -36,7 +36,21 @@
  * ```
  */
 
-import { refreshFromTally, type TallyRefreshResult } from "./refresh";
+import type { ImportMode } from "@/server/db/types";
+import { refreshAllCompanies, refreshCompany, type TallyRefreshResult } from "./refresh";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of a refresh run through the scheduler's lock. A run that could not
+ * start (another refresh holds the lock) or crashed says so instead of
+ * returning stale or empty results.
+ */
+export type TallyManualRefreshResult =
+  | { ok: true; results: TallyRefreshResult[] }
+  | { ok: false; status: 409 | 500; error: string };
 
 // ============================================================================
 // STATE
@@ -48,8 +62,8 @@ let schedulerInterval: NodeJS.Timeout | null = null;
 /** Whether scheduler is currently running */
 let isRunning = false;
 
-/** Last refresh result for monitoring */
-let lastRefreshResult: TallyRefreshResult | null = null;
+/** Last refresh results (one per active company) for monitoring */
+let lastRefreshResults: TallyRefreshResult[] = [];
 
 /** Last refresh error for monitoring */
 let lastRefreshError: string | null = null;
@@ -87,7 +101,7 @@ function getSchedulerConfig(): {
  * Starts the Tally refresh scheduler.
  *
  * This should be called once during server initialization.
- * It will schedule refreshFromTally() to run at the configured interval.
+ * It will schedule refreshAllCompanies() to run at the configured interval.
  *
  * Safe to call multiple times - will not create duplicate intervals.
  *
@@ -157,17 +171,17 @@ export function isTallySchedulerRunning(): boolean {
 /**
  * Gets the last refresh status for monitoring.
  *
- * @returns Last refresh result, error, and scheduler status
+ * @returns Last refresh results, error, and scheduler status
  */
 export function getLastRefreshStatus(): {
   schedulerRunning: boolean;
-  lastResult: TallyRefreshResult | null;
+  lastResults: TallyRefreshResult[];
   lastError: string | null;
   isRefreshing: boolean;
 } {
   return {
     schedulerRunning: isRunning,
-    lastResult: lastRefreshResult,
+    lastResults: lastRefreshResults,
     lastError: lastRefreshError,
     isRefreshing,
   };
@@ -181,11 +195,18 @@ export function getLastRefreshStatus(): {
  * - Admin tools
  * - Testing
  *
- * @returns Refresh result
+ * Shares the scheduler's lock, so it never overlaps a scheduled run.
+ *
+ * @param options - `companyId` refreshes just that company; `triggeredBy` defaults to "manual"
+ * @returns One refresh result per refreshed company, or why the refresh did not run
  */
-export async function triggerManualRefresh(): Promise<TallyRefreshResult> {
+export async function triggerManualRefresh(options?: {
+  companyId?: string;
+  triggeredBy?: string | null;
+  mode?: ImportMode;
+}): Promise<TallyManualRefreshResult> {
   console.log("[TallyScheduler] Manual refresh triggered");
-  return executeRefresh();
+  return executeRefresh({ ...options, triggeredBy: options?.triggeredBy === undefined ? "manual" : options.triggeredBy });
 }
 
 // ============================================================================
@@ -199,25 +220,17 @@ export async function triggerManualRefresh(): Promise<TallyRefreshResult> {
  * - Preventing concurrent refreshes
  * - Error catching and logging
  * - Storing results for monitoring
+ *
+ * @param options - `triggeredBy` is recorded on the import run ("scheduler" by default);
+ *   `companyId` limits the run to one company
  */
-async function executeRefresh(): Promise<TallyRefreshResult> {
+async function executeRefresh(
+  options: { companyId?: string; triggeredBy?: string | null; mode?: ImportMode } = {}
+): Promise<TallyManualRefreshResult> {
   // Prevent concurrent refreshes
   if (isRefreshing) {
     console.log("[TallyScheduler] Refresh already in progress, skipping");
-    return lastRefreshResult ?? {
-      success: false,
-      error: "Refresh already in progress",
-      source: "tally",
-      company: "",
-      godown: "",
-      fetchedCount: 0,
-      parsedCount: 0,
-      upsertedCount: 0,
-      invalidCount: 0,
-      startedAt: Date.now(),
-      completedAt: Date.now(),
-      durationMs: 0,
-    };
+    return { ok: false, status: 409, error: "A Tally refresh is already in progress." };
   }
 
   isRefreshing = true;
@@ -225,39 +238,35 @@ async function executeRefresh(): Promise<TallyRefreshResult> {
 
   try {
     console.log("[TallyScheduler] Executing scheduled refresh...");
-    const result = await refreshFromTally();
-
-    lastRefreshResult = result;
-
-    if (result.success) {
-      console.log(`[TallyScheduler] ✓ Refresh completed: ${result.upsertedCount} items synced`);
-    } else {
-      console.error(`[TallyScheduler] ✗ Refresh failed: ${result.error}`);
-      lastRefreshError = result.error ?? "Unknown error";
+    const refreshOptions = {
+      triggeredBy: options.triggeredBy === undefined ? "scheduler" : options.triggeredBy,
+      mode: options.mode,
+    };
+    const results = options.companyId
+      ? [await refreshCompany(options.companyId, refreshOptions)]
+      : await refreshAllCompanies(refreshOptions);
+
+    // A single-company run only replaces that company's entry.
+    lastRefreshResults = options.companyId
+      ? [...lastRefreshResults.filter((r) => r.companyId !== options.companyId), ...results]
+      : results;
+
+    for (const result of results) {
+      if (result.success) {
+        console.log(`[TallyScheduler] ✓ ${result.company}: ${result.upsertedCount} items synced`);
+      } else {
+        console.error(`[TallyScheduler] ✗ ${result.company || result.companyId}: ${result.error}`);
+        lastRefreshError ??= result.error ?? "Unknown error";
+      }
     }
 
-    return result;
+    return { ok: true, results };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error("[TallyScheduler] ✗ Refresh error:", message);
 
     lastRefreshError = message;
-    lastRefreshResult = {
-      success: false,
-      error: message,
-      source: "tally",
-      company: process.env.TALLY_COMPANY ?? "",
-      godown: process.env.TALLY_GODOWN ?? "",
-      fetchedCount: 0,
-      parsedCount: 0,
-      upsertedCount: 0,
-      invalidCount: 0,
-      startedAt: Date.now(),
-      completedAt: Date.now(),
-      durationMs: 0,
-    };
-
-    return lastRefreshResult;
+    return { ok: false, status: 500, error: message };
   } finally {
     isRefreshing = false;
   }
@@ -7,6 +7,7 @@
  */
 
 import { z } from "zod";
+import type { Category } from "@/lib/categories";
 
 // ============================================================================
 // RAW TALLY RESPONSE TYPES
@@ -57,6 +58,11 @@ export const RawTallyStockArraySchema = z.array(RawTallyStockItemSchema);
 // TALLY CLIENT INTERFACE
 // ============================================================================
 
+/**
+ * Sends an XML request to Tally and resolves with the raw response body.
+ */
+export type TallyTransport = (xmlBody: string) => Promise<string>;
+
 /**
  * Configuration for Tally HTTP API connection.
  */
@@ -67,6 +73,8 @@ export type TallyClientConfig = {
   port: number;
   /** Request timeout in milliseconds (default: 30000) */
   timeout: number;
+  /** Optional: replaces the HTTP call, e.g. to replay saved responses (see fixture-harness.ts) */
+  transport?: TallyTransport;
 };
 
 /**
@@ -75,10 +83,15 @@ export type TallyClientConfig = {
 export type FetchGodownStockOptions = {
   /** Company name in Tally (required) */
   company: string;
-  /** Godown name to fetch stock for (required) */
+  /** Godown name to fetch stock for; an empty string fetches company-wide closing balances */
   godown: string;
   /** Optional: fetch data as of a specific date (YYYYMMDD format) */
   asOfDate?: string;
+  /**
+   * Optional: the company's stock group names (see listStockGroups). The Godown Summary lists groups and
+   * items in one run of rows; with these, group rows are told apart by name instead of guessed from it.
+   */
+  stockGroups?: string[];
 };
 
 /**
@@ -97,6 +110,30 @@ export type TallyFetchResult = {
   fetchedAt: number;
 };
 
+/**
+ * Result from a Tally name lookup (companies or godowns).
+ */
+export type TallyListResult = {
+  /** Whether Tally answered without an error */
+  success: boolean;
+  /** Names exactly as Tally expects them back, sorted */
+  names: string[];
+  /** Error message on failure */
+  error?: string;
+};
+
+/**
+ * Result from a Tally stock group lookup.
+ */
+export type TallyStockGroupResult = {
+  /** Whether Tally answered without an error */
+  success: boolean;
+  /** Every stock group with its parent group; top-level groups (under Primary) have a null parent */
+  groups: Category[];
+  /** Error message on failure */
+  error?: string;
+};
+
 /**
  * Tally client interface for fetching stock data.
  */
@@ -107,6 +144,21 @@ export interface TallyClient {
    */
   fetchGodownStock(options: FetchGodownStockOptions): Promise<TallyFetchResult>;
 
+  /**
+   * List the companies loaded in Tally (valid SVCURRENTCOMPANY values).
+   */
+  listCompanies(): Promise<TallyListResult>;
+
+  /**
+   * List the godowns of a company (valid GODOWNNAME values).
+   */
+  listGodowns(company: string): Promise<TallyListResult>;
+
+  /**
+   * List the stock group tree of a company (e.g. Brand > Category > Sub-category).
+   */
+  listStockGroups(company: string): Promise<TallyStockGroupResult>;
+
   /**
    * Test connection to Tally server.
    * Returns true if Tally is reachable and responding.
@@ -39,6 +39,9 @@ export function escapeXml(str: string): string {
  * - PARENT element: Stock group (brand)
  * - BASEUNITS element: Unit of measure
  * - CLOSINGBALANCE element: Quantity with unit suffix (e.g., " 3 nos")
+ * - CLOSINGRATE / CLOSINGVALUE elements: Valuation rate (e.g., "1250.00/nos") and amount, used as cost
+ *
+ * Balances are company-wide (all godowns); options.godown is not applied here.
  *
  * @param options - Company to fetch stock for
  * @returns XML request string
@@ -67,6 +70,8 @@ export function buildStockItemCollectionRequest(options: FetchGodownStockOptions
 <NATIVEMETHOD>Parent</NATIVEMETHOD>
 <NATIVEMETHOD>BaseUnits</NATIVEMETHOD>
 <NATIVEMETHOD>ClosingBalance</NATIVEMETHOD>
+<NATIVEMETHOD>ClosingRate</NATIVEMETHOD>
+<NATIVEMETHOD>ClosingValue</NATIVEMETHOD>
 </COLLECTION>
 </TDLMESSAGE>
 </TDL>
@@ -75,12 +80,163 @@ export function buildStockItemCollectionRequest(options: FetchGodownStockOptions
 </ENVELOPE>`;
 }
 
+// ============================================================================
+// GODOWN STOCK REQUEST
+// ============================================================================
+
 /**
- * Alias for the primary stock request function.
- * Used by the client for consistency.
+ * Creates XML request to fetch the Godown Summary report for ONE godown.
+ *
+ * The Stock Item collection above always returns company-wide closing balances,
+ * whatever godown is asked for. The Godown Summary report is what the manual
+ * GdwnSum.xml/.xlsx exports are made from, so its quantities match an upload:
+ * - GODOWNNAME variable: Godown to report on
+ * - EXPLODEFLAG: List stock items under each stock group, not only group totals
+ * - SVTODATE: Closing balances as of asOfDate (defaults to Tally's current date)
+ *
+ * The response is a flat DSPACCNAME / DSPSTKINFO row list; see
+ * parseTallyGodownSummaryResponse() in xml-parser.ts.
+ *
+ * @param options - Company and godown to fetch stock for
+ * @returns XML request string
  */
 export function buildGodownStockRequest(options: FetchGodownStockOptions): string {
-  return buildStockItemCollectionRequest(options);
+  const { company, godown, asOfDate } = options;
+
+  return `<ENVELOPE>
+<HEADER>
+<VERSION>1</VERSION>
+<TALLYREQUEST>Export</TALLYREQUEST>
+<TYPE>Data</TYPE>
+<ID>Godown Summary</ID>
+</HEADER>
+<BODY>
+<DESC>
+<STATICVARIABLES>
+<SVCURRENTCOMPANY>${escapeXml(company)}</SVCURRENTCOMPANY>
+<SVEXPORTFORMAT>$$SysName:XML</SVEXPORTFORMAT>
+<GODOWNNAME>${escapeXml(godown)}</GODOWNNAME>
+<EXPLODEFLAG>Yes</EXPLODEFLAG>${asOfDate ? `\n<SVTODATE>${escapeXml(asOfDate)}</SVTODATE>` : ""}
+</STATICVARIABLES>
+</DESC>
+</BODY>
+</ENVELOPE>`;
+}
+
+// ============================================================================
+// SETUP LOOKUP REQUESTS
+// ============================================================================
+
+/**
+ * Creates XML request to list the companies loaded in Tally.
+ *
+ * The names returned are the exact SVCURRENTCOMPANY values the other requests
+ * need (including the financial-year suffix, e.g. "... - 22/23"). No company is
+ * selected, so this works before one has been configured.
+ *
+ * @returns XML request string
+ */
+export function buildCompanyListRequest(): string {
+  return `<ENVELOPE>
+<HEADER>
+<VERSION>1</VERSION>
+<TALLYREQUEST>Export</TALLYREQUEST>
+<TYPE>Collection</TYPE>
+<ID>CompanyList</ID>
+</HEADER>
+<BODY>
+<DESC>
+<STATICVARIABLES>
+<SVEXPORTFORMAT>$$SysName:XML</SVEXPORTFORMAT>
+</STATICVARIABLES>
+<TDL>
+<TDLMESSAGE>
+<COLLECTION NAME="CompanyList" ISMODIFY="No" ISINITIALIZE="Yes">
+<TYPE>Company</TYPE>
+<NATIVEMETHOD>Name</NATIVEMETHOD>
+</COLLECTION>
+</TDLMESSAGE>
+</TDL>
+</DESC>
+</BODY>
+</ENVELOPE>`;
+}
+
+/**
+ * Creates XML request to list the godowns of one company.
+ *
+ * Returns GODOWN elements whose NAME attribute is the GODOWNNAME value the
+ * Godown Summary request needs.
+ *
+ * @param company - Company name in Tally
+ * @returns XML request string
+ */
+export function buildGodownListRequest(company: string): string {
+  return `<ENVELOPE>
+<HEADER>
+<VERSION>1</VERSION>
+<TALLYREQUEST>Export</TALLYREQUEST>
+<TYPE>Collection</TYPE>
+<ID>GodownList</ID>
+</HEADER>
+<BODY>
+<DESC>
+<STATICVARIABLES>
+<SVCURRENTCOMPANY>${escapeXml(company)}</SVCURRENTCOMPANY>
+<SVEXPORTFORMAT>$$SysName:XML</SVEXPORTFORMAT>
+</STATICVARIABLES>
+<TDL>
+<TDLMESSAGE>
+<COLLECTION NAME="GodownList" ISMODIFY="No" ISINITIALIZE="Yes">
+<TYPE>Godown</TYPE>
+<NATIVEMETHOD>Name</NATIVEMETHOD>
+</COLLECTION>
+</TDLMESSAGE>
+</TDL>
+</DESC>
+</BODY>
+</ENVELOPE>`;
+}
+
+/**
+ * Creates XML request to list the stock groups of one company.
+ *
+ * Returns STOCKGROUP elements with:
+ * - NAME attribute: Group name (the PARENT of the stock items filed under it)
+ * - PARENT element: Parent group; blank (or "Primary") for a top-level group
+ *
+ * Groups nest, e.g. Brand > Category > Sub-category, so this is the tree the
+ * flat stock item lists only show one level of.
+ *
+ * @param company - Company name in Tally
+ * @returns XML request string
+ */
+export function buildStockGroupListRequest(company: string): string {
+  return `<ENVELOPE>
+<HEADER>
+<VERSION>1</VERSION>
+<TALLYREQUEST>Export</TALLYREQUEST>
+<TYPE>Collection</TYPE>
+<ID>StockGroupList</ID>
+</HEADER>
+<BODY>
+<DESC>
+<STATICVARIABLES>
+<SVCURRENTCOMPANY>${escapeXml(company)}</SVCURRENTCOMPANY>
+<SVEXPORTFORMAT>$$SysName:XML</SVEXPORTFORMAT>
+</STATICVARIABLES>
+<TDL>
+<TDLMESSAGE>
+<COLLECTION NAME="StockGroupList" ISMODIFY="No" ISINITIALIZE="Yes">
+<TYPE>Stock Group</TYPE>
+<NATIVEMETHOD>Name</NATIVEMETHOD>
+<NATIVEMETHOD>Parent</NATIVEMETHOD>
+</COLLECTION>
+</TDLMESSAGE>
+</TDL>
+</DESC>
+</BODY>
+</ENVELOPE>`;
 }
 
 // ============================================================================
@@ -10,13 +10,19 @@
  *     <PARENT TYPE="String">Brand Name</PARENT>
  *     <BASEUNITS TYPE="String">nos</BASEUNITS>
  *     <CLOSINGBALANCE TYPE="Quantity"> 3 nos</CLOSINGBALANCE>
+ *     <CLOSINGRATE TYPE="Rate">1250.00/nos</CLOSINGRATE>
+ *     <CLOSINGVALUE TYPE="Amount">-3750.00</CLOSINGVALUE>
  *   </STOCKITEM>
  * </COLLECTION>
  * ```
+ *
+ * Godown-scoped syncs use the Godown Summary report instead, parsed by
+ * parseTallyGodownSummaryResponse().
  */
 
 import { XMLParser } from "fast-xml-parser";
-import { normalizeWhitespace } from "@/server/parsers/common";
+import { looksLikeBrandHeader, normalizeWhitespace, shouldIgnoreRowName } from "@/server/parsers/common";
+import type { Category } from "@/lib/categories";
 import type { RawTallyStockItem } from "./types";
 
 // ============================================================================
@@ -55,6 +61,7 @@ const xmlParser = new XMLParser({
  * - PARENT element: Stock group (brand)
  * - BASEUNITS element: Unit of measure
  * - CLOSINGBALANCE element: Quantity with unit suffix (e.g., " 3 nos")
+ * - CLOSINGRATE / CLOSINGVALUE elements: Valuation rate per unit and total amount
  *
  * @param xmlText - Raw XML response from Tally
  * @returns Array of parsed stock items
@@ -98,6 +105,132 @@ export function parseTallyStockResponse(xmlText: string): RawTallyStockItem[] {
   }
 }
 
+// ============================================================================
+// GODOWN SUMMARY PARSER
+// ============================================================================
+
+/**
+ * Report rows are only meaningful in document order (a stock group row, then its
+ * items), so this parser keeps it: every element is a { TAG: children[] } entry.
+ */
+const orderedXmlParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: true,
+  trimValues: true,
+  parseTagValue: false,
+});
+
+/**
+ * Parses the Godown Summary report for one godown (see buildGodownStockRequest).
+ *
+ * Expected structure:
+ * ```
+ * ENVELOPE > (DSPACCNAME > DSPDISPNAME, DSPSTKINFO > DSPSTKCL > DSPCLQTY | DSPCLRATE | DSPCLAMTA)[]
+ * ```
+ *
+ * The report has no PARENT element: stock group rows come before their items and
+ * their group becomes the parent of the items that follow. Given the company's
+ * stock group names (see parseTallyStockGroupResponse), a row is a group row when
+ * its name is one of them; without them, group rows are guessed by name as in the
+ * XML/XLSX upload parsers. A blank DSPCLQTY is zero stock in that godown.
+ *
+ * @param xmlText - Raw XML response from Tally
+ * @param stockGroups - Optional stock group names
+ * @returns Array of parsed stock items with godown quantities
+ */
+export function parseTallyGodownSummaryResponse(
+  xmlText: string,
+  stockGroups?: ReadonlySet<string>
+): RawTallyStockItem[] {
+  if (!xmlText || !xmlText.trim()) {
+    console.warn("[Tally Parser] Empty response received");
+    return [];
+  }
+
+  try {
+    const rows = orderedChildren(orderedXmlParser.parse(xmlText), "ENVELOPE");
+    if (!rows) {
+      console.warn("[Tally Parser] No ENVELOPE element found in report response");
+      return [];
+    }
+
+    const results: RawTallyStockItem[] = [];
+    let currentGroup: string | null = null;
+    let pendingName: string | null = null;
+
+    for (const row of rows) {
+      const name = orderedText([row], ["DSPACCNAME", "DSPDISPNAME"]);
+      if (name) {
+        pendingName = name;
+        continue;
+      }
+
+      const stockInfo = orderedChildren([row], "DSPSTKINFO");
+      if (!stockInfo || !pendingName) continue;
+      const rowName = pendingName;
+      pendingName = null;
+
+      if (shouldIgnoreRowName(rowName)) continue;
+      if (stockGroups?.size ? stockGroups.has(rowName) : looksLikeBrandHeader(rowName)) {
+        currentGroup = rowName;
+        continue;
+      }
+
+      const { qty, unit } = parseClosingBalance(orderedText(stockInfo, ["DSPSTKCL", "DSPCLQTY"]));
+      results.push({
+        name: rowName,
+        parent: currentGroup,
+        closingQty: qty,
+        unit,
+        closingRate: parseAmount(orderedText(stockInfo, ["DSPSTKCL", "DSPCLRATE"])),
+        closingValue: parseAmount(orderedText(stockInfo, ["DSPSTKCL", "DSPCLAMTA"])),
+      });
+    }
+
+    console.log(`[Tally Parser] Parsed ${results.length} items from Godown Summary`);
+    return results;
+
+  } catch (error) {
+    console.error("[Tally Parser] Failed to parse report response:", error);
+    return [];
+  }
+}
+
+/**
+ * Returns the children of the first `tag` element in a preserveOrder node list.
+ */
+function orderedChildren(nodes: unknown, tag: string): unknown[] | null {
+  if (!Array.isArray(nodes)) return null;
+
+  for (const node of nodes) {
+    if (node && typeof node === "object" && tag in node) {
+      const children = (node as Record<string, unknown>)[tag];
+      return Array.isArray(children) ? children : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Follows `path` through a preserveOrder node list and returns the text found there.
+ */
+function orderedText(nodes: unknown[], path: string[]): string | null {
+  let current: unknown[] | null = nodes;
+  for (const tag of path) {
+    current = orderedChildren(current, tag);
+    if (!current) return null;
+  }
+
+  const text = current
+    .map((node) => {
+      const value = node && typeof node === "object" ? (node as Record<string, unknown>)["#text"] : null;
+      return typeof value === "string" ? value : "";
+    })
+    .join("");
+  return normalizeWhitespace(text) || null;
+}
+
 // ============================================================================
 // COLLECTION FINDER
 // ============================================================================
@@ -181,8 +314,8 @@ function parseStockItem(raw: unknown): RawTallyStockItem | null {
     parent,
     closingQty: qty,
     unit,
-    closingRate: null, // Not requested in current query
-    closingValue: null, // Not requested in current query
+    closingRate: parseAmount(extractElementText(item.CLOSINGRATE)),
+    closingValue: parseAmount(extractElementText(item.CLOSINGVALUE)),
   };
 }
 
@@ -282,6 +415,132 @@ function parseClosingBalance(value: string | null): { qty: number | null; unit:
   };
 }
 
+/**
+ * Parses CLOSINGRATE / CLOSINGVALUE text such as "1250.00/nos" or "-3750.00".
+ *
+ * Tally may write stock-in-hand amounts as debits (negative), so the sign is dropped.
+ * Empty means no valuation (e.g. zero stock) and yields null rather than 0.
+ */
+function parseAmount(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.replace(/,/g, "").match(/^[+-]?\s*\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const amount = Math.abs(parseFloat(match[0].replace(/\s/g, "")));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+// ============================================================================
+// SETUP LOOKUP PARSERS
+// ============================================================================
+
+/**
+ * Parses the company list (see buildCompanyListRequest).
+ *
+ * Expected structure:
+ * ```
+ * ENVELOPE > BODY > DATA > COLLECTION > COMPANY[@NAME]
+ * ```
+ *
+ * @param xmlText - Raw XML response from Tally
+ * @returns Company names, sorted
+ */
+export function parseTallyCompanyListResponse(xmlText: string): string[] {
+  return parseCollectionNames(xmlText, "COMPANY");
+}
+
+/**
+ * Parses the godown list (see buildGodownListRequest).
+ *
+ * Expected structure:
+ * ```
+ * ENVELOPE > BODY > DATA > COLLECTION > GODOWN[@NAME]
+ * ```
+ *
+ * @param xmlText - Raw XML response from Tally
+ * @returns Godown names, sorted
+ */
+export function parseTallyGodownListResponse(xmlText: string): string[] {
+  return parseCollectionNames(xmlText, "GODOWN");
+}
+
+/**
+ * Parses the stock group list (see buildStockGroupListRequest).
+ *
+ * Expected structure:
+ * ```
+ * ENVELOPE > BODY > DATA > COLLECTION > STOCKGROUP[@NAME] > PARENT
+ * ```
+ *
+ * A blank PARENT, or Tally's "Primary" root, becomes null.
+ *
+ * @param xmlText - Raw XML response from Tally
+ * @returns Stock groups with their parents, sorted by name
+ */
+export function parseTallyStockGroupResponse(xmlText: string): Category[] {
+  if (!xmlText || !xmlText.trim()) {
+    console.warn("[Tally Parser] Empty response received");
+    return [];
+  }
+
+  try {
+    const collection = findCollection(xmlParser.parse(xmlText));
+    if (!collection) {
+      console.warn("[Tally Parser] No COLLECTION element found in response");
+      return [];
+    }
+
+    const raw = collection.STOCKGROUP;
+    const entries = Array.isArray(raw) ? raw : raw ? [raw] : [];
+    const groups = new Map<string, string | null>();
+    for (const entry of entries) {
+      if (!entry || typeof entry !== "object") continue;
+      const group = entry as Record<string, unknown>;
+      const name = extractName(group);
+      if (!name) continue;
+      // Tally writes the root as "&#4; Primary".
+      const parent = extractElementText(group.PARENT);
+      const topLevel = !parent || parent === name || /^(?:&#\d+;|[^\p{L}\p{N}])*primary$/iu.test(parent);
+      groups.set(name, topLevel ? null : parent);
+    }
+
+    return Array.from(groups, ([name, parent]) => ({ name, parent })).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("[Tally Parser] Failed to parse response:", error);
+    return [];
+  }
+}
+
+/**
+ * Collects the distinct names of one element type in a COLLECTION response.
+ */
+function parseCollectionNames(xmlText: string, element: string): string[] {
+  if (!xmlText || !xmlText.trim()) {
+    console.warn("[Tally Parser] Empty response received");
+    return [];
+  }
+
+  try {
+    const collection = findCollection(xmlParser.parse(xmlText));
+    if (!collection) {
+      console.warn("[Tally Parser] No COLLECTION element found in response");
+      return [];
+    }
+
+    const raw = collection[element];
+    const entries = Array.isArray(raw) ? raw : raw ? [raw] : [];
+    const names = new Set<string>();
+    for (const entry of entries) {
+      if (!entry || typeof entry !== "object") continue;
+      const name = extractName(entry as Record<string, unknown>);
+      if (name) names.add(name);
+    }
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+  } catch (error) {
+    console.error("[Tally Parser] Failed to parse response:", error);
+    return [];
+  }
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================